@@ -1,20 +1,39 @@
 /**
  * @file Individual bookmark endpoints
- * @purpose Handles GET/PUT/DELETE /api/bookmarks/:id
- * @inputs Bookmark ID parameter and update data
+ * @purpose Handles GET/PUT/PATCH/DELETE /api/bookmarks/:id
+ * @inputs Bookmark ID parameter, replacement data, merge or JSON patches,
+ *         and delete options
  * @outputs Individual bookmark details, updated bookmarks, or deletion confirmation
- * @invariants All operations scoped to authenticated user via RLS
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             Reads carry an ETag and honour If-None-Match; PUT and DELETE
+ *             honour If-Match against the active bookmark, and the write
+ *             itself re-checks the version, so concurrent edits cannot both win.
+ *             Changing the URL to one already saved on another active
+ *             bookmark is refused with 409, as on create.
  * @spec SPEC-2026-12
  */
 
 import { Hono } from 'hono';
-import { validateBody } from '../../middleware/validation.js';
+import { requireScope } from '../../middleware/auth.js';
+import { validateBody, validateBodyByType, validateQuery } from '../../middleware/validation.js';
 import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
 import { BookmarkService } from '../../lib/bookmark-service.js';
+import { TrashService } from '../../lib/trash-service.js';
+import { DuplicateService, duplicateConflict } from '../../lib/duplicate-service.js';
+import { bookmarkEtag, jsonWithEtag } from '../../lib/etag.js';
+import { checkIfMatch, loadForWrite, preconditionError } from '../../lib/bookmark-preconditions.js';
+import { applyJsonPatch } from '../../lib/json-patch.js';
 import {
-  UpdateBookmarkSchema,
+  ReplaceBookmarkSchema,
+  PatchBookmarkSchema,
+  JsonPatchSchema,
   BookmarkParamsSchema,
-  type UpdateBookmark,
+  DeleteBookmarkQuerySchema,
+  type Bookmark,
+  type ReplaceBookmark,
+  type PatchBookmark,
+  type JsonPatchOperation,
+  type DeleteBookmarkQuery,
 } from '../../schemas/bookmark.js';
 import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
 import type { ValidationVariables } from '../../middleware/validation.js';
@@ -33,8 +52,25 @@ function validateId(id: string): string {
   return result.data.id;
 }
 
+// The fields a JSON Patch can change, as one document
+function editableFields(bookmark: Bookmark) {
+  return {
+    url: bookmark.url,
+    title: bookmark.title,
+    description: bookmark.description,
+    tags: bookmark.tags ?? [],
+    collection_ids: bookmark.collection_ids,
+  };
+}
+
+// The 409 body for an update whose new URL another active bookmark already has
+async function urlConflict(duplicates: DuplicateService, url: string | undefined) {
+  const existing = url === undefined ? null : await duplicates.findExisting(url).catch(() => null);
+  return duplicateConflict(existing);
+}
+
 // GET /api/bookmarks/:id - Get a specific bookmark
-app.get('/:id', async (c) => {
+app.get('/:id', requireScope('bookmarks:read'), async (c) => {
   const userId = c.get('userId');
 
   try {
@@ -49,7 +85,7 @@ app.get('/:id', async (c) => {
       return c.json({ error: 'Bookmark not found' }, 404);
     }
 
-    return c.json({ data: bookmark });
+    return jsonWithEtag(c, { data: bookmark }, await bookmarkEtag(bookmark));
   } catch (error) {
     if (error instanceof Error && error.message === 'Invalid ID format') {
       return c.json({ error: 'Invalid bookmark ID' }, 400);
@@ -58,51 +94,180 @@ app.get('/:id', async (c) => {
   }
 });
 
-// PUT /api/bookmarks/:id - Update a specific bookmark
-app.put('/:id', validateBody(UpdateBookmarkSchema), async (c) => {
-  const data = c.get('validatedBody') as UpdateBookmark;
+// PUT /api/bookmarks/:id - Replace a specific bookmark: optional fields that
+// are left out are cleared. Optionally only if it still matches the If-Match ETag
+app.put('/:id', requireScope('bookmarks:write'), validateBody(ReplaceBookmarkSchema), async (c) => {
+  const data = c.get('validatedBody') as ReplaceBookmark;
   const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
 
   try {
     const id = validateId(c.req.param('id'));
 
-    const supabase = createAuthenticatedSupabaseClient(c);
     const service = new BookmarkService(supabase, userId);
 
-    const bookmark = await service.updateBookmark(id, data);
+    const expectedUpdatedAt = await checkIfMatch(service, id, c.req.header('If-Match'));
+    const bookmark = await service.updateBookmark(id, data, expectedUpdatedAt);
 
     if (!bookmark) {
-      return c.json({ error: 'Bookmark not found' }, 404);
+      // A conditional update that found nothing lost a race with another write
+      return expectedUpdatedAt
+        ? c.json({ error: 'Bookmark has been modified' }, 412)
+        : c.json({ error: 'Bookmark not found' }, 404);
     }
 
+    c.header('ETag', await bookmarkEtag(bookmark));
     return c.json({ data: bookmark });
   } catch (error) {
     if (error instanceof Error && error.message === 'Invalid ID format') {
       return c.json({ error: 'Invalid bookmark ID' }, 400);
     }
+    const precondition = preconditionError(error);
+    if (precondition) {
+      return c.json({ error: precondition.error }, precondition.status);
+    }
+    if (error instanceof Error && error.message === 'Unknown collection') {
+      return c.json(
+        { error: 'Validation failed', details: { collection_ids: ['Unknown collection'] } },
+        400,
+      );
+    }
+    if (error instanceof Error && error.message === 'Bookmark already exists') {
+      return c.json(await urlConflict(new DuplicateService(supabase, userId), data.url), 409);
+    }
     return c.json({ error: 'Failed to update bookmark' }, 500);
   }
 });
 
-// DELETE /api/bookmarks/:id - Soft delete a specific bookmark
-app.delete('/:id', async (c) => {
-  const userId = c.get('userId');
+// PATCH /api/bookmarks/:id - Partially update a bookmark with a JSON Merge
+// Patch, where null clears a field, or with a JSON Patch, e.g. to add or
+// remove one tag. Honours If-Match like PUT. The write applies only to the
+// version the patch was checked against, so a concurrent edit is never lost.
+app.patch(
+  '/:id',
+  requireScope('bookmarks:write'),
+  validateBodyByType({
+    'application/merge-patch+json': PatchBookmarkSchema,
+    'application/json': PatchBookmarkSchema,
+    'application/json-patch+json': JsonPatchSchema,
+  }),
+  async (c) => {
+    const patch = c.get('validatedBody') as PatchBookmark | JsonPatchOperation[];
+    const userId = c.get('userId');
+    const supabase = createAuthenticatedSupabaseClient(c);
+    let changes: PatchBookmark = {};
 
-  try {
-    const id = validateId(c.req.param('id'));
+    try {
+      const id = validateId(c.req.param('id'));
 
-    const supabase = createAuthenticatedSupabaseClient(c);
-    const service = new BookmarkService(supabase, userId);
+      const service = new BookmarkService(supabase, userId);
 
-    await service.deleteBookmark(id);
+      const ifMatch = c.req.header('If-Match');
+      const current = await loadForWrite(service, id, ifMatch);
 
-    return c.body(null, 204);
-  } catch (error) {
-    if (error instanceof Error && error.message === 'Invalid ID format') {
-      return c.json({ error: 'Invalid bookmark ID' }, 400);
+      if (!Array.isArray(patch)) {
+        changes = patch;
+      } else {
+        const result = ReplaceBookmarkSchema.strict().safeParse(
+          applyJsonPatch(editableFields(current), patch),
+        );
+        if (!result.success) {
+          return c.json(
+            { error: 'Validation failed', details: result.error.flatten().fieldErrors },
+            400,
+          );
+        }
+        changes = result.data;
+      }
+
+      const bookmark = await service.updateBookmark(id, changes, current.updated_at);
+
+      if (!bookmark) {
+        return c.json({ error: 'Bookmark has been modified' }, ifMatch === undefined ? 409 : 412);
+      }
+
+      c.header('ETag', await bookmarkEtag(bookmark));
+      return c.json({ data: bookmark });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid ID format') {
+        return c.json({ error: 'Invalid bookmark ID' }, 400);
+      }
+      const precondition = preconditionError(error);
+      if (precondition) {
+        return c.json({ error: precondition.error }, precondition.status);
+      }
+      if (error instanceof Error && error.message === 'Invalid patch') {
+        return c.json({ error: 'Invalid patch' }, 422);
+      }
+      if (error instanceof Error && error.message === 'Patch test failed') {
+        return c.json({ error: 'Patch test failed' }, 409);
+      }
+      if (error instanceof Error && error.message === 'Unknown collection') {
+        return c.json(
+          { error: 'Validation failed', details: { collection_ids: ['Unknown collection'] } },
+          400,
+        );
+      }
+      if (error instanceof Error && error.message === 'Bookmark already exists') {
+        return c.json(await urlConflict(new DuplicateService(supabase, userId), changes.url), 409);
+      }
+      return c.json({ error: 'Failed to update bookmark' }, 500);
     }
-    return c.json({ error: 'Failed to delete bookmark' }, 500);
-  }
-});
+  },
+);
+
+// DELETE /api/bookmarks/:id - Soft delete a specific bookmark,
+// or remove it for good with ?permanent=true. With If-Match, only a bookmark
+// that still matches the ETag is deleted; permanently, that may be in the trash.
+app.delete(
+  '/:id',
+  requireScope('bookmarks:write'),
+  validateQuery(DeleteBookmarkQuerySchema),
+  async (c) => {
+    const query = c.get('validatedQuery') as DeleteBookmarkQuery;
+    const userId = c.get('userId');
+
+    try {
+      const id = validateId(c.req.param('id'));
+
+      const supabase = createAuthenticatedSupabaseClient(c);
+      const service = new BookmarkService(supabase, userId);
+
+      const expectedUpdatedAt = await checkIfMatch(service, id, c.req.header('If-Match'), {
+        includeTrashed: query.permanent === true,
+      });
+
+      if (query.permanent) {
+        const purged = await new TrashService(supabase, userId).purgeBookmark(
+          id,
+          expectedUpdatedAt,
+        );
+        if (!purged) {
+          return expectedUpdatedAt
+            ? c.json({ error: 'Bookmark has been modified' }, 412)
+            : c.json({ error: 'Bookmark not found' }, 404);
+        }
+        return c.body(null, 204);
+      }
+
+      const deleted = await service.deleteBookmark(id, expectedUpdatedAt);
+
+      if (!deleted && expectedUpdatedAt) {
+        return c.json({ error: 'Bookmark has been modified' }, 412);
+      }
+
+      return c.body(null, 204);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid ID format') {
+        return c.json({ error: 'Invalid bookmark ID' }, 400);
+      }
+      const precondition = preconditionError(error);
+      if (precondition) {
+        return c.json({ error: precondition.error }, precondition.status);
+      }
+      return c.json({ error: 'Failed to delete bookmark' }, 500);
+    }
+  },
+);
 
 export default app;
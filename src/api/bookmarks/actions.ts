@@ -0,0 +1,92 @@
+/**
+ * @file Bookmark action endpoints
+ * @purpose Handles POST /api/bookmarks/:id/restore and POST /api/bookmarks/:id/check
+ * @inputs Bookmark ID parameter
+ * @outputs Restored or checked bookmarks
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             A bookmark whose URL is saved again while it is in the trash
+ *             cannot be restored; the 409 names the bookmark that has the URL.
+ * @spec SPEC-2026-12
+ */
+
+import { Hono } from 'hono';
+import { requireScope } from '../../middleware/auth.js';
+import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
+import { TrashService } from '../../lib/trash-service.js';
+import { DuplicateService, duplicateConflict } from '../../lib/duplicate-service.js';
+import { LinkHealthService } from '../../lib/link-health-service.js';
+import { BookmarkParamsSchema } from '../../schemas/bookmark.js';
+import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables;
+}>();
+
+// Helper to validate and extract ID parameter
+function validateId(id: string): string {
+  const result = BookmarkParamsSchema.safeParse({ id });
+  if (!result.success) {
+    throw new Error('Invalid ID format');
+  }
+  return result.data.id;
+}
+
+// POST /api/bookmarks/:id/restore - Restore a bookmark from the trash
+app.post('/:id/restore', requireScope('bookmarks:write'), async (c) => {
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+
+  try {
+    const id = validateId(c.req.param('id'));
+
+    const service = new TrashService(supabase, userId);
+
+    const bookmark = await service.restoreBookmark(id);
+
+    if (!bookmark) {
+      return c.json({ error: 'Bookmark not found in trash' }, 404);
+    }
+
+    return c.json({ data: bookmark });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid ID format') {
+      return c.json({ error: 'Invalid bookmark ID' }, 400);
+    }
+    if (error instanceof Error && error.message === 'Bookmark already exists') {
+      // The URL was saved again after this bookmark was deleted
+      const existing = await new DuplicateService(supabase, userId)
+        .findDuplicateOf(c.req.param('id'))
+        .catch(() => null);
+      return c.json(duplicateConflict(existing), 409);
+    }
+    return c.json({ error: 'Failed to restore bookmark' }, 500);
+  }
+});
+
+// POST /api/bookmarks/:id/check - Check the bookmark's link now
+app.post('/:id/check', requireScope('bookmarks:write'), async (c) => {
+  const userId = c.get('userId');
+
+  try {
+    const id = validateId(c.req.param('id'));
+
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new LinkHealthService(supabase, userId);
+
+    const bookmark = await service.checkBookmark(id);
+
+    if (!bookmark) {
+      return c.json({ error: 'Bookmark not found' }, 404);
+    }
+
+    return c.json({ data: bookmark });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid ID format') {
+      return c.json({ error: 'Invalid bookmark ID' }, 400);
+    }
+    return c.json({ error: 'Failed to check bookmark' }, 500);
+  }
+});
+
+export default app;
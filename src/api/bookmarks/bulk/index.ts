@@ -0,0 +1,60 @@
+/**
+ * @file Bulk bookmark operations endpoint
+ * @purpose Handles POST /api/bookmarks/bulk (tag, delete or restore many bookmarks)
+ * @inputs Bulk operation and either a list of bookmark IDs or a list filter
+ * @outputs Per-item results with an aggregate summary
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             No request affects more than MAX_BULK_BATCH_SIZE bookmarks.
+ * @spec SPEC-2026-12
+ */
+import { Hono } from 'hono';
+import { requireScope } from '../../../middleware/auth.js';
+import { validateBody } from '../../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../../lib/supabase.js';
+import { BulkBookmarkService } from '../../../lib/bulk-service.js';
+import { logger } from '../../../lib/logger.js';
+import { BulkRequestSchema, MAX_BULK_BATCH_SIZE, type BulkRequest } from '../../../schemas/bulk.js';
+import type { AuthEnv, AuthVariables } from '../../../middleware/auth.js';
+import type { ValidationVariables } from '../../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+// POST /api/bookmarks/bulk - Apply one operation to many bookmarks
+app.post('/', requireScope('bookmarks:write'), validateBody(BulkRequestSchema), async (c) => {
+  const request = c.get('validatedBody') as BulkRequest;
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+  const service = new BulkBookmarkService(supabase, userId);
+
+  try {
+    const ids = await service.resolveTargets(request);
+
+    if (!ids) {
+      return c.json(
+        {
+          error: 'Validation failed',
+          details: {
+            filter: [`Filter matches more than ${MAX_BULK_BATCH_SIZE} bookmarks`],
+          },
+        },
+        400,
+      );
+    }
+
+    const result = await service.apply(request.operation, ids);
+    return c.json({ data: result });
+  } catch (error) {
+    logger.error({
+      event: 'bookmark.bulk.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to apply bulk operation' }, 500);
+  }
+});
+
+export default app;
@@ -0,0 +1,48 @@
+/**
+ * @file Bookmark duplicates endpoint
+ * @purpose Handles GET /api/bookmarks/duplicates (duplicate report)
+ * @inputs Duplicate report pagination query parameters
+ * @outputs Groups of active bookmarks that share a canonical URL
+ * @invariants All operations scoped to authenticated user via RLS
+ * @spec SPEC-2026-12
+ */
+import { Hono } from 'hono';
+import { requireScope } from '../../../middleware/auth.js';
+import { validateQuery } from '../../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../../lib/supabase.js';
+import { DuplicateService } from '../../../lib/duplicate-service.js';
+import { logger } from '../../../lib/logger.js';
+import { DuplicatesQuerySchema, type DuplicatesQuery } from '../../../schemas/bookmark.js';
+import type { AuthEnv, AuthVariables } from '../../../middleware/auth.js';
+import type { ValidationVariables } from '../../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+// GET /api/bookmarks/duplicates - List bookmarks saved more than once
+app.get('/', requireScope('bookmarks:read'), validateQuery(DuplicatesQuerySchema), async (c) => {
+  const query = c.get('validatedQuery') as DuplicatesQuery;
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+  const service = new DuplicateService(supabase, userId);
+
+  try {
+    const result = await service.listDuplicateGroups(query);
+    return c.json({
+      data: result.groups,
+      meta: { nextCursor: result.nextCursor, hasMore: result.hasMore },
+    });
+  } catch (error) {
+    logger.error({
+      event: 'bookmark.duplicates.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to fetch duplicate bookmarks' }, 500);
+  }
+});
+
+export default app;
@@ -0,0 +1,51 @@
+/**
+ * @file Bookmark export endpoint
+ * @purpose Handles GET /api/bookmarks/export (download bookmarks as html, json, csv or atom)
+ * @inputs Export format and the same filters accepted by GET /api/bookmarks
+ * @outputs Streamed export document as a file attachment
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             Only active (non-deleted) bookmarks are exported.
+ * @spec SPEC-2026-12
+ */
+import { Hono } from 'hono';
+import { requireScope } from '../../../middleware/auth.js';
+import { validateQuery } from '../../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../../lib/supabase.js';
+import { ExportService } from '../../../lib/export-service.js';
+import { EXPORT_FORMATTERS } from '../../../lib/exporters/index.js';
+import { logger } from '../../../lib/logger.js';
+import { ExportQuerySchema, type ExportQuery } from '../../../schemas/bookmark.js';
+import type { AuthEnv, AuthVariables } from '../../../middleware/auth.js';
+import type { ValidationVariables } from '../../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+// GET /api/bookmarks/export - Export bookmarks in the requested format
+app.get('/', requireScope('bookmarks:read'), validateQuery(ExportQuerySchema), async (c) => {
+  const query = c.get('validatedQuery') as ExportQuery;
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+  const service = new ExportService(supabase, userId);
+  const formatter = EXPORT_FORMATTERS[query.format];
+
+  try {
+    const stream = await service.createExportStream(query);
+    return c.body(stream, 200, {
+      'Content-Type': formatter.contentType,
+      'Content-Disposition': `attachment; filename="bookmarks.${formatter.fileExtension}"`,
+    });
+  } catch (error) {
+    logger.error({
+      event: 'bookmark.export.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to export bookmarks' }, 500);
+  }
+});
+
+export default app;
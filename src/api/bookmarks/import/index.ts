@@ -0,0 +1,46 @@
+/**
+ * @file Bookmark import endpoint
+ * @purpose Handles POST /api/bookmarks/import (Netscape HTML, Pocket CSV, Pinboard JSON)
+ * @inputs Export format, export file content, and duplicate handling policy
+ * @outputs Import report of created, merged, skipped and rejected records
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             Every imported record is validated with CreateBookmarkSchema.
+ * @spec SPEC-2026-12
+ */
+import { Hono } from 'hono';
+import { requireScope } from '../../../middleware/auth.js';
+import { validateBody } from '../../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../../lib/supabase.js';
+import { ImportService } from '../../../lib/import-service.js';
+import { logger } from '../../../lib/logger.js';
+import { ImportRequestSchema, type ImportRequest } from '../../../schemas/import.js';
+import type { AuthEnv, AuthVariables } from '../../../middleware/auth.js';
+import type { ValidationVariables } from '../../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+// POST /api/bookmarks/import - Import bookmarks from an export file
+app.post('/', requireScope('bookmarks:write'), validateBody(ImportRequestSchema), async (c) => {
+  const request = c.get('validatedBody') as ImportRequest;
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+  const service = new ImportService(supabase, userId);
+
+  try {
+    const report = await service.importBookmarks(request);
+    return c.json({ data: report });
+  } catch (error) {
+    logger.error({
+      event: 'bookmark.import.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to import bookmarks' }, 500);
+  }
+});
+
+export default app;
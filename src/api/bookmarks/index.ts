@@ -1,20 +1,28 @@
 /**
  * @file Bookmark collection endpoints
  * @purpose Handles POST /api/bookmarks (create) and GET /api/bookmarks (list)
- * @inputs Create bookmark requests and list query parameters
- * @outputs Created bookmarks and paginated bookmark lists
- * @invariants All operations scoped to authenticated user via RLS
+ * @inputs Create bookmark requests, duplicate policy and list query parameters
+ * @outputs Created or merged bookmarks and paginated bookmark lists with ETags
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             A URL whose canonical form is already saved is never saved twice;
+ *             the database's canonical URL check settles concurrent creates.
  * @spec SPEC-2026-12
  */
 import { Hono } from 'hono';
+import { requireScope } from '../../middleware/auth.js';
 import { validateBody, validateQuery } from '../../middleware/validation.js';
 import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
 import { BookmarkService } from '../../lib/bookmark-service.js';
+import { DuplicateService, duplicateConflict } from '../../lib/duplicate-service.js';
+import { fetchPageMetadata } from '../../lib/page-metadata.js';
+import { bookmarkListEtag, jsonWithEtag } from '../../lib/etag.js';
 import { logger } from '../../lib/logger.js';
 import {
   CreateBookmarkSchema,
+  CreateBookmarkQuerySchema,
   BookmarkQuerySchema,
   type CreateBookmark,
+  type CreateBookmarkQuery,
   type BookmarkQuery,
 } from '../../schemas/bookmark.js';
 import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
@@ -25,29 +33,74 @@ const app = new Hono<{
   Variables: AuthVariables & ValidationVariables;
 }>();
 
-// POST /api/bookmarks - Create a new bookmark
-app.post('/', validateBody(CreateBookmarkSchema), async (c) => {
-  const data = c.get('validatedBody') as CreateBookmark;
-  const userId = c.get('userId');
-  const supabase = createAuthenticatedSupabaseClient(c);
-  const service = new BookmarkService(supabase, userId);
+// POST /api/bookmarks - Create a new bookmark. If the URL is already saved,
+// ?on_duplicate=merge adds the tags to the existing bookmark instead of
+// rejecting the request with 409. Without a title the page is fetched to
+// fill in its metadata before the bookmark is saved.
+app.post(
+  '/',
+  requireScope('bookmarks:write'),
+  validateQuery(CreateBookmarkQuerySchema),
+  validateBody(CreateBookmarkSchema),
+  async (c) => {
+    const data = c.get('validatedBody') as CreateBookmark;
+    const { on_duplicate: onDuplicate } = c.get('validatedQuery') as CreateBookmarkQuery;
+    const userId = c.get('userId');
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new BookmarkService(supabase, userId);
+    const duplicates = new DuplicateService(supabase, userId);
 
-  try {
-    const bookmark = await service.createBookmark(data);
-    return c.json({ data: bookmark }, 201);
-  } catch (error) {
-    logger.error({
-      event: 'bookmark.create.failure',
-      actor: userId,
-      outcome: 'failure',
-      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
-    });
-    return c.json({ error: 'Failed to create bookmark' }, 500);
-  }
-});
+    try {
+      const existing = await duplicates.findExisting(data.url);
 
-// GET /api/bookmarks - List bookmarks with optional filtering and pagination
-app.get('/', validateQuery(BookmarkQuerySchema), async (c) => {
+      if (existing) {
+        if (onDuplicate === 'reject') {
+          return c.json(duplicateConflict(existing), 409);
+        }
+
+        const result = await duplicates.mergeTags(existing, data.tags ?? []);
+        if (!result.merged) {
+          return c.json(
+            {
+              error: 'Merging tags would exceed 20 tags',
+              details: { existing_id: existing.id },
+            },
+            409,
+          );
+        }
+        return c.json({ data: result.bookmark }, 200);
+      }
+
+      const metadata =
+        data.title === undefined ? await fetchPageMetadata(data.url, userId) : undefined;
+      const bookmark = await service.createBookmark(data, metadata);
+      return c.json({ data: bookmark }, 201);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Bookmark already exists') {
+        // Another request saved the URL between the check and the insert
+        const existing = await duplicates.findExisting(data.url).catch(() => null);
+        return c.json(duplicateConflict(existing), 409);
+      }
+      if (error instanceof Error && error.message === 'Unknown collection') {
+        return c.json(
+          { error: 'Validation failed', details: { collection_ids: ['Unknown collection'] } },
+          400,
+        );
+      }
+      logger.error({
+        event: 'bookmark.create.failure',
+        actor: userId,
+        outcome: 'failure',
+        metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+      });
+      return c.json({ error: 'Failed to create bookmark' }, 500);
+    }
+  },
+);
+
+// GET /api/bookmarks - List bookmarks with optional filtering and pagination.
+// Returns 304 when If-None-Match names the page's current ETag.
+app.get('/', requireScope('bookmarks:read'), validateQuery(BookmarkQuerySchema), async (c) => {
   const query = c.get('validatedQuery') as BookmarkQuery;
   const userId = c.get('userId');
   const supabase = createAuthenticatedSupabaseClient(c);
@@ -55,13 +108,14 @@ app.get('/', validateQuery(BookmarkQuerySchema), async (c) => {
 
   try {
     const result = await service.listBookmarks(query);
-    return c.json({
-      data: result.bookmarks,
-      meta: {
-        cursor: result.cursor,
-        hasMore: result.hasMore,
-      },
-    });
+    const meta = {
+      nextCursor: result.nextCursor,
+      prevCursor: result.prevCursor,
+      cursor: result.nextCursor,
+      hasMore: result.hasMore,
+    };
+    const etag = await bookmarkListEtag(result.bookmarks, meta);
+    return jsonWithEtag(c, { data: result.bookmarks, meta }, etag);
   } catch (error) {
     logger.error({
       event: 'bookmark.list.failure',
@@ -1,30 +1,61 @@
 /**
- * @file Bookmark tags endpoint
- * @purpose Handles GET /api/bookmarks/tags (list all user tags)
- * @inputs None (authenticated user context only)
- * @outputs Array of unique tags used by the user
+ * @file Bookmark tags endpoints
+ * @purpose Handles GET /api/bookmarks/tags (tag usage, flat or as a tree),
+ *          GET and POST /api/bookmarks/tags/suggest (autocomplete, suggestions),
+ *          PATCH and DELETE /api/bookmarks/tags/:tag (rename, delete) and
+ *          POST /api/bookmarks/tags/merge (merge)
+ * @inputs Tag path parameters, listing format, autocomplete prefixes, page
+ *         details, and rename or merge requests
+ * @outputs Tags with usage counts, suggested tags, or the number of bookmarks changed
  * @invariants All operations scoped to authenticated user via RLS
  * @spec SPEC-2026-12
  */
 import { Hono } from 'hono';
+import { requireScope } from '../../../middleware/auth.js';
+import { validateBody, validateQuery } from '../../../middleware/validation.js';
 import { createAuthenticatedSupabaseClient } from '../../../lib/supabase.js';
-import { BookmarkService } from '../../../lib/bookmark-service.js';
+import { TagService } from '../../../lib/tag-service.js';
 import { logger } from '../../../lib/logger.js';
+import {
+  MergeTagsSchema,
+  RenameTagSchema,
+  SuggestTagsSchema,
+  TagListQuerySchema,
+  TagParamsSchema,
+  TagPrefixQuerySchema,
+  type MergeTags,
+  type RenameTag,
+  type SuggestTags,
+  type TagListQuery,
+  type TagPrefixQuery,
+} from '../../../schemas/tag.js';
 import type { AuthEnv, AuthVariables } from '../../../middleware/auth.js';
+import type { ValidationVariables } from '../../../middleware/validation.js';
 
 const app = new Hono<{
   Bindings: AuthEnv;
-  Variables: AuthVariables;
+  Variables: AuthVariables & ValidationVariables;
 }>();
 
-// GET /api/bookmarks/tags - List all unique tags for the authenticated user
-app.get('/', async (c) => {
+// Helper to validate and extract the tag parameter
+function validateTag(tag: string): string {
+  const result = TagParamsSchema.safeParse({ tag });
+  if (!result.success) {
+    throw new Error('Invalid tag');
+  }
+  return result.data.tag;
+}
+
+// GET /api/bookmarks/tags - List tags with usage counts and last-used times,
+// or with ?format=tree nested by hierarchy level
+app.get('/', requireScope('bookmarks:read'), validateQuery(TagListQuerySchema), async (c) => {
+  const query = c.get('validatedQuery') as TagListQuery;
   const userId = c.get('userId');
 
   try {
     const supabase = createAuthenticatedSupabaseClient(c);
-    const service = new BookmarkService(supabase, userId);
-    const tags = await service.getUserTags();
+    const service = new TagService(supabase, userId);
+    const tags = query.format === 'tree' ? await service.getTagTree() : await service.listTags();
     return c.json({ data: tags });
   } catch (error) {
     logger.error({
@@ -37,4 +68,123 @@ app.get('/', async (c) => {
   }
 });
 
+// GET /api/bookmarks/tags/suggest - Autocomplete tags by prefix, most used first
+app.get(
+  '/suggest',
+  requireScope('bookmarks:read'),
+  validateQuery(TagPrefixQuerySchema),
+  async (c) => {
+    const query = c.get('validatedQuery') as TagPrefixQuery;
+    const userId = c.get('userId');
+
+    try {
+      const supabase = createAuthenticatedSupabaseClient(c);
+      const service = new TagService(supabase, userId);
+      const tags = await service.autocompleteTags(query.prefix, query.limit);
+      return c.json({ data: tags });
+    } catch (error) {
+      logger.error({
+        event: 'bookmark.tags.autocomplete.failure',
+        actor: userId,
+        outcome: 'failure',
+        metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+      });
+      return c.json({ error: 'Failed to suggest tags' }, 500);
+    }
+  },
+);
+
+// POST /api/bookmarks/tags/suggest - Suggest existing tags for a page
+app.post('/suggest', requireScope('bookmarks:read'), validateBody(SuggestTagsSchema), async (c) => {
+  const data = c.get('validatedBody') as SuggestTags;
+  const userId = c.get('userId');
+
+  try {
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new TagService(supabase, userId);
+    const suggestions = await service.suggestTags(data);
+    return c.json({ data: suggestions });
+  } catch (error) {
+    logger.error({
+      event: 'bookmark.tags.suggest.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to suggest tags' }, 500);
+  }
+});
+
+// POST /api/bookmarks/tags/merge - Replace several tags with one
+app.post('/merge', requireScope('bookmarks:write'), validateBody(MergeTagsSchema), async (c) => {
+  const data = c.get('validatedBody') as MergeTags;
+  const userId = c.get('userId');
+
+  try {
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new TagService(supabase, userId);
+    const updated = await service.mergeTags(data.sources, data.target);
+    return c.json({ data: { updated } });
+  } catch (error) {
+    logger.error({
+      event: 'bookmark.tag.merge.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to merge tags' }, 500);
+  }
+});
+
+// PATCH /api/bookmarks/tags/:tag - Rename a tag on every bookmark
+app.patch('/:tag', requireScope('bookmarks:write'), validateBody(RenameTagSchema), async (c) => {
+  const data = c.get('validatedBody') as RenameTag;
+  const userId = c.get('userId');
+
+  try {
+    const tag = validateTag(c.req.param('tag'));
+
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new TagService(supabase, userId);
+
+    const updated = await service.renameTag(tag, data.name);
+
+    if (updated === 0) {
+      return c.json({ error: 'Tag not found' }, 404);
+    }
+
+    return c.json({ data: { updated } });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid tag') {
+      return c.json({ error: 'Invalid tag' }, 400);
+    }
+    return c.json({ error: 'Failed to rename tag' }, 500);
+  }
+});
+
+// DELETE /api/bookmarks/tags/:tag - Remove a tag from every bookmark
+app.delete('/:tag', requireScope('bookmarks:write'), async (c) => {
+  const userId = c.get('userId');
+
+  try {
+    const tag = validateTag(c.req.param('tag'));
+
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new TagService(supabase, userId);
+
+    const updated = await service.deleteTag(tag);
+
+    if (updated === 0) {
+      return c.json({ error: 'Tag not found' }, 404);
+    }
+
+    return c.json({ data: { updated } });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid tag') {
+      return c.json({ error: 'Invalid tag' }, 400);
+    }
+    return c.json({ error: 'Failed to delete tag' }, 500);
+  }
+});
+
 export default app;
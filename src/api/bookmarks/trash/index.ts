@@ -0,0 +1,52 @@
+/**
+ * @file Bookmark trash endpoint
+ * @purpose Handles GET /api/bookmarks/trash (list soft-deleted bookmarks)
+ * @inputs Trash pagination query parameters
+ * @outputs Paginated list of trashed bookmarks, most recently deleted first
+ * @invariants All operations scoped to authenticated user via RLS
+ * @spec SPEC-2026-12
+ */
+import { Hono } from 'hono';
+import { requireScope } from '../../../middleware/auth.js';
+import { validateQuery } from '../../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../../lib/supabase.js';
+import { TrashService } from '../../../lib/trash-service.js';
+import { logger } from '../../../lib/logger.js';
+import { TrashQuerySchema, type TrashQuery } from '../../../schemas/bookmark.js';
+import type { AuthEnv, AuthVariables } from '../../../middleware/auth.js';
+import type { ValidationVariables } from '../../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+// GET /api/bookmarks/trash - List soft-deleted bookmarks
+app.get('/', requireScope('bookmarks:read'), validateQuery(TrashQuerySchema), async (c) => {
+  const query = c.get('validatedQuery') as TrashQuery;
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+  const service = new TrashService(supabase, userId);
+
+  try {
+    const result = await service.listTrash(query);
+    return c.json({
+      data: result.bookmarks,
+      meta: {
+        nextCursor: result.nextCursor,
+        prevCursor: result.prevCursor,
+        hasMore: result.hasMore,
+      },
+    });
+  } catch (error) {
+    logger.error({
+      event: 'bookmark.trash.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to fetch trash' }, 500);
+  }
+});
+
+export default app;
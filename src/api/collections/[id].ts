@@ -0,0 +1,127 @@
+/**
+ * @file Individual collection endpoints
+ * @purpose Handles GET/PUT/DELETE /api/collections/:id
+ * @inputs Collection ID parameter and update data
+ * @outputs Collection details, updated collections, or deletion confirmation
+ * @invariants All operations scoped to authenticated user via RLS
+ * @spec SPEC-2026-12
+ */
+
+import { Hono } from 'hono';
+import { requireScope } from '../../middleware/auth.js';
+import { validateBody } from '../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
+import { CollectionService } from '../../lib/collection-service.js';
+import {
+  UpdateCollectionSchema,
+  CollectionParamsSchema,
+  type UpdateCollection,
+} from '../../schemas/collection.js';
+import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
+import type { ValidationVariables } from '../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+// Helper to validate and extract ID parameter
+function validateId(id: string): string {
+  const result = CollectionParamsSchema.safeParse({ id });
+  if (!result.success) {
+    throw new Error('Invalid ID format');
+  }
+  return result.data.id;
+}
+
+// GET /api/collections/:id - Get a specific collection
+app.get('/:id', requireScope('collections:read'), async (c) => {
+  const userId = c.get('userId');
+
+  try {
+    const id = validateId(c.req.param('id'));
+
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new CollectionService(supabase, userId);
+
+    const collection = await service.getCollectionById(id);
+
+    if (!collection) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+
+    return c.json({ data: collection });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid ID format') {
+      return c.json({ error: 'Invalid collection ID' }, 400);
+    }
+    return c.json({ error: 'Failed to fetch collection' }, 500);
+  }
+});
+
+// PUT /api/collections/:id - Rename, describe, move or reorder a collection
+app.put(
+  '/:id',
+  requireScope('collections:write'),
+  validateBody(UpdateCollectionSchema),
+  async (c) => {
+    const data = c.get('validatedBody') as UpdateCollection;
+    const userId = c.get('userId');
+
+    try {
+      const id = validateId(c.req.param('id'));
+
+      const supabase = createAuthenticatedSupabaseClient(c);
+      const service = new CollectionService(supabase, userId);
+
+      const collection = await service.updateCollection(id, data);
+
+      if (!collection) {
+        return c.json({ error: 'Collection not found' }, 404);
+      }
+
+      return c.json({ data: collection });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid ID format') {
+        return c.json({ error: 'Invalid collection ID' }, 400);
+      }
+      if (error instanceof Error && error.message === 'Invalid parent collection') {
+        return c.json(
+          {
+            error: 'Validation failed',
+            details: { parent_id: ['Unknown parent collection, or the collection itself'] },
+          },
+          400,
+        );
+      }
+      return c.json({ error: 'Failed to update collection' }, 500);
+    }
+  },
+);
+
+// DELETE /api/collections/:id - Delete a collection, keeping its bookmarks
+app.delete('/:id', requireScope('collections:write'), async (c) => {
+  const userId = c.get('userId');
+
+  try {
+    const id = validateId(c.req.param('id'));
+
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new CollectionService(supabase, userId);
+
+    const deleted = await service.deleteCollection(id);
+
+    if (!deleted) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+
+    return c.body(null, 204);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid ID format') {
+      return c.json({ error: 'Invalid collection ID' }, 400);
+    }
+    return c.json({ error: 'Failed to delete collection' }, 500);
+  }
+});
+
+export default app;
@@ -0,0 +1,76 @@
+/**
+ * @file Collection list endpoints
+ * @purpose Handles POST /api/collections (create) and GET /api/collections (list)
+ * @inputs Create collection requests
+ * @outputs Created collections and the user's collections in display order
+ * @invariants All operations scoped to authenticated user via RLS
+ * @spec SPEC-2026-12
+ */
+import { Hono } from 'hono';
+import { requireScope } from '../../middleware/auth.js';
+import { validateBody } from '../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
+import { CollectionService } from '../../lib/collection-service.js';
+import { logger } from '../../lib/logger.js';
+import { CreateCollectionSchema, type CreateCollection } from '../../schemas/collection.js';
+import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
+import type { ValidationVariables } from '../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+// POST /api/collections - Create a collection, optionally inside another
+app.post(
+  '/',
+  requireScope('collections:write'),
+  validateBody(CreateCollectionSchema),
+  async (c) => {
+    const data = c.get('validatedBody') as CreateCollection;
+    const userId = c.get('userId');
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new CollectionService(supabase, userId);
+
+    try {
+      const collection = await service.createCollection(data);
+      return c.json({ data: collection }, 201);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid parent collection') {
+        return c.json(
+          { error: 'Validation failed', details: { parent_id: ['Unknown parent collection'] } },
+          400,
+        );
+      }
+      logger.error({
+        event: 'collection.create.failure',
+        actor: userId,
+        outcome: 'failure',
+        metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+      });
+      return c.json({ error: 'Failed to create collection' }, 500);
+    }
+  },
+);
+
+// GET /api/collections - List all collections; clients build the tree from parent_id
+app.get('/', requireScope('collections:read'), async (c) => {
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+  const service = new CollectionService(supabase, userId);
+
+  try {
+    const collections = await service.listCollections();
+    return c.json({ data: collections });
+  } catch (error) {
+    logger.error({
+      event: 'collection.list.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to fetch collections' }, 500);
+  }
+});
+
+export default app;
@@ -0,0 +1,102 @@
+/**
+ * @file Individual word game endpoints
+ * @purpose Handles GET /api/games/:gameId and POST /api/games/:gameId/guesses
+ * @inputs Game ID parameter and guesses
+ * @outputs Game state with scored guesses, or the outcome of a guess
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             The answer is null in every response until the game is over.
+ * @spec SPEC-2026-27
+ */
+
+import { Hono } from 'hono';
+import { requireScope } from '../../middleware/auth.js';
+import { validateBody } from '../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
+import { GameService } from '../../lib/game-service.js';
+import { GameParamsSchema, SubmitGuessSchema, type SubmitGuess } from '../../schemas/game.js';
+import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
+import type { ValidationVariables } from '../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+// Helper to validate and extract ID parameter
+function validateId(gameId: string): string {
+  const result = GameParamsSchema.safeParse({ gameId });
+  if (!result.success) {
+    throw new Error('Invalid ID format');
+  }
+  return result.data.gameId;
+}
+
+// GET /api/games/:gameId - The game board: guesses so far with their feedback
+app.get('/:gameId', requireScope('games:read'), async (c) => {
+  const userId = c.get('userId');
+
+  try {
+    const id = validateId(c.req.param('gameId'));
+
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new GameService(supabase, userId);
+
+    const game = await service.getGame(id);
+
+    if (!game) {
+      return c.json({ error: 'Game not found' }, 404);
+    }
+
+    return c.json({ data: game });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid ID format') {
+      return c.json({ error: 'Invalid game ID' }, 400);
+    }
+    return c.json({ error: 'Failed to fetch game' }, 500);
+  }
+});
+
+// POST /api/games/:gameId/guesses - Score a guess; the answer is included
+// once the game is won or lost
+app.post(
+  '/:gameId/guesses',
+  requireScope('games:write'),
+  validateBody(SubmitGuessSchema),
+  async (c) => {
+    const { guess } = c.get('validatedBody') as SubmitGuess;
+    const userId = c.get('userId');
+
+    try {
+      const id = validateId(c.req.param('gameId'));
+
+      const supabase = createAuthenticatedSupabaseClient(c);
+      const service = new GameService(supabase, userId);
+
+      const outcome = await service.submitGuess(id, guess);
+      if (!outcome.played) {
+        return c.json({ error: 'Validation failed', details: { guess: outcome.violations } }, 400);
+      }
+      return c.json({ data: outcome.result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Invalid ID format') {
+        return c.json({ error: 'Invalid game ID' }, 400);
+      }
+      if (message === 'Not in word list') {
+        return c.json(
+          { error: 'Validation failed', details: { guess: ['Not in word list'] } },
+          400,
+        );
+      }
+      if (message === 'Game not found') {
+        return c.json({ error: 'Game not found' }, 404);
+      }
+      if (message === 'Game is already finished') {
+        return c.json({ error: 'Game is already finished' }, 409);
+      }
+      return c.json({ error: 'Failed to submit guess' }, 500);
+    }
+  },
+);
+
+export default app;
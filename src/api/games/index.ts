@@ -0,0 +1,110 @@
+/**
+ * @file Word game list endpoints
+ * @purpose Handles POST /api/games (start), GET /api/games/history and
+ *          GET /api/games/stats
+ * @inputs Game modes, history limits, and a mode, date range and time zone
+ *         for statistics
+ * @outputs New games, finished games with their answers, and statistics
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             Answers only appear for finished games.
+ * @spec SPEC-2026-27
+ */
+import { Hono } from 'hono';
+import { requireScope } from '../../middleware/auth.js';
+import { validateBody, validateQuery } from '../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
+import { GameService } from '../../lib/game-service.js';
+import { logger } from '../../lib/logger.js';
+import {
+  CreateGameSchema,
+  GameHistoryQuerySchema,
+  GameStatsQuerySchema,
+  type CreateGame,
+  type GameHistoryQuery,
+  type GameStatsQuery,
+} from '../../schemas/game.js';
+import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
+import type { ValidationVariables } from '../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+// POST /api/games - Start a game in standard, hard or daily mode. Standard
+// and hard games have no limit per day; daily games are one per UTC day.
+app.post(
+  '/',
+  requireScope('games:write'),
+  validateBody(CreateGameSchema, { optional: true }),
+  async (c) => {
+    const { mode } = c.get('validatedBody') as CreateGame;
+    const userId = c.get('userId');
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new GameService(supabase, userId);
+
+    try {
+      const game = await service.createGame(mode);
+      return c.json({ data: game }, 201);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (message === 'Daily game already played') {
+        return c.json({ error: 'Daily game already played today' }, 409);
+      }
+      if (message === 'Daily word not available') {
+        return c.json({ error: 'Daily game is not available yet' }, 503);
+      }
+      logger.error({
+        event: 'game.create.failure',
+        actor: userId,
+        outcome: 'failure',
+        metadata: { error: message },
+      });
+      return c.json({ error: 'Failed to create game' }, 500);
+    }
+  },
+);
+
+// GET /api/games/history - Finished games with their answers, most recent first
+app.get(
+  '/history',
+  requireScope('games:read'),
+  validateQuery(GameHistoryQuerySchema),
+  async (c) => {
+    const query = c.get('validatedQuery') as GameHistoryQuery;
+    const userId = c.get('userId');
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new GameService(supabase, userId);
+
+    try {
+      const games = await service.listHistory(query.limit);
+      return c.json({ data: games });
+    } catch {
+      return c.json({ error: 'Failed to fetch game history' }, 500);
+    }
+  },
+);
+
+// GET /api/games/stats - Totals, win streaks and guess distribution, over an
+// optional range of days in the player's time zone
+app.get('/stats', requireScope('games:read'), validateQuery(GameStatsQuerySchema), async (c) => {
+  const query = c.get('validatedQuery') as GameStatsQuery;
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+  const service = new GameService(supabase, userId);
+
+  try {
+    const stats = await service.getStats(query);
+    return c.json({ data: stats });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unknown time zone') {
+      return c.json(
+        { error: 'Validation failed', details: { timezone: ['Unknown time zone'] } },
+        400,
+      );
+    }
+    return c.json({ error: 'Failed to fetch game statistics' }, 500);
+  }
+});
+
+export default app;
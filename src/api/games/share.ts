@@ -0,0 +1,106 @@
+/**
+ * @file Word game share endpoints
+ * @purpose Handles GET /api/games/:gameId/share (the result grid) and
+ *          POST /api/games/:gameId/share (create a public link to it)
+ * @inputs Game ID parameter
+ * @outputs Header, coloured-square grid and text for a finished game, with
+ *          its public link once created (GameShareSchema)
+ * @invariants All operations scoped to authenticated user via RLS. Games in
+ *             progress have no result to share. Results never contain letters.
+ * @spec SPEC-2026-27
+ */
+
+import { Hono, type Context } from 'hono';
+import { requireScope } from '../../middleware/auth.js';
+import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
+import { GameShareService, sharePath } from '../../lib/game-share-service.js';
+import { GameParamsSchema } from '../../schemas/game.js';
+import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables;
+}>();
+
+// Helper to validate and extract ID parameter
+function validateId(gameId: string): string {
+  const result = GameParamsSchema.safeParse({ gameId });
+  if (!result.success) {
+    throw new Error('Invalid ID format');
+  }
+  return result.data.gameId;
+}
+
+/** Absolute public link for a share ID, on the host the request came to */
+function shareUrl(c: Context, shareId: string): string {
+  return new URL(sharePath(shareId), c.req.url).toString();
+}
+
+// GET /api/games/:gameId/share - The result of a finished game, ready to paste
+app.get('/:gameId/share', requireScope('games:read'), async (c) => {
+  const userId = c.get('userId');
+
+  try {
+    const id = validateId(c.req.param('gameId'));
+
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new GameShareService(supabase, userId);
+
+    const share = await service.getShare(id);
+
+    if (!share) {
+      return c.json({ error: 'Game not found' }, 404);
+    }
+
+    const { share_id: shareId, ...result } = share;
+    return c.json({
+      data: { ...result, share_url: shareId === null ? null : shareUrl(c, shareId) },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Invalid ID format') {
+      return c.json({ error: 'Invalid game ID' }, 400);
+    }
+    if (message === 'Game is still in progress') {
+      return c.json({ error: 'Game is still in progress' }, 409);
+    }
+    return c.json({ error: 'Failed to fetch game result' }, 500);
+  }
+});
+
+// POST /api/games/:gameId/share - Create a public link to a finished game's
+// result, or return the existing one. Anyone with the link can see the grid.
+app.post('/:gameId/share', requireScope('games:write'), async (c) => {
+  const userId = c.get('userId');
+
+  try {
+    const id = validateId(c.req.param('gameId'));
+
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new GameShareService(supabase, userId);
+
+    const shareId = await service.createShareLink(id);
+    const share = await service.getShare(id);
+
+    if (!share) {
+      return c.json({ error: 'Game not found' }, 404);
+    }
+
+    const { share_id: _, ...result } = share;
+    return c.json({ data: { ...result, share_url: shareUrl(c, shareId) } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Invalid ID format') {
+      return c.json({ error: 'Invalid game ID' }, 400);
+    }
+    if (message === 'Game not found') {
+      return c.json({ error: 'Game not found' }, 404);
+    }
+    if (message === 'Game is still in progress') {
+      return c.json({ error: 'Game is still in progress' }, 409);
+    }
+    return c.json({ error: 'Failed to share game' }, 500);
+  }
+});
+
+export default app;
@@ -0,0 +1,49 @@
+/**
+ * @file Public word game result endpoint
+ * @purpose Handles GET /api/public/shares/:shareId, the result grid of a game
+ *          its player has shared, for anyone with the link
+ * @inputs Share ID parameter
+ * @outputs Header, coloured-square grid and text for the shared game
+ * @invariants No authentication: the path is under the public prefix that
+ *             authMiddleware lets through. Reads only through the shared_game
+ *             database function, which never returns letters, so the answer
+ *             cannot be revealed. Unknown and malformed share IDs are both 404.
+ * @spec SPEC-2026-27
+ */
+
+import { Hono } from 'hono';
+import { createAnonymousSupabaseClient } from '../../../lib/supabase.js';
+import { fetchSharedGame } from '../../../lib/game-share-service.js';
+import { logger } from '../../../lib/logger.js';
+import { ShareParamsSchema } from '../../../schemas/game.js';
+import type { AuthEnv } from '../../../middleware/auth.js';
+
+const app = new Hono<{ Bindings: AuthEnv }>();
+
+// GET /api/public/shares/:shareId - A shared game's result
+app.get('/:shareId', async (c) => {
+  const params = ShareParamsSchema.safeParse({ shareId: c.req.param('shareId') });
+  if (!params.success) {
+    return c.json({ error: 'Shared game not found' }, 404);
+  }
+
+  try {
+    const shared = await fetchSharedGame(createAnonymousSupabaseClient(c), params.data.shareId);
+
+    if (!shared) {
+      return c.json({ error: 'Shared game not found' }, 404);
+    }
+
+    return c.json({ data: shared });
+  } catch (error) {
+    logger.error({
+      event: 'game.share.public.failure',
+      actor: 'anonymous',
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to fetch shared game' }, 500);
+  }
+});
+
+export default app;
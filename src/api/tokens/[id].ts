@@ -0,0 +1,50 @@
+/**
+ * @file Individual API token endpoints
+ * @purpose Handles DELETE /api/tokens/:id (revoke)
+ * @inputs Token ID parameter
+ * @outputs Revocation confirmation
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             Tokens are managed from a session only.
+ * @spec SPEC-2026-12
+ */
+
+import { Hono } from 'hono';
+import { requireSession } from '../../middleware/auth.js';
+import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
+import { ApiTokenService } from '../../lib/api-token-service.js';
+import { ApiTokenParamsSchema } from '../../schemas/token.js';
+import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables;
+}>();
+
+app.use('/:id', requireSession);
+
+// DELETE /api/tokens/:id - Revoke a token
+app.delete('/:id', async (c) => {
+  const userId = c.get('userId');
+
+  const result = ApiTokenParamsSchema.safeParse({ id: c.req.param('id') });
+  if (!result.success) {
+    return c.json({ error: 'Invalid token ID' }, 400);
+  }
+
+  try {
+    const supabase = createAuthenticatedSupabaseClient(c);
+    const service = new ApiTokenService(supabase, userId);
+
+    const revoked = await service.revokeToken(result.data.id);
+
+    if (!revoked) {
+      return c.json({ error: 'API token not found' }, 404);
+    }
+
+    return c.body(null, 204);
+  } catch {
+    return c.json({ error: 'Failed to revoke API token' }, 500);
+  }
+});
+
+export default app;
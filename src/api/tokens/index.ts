@@ -0,0 +1,69 @@
+/**
+ * @file API token list endpoints
+ * @purpose Handles POST /api/tokens (create) and GET /api/tokens (list)
+ * @inputs Create token requests
+ * @outputs Created tokens, including the token value once, and the user's tokens
+ * @invariants All operations scoped to authenticated user via RLS.
+ *             Tokens are managed from a session only; an API token can
+ *             never create or list tokens.
+ * @spec SPEC-2026-12
+ */
+import { Hono } from 'hono';
+import { requireSession } from '../../middleware/auth.js';
+import { validateBody } from '../../middleware/validation.js';
+import { createAuthenticatedSupabaseClient } from '../../lib/supabase.js';
+import { ApiTokenService } from '../../lib/api-token-service.js';
+import { logger } from '../../lib/logger.js';
+import { CreateApiTokenSchema, type CreateApiToken } from '../../schemas/token.js';
+import type { AuthEnv, AuthVariables } from '../../middleware/auth.js';
+import type { ValidationVariables } from '../../middleware/validation.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv;
+  Variables: AuthVariables & ValidationVariables;
+}>();
+
+app.use('*', requireSession);
+
+// POST /api/tokens - Create a token; its value is only returned here
+app.post('/', validateBody(CreateApiTokenSchema), async (c) => {
+  const data = c.get('validatedBody') as CreateApiToken;
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+  const service = new ApiTokenService(supabase, userId);
+
+  try {
+    const token = await service.createToken(data);
+    return c.json({ data: token }, 201);
+  } catch (error) {
+    logger.error({
+      event: 'api_token.create.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to create API token' }, 500);
+  }
+});
+
+// GET /api/tokens - List tokens with their scopes and when they were last used
+app.get('/', async (c) => {
+  const userId = c.get('userId');
+  const supabase = createAuthenticatedSupabaseClient(c);
+  const service = new ApiTokenService(supabase, userId);
+
+  try {
+    const tokens = await service.listTokens();
+    return c.json({ data: tokens });
+  } catch (error) {
+    logger.error({
+      event: 'api_token.list.failure',
+      actor: userId,
+      outcome: 'failure',
+      metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    return c.json({ error: 'Failed to fetch API tokens' }, 500);
+  }
+});
+
+export default app;
@@ -2,37 +2,109 @@
  * @file Application entry point
  * @purpose Creates the Hono application with all middleware applied
  *          in the correct order. This is the Cloudflare Workers entry point.
- * @inputs HTTP requests via Cloudflare Workers
- * @outputs HTTP responses
- * @invariants Middleware order: errors (outermost) -> headers -> auth -> routes.
+ * @inputs HTTP requests and cron triggers via Cloudflare Workers
+ * @outputs HTTP responses and scheduled job side effects
+ * @invariants Middleware order: errors (outermost) -> headers -> auth ->
+ *             rate limits -> idempotency -> routes.
  *             Error middleware must be first to catch all downstream errors.
  *             Headers middleware must run on every response including errors.
  *             Auth middleware must run before any route handler.
+ *             Rate limits count per user, so they follow auth, and run
+ *             before idempotency so replayed retries are counted too.
+ *             Idempotency needs the authenticated user, so it follows auth.
+ *             RateLimiter is exported for the RATE_LIMITER Durable Object binding.
  */
 
 import { Hono } from 'hono';
-import { errorMiddleware, headersMiddleware, authMiddleware } from './middleware/index.js';
-import type { AuthEnv, AuthVariables } from './middleware/index.js';
+import {
+  errorMiddleware,
+  headersMiddleware,
+  authMiddleware,
+  idempotency,
+  rateLimit,
+  RATE_LIMIT_BUDGETS,
+} from './middleware/index.js';
+import type {
+  AuthEnv,
+  AuthVariables,
+  RateLimitEnv,
+  RateLimitVariables,
+} from './middleware/index.js';
 import bookmarksIndex from './api/bookmarks/index.js';
 import bookmarksById from './api/bookmarks/[id].js';
+import bookmarksActions from './api/bookmarks/actions.js';
 import bookmarksTags from './api/bookmarks/tags/index.js';
+import bookmarksTrash from './api/bookmarks/trash/index.js';
+import bookmarksBulk from './api/bookmarks/bulk/index.js';
+import bookmarksImport from './api/bookmarks/import/index.js';
+import bookmarksExport from './api/bookmarks/export/index.js';
+import bookmarksDuplicates from './api/bookmarks/duplicates/index.js';
+import collectionsIndex from './api/collections/index.js';
+import collectionsById from './api/collections/[id].js';
+import gamesIndex from './api/games/index.js';
+import gamesById from './api/games/[id].js';
+import gamesShare from './api/games/share.js';
+import publicShares from './api/public/shares/[id].js';
+import tokensIndex from './api/tokens/index.js';
+import tokensById from './api/tokens/[id].js';
+import { handleScheduled, type JobEnv } from './jobs/index.js';
 
-const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
+export { RateLimiter } from './lib/rate-limit-store.js';
+
+const app = new Hono<{
+  Bindings: AuthEnv & RateLimitEnv;
+  Variables: AuthVariables & RateLimitVariables;
+}>();
 
 // Middleware order matters:
 // 1. Error handler (outermost - catches everything)
 // 2. Security headers (applied to all responses, including errors)
 // 3. Authentication (verifies JWT before route handlers)
+// 4. Rate limits (the overall API budget, plus tighter budgets for costly routes)
+// 5. Idempotency (replays retried mutations that carry an Idempotency-Key)
 app.use('*', errorMiddleware);
 app.use('*', headersMiddleware);
 app.use('/api/*', authMiddleware);
+app.use('/api/*', rateLimit(RATE_LIMIT_BUDGETS.api));
+app.use('/api/bookmarks', rateLimit(RATE_LIMIT_BUDGETS.createBookmark));
+app.use('/api/bookmarks/import', rateLimit(RATE_LIMIT_BUDGETS.importBookmarks));
+app.use('/api/bookmarks/:id/check', rateLimit(RATE_LIMIT_BUDGETS.checkLink));
+app.use('/api/games', rateLimit(RATE_LIMIT_BUDGETS.createGame));
+app.use('/api/games/:gameId/guesses', rateLimit(RATE_LIMIT_BUDGETS.submitGuess));
+app.use('/api/*', idempotency());
 
 // Health check (no auth required, outside /api/ path)
 app.get('/health', (c) => c.json({ status: 'ok' }));
 
-// Bookmark routes
+// Bookmark routes. Fixed paths are mounted before /:id so that
+// fixed segments such as "tags" or "trash" are never captured as a bookmark ID.
 app.route('/api/bookmarks', bookmarksIndex);
-app.route('/api/bookmarks', bookmarksById);
 app.route('/api/bookmarks/tags', bookmarksTags);
+app.route('/api/bookmarks/trash', bookmarksTrash);
+app.route('/api/bookmarks/bulk', bookmarksBulk);
+app.route('/api/bookmarks/import', bookmarksImport);
+app.route('/api/bookmarks/export', bookmarksExport);
+app.route('/api/bookmarks/duplicates', bookmarksDuplicates);
+app.route('/api/bookmarks', bookmarksById);
+app.route('/api/bookmarks', bookmarksActions);
+
+// Collection routes
+app.route('/api/collections', collectionsIndex);
+app.route('/api/collections', collectionsById);
+
+// Word game routes. Fixed paths (history, stats) are mounted before /:gameId.
+app.route('/api/games', gamesIndex);
+app.route('/api/games', gamesById);
+app.route('/api/games', gamesShare);
+
+// Public routes: no authentication, see authMiddleware
+app.route('/api/public/shares', publicShares);
+
+// Personal API token routes
+app.route('/api/tokens', tokensIndex);
+app.route('/api/tokens', tokensById);
 
-export default app;
+export default {
+  fetch: app.fetch,
+  scheduled: handleScheduled,
+} satisfies ExportedHandler<AuthEnv & RateLimitEnv & JobEnv>;
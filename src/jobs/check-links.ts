@@ -0,0 +1,95 @@
+/**
+ * @file Link health job
+ * @purpose Re-checks the bookmarks whose links were checked least recently,
+ *          so dead and moved links are found without user action
+ * @inputs Worker environment (service-role credentials, batch size setting)
+ * @outputs Health fields stored on each checked bookmark, structured log of
+ *          the batch outcome
+ * @invariants Runs only from the scheduled handler, never from a request.
+ *             Reads and writes only through the service-role database functions
+ *             links_due_for_check and record_link_health.
+ *             No more than MAX_CONCURRENT_CHECKS requests are open at once.
+ * @spec SPEC-2026-12
+ */
+
+import { createServiceSupabaseClient, type ServiceRoleEnv } from '../lib/supabase.js';
+import { checkLink, type LinkHealth } from '../lib/link-health.js';
+import { logger } from '../lib/logger.js';
+
+export interface CheckLinksEnv extends ServiceRoleEnv {
+  /** Bookmarks checked per run */
+  LINK_CHECK_BATCH_SIZE?: string;
+}
+
+const DEFAULT_BATCH_SIZE = 25;
+const MAX_BATCH_SIZE = 100;
+
+// Workers allow six simultaneous outbound connections per invocation
+const MAX_CONCURRENT_CHECKS = 6;
+
+/** Parses the batch size setting, falling back to the default when unset or invalid */
+function batchSize(env: CheckLinksEnv): number {
+  const size = Number(env.LINK_CHECK_BATCH_SIZE);
+  return Number.isInteger(size) && size >= 1 && size <= MAX_BATCH_SIZE ? size : DEFAULT_BATCH_SIZE;
+}
+
+/** Runs checks with at most MAX_CONCURRENT_CHECKS in flight */
+async function checkAll(
+  links: { bookmark_id: string; url: string }[],
+): Promise<(LinkHealth & { id: string })[]> {
+  const results: (LinkHealth & { id: string })[] = [];
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    for (let link = links[next++]; link; link = links[next++]) {
+      results.push({ id: link.bookmark_id, ...(await checkLink(link.url)) });
+    }
+  }
+
+  await Promise.all(Array.from({ length: MAX_CONCURRENT_CHECKS }, worker));
+  return results;
+}
+
+/** Logs a failed database call and throws */
+function fail(event: string, message: string, error: string): never {
+  logger.error({ event, actor: 'system', outcome: 'failure', metadata: { error } });
+  throw new Error(message);
+}
+
+/**
+ * Checks one batch of the least recently checked bookmarks across all users.
+ */
+export async function checkLinkHealth(env: CheckLinksEnv): Promise<void> {
+  const supabase = createServiceSupabaseClient(env);
+
+  const { data: due, error: dueError } = await supabase.rpc('links_due_for_check', {
+    batch_size: batchSize(env),
+  });
+  if (dueError) {
+    fail('bookmark.health.batch.failed', 'Failed to select links to check', dueError.message);
+  }
+
+  const results = await checkAll(due);
+  if (results.length === 0) {
+    return;
+  }
+
+  const { error: recordError } = await supabase.rpc('record_link_health', { results });
+  if (recordError) {
+    fail('bookmark.health.record.failed', 'Failed to record link health', recordError.message);
+  }
+
+  const count = (status: string) => results.filter((r) => r.health_status === status).length;
+
+  logger.info({
+    event: 'bookmark.health.batch_checked',
+    actor: 'system',
+    outcome: 'success',
+    metadata: {
+      checked: results.length,
+      ok: count('ok'),
+      redirected: count('redirected'),
+      broken: count('broken'),
+    },
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * @file Daily word job
+ * @purpose Chooses the shared daily-mode answer for today and the next few
+ *          days, so a word is always ready when a UTC day begins
+ * @inputs Worker environment (service-role credentials, daily word secret)
+ * @outputs Daily words stored in the database, structured log of the words added
+ * @invariants Runs only from the scheduled handler, never from a request.
+ *             Reads and writes only through the service-role database functions
+ *             recent_daily_words and set_daily_word. A day's word never
+ *             changes once chosen, and is never logged.
+ * @spec SPEC-2026-27
+ */
+
+import { createServiceSupabaseClient, type ServiceRoleEnv } from '../lib/supabase.js';
+import { selectAnswer } from '../lib/word-list.js';
+import { logger } from '../lib/logger.js';
+
+export interface DailyWordsEnv extends ServiceRoleEnv {
+  /** Seeds the choice, so daily answers cannot be worked out from the word list */
+  DAILY_WORD_SECRET: string;
+}
+
+// Days after today that always have a word, in case a run fails
+const DAYS_AHEAD = 2;
+
+// Past daily words a new one avoids repeating
+const RECENT_WORDS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Logs a failed database call and throws */
+function fail(event: string, message: string, error: string): never {
+  logger.error({ event, actor: 'system', outcome: 'failure', metadata: { error } });
+  throw new Error(message);
+}
+
+/**
+ * Chooses the daily word for each UTC day from today to DAYS_AHEAD days
+ * ahead that does not have one yet. Each word is chosen from the secret and
+ * the day, skipping the daily words of the past year.
+ */
+export async function chooseDailyWords(env: DailyWordsEnv): Promise<void> {
+  const supabase = createServiceSupabaseClient(env);
+
+  const { data: recent, error: recentError } = await supabase.rpc('recent_daily_words', {
+    max_results: RECENT_WORDS,
+  });
+  if (recentError) {
+    fail('game.daily.read.failed', 'Failed to read daily words', recentError.message);
+  }
+
+  const rows = recent as { day: string; target_word: string }[];
+  const chosenDays = new Set(rows.map((row) => row.day));
+  const recentWords = rows.map((row) => row.target_word);
+  const added: string[] = [];
+
+  for (let offset = 0; offset <= DAYS_AHEAD; offset++) {
+    const day = new Date(Date.now() + offset * DAY_MS).toISOString().slice(0, 10);
+    if (chosenDays.has(day)) {
+      continue;
+    }
+
+    const word = await selectAnswer(`${env.DAILY_WORD_SECRET}:${day}`, recentWords);
+    const { data: stored, error: setError } = await supabase.rpc('set_daily_word', {
+      p_day: day,
+      p_word: word,
+    });
+    if (setError) {
+      fail('game.daily.store.failed', 'Failed to store daily word', setError.message);
+    }
+
+    recentWords.unshift(stored);
+    added.push(day);
+  }
+
+  logger.info({
+    event: 'game.daily.chosen',
+    actor: 'system',
+    outcome: 'success',
+    metadata: { days: added },
+  });
+}
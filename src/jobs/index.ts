@@ -0,0 +1,50 @@
+/**
+ * @file Scheduled job dispatcher
+ * @purpose Routes Cloudflare cron triggers to the maintenance job they run
+ * @inputs ScheduledController from the Workers runtime, Worker environment
+ * @outputs Side effects of the dispatched job
+ * @invariants Every cron expression in wrangler.toml maps to exactly one job.
+ *             Unknown cron expressions are logged, never silently ignored.
+ */
+
+import { logger } from '../lib/logger.js';
+import { checkLinkHealth, type CheckLinksEnv } from './check-links.js';
+import { chooseDailyWords, type DailyWordsEnv } from './choose-daily-words.js';
+import { purgeExpiredIdempotencyKeys } from './purge-idempotency-keys.js';
+import { purgeExpiredTrash, type PurgeTrashEnv } from './purge-trash.js';
+
+/** Environment bindings needed by all scheduled jobs */
+export type JobEnv = PurgeTrashEnv & CheckLinksEnv & DailyWordsEnv;
+
+/** Cron expressions configured in wrangler.toml */
+export const CRON_PURGE_TRASH = '0 3 * * *';
+export const CRON_CHECK_LINKS = '30 * * * *';
+export const CRON_PURGE_IDEMPOTENCY_KEYS = '15 3 * * *';
+export const CRON_CHOOSE_DAILY_WORDS = '45 12 * * *';
+
+/**
+ * Scheduled handler for the Worker.
+ */
+export async function handleScheduled(controller: ScheduledController, env: JobEnv): Promise<void> {
+  switch (controller.cron) {
+    case CRON_PURGE_TRASH:
+      await purgeExpiredTrash(env);
+      return;
+    case CRON_CHECK_LINKS:
+      await checkLinkHealth(env);
+      return;
+    case CRON_PURGE_IDEMPOTENCY_KEYS:
+      await purgeExpiredIdempotencyKeys(env);
+      return;
+    case CRON_CHOOSE_DAILY_WORDS:
+      await chooseDailyWords(env);
+      return;
+    default:
+      logger.warn({
+        event: 'job.unknown_cron',
+        actor: 'system',
+        outcome: 'failure',
+        metadata: { cron: controller.cron },
+      });
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * @file Idempotency key cleanup job
+ * @purpose Deletes idempotency keys whose replay window has passed
+ * @inputs Worker environment (service-role credentials)
+ * @outputs Deleted rows in the database, structured log of the purge count
+ * @invariants Runs only from the scheduled handler, never from a request.
+ *             Only keys past their expiry are removed.
+ * @spec SPEC-2026-12
+ */
+
+import { createServiceSupabaseClient, type ServiceRoleEnv } from '../lib/supabase.js';
+import { logger } from '../lib/logger.js';
+
+/**
+ * Purges expired idempotency keys for every user via the
+ * purge_expired_idempotency_keys database function.
+ */
+export async function purgeExpiredIdempotencyKeys(env: ServiceRoleEnv): Promise<void> {
+  const supabase = createServiceSupabaseClient(env);
+
+  const { data: purged, error } = await supabase.rpc('purge_expired_idempotency_keys');
+
+  if (error) {
+    logger.error({
+      event: 'idempotency.purge.failed',
+      actor: 'system',
+      outcome: 'failure',
+      metadata: { error: error.message },
+    });
+    throw new Error('Failed to purge expired idempotency keys');
+  }
+
+  logger.info({
+    event: 'idempotency.purged',
+    actor: 'system',
+    outcome: 'success',
+    metadata: { count: purged },
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * @file Trash retention job
+ * @purpose Permanently removes bookmarks that have been in the trash longer
+ *          than the configured retention window
+ * @inputs Worker environment (service-role credentials, retention setting)
+ * @outputs Purged rows in the database, structured log of the purge count
+ * @invariants Runs only from the scheduled handler, never from a request.
+ *             Only rows with deleted_at older than the window are removed.
+ * @spec SPEC-2026-12
+ */
+
+import { createServiceSupabaseClient, type ServiceRoleEnv } from '../lib/supabase.js';
+import { logger } from '../lib/logger.js';
+
+export interface PurgeTrashEnv extends ServiceRoleEnv {
+  /** Days a bookmark stays in the trash before it is purged */
+  TRASH_RETENTION_DAYS?: string;
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** Parses the retention setting, falling back to the default when unset or invalid */
+function retentionDays(env: PurgeTrashEnv): number {
+  const days = Number(env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days >= 1 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Purges expired trash for every user via the purge_deleted_bookmarks
+ * database function.
+ */
+export async function purgeExpiredTrash(env: PurgeTrashEnv): Promise<void> {
+  const days = retentionDays(env);
+  const supabase = createServiceSupabaseClient(env);
+
+  const { data: purged, error } = await supabase.rpc('purge_deleted_bookmarks', {
+    retention_days: days,
+  });
+
+  if (error) {
+    logger.error({
+      event: 'bookmark.trash.purge.failed',
+      actor: 'system',
+      outcome: 'failure',
+      metadata: { error: error.message, retentionDays: days },
+    });
+    throw new Error('Failed to purge expired trash');
+  }
+
+  logger.info({
+    event: 'bookmark.trash.purged',
+    actor: 'system',
+    outcome: 'success',
+    metadata: { count: purged, retentionDays: days },
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * @file API token service layer
+ * @purpose Creates, lists and revokes personal API tokens, and resolves a
+ *          presented token to its owner and scopes
+ * @inputs Validated token data, token IDs and presented tokens
+ * @outputs Database results
+ * @invariants All token management scoped to authenticated user via RLS.
+ *             Token hashes are never selected back out of the database.
+ *             Expired tokens never authenticate.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ApiToken, ApiTokenScope, CreateApiToken, CreatedApiToken } from '../schemas/token.js';
+import { generateApiToken, hashApiToken } from './api-token.js';
+import { logger } from './logger.js';
+
+// Every column except token_hash
+const TOKEN_COLUMNS = 'id, name, token_prefix, scopes, created_at, last_used_at, expires_at';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The owner and permissions of a presented token */
+export interface AuthenticatedApiToken {
+  tokenId: string;
+  userId: string;
+  scopes: ApiTokenScope[];
+}
+
+/**
+ * Resolves a presented token, recording that it was used. Returns null for
+ * unknown and expired tokens. The client only needs the anon key: the lookup
+ * is a database function that matches on the token's hash.
+ */
+export async function authenticateApiToken(
+  supabase: SupabaseClient,
+  token: string,
+): Promise<AuthenticatedApiToken | null> {
+  const { data, error } = await supabase.rpc('authenticate_api_token', {
+    p_token_hash: await hashApiToken(token),
+  });
+
+  if (error) {
+    throw new Error('Failed to verify API token');
+  }
+
+  const [match] = data as { token_id: string; user_id: string; scopes: ApiTokenScope[] }[];
+  return match ? { tokenId: match.token_id, userId: match.user_id, scopes: match.scopes } : null;
+}
+
+export class ApiTokenService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  /** Creates a token; the returned token value cannot be retrieved again */
+  async createToken(data: CreateApiToken): Promise<CreatedApiToken> {
+    const { token, hash, prefix } = await generateApiToken();
+
+    const { data: created, error } = await this.supabase
+      .from('api_tokens')
+      .insert({
+        user_id: this.userId,
+        name: data.name,
+        token_hash: hash,
+        token_prefix: prefix,
+        scopes: data.scopes,
+        expires_at: data.expires_in_days
+          ? new Date(Date.now() + data.expires_in_days * DAY_MS).toISOString()
+          : null,
+      })
+      .select(TOKEN_COLUMNS)
+      .single();
+
+    if (error) {
+      logger.error({
+        event: 'api_token.create.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to create API token');
+    }
+
+    logger.info({
+      event: 'api_token.created',
+      actor: this.userId,
+      resource: created.id,
+      outcome: 'success',
+      metadata: { scopes: data.scopes, expires_at: created.expires_at },
+    });
+
+    return { ...created, token };
+  }
+
+  /** Lists the user's tokens, newest first */
+  async listTokens(): Promise<ApiToken[]> {
+    const { data: tokens, error } = await this.supabase
+      .from('api_tokens')
+      .select(TOKEN_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error({
+        event: 'api_token.list.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to fetch API tokens');
+    }
+
+    return tokens;
+  }
+
+  /** Revokes a token; it stops authenticating immediately */
+  async revokeToken(id: string): Promise<boolean> {
+    const { data: revoked, error } = await this.supabase
+      .from('api_tokens')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      logger.error({
+        event: 'api_token.revoke.failed',
+        actor: this.userId,
+        resource: id,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to revoke API token');
+    }
+
+    if (revoked.length > 0) {
+      logger.info({
+        event: 'api_token.revoked',
+        actor: this.userId,
+        resource: id,
+        outcome: 'success',
+        metadata: {},
+      });
+    }
+
+    return revoked.length > 0;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * @file Personal API token helpers
+ * @purpose Generates personal API tokens, recognises them in Authorization
+ *          headers, and mints the short-lived database JWT a token stands in for
+ * @inputs Random bytes, presented tokens, and the Supabase JWT secret
+ * @outputs Tokens, their hashes and display prefixes, and signed JWTs
+ * @invariants Tokens carry 256 bits of randomness and are only ever stored
+ *             as SHA-256 hashes. Minted JWTs carry the token owner's ID, so
+ *             database access stays scoped by RLS exactly as for a session.
+ *             mintAccessToken is the only user of SUPABASE_JWT_SECRET, which
+ *             can sign any role, service_role included. The role it signs is
+ *             fixed to authenticated, and this file is reviewed as part of
+ *             the middleware security kernel (docs/CONVENTIONS.md).
+ * @spec SPEC-2026-12
+ */
+
+import { sign } from 'hono/jwt';
+import { sha256Hex } from './hash.js';
+
+/** Marks a bearer token as a personal API token rather than a session JWT */
+export const API_TOKEN_PREFIX = 'bmk_';
+
+// Enough of the token to tell tokens apart in a list, far too little to guess the rest
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8;
+
+// Minted JWTs only need to outlive the request they are minted for
+const ACCESS_TOKEN_TTL_SECONDS = 60;
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/** Generates a new token with its hash and display prefix */
+export async function generateApiToken(): Promise<{
+  token: string;
+  hash: string;
+  prefix: string;
+}> {
+  const token = API_TOKEN_PREFIX + base64url(crypto.getRandomValues(new Uint8Array(32)));
+  return { token, hash: await hashApiToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/** Returns true if a bearer token is a personal API token */
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/** Hashes a token the way it is stored */
+export function hashApiToken(token: string): Promise<string> {
+  return sha256Hex(token);
+}
+
+/**
+ * Signs a JWT for the token's owner that PostgREST accepts like a session
+ * token, so queries made on behalf of the API token are scoped by RLS.
+ * The secret would sign any claims, so the role must stay authenticated.
+ */
+export function mintAccessToken(userId: string, jwtSecret: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return sign(
+    {
+      sub: userId,
+      role: 'authenticated',
+      aud: 'authenticated',
+      iat: now,
+      exp: now + ACCESS_TOKEN_TTL_SECONDS,
+    },
+    jwtSecret,
+  );
+}
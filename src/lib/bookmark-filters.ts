@@ -0,0 +1,92 @@
+/**
+ * @file Bookmark list filters
+ * @purpose Applies the tag, health and collection filters accepted by the
+ *          bookmark list endpoint to a PostgREST query, so every caller that
+ *          lists bookmarks filters the same way regardless of whether rows
+ *          come from a table or a function.
+ * @inputs A PostgREST filter builder and validated filter parameters
+ * @outputs The same builder with filters appended
+ * @invariants Filter values are always sent as quoted Postgres array literals,
+ *             never interpolated raw into PostgREST filter syntax.
+ * @spec SPEC-2026-12
+ */
+
+import type { BookmarkFilter } from '../schemas/bookmark.js';
+
+/** The subset of tag filter parameters this module understands */
+export type BookmarkTagFilters = Pick<BookmarkFilter, 'tag' | 'tags' | 'match' | 'exclude_tags'>;
+
+/** Structural view of the PostgREST builder methods used here */
+interface TagFilterable<Q> {
+  contains(column: string, value: string): Q;
+  overlaps(column: string, value: string): Q;
+  not(column: string, operator: string, value: string): Q;
+}
+
+interface HealthFilterable<Q> {
+  eq(column: string, value: string): Q;
+}
+
+/**
+ * Formats values as a Postgres array literal with every element quoted,
+ * so tags containing commas, braces or dots cannot alter the filter.
+ */
+export function toPgArrayLiteral(values: readonly string[]): string {
+  const quoted = values.map((value) => `"${value.replace(/["\\]/g, '\\$&')}"`);
+  return `{${quoted.join(',')}}`;
+}
+
+/**
+ * Applies tag filters to a bookmark query. Filters match hierarchically:
+ * they test tag_paths, which holds every tag and all of its ancestors, so
+ * `dev` matches bookmarks tagged `dev/typescript`.
+ * - `tag` requires a single tag (kept for existing clients)
+ * - `tags` with `match=all` (default) requires every tag, `match=any` at least one
+ * - `exclude_tags` drops bookmarks carrying any of the listed tags or their
+ *   descendants
+ */
+export function applyTagFilters<Q extends TagFilterable<Q>>(
+  query: Q,
+  filters: BookmarkTagFilters,
+): Q {
+  let filtered = query;
+
+  if (filters.tag) {
+    filtered = filtered.contains('tag_paths', toPgArrayLiteral([filters.tag]));
+  }
+
+  if (filters.tags) {
+    const literal = toPgArrayLiteral(filters.tags);
+    filtered =
+      filters.match === 'any'
+        ? filtered.overlaps('tag_paths', literal)
+        : filtered.contains('tag_paths', literal);
+  }
+
+  if (filters.exclude_tags) {
+    filtered = filtered.not('tag_paths', 'ov', toPgArrayLiteral(filters.exclude_tags));
+  }
+
+  return filtered;
+}
+
+/**
+ * Restricts a bookmark query to links whose last check found them broken
+ * or redirected. Unchecked bookmarks never match.
+ */
+export function applyHealthFilter<Q extends HealthFilterable<Q>>(
+  query: Q,
+  filters: Pick<BookmarkFilter, 'health'>,
+): Q {
+  return filters.health ? query.eq('health_status', filters.health) : query;
+}
+
+/** Restricts a bookmark query to members of one collection (not its subcollections) */
+export function applyCollectionFilter<Q extends TagFilterable<Q>>(
+  query: Q,
+  filters: Pick<BookmarkFilter, 'collection_id'>,
+): Q {
+  return filters.collection_id
+    ? query.contains('collection_ids', toPgArrayLiteral([filters.collection_id]))
+    : query;
+}
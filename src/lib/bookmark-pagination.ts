@@ -0,0 +1,116 @@
+/**
+ * @file Keyset pagination for bookmark lists
+ * @purpose Pages through bookmarks using a composite (sort key, id) cursor so
+ *          rows sharing a sort value are never skipped or repeated, and a
+ *          cursor stays valid after the row it points at is deleted.
+ * @inputs A PostgREST query, the requested sort and order, and a decoded cursor
+ * @outputs Ordered, keyset-filtered queries and pages with next/prev cursors
+ * @invariants Every ordering ends with id as a tie-breaker, matching the
+ *             keyset condition. Cursor values are quoted before being placed
+ *             in PostgREST filter syntax.
+ * @spec SPEC-2026-12
+ */
+
+import type { Bookmark, BookmarkCursor, BookmarkSort, SortOrder } from '../schemas/bookmark.js';
+import { encodeCursor } from './cursor.js';
+
+/** Structural view of the PostgREST builder methods used here */
+interface Pageable<Q> {
+  or(filters: string): Q;
+  order(column: string, options: { ascending: boolean }): Q;
+}
+
+/** Sort keys a page can be ordered by; deleted_at orders the trash */
+export type PageSort = BookmarkSort | 'deleted_at';
+
+export interface PageRequest {
+  sort: PageSort;
+  order: SortOrder;
+  cursor?: BookmarkCursor;
+  limit: number;
+}
+
+export interface BookmarkPage {
+  bookmarks: Bookmark[];
+  hasMore: boolean;
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
+/** Quotes a value for use inside a PostgREST logical filter */
+function toFilterValue(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function sortColumn(sort: PageSort): string {
+  return sort === 'relevance' ? 'search_rank' : sort;
+}
+
+function sortValue(bookmark: Bookmark, sort: PageSort): string | number {
+  switch (sort) {
+    case 'relevance':
+      return bookmark.search_rank ?? 0;
+    case 'deleted_at':
+      return bookmark.deleted_at ?? '';
+    default:
+      return bookmark[sort];
+  }
+}
+
+function isBackwards(request: PageRequest): boolean {
+  return request.cursor?.direction === 'prev';
+}
+
+/**
+ * Applies ordering and the keyset condition for the requested page.
+ * Paging backwards reads the preceding rows in reverse order; toPage
+ * flips them back so every page is returned in the requested order.
+ */
+export function applyKeyset<Q extends Pageable<Q>>(query: Q, request: PageRequest): Q {
+  const ascending = (request.order === 'asc') !== isBackwards(request);
+  const column = sortColumn(request.sort);
+  let paged = query;
+
+  if (request.cursor) {
+    const op = ascending ? 'gt' : 'lt';
+    const value = toFilterValue(request.cursor.value);
+    paged = paged.or(
+      `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${request.cursor.id})`,
+    );
+  }
+
+  return paged.order(column, { ascending }).order('id', { ascending });
+}
+
+/**
+ * Builds a page from rows fetched with limit + 1, using the extra row to
+ * detect whether more rows exist in the direction of travel.
+ */
+export function toPage(rows: Bookmark[], request: PageRequest): BookmarkPage {
+  const backwards = isBackwards(request);
+  const hasExtra = rows.length > request.limit;
+  const pageRows = hasExtra ? rows.slice(0, request.limit) : rows;
+  const bookmarks = backwards ? [...pageRows].reverse() : pageRows;
+
+  // Arriving via a cursor means the page we came from is still there
+  const hasNext = backwards ? true : hasExtra;
+  const hasPrev = backwards ? hasExtra : request.cursor !== undefined;
+
+  const cursorFor = (bookmark: Bookmark | undefined, direction: 'next' | 'prev') =>
+    bookmark
+      ? encodeCursor({
+          sort: request.sort,
+          order: request.order,
+          value: sortValue(bookmark, request.sort),
+          id: bookmark.id,
+          direction,
+        })
+      : undefined;
+
+  return {
+    bookmarks,
+    hasMore: hasNext,
+    nextCursor: hasNext ? cursorFor(bookmarks[bookmarks.length - 1], 'next') : undefined,
+    prevCursor: hasPrev ? cursorFor(bookmarks[0], 'prev') : undefined,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * @file Bookmark write preconditions
+ * @purpose Evaluates If-Match for writes to a single bookmark
+ * @inputs A bookmark service, the bookmark ID and the request's If-Match header
+ * @outputs The bookmark version a conditional write must still find
+ * @invariants Preconditions are evaluated against the active bookmark, or
+ *             also a trashed one for writes that reach the trash, such as a
+ *             permanent delete.
+ *             Throws 'Bookmark not found' or 'Precondition failed', which
+ *             preconditionError maps to 404 and 412 responses.
+ * @spec SPEC-2026-12
+ */
+
+import type { Bookmark } from '../schemas/bookmark.js';
+import type { BookmarkService } from './bookmark-service.js';
+import { bookmarkEtag, etagMatches } from './etag.js';
+
+export interface WriteTarget {
+  /** The write also applies to a bookmark in the trash */
+  includeTrashed?: boolean;
+}
+
+/**
+ * Loads the bookmark a write applies to and, when an If-Match header was
+ * sent, checks that it names the bookmark's current ETag.
+ */
+export async function loadForWrite(
+  service: BookmarkService,
+  id: string,
+  ifMatch: string | undefined,
+  target: WriteTarget = {},
+): Promise<Bookmark> {
+  const current = await service.getBookmarkById(id, target);
+  if (!current) {
+    throw new Error('Bookmark not found');
+  }
+  if (ifMatch !== undefined && !etagMatches(ifMatch, await bookmarkEtag(current), true)) {
+    throw new Error('Precondition failed');
+  }
+  return current;
+}
+
+/**
+ * Evaluates If-Match for a write that does not otherwise need the current
+ * bookmark. Returns the updated_at the write must still find, or undefined
+ * when the request is unconditional.
+ */
+export async function checkIfMatch(
+  service: BookmarkService,
+  id: string,
+  ifMatch: string | undefined,
+  target: WriteTarget = {},
+): Promise<string | undefined> {
+  return ifMatch === undefined
+    ? undefined
+    : (await loadForWrite(service, id, ifMatch, target)).updated_at;
+}
+
+/** Maps the errors thrown by loadForWrite to an error body and status */
+export function preconditionError(error: unknown): { error: string; status: 404 | 412 } | null {
+  if (error instanceof Error && error.message === 'Bookmark not found') {
+    return { error: 'Bookmark not found', status: 404 };
+  }
+  if (error instanceof Error && error.message === 'Precondition failed') {
+    return { error: 'Bookmark has been modified', status: 412 };
+  }
+  return null;
+}
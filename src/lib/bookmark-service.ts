@@ -10,11 +10,20 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type {
   CreateBookmark,
-  UpdateBookmark,
+  PatchBookmark,
   BookmarkQuery,
   Bookmark,
 } from '../schemas/bookmark.js';
+import { applyCollectionFilter, applyHealthFilter, applyTagFilters } from './bookmark-filters.js';
+import { applyKeyset, toPage, type BookmarkPage } from './bookmark-pagination.js';
 import { logger } from './logger.js';
+import type { PageMetadata } from './page-metadata.js';
+import { canonicalizeUrl } from './url-canonical.js';
+
+// Raised when collection_ids names a collection the user does not own
+const FOREIGN_KEY_VIOLATION = '23503';
+// Raised when the URL is already saved on another active bookmark
+const UNIQUE_VIOLATION = '23505';
 
 export class BookmarkService {
   constructor(
@@ -22,12 +31,24 @@ export class BookmarkService {
     private userId: string,
   ) {}
 
-  async createBookmark(data: CreateBookmark): Promise<Bookmark> {
+  /**
+   * Creates a bookmark. Page metadata, when given, fills in the title and
+   * description the client left out; a missing title falls back to the URL.
+   */
+  async createBookmark(data: CreateBookmark, metadata?: PageMetadata | null): Promise<Bookmark> {
     const bookmarkData = {
       ...data,
+      canonical_url: canonicalizeUrl(data.url),
       user_id: this.userId,
+      title: data.title ?? metadata?.title ?? data.url.slice(0, 500),
       tags: data.tags || null,
-      description: data.description || null,
+      description: data.description || metadata?.description || null,
+      ...(metadata && {
+        site_name: metadata.site_name,
+        favicon_url: metadata.favicon_url,
+        page_canonical_url: metadata.page_canonical_url,
+        enriched_at: new Date().toISOString(),
+      }),
     };
 
     const { data: bookmark, error } = await this.supabase
@@ -37,6 +58,12 @@ export class BookmarkService {
       .single();
 
     if (error) {
+      if (error.code === FOREIGN_KEY_VIOLATION) {
+        throw new Error('Unknown collection');
+      }
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error('Bookmark already exists');
+      }
       logger.error({
         event: 'bookmark.create.failed',
         actor: this.userId,
@@ -57,75 +84,83 @@ export class BookmarkService {
     return bookmark;
   }
 
-  async listBookmarks(
-    query: BookmarkQuery,
-  ): Promise<{ bookmarks: Bookmark[]; hasMore: boolean; cursor?: string }> {
-    let supabaseQuery = this.supabase
-      .from('bookmarks')
-      .select('*')
-      .is('deleted_at', null)
-      .order('created_at', { ascending: false });
-
-    // Apply tag filter if provided
-    if (query.tag) {
-      supabaseQuery = supabaseQuery.contains('tags', [query.tag]);
-    }
-
-    // Apply cursor-based pagination
-    const limit = query.limit || 20;
-    if (query.cursor) {
-      const { data: cursorBookmark } = await this.supabase
-        .from('bookmarks')
-        .select('created_at')
-        .eq('id', query.cursor)
-        .single();
+  async listBookmarks(query: BookmarkQuery): Promise<BookmarkPage> {
+    const pageRequest = {
+      sort: query.sort,
+      order: query.order,
+      cursor: query.cursor,
+      limit: query.limit || 20,
+    };
 
-      if (cursorBookmark) {
-        supabaseQuery = supabaseQuery.lt('created_at', cursorBookmark.created_at);
-      }
-    }
+    let supabaseQuery = this.selectBookmarks(query.q).is('deleted_at', null);
+    supabaseQuery = applyTagFilters(supabaseQuery, query);
+    supabaseQuery = applyHealthFilter(supabaseQuery, query);
+    supabaseQuery = applyCollectionFilter(supabaseQuery, query);
+    supabaseQuery = applyKeyset(supabaseQuery, pageRequest);
 
     // Fetch limit + 1 to check if there are more results
-    const { data: bookmarks, error } = await supabaseQuery.limit(limit + 1);
+    const { data: bookmarks, error } = await supabaseQuery.limit(pageRequest.limit + 1);
 
     if (error) {
       logger.error({
         event: 'bookmark.list.failed',
         actor: this.userId,
         outcome: 'failure',
-        metadata: { error: error.message, tag: query.tag },
+        metadata: {
+          error: error.message,
+          tag: query.tag,
+          tags: query.tags,
+          search: query.q !== undefined,
+        },
       });
       throw new Error('Failed to fetch bookmarks');
     }
 
-    const hasMore = bookmarks.length > limit;
-    const resultBookmarks = hasMore ? bookmarks.slice(0, limit) : bookmarks;
-    const cursor =
-      hasMore && resultBookmarks.length > 0
-        ? resultBookmarks[resultBookmarks.length - 1].id
-        : undefined;
+    const page = toPage(bookmarks, pageRequest);
 
     logger.info({
       event: 'bookmark.listed',
       actor: this.userId,
       outcome: 'success',
-      metadata: { count: resultBookmarks.length, hasMore, tag: query.tag },
+      metadata: {
+        count: page.bookmarks.length,
+        hasMore: page.hasMore,
+        tag: query.tag,
+        tags: query.tags,
+        match: query.match,
+        health: query.health,
+        collection: query.collection_id !== undefined,
+        search: query.q !== undefined,
+        sort: query.sort,
+        order: query.order,
+        direction: query.cursor?.direction ?? 'next',
+      },
     });
 
-    return {
-      bookmarks: resultBookmarks,
-      hasMore,
-      cursor,
-    };
+    return page;
   }
 
-  async getBookmarkById(id: string): Promise<Bookmark | null> {
-    const { data: bookmark, error } = await this.supabase
-      .from('bookmarks')
-      .select('*')
-      .eq('id', id)
-      .is('deleted_at', null)
-      .single();
+  /**
+   * Starts a bookmark select. With a search query the rows come from the
+   * search_bookmarks function, which adds a search_rank column and only
+   * returns matches; filters and ordering chain on either source alike.
+   */
+  private selectBookmarks(search?: string) {
+    return search
+      ? this.supabase.rpc('search_bookmarks', { search_query: search })
+      : this.supabase.from('bookmarks').select('*');
+  }
+
+  /** Loads an active bookmark, or one in the trash too with includeTrashed */
+  async getBookmarkById(
+    id: string,
+    { includeTrashed = false }: { includeTrashed?: boolean } = {},
+  ): Promise<Bookmark | null> {
+    let query = this.supabase.from('bookmarks').select('*').eq('id', id);
+    if (!includeTrashed) {
+      query = query.is('deleted_at', null);
+    }
+    const { data: bookmark, error } = await query.single();
 
     if (error) {
       if (error.code === 'PGRST116') {
@@ -153,18 +188,37 @@ export class BookmarkService {
     return bookmark;
   }
 
-  async updateBookmark(id: string, data: UpdateBookmark): Promise<Bookmark | null> {
+  /**
+   * Updates an active bookmark. Fields left undefined are unchanged and null
+   * clears a field, so both a merge patch and a full replacement apply
+   * directly. With expectedUpdatedAt the update only applies if the bookmark
+   * has not changed since that version; otherwise, as when the bookmark does
+   * not exist, null is returned.
+   */
+  async updateBookmark(
+    id: string,
+    data: PatchBookmark,
+    expectedUpdatedAt?: string,
+  ): Promise<Bookmark | null> {
     const updateData = {
       ...data,
-      ...(data.tags !== undefined && { tags: data.tags }),
-      ...(data.description !== undefined && { description: data.description }),
+      ...(data.url !== undefined && { canonical_url: canonicalizeUrl(data.url) }),
+      // An empty description is stored as no description, as on create
+      ...(data.description === '' && { description: null }),
+      // Membership is never null in the database; clearing it empties it
+      ...(data.collection_ids === null && { collection_ids: [] }),
     };
 
+    if (Object.values(updateData).every((value) => value === undefined)) {
+      return this.getBookmarkById(id);
+    }
+
     const { data: bookmark, error } = await this.supabase
       .from('bookmarks')
       .update(updateData)
       .eq('id', id)
       .is('deleted_at', null)
+      .match(expectedUpdatedAt ? { updated_at: expectedUpdatedAt } : {})
       .select()
       .single();
 
@@ -172,6 +226,12 @@ export class BookmarkService {
       if (error.code === 'PGRST116') {
         return null;
       }
+      if (error.code === FOREIGN_KEY_VIOLATION) {
+        throw new Error('Unknown collection');
+      }
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error('Bookmark already exists');
+      }
       logger.error({
         event: 'bookmark.update.failed',
         actor: this.userId,
@@ -193,12 +253,18 @@ export class BookmarkService {
     return bookmark;
   }
 
-  async deleteBookmark(id: string): Promise<boolean> {
-    const { error } = await this.supabase
+  /**
+   * Moves an active bookmark to the trash, only if it is still at
+   * expectedUpdatedAt when given. Returns false if nothing was trashed.
+   */
+  async deleteBookmark(id: string, expectedUpdatedAt?: string): Promise<boolean> {
+    const { data: deleted, error } = await this.supabase
       .from('bookmarks')
       .update({ deleted_at: new Date().toISOString() })
       .eq('id', id)
-      .is('deleted_at', null);
+      .is('deleted_at', null)
+      .match(expectedUpdatedAt ? { updated_at: expectedUpdatedAt } : {})
+      .select('id');
 
     if (error) {
       logger.error({
@@ -216,42 +282,9 @@ export class BookmarkService {
       actor: this.userId,
       resource: id,
       outcome: 'success',
-      metadata: {},
-    });
-
-    return true;
-  }
-
-  async getUserTags(): Promise<string[]> {
-    const { data: bookmarks, error } = await this.supabase
-      .from('bookmarks')
-      .select('tags')
-      .is('deleted_at', null)
-      .not('tags', 'is', null);
-
-    if (error) {
-      logger.error({
-        event: 'bookmark.tags.failed',
-        actor: this.userId,
-        outcome: 'failure',
-        metadata: { error: error.message },
-      });
-      throw new Error('Failed to fetch tags');
-    }
-
-    // Flatten and deduplicate tags
-    const allTags = bookmarks
-      .flatMap((bookmark) => bookmark.tags || [])
-      .filter((tag, index, array) => array.indexOf(tag) === index)
-      .sort();
-
-    logger.info({
-      event: 'bookmark.tags.listed',
-      actor: this.userId,
-      outcome: 'success',
-      metadata: { count: allTags.length },
+      metadata: { deleted: deleted.length > 0 },
     });
 
-    return allTags;
+    return deleted.length > 0;
   }
 }
@@ -0,0 +1,170 @@
+/**
+ * @file Bulk bookmark operations service
+ * @purpose Applies one tag, delete or restore operation to many bookmarks
+ *          with a constant number of database round trips per request
+ * @inputs Validated bulk operations and their target IDs or filter
+ * @outputs Per-item results and an aggregate summary
+ * @invariants All queries scoped to authenticated user via RLS.
+ *             One aggregate bookmark.bulk.* event is logged per operation,
+ *             never one event per bookmark.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  MAX_BULK_BATCH_SIZE,
+  type BulkFilter,
+  type BulkItemResult,
+  type BulkOperation,
+  type BulkRequest,
+} from '../schemas/bulk.js';
+import { BookmarkService } from './bookmark-service.js';
+import { logger } from './logger.js';
+
+export interface BulkResult {
+  action: BulkOperation['action'];
+  results: BulkItemResult[];
+  summary: { requested: number; succeeded: number; failed: number };
+}
+
+/** Maps bulk tag actions to the bulk_apply_tags database function's actions */
+const TAG_ACTIONS = {
+  add_tags: 'add',
+  remove_tags: 'remove',
+  replace_tags: 'replace',
+} as const;
+
+export class BulkBookmarkService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  /**
+   * Resolves the bookmarks a request targets. Returns null when a filter
+   * matches more bookmarks than a single batch may contain.
+   */
+  async resolveTargets(request: BulkRequest): Promise<string[] | null> {
+    if (request.ids) {
+      return [...new Set(request.ids)];
+    }
+    return this.resolveFilter(request.filter ?? {});
+  }
+
+  async apply(operation: BulkOperation, ids: string[]): Promise<BulkResult> {
+    const { succeeded, failed } = await this.execute(operation, ids);
+
+    const results: BulkItemResult[] = ids.map((id) => {
+      if (succeeded.has(id)) {
+        return { id, status: 'succeeded' };
+      }
+      const reason = failed.get(id);
+      return reason ? { id, status: 'failed', reason } : { id, status: 'not_found' };
+    });
+
+    const summary = {
+      requested: ids.length,
+      succeeded: succeeded.size,
+      failed: ids.length - succeeded.size,
+    };
+
+    logger.info({
+      event: `bookmark.bulk.${operation.action}`,
+      actor: this.userId,
+      outcome: 'success',
+      metadata: summary,
+    });
+
+    return { action: operation.action, results, summary };
+  }
+
+  private async resolveFilter(filter: BulkFilter): Promise<string[] | null> {
+    const page = await new BookmarkService(this.supabase, this.userId).listBookmarks({
+      ...filter,
+      sort: 'created_at',
+      order: 'desc',
+      limit: MAX_BULK_BATCH_SIZE,
+    });
+
+    return page.hasMore ? null : page.bookmarks.map((bookmark) => bookmark.id);
+  }
+
+  /**
+   * Runs the operation and returns the IDs it changed, plus the reason for
+   * any ID that was found but could not be changed.
+   */
+  private async execute(
+    operation: BulkOperation,
+    ids: string[],
+  ): Promise<{ succeeded: Set<string>; failed: Map<string, string> }> {
+    const failed = new Map<string, string>();
+
+    if (ids.length === 0) {
+      return { succeeded: new Set(), failed };
+    }
+
+    if (operation.action === 'delete') {
+      const { data: changed, error } = await this.supabase
+        .from('bookmarks')
+        .update({ deleted_at: new Date().toISOString() })
+        .in('id', ids)
+        .is('deleted_at', null)
+        .select('id');
+
+      if (error) {
+        this.throwFailure(operation, error.message);
+      }
+      return { succeeded: new Set(changed.map((row: { id: string }) => row.id)), failed };
+    }
+
+    if (operation.action === 'restore') {
+      const { data: rows, error } = await this.supabase.rpc('restore_bookmarks', {
+        bookmark_ids: ids,
+      });
+
+      if (error) {
+        this.throwFailure(operation, error.message);
+      }
+
+      const succeeded = new Set<string>();
+      for (const row of rows) {
+        if (row.restored) {
+          succeeded.add(row.bookmark_id);
+        } else {
+          failed.set(row.bookmark_id, 'Bookmark already exists');
+        }
+      }
+      return { succeeded, failed };
+    }
+
+    const { data: rows, error } = await this.supabase.rpc('bulk_apply_tags', {
+      bookmark_ids: ids,
+      tag_action: TAG_ACTIONS[operation.action],
+      tag_values: operation.tags,
+    });
+
+    if (error) {
+      this.throwFailure(operation, error.message);
+    }
+
+    const succeeded = new Set<string>();
+    for (const row of rows) {
+      if (row.applied) {
+        succeeded.add(row.bookmark_id);
+      } else {
+        failed.set(row.bookmark_id, 'Result would exceed 20 tags');
+      }
+    }
+    return { succeeded, failed };
+  }
+
+  private throwFailure(operation: BulkOperation, message: string): never {
+    logger.error({
+      event: `bookmark.bulk.${operation.action}.failed`,
+      actor: this.userId,
+      outcome: 'failure',
+      metadata: { error: message },
+    });
+    throw new Error('Failed to apply bulk operation');
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * @file Collection service layer
+ * @purpose Business logic for creating, listing, updating and deleting
+ *          bookmark collections
+ * @inputs Validated collection data and collection IDs
+ * @outputs Database results
+ * @invariants All queries scoped to authenticated user via RLS.
+ *             Parent ownership and cycle checks are enforced by the database.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Collection, CreateCollection, UpdateCollection } from '../schemas/collection.js';
+import { logger } from './logger.js';
+
+// Raised when parent_id names a collection the user does not own, or would
+// nest a collection inside itself
+const FOREIGN_KEY_VIOLATION = '23503';
+
+export class CollectionService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  /** Lists all of the user's collections, siblings in display order */
+  async listCollections(): Promise<Collection[]> {
+    const { data: collections, error } = await this.supabase
+      .from('collections')
+      .select('*')
+      .order('position', { ascending: true })
+      .order('name', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error) {
+      logger.error({
+        event: 'collection.list.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to fetch collections');
+    }
+
+    logger.info({
+      event: 'collection.listed',
+      actor: this.userId,
+      outcome: 'success',
+      metadata: { count: collections.length },
+    });
+
+    return collections;
+  }
+
+  async getCollectionById(id: string): Promise<Collection | null> {
+    const { data: collection, error } = await this.supabase
+      .from('collections')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error({
+        event: 'collection.get.failed',
+        actor: this.userId,
+        resource: id,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to fetch collection');
+    }
+
+    return collection;
+  }
+
+  async createCollection(data: CreateCollection): Promise<Collection> {
+    const { data: collection, error } = await this.supabase
+      .from('collections')
+      .insert({ ...data, user_id: this.userId, description: data.description || null })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === FOREIGN_KEY_VIOLATION) {
+        throw new Error('Invalid parent collection');
+      }
+      logger.error({
+        event: 'collection.create.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to create collection');
+    }
+
+    logger.info({
+      event: 'collection.created',
+      actor: this.userId,
+      resource: collection.id,
+      outcome: 'success',
+      metadata: { nested: collection.parent_id !== null },
+    });
+
+    return collection;
+  }
+
+  async updateCollection(id: string, data: UpdateCollection): Promise<Collection | null> {
+    const { data: collection, error } = await this.supabase
+      .from('collections')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      if (error.code === FOREIGN_KEY_VIOLATION) {
+        throw new Error('Invalid parent collection');
+      }
+      logger.error({
+        event: 'collection.update.failed',
+        actor: this.userId,
+        resource: id,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to update collection');
+    }
+
+    logger.info({
+      event: 'collection.updated',
+      actor: this.userId,
+      resource: id,
+      outcome: 'success',
+      metadata: {},
+    });
+
+    return collection;
+  }
+
+  /**
+   * Deletes a collection. Its bookmarks stay, minus this membership, and its
+   * child collections move to the top level. Returns false if none matched.
+   */
+  async deleteCollection(id: string): Promise<boolean> {
+    const { data: deleted, error } = await this.supabase
+      .from('collections')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      logger.error({
+        event: 'collection.delete.failed',
+        actor: this.userId,
+        resource: id,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to delete collection');
+    }
+
+    if (deleted.length === 0) {
+      return false;
+    }
+
+    logger.info({
+      event: 'collection.deleted',
+      actor: this.userId,
+      resource: id,
+      outcome: 'success',
+      metadata: {},
+    });
+
+    return true;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * @file CSV reading and writing
+ * @purpose Minimal RFC 4180 CSV support for bookmark import and export
+ * @inputs CSV text, or rows of fields to write
+ * @outputs Rows of string fields, or CSV lines
+ * @invariants Quoted fields may contain commas, newlines and doubled quotes.
+ *             Parsing never throws; an unterminated quote runs to end of input.
+ *             Written fields can never be interpreted as spreadsheet formulas.
+ */
+
+/**
+ * Parses CSV text into rows of fields. Accepts LF and CRLF line endings
+ * and skips blank lines.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/** Leading characters that make spreadsheet applications evaluate a cell */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Formats one CSV line, terminated with CRLF. Fields that could be read as
+ * spreadsheet formulas are prefixed with an apostrophe (CSV injection).
+ */
+export function formatCsvRow(fields: readonly string[]): string {
+  const escaped = fields.map((field) => {
+    const safe = FORMULA_PREFIX.test(field) ? `'${field}` : field;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  });
+  return `${escaped.join(',')}\r\n`;
+}
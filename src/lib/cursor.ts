@@ -0,0 +1,35 @@
+/**
+ * @file Opaque pagination cursor encoding
+ * @purpose Encodes pagination state as a URL-safe token so clients treat
+ *          cursors as opaque and the server can change their contents freely.
+ * @inputs Plain JSON-serialisable cursor payloads, or raw cursor strings
+ * @outputs base64url cursor tokens, or the decoded (still unvalidated) payload
+ * @invariants Decoding never throws; malformed input yields null. Decoded
+ *             payloads are untrusted and must be validated with a Zod schema.
+ */
+
+/**
+ * Encodes a cursor payload as base64url JSON.
+ */
+export function encodeCursor(payload: Record<string, unknown>): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes a base64url cursor token. Returns null for anything that is not
+ * valid base64url-encoded JSON.
+ */
+export function decodeCursor(raw: string): unknown {
+  try {
+    const binary = atob(raw.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * @file Bookmark duplicate service
+ * @purpose Finds bookmarks that point at the same page by canonical URL,
+ *          merges tags into an existing bookmark and reports duplicate groups
+ * @inputs Bookmark URLs, tag lists and duplicate report query parameters
+ * @outputs Existing bookmarks, merged bookmarks and pages of duplicate groups
+ * @invariants All queries scoped to authenticated user via RLS.
+ *             Only active bookmarks count as duplicates; trash is ignored.
+ *             The check_bookmark_canonical_url trigger backs the check, so a
+ *             write that races it fails with 'Bookmark already exists' and
+ *             duplicateConflict names the winner. Duplicates saved before
+ *             that trigger stay until the user resolves them from the report.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Bookmark, DuplicateGroup, DuplicatesQuery } from '../schemas/bookmark.js';
+import { encodeCursor } from './cursor.js';
+import { logger } from './logger.js';
+import { canonicalizeUrl } from './url-canonical.js';
+
+export interface DuplicateGroupPage {
+  groups: DuplicateGroup[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+/** Outcome of merging tags into an existing bookmark */
+export type MergeResult = { merged: true; bookmark: Bookmark } | { merged: false };
+
+/**
+ * Body of the 409 response to a write whose URL is already saved, naming the
+ * bookmark that has it unless that has since been deleted
+ */
+export function duplicateConflict(existing: Bookmark | null): {
+  error: string;
+  details?: { existing_id: string };
+} {
+  return {
+    error: 'Bookmark already exists',
+    ...(existing && { details: { existing_id: existing.id } }),
+  };
+}
+
+export class DuplicateService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  /** Returns the oldest active bookmark with the same canonical URL, if any */
+  async findExisting(url: string): Promise<Bookmark | null> {
+    const { data: bookmarks, error } = await this.supabase
+      .from('bookmarks')
+      .select('*')
+      .eq('canonical_url', canonicalizeUrl(url))
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      this.throwLookupFailure(error.message);
+    }
+
+    return bookmarks[0] ?? null;
+  }
+
+  /**
+   * Returns the active bookmark saved at the same canonical URL as another
+   * bookmark, such as one in the trash, if any
+   */
+  async findDuplicateOf(id: string): Promise<Bookmark | null> {
+    const { data: bookmark, error: bookmarkError } = await this.supabase
+      .from('bookmarks')
+      .select('canonical_url')
+      .eq('id', id)
+      .single();
+
+    if (bookmarkError) {
+      if (bookmarkError.code === 'PGRST116') {
+        return null;
+      }
+      this.throwLookupFailure(bookmarkError.message, id);
+    }
+
+    const { data: bookmarks, error } = await this.supabase
+      .from('bookmarks')
+      .select('*')
+      .eq('canonical_url', bookmark.canonical_url)
+      .neq('id', id)
+      .is('deleted_at', null)
+      .limit(1);
+
+    if (error) {
+      this.throwLookupFailure(error.message, id);
+    }
+
+    return bookmarks[0] ?? null;
+  }
+
+  /**
+   * Adds tags to an existing bookmark, keeping its current tags first.
+   * Nothing changes if the result would exceed the 20-tag limit. The merge
+   * runs in the database against the stored tags, so concurrent merges into
+   * the same bookmark cannot drop each other's tags.
+   */
+  async mergeTags(existing: Bookmark, tags: string[]): Promise<MergeResult> {
+    const { data: rows, error: mergeError } = await this.supabase.rpc('bulk_apply_tags', {
+      bookmark_ids: [existing.id],
+      tag_action: 'add',
+      tag_values: tags,
+    });
+
+    if (mergeError) {
+      this.throwMergeFailure(existing.id, mergeError.message);
+    }
+    // A bookmark deleted since it was found is absent from the result
+    const [result] = rows;
+    if (!result) {
+      this.throwMergeFailure(existing.id, 'Bookmark is no longer active');
+    }
+    if (!result.applied) {
+      return { merged: false };
+    }
+
+    const { data: bookmark, error } = await this.supabase
+      .from('bookmarks')
+      .select('*')
+      .eq('id', existing.id)
+      .single();
+
+    if (error) {
+      this.throwMergeFailure(existing.id, error.message);
+    }
+
+    logger.info({
+      event: 'bookmark.duplicate.merged',
+      actor: this.userId,
+      resource: existing.id,
+      outcome: 'success',
+      metadata: { tagCount: bookmark.tags?.length ?? 0 },
+    });
+
+    return { merged: true, bookmark };
+  }
+
+  /** Lists groups of active bookmarks sharing a canonical URL, ordered by that URL */
+  async listDuplicateGroups(query: DuplicatesQuery): Promise<DuplicateGroupPage> {
+    const limit = query.limit || 20;
+
+    let supabaseQuery = this.supabase
+      .from('bookmark_duplicate_groups')
+      .select('canonical_url, bookmark_ids, bookmark_count')
+      .order('canonical_url', { ascending: true });
+
+    if (query.cursor) {
+      supabaseQuery = supabaseQuery.gt('canonical_url', query.cursor.canonical_url);
+    }
+
+    const { data: rows, error } = await supabaseQuery.limit(limit + 1);
+
+    if (error) {
+      logger.error({
+        event: 'bookmark.duplicates.list.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to fetch duplicate bookmarks');
+    }
+
+    const hasMore = rows.length > limit;
+    const groups: DuplicateGroup[] = hasMore ? rows.slice(0, limit) : rows;
+    const last = groups.at(-1);
+
+    logger.info({
+      event: 'bookmark.duplicates.listed',
+      actor: this.userId,
+      outcome: 'success',
+      metadata: { count: groups.length, hasMore },
+    });
+
+    return {
+      groups,
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor({ canonical_url: last.canonical_url }) : undefined,
+    };
+  }
+
+  private throwMergeFailure(id: string, message: string): never {
+    logger.error({
+      event: 'bookmark.duplicate.merge.failed',
+      actor: this.userId,
+      resource: id,
+      outcome: 'failure',
+      metadata: { error: message },
+    });
+    throw new Error('Failed to merge bookmark');
+  }
+
+  private throwLookupFailure(message: string, resource?: string): never {
+    logger.error({
+      event: 'bookmark.duplicate.lookup.failed',
+      actor: this.userId,
+      resource,
+      outcome: 'failure',
+      metadata: { error: message },
+    });
+    throw new Error('Failed to check for duplicate bookmark');
+  }
+}
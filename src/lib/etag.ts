@@ -0,0 +1,79 @@
+/**
+ * @file Bookmark entity tags
+ * @purpose Derives ETags for bookmarks and bookmark pages, evaluates
+ *          If-None-Match and If-Match, and answers unchanged reads with 304
+ * @inputs Bookmarks as returned by the service layer and conditional request headers
+ * @outputs Opaque ETag values, precondition results and JSON or 304 responses
+ * @invariants A bookmark's ETag changes whenever updated_at changes, and also
+ *             when a link check is recorded, because checks do not move
+ *             updated_at. ETags are hashes and reveal nothing about the bookmark.
+ *             Responses keep the no-store headers set by headersMiddleware;
+ *             ETags serve clients that keep their own copies, not shared caches.
+ * @spec SPEC-2026-12
+ */
+
+import type { Context } from 'hono';
+import type { Bookmark } from '../schemas/bookmark.js';
+import { sha256Hex } from './hash.js';
+
+/** The fields that decide whether a bookmark has changed */
+type Versioned = Pick<Bookmark, 'id' | 'updated_at' | 'last_checked_at'>;
+
+// 128 bits of the digest are plenty to tell versions apart
+async function hash(value: string): Promise<string> {
+  return (await sha256Hex(value)).slice(0, 32);
+}
+
+function version(bookmark: Versioned): string {
+  return `${bookmark.id}|${bookmark.updated_at}|${bookmark.last_checked_at ?? ''}`;
+}
+
+/** Strong ETag for a single bookmark, usable with both If-None-Match and If-Match */
+export async function bookmarkEtag(bookmark: Versioned): Promise<string> {
+  return `"${await hash(version(bookmark))}"`;
+}
+
+/**
+ * Weak ETag for a page of bookmarks. It covers every bookmark on the page
+ * and the page metadata, so it changes when a bookmark is edited, added or
+ * removed, or when the page boundaries move.
+ */
+export async function bookmarkListEtag(bookmarks: Versioned[], meta: object): Promise<string> {
+  return `W/"${await hash(JSON.stringify([bookmarks.map(version), meta]))}"`;
+}
+
+/**
+ * Returns true if a conditional header lists the ETag or is "*". Strong
+ * comparison (for If-Match) never matches weak ETags; weak comparison (for
+ * If-None-Match) ignores the W/ prefix on both sides.
+ */
+export function etagMatches(header: string, etag: string, strong: boolean): boolean {
+  if (header.trim() === '*') {
+    return true;
+  }
+  if (strong && etag.startsWith('W/')) {
+    return false;
+  }
+
+  const opaque = etag.replace(/^W\//, '');
+  return header
+    .split(',')
+    .map((candidate) => candidate.trim())
+    .some((candidate) =>
+      strong ? candidate === opaque : candidate.replace(/^W\//, '') === opaque,
+    );
+}
+
+/**
+ * Sends a JSON body with its ETag, or an empty 304 when the request's
+ * If-None-Match already names that ETag.
+ */
+export function jsonWithEtag(c: Context, body: object, etag: string): Response {
+  c.header('ETag', etag);
+
+  const ifNoneMatch = c.req.header('If-None-Match');
+  if (ifNoneMatch !== undefined && etagMatches(ifNoneMatch, etag, false)) {
+    return c.body(null, 304);
+  }
+  return c.json(body);
+}
@@ -0,0 +1,104 @@
+/**
+ * @file Bookmark export service
+ * @purpose Streams every active bookmark matching the list filters as an
+ *          HTML, JSON, CSV or Atom document
+ * @inputs Validated export query (filters and format)
+ * @outputs A byte stream of the formatted document
+ * @invariants Bookmarks are read one page at a time as the client consumes
+ *             the stream, so memory use is bounded by one page regardless of
+ *             collection size. All queries scoped to authenticated user via RLS.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Bookmark, BookmarkCursor, ExportQuery } from '../schemas/bookmark.js';
+import type { BookmarkPage } from './bookmark-pagination.js';
+import { BookmarkService } from './bookmark-service.js';
+import { EXPORT_FORMATTERS } from './exporters/index.js';
+import { logger } from './logger.js';
+
+/** Bookmarks read per database round trip while exporting */
+const EXPORT_PAGE_SIZE = 100;
+
+export class ExportService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  /**
+   * Creates the export stream. The first page is fetched before returning so
+   * a failing query becomes an error response rather than a truncated file.
+   */
+  async createExportStream(query: ExportQuery): Promise<ReadableStream<Uint8Array>> {
+    const { format, ...filters } = query;
+    const formatter = EXPORT_FORMATTERS[format];
+    const bookmarks = new BookmarkService(this.supabase, this.userId);
+    const encoder = new TextEncoder();
+
+    const fetchPage = (cursor?: BookmarkCursor) =>
+      bookmarks.listBookmarks({
+        ...filters,
+        sort: 'created_at',
+        order: 'desc',
+        cursor,
+        limit: EXPORT_PAGE_SIZE,
+      });
+
+    const cursorAfter = (bookmark: Bookmark): BookmarkCursor => ({
+      sort: 'created_at',
+      order: 'desc',
+      value: bookmark.created_at,
+      id: bookmark.id,
+      direction: 'next',
+    });
+
+    let page: BookmarkPage = await fetchPage();
+    let count = 0;
+    let chunk = formatter.header({
+      generatedAt: new Date().toISOString(),
+      collectionId: this.userId,
+    });
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        for (const bookmark of page.bookmarks) {
+          chunk += formatter.item(bookmark, count++);
+        }
+
+        const last = page.bookmarks[page.bookmarks.length - 1];
+
+        if (!page.hasMore || !last) {
+          controller.enqueue(encoder.encode(chunk + formatter.footer()));
+          controller.close();
+          logger.info({
+            event: 'bookmark.exported',
+            actor: this.userId,
+            outcome: 'success',
+            metadata: { format, count },
+          });
+          return;
+        }
+
+        controller.enqueue(encoder.encode(chunk));
+        chunk = '';
+
+        try {
+          page = await fetchPage(cursorAfter(last));
+        } catch (error) {
+          logger.error({
+            event: 'bookmark.export.failed',
+            actor: this.userId,
+            outcome: 'failure',
+            metadata: {
+              format,
+              count,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            },
+          });
+          controller.error(new Error('Failed to export bookmarks'));
+        }
+      },
+    });
+  }
+}
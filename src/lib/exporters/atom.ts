@@ -0,0 +1,50 @@
+/**
+ * @file Atom feed formatter
+ * @purpose Renders bookmarks as an Atom 1.0 feed (RFC 4287) so the
+ *          collection can be followed as a personal link feed
+ * @inputs Bookmarks and the export context
+ * @outputs Atom XML chunks
+ * @invariants All bookmark text is escaped. Entry IDs are stable across
+ *             exports so feed readers do not show bookmarks twice.
+ * @spec SPEC-2026-12
+ */
+
+import { escapeMarkup } from '../html.js';
+import type { ExportFormatter } from './common.js';
+
+export const atomFormatter: ExportFormatter = {
+  contentType: 'application/atom+xml; charset=utf-8',
+  fileExtension: 'atom',
+
+  header: (context) =>
+    [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      '  <title>Bookmarks</title>',
+      `  <id>urn:uuid:${context.collectionId}</id>`,
+      `  <updated>${context.generatedAt}</updated>`,
+      '  <author><name>Bookmarks</name></author>',
+      '',
+    ].join('\n'),
+
+  item: (bookmark) => {
+    const lines = [
+      '  <entry>',
+      `    <title>${escapeMarkup(bookmark.title)}</title>`,
+      `    <link rel="alternate" href="${escapeMarkup(bookmark.url)}"/>`,
+      `    <id>urn:uuid:${bookmark.id}</id>`,
+      `    <published>${bookmark.created_at}</published>`,
+      `    <updated>${bookmark.updated_at}</updated>`,
+    ];
+    if (bookmark.description) {
+      lines.push(`    <summary>${escapeMarkup(bookmark.description)}</summary>`);
+    }
+    for (const tag of bookmark.tags ?? []) {
+      lines.push(`    <category term="${escapeMarkup(tag)}"/>`);
+    }
+    lines.push('  </entry>', '');
+    return lines.join('\n');
+  },
+
+  footer: () => '</feed>\n',
+};
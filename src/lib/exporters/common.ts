@@ -0,0 +1,34 @@
+/**
+ * @file Export formatter common definitions
+ * @purpose Shared contract for bookmark export formatters, which render a
+ *          document as header, one chunk per bookmark, and footer so the
+ *          export can be streamed page by page
+ * @inputs N/A
+ * @outputs Type definitions and timestamp conversion
+ * @invariants Formatters are pure and stateless apart from the item index.
+ * @spec SPEC-2026-12
+ */
+
+import type { Bookmark } from '../../schemas/bookmark.js';
+
+/** Document-level values known before the first bookmark is read */
+export interface ExportContext {
+  /** When the export was generated, ISO 8601 */
+  generatedAt: string;
+  /** Stable identifier for the exported collection (used by Atom) */
+  collectionId: string;
+}
+
+export interface ExportFormatter {
+  contentType: string;
+  fileExtension: string;
+  header(context: ExportContext): string;
+  /** Renders one bookmark; index is 0-based across the whole export */
+  item(bookmark: Bookmark, index: number): string;
+  footer(): string;
+}
+
+/** Converts an ISO 8601 timestamp to Unix seconds, as used by the Netscape format */
+export function toUnixSeconds(timestamp: string): number {
+  return Math.floor(Date.parse(timestamp) / 1000);
+}
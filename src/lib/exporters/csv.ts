@@ -0,0 +1,30 @@
+/**
+ * @file CSV export formatter
+ * @purpose Renders bookmarks as a spreadsheet-friendly CSV file
+ * @inputs Bookmarks
+ * @outputs CSV lines with a header row; tags are pipe-separated
+ * @invariants Fields are CSV-escaped and protected against formula injection.
+ * @spec SPEC-2026-12
+ */
+
+import { formatCsvRow } from '../csv.js';
+import type { ExportFormatter } from './common.js';
+
+export const csvFormatter: ExportFormatter = {
+  contentType: 'text/csv; charset=utf-8',
+  fileExtension: 'csv',
+
+  header: () => formatCsvRow(['url', 'title', 'description', 'tags', 'created_at', 'updated_at']),
+
+  item: (bookmark) =>
+    formatCsvRow([
+      bookmark.url,
+      bookmark.title,
+      bookmark.description ?? '',
+      (bookmark.tags ?? []).join('|'),
+      bookmark.created_at,
+      bookmark.updated_at,
+    ]),
+
+  footer: () => '',
+};
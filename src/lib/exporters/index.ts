@@ -0,0 +1,24 @@
+/**
+ * @file Export formatter dispatcher
+ * @purpose Selects the formatter for a supported bookmark export format
+ * @inputs Export format
+ * @outputs The matching export formatter
+ * @invariants Every ExportFormat value maps to exactly one formatter.
+ * @spec SPEC-2026-12
+ */
+
+import type { ExportFormat } from '../../schemas/bookmark.js';
+import { atomFormatter } from './atom.js';
+import type { ExportFormatter } from './common.js';
+import { csvFormatter } from './csv.js';
+import { jsonFormatter } from './json.js';
+import { netscapeFormatter } from './netscape.js';
+
+export type { ExportContext, ExportFormatter } from './common.js';
+
+export const EXPORT_FORMATTERS: Record<ExportFormat, ExportFormatter> = {
+  html: netscapeFormatter,
+  json: jsonFormatter,
+  csv: csvFormatter,
+  atom: atomFormatter,
+};
@@ -0,0 +1,18 @@
+/**
+ * @file JSON export formatter
+ * @purpose Renders bookmarks in the same { data: [...] } envelope as the API
+ * @inputs Bookmarks
+ * @outputs JSON document chunks
+ * @invariants The concatenated chunks form one valid JSON document.
+ * @spec SPEC-2026-12
+ */
+
+import type { ExportFormatter } from './common.js';
+
+export const jsonFormatter: ExportFormatter = {
+  contentType: 'application/json; charset=utf-8',
+  fileExtension: 'json',
+  header: () => '{"data":[',
+  item: (bookmark, index) => `${index === 0 ? '' : ','}${JSON.stringify(bookmark)}`,
+  footer: () => ']}\n',
+};
@@ -0,0 +1,44 @@
+/**
+ * @file Netscape bookmark file formatter
+ * @purpose Renders bookmarks in the NETSCAPE-Bookmark-file-1 format that
+ *          browsers import, and that the Netscape importer reads back
+ * @inputs Bookmarks
+ * @outputs Bookmark file HTML chunks
+ * @invariants All bookmark text is escaped; no bookmark value can add markup.
+ * @spec SPEC-2026-12
+ */
+
+import { escapeMarkup } from '../html.js';
+import { toUnixSeconds, type ExportFormatter } from './common.js';
+
+export const netscapeFormatter: ExportFormatter = {
+  contentType: 'text/html; charset=utf-8',
+  fileExtension: 'html',
+
+  header: () =>
+    [
+      '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+      '<!-- This is an automatically generated file. -->',
+      '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+      '<TITLE>Bookmarks</TITLE>',
+      '<H1>Bookmarks</H1>',
+      '<DL><p>',
+      '',
+    ].join('\n'),
+
+  item: (bookmark) => {
+    const attributes = [
+      `HREF="${escapeMarkup(bookmark.url)}"`,
+      `ADD_DATE="${toUnixSeconds(bookmark.created_at)}"`,
+      `LAST_MODIFIED="${toUnixSeconds(bookmark.updated_at)}"`,
+    ];
+    if (bookmark.tags && bookmark.tags.length > 0) {
+      attributes.push(`TAGS="${escapeMarkup(bookmark.tags.join(','))}"`);
+    }
+
+    const link = `    <DT><A ${attributes.join(' ')}>${escapeMarkup(bookmark.title)}</A>\n`;
+    return bookmark.description ? `${link}    <DD>${escapeMarkup(bookmark.description)}\n` : link;
+  },
+
+  footer: () => '</DL><p>\n',
+};
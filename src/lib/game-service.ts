@@ -0,0 +1,276 @@
+/**
+ * @file Word game service layer
+ * @purpose Starts games, submits guesses, and reads game state, history and
+ *          statistics
+ * @inputs Validated guesses, game IDs and history limits
+ * @outputs Database results shaped for the game API
+ * @invariants All queries scoped to authenticated user via RLS. Answers are
+ *             never selected directly: guesses are scored by the database,
+ *             which only reveals an answer once its game is over. Games are
+ *             started by the database, which chooses the answer, so players
+ *             cannot choose their own.
+ * @spec SPEC-2026-27
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  MAX_GUESSES,
+  WORD_LENGTH,
+  type GameHistoryItem,
+  type GameMode,
+  type GameState,
+  type GameStats,
+  type GameStatsQuery,
+  type GuessResult,
+  type NewGame,
+} from '../schemas/game.js';
+import { logger } from './logger.js';
+import { isAllowedGuess } from './word-list.js';
+
+// Raised by submit_guess for an unknown game, for a finished one, and for a
+// guess that breaks hard mode; by start_daily_game when today has no word,
+// and when the player has already played today
+const NO_DATA_FOUND = 'P0002';
+const NOT_IN_PREREQUISITE_STATE = '55000';
+const CHECK_VIOLATION = '23514';
+const UNIQUE_VIOLATION = '23505';
+// Raised by game_stats for a time zone the database does not know
+const INVALID_PARAMETER_VALUE = '22023';
+
+// Every column except target_word, which is not readable
+const GAME_COLUMNS = 'id, mode, status, guesses_taken, created_at, completed_at';
+
+const FAILURES = {
+  create: 'Failed to create game',
+  get: 'Failed to fetch game',
+  guess: 'Failed to submit guess',
+  history: 'Failed to fetch game history',
+  stats: 'Failed to fetch game statistics',
+} as const;
+
+/** A guess is either played, or refused in hard mode with the rules it breaks */
+export type GuessOutcome =
+  | { played: true; result: GuessResult }
+  | { played: false; violations: string[] };
+
+export class GameService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  /**
+   * Starts a game in a mode. Daily games share the day's answer and throw
+   * 'Daily game already played' or 'Daily word not available'.
+   */
+  async createGame(mode: GameMode): Promise<NewGame> {
+    const game = mode === 'daily' ? await this.startDailyGame() : await this.startGame(mode);
+
+    logger.info({
+      event: 'game.created',
+      actor: this.userId,
+      resource: game.id,
+      outcome: 'success',
+      metadata: { mode },
+    });
+
+    return {
+      game_id: game.id,
+      mode,
+      target_word_length: WORD_LENGTH,
+      max_guesses: MAX_GUESSES,
+      status: 'in_progress',
+      created_at: game.created_at,
+    };
+  }
+
+  /** Starts a game with an answer the database chooses, avoiding recent ones */
+  private async startGame(
+    mode: Exclude<GameMode, 'daily'>,
+  ): Promise<{ id: string; created_at: string }> {
+    const { data: rows, error } = await this.supabase.rpc('start_game', { p_mode: mode });
+
+    if (error) {
+      this.fail('create', error.message);
+    }
+
+    const [game] = rows as { id: string; created_at: string }[];
+    if (!game) {
+      this.fail('create', 'No result returned');
+    }
+
+    return game;
+  }
+
+  private async startDailyGame(): Promise<{ id: string; created_at: string }> {
+    const { data: rows, error } = await this.supabase.rpc('start_daily_game');
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error('Daily game already played');
+      }
+      if (error.code === NO_DATA_FOUND) {
+        throw new Error('Daily word not available');
+      }
+      this.fail('create', error.message);
+    }
+
+    const [game] = rows as { id: string; created_at: string }[];
+    if (!game) {
+      this.fail('create', 'No result returned');
+    }
+
+    return game;
+  }
+
+  /** Returns a game with its guesses, or null if the user has no such game */
+  async getGame(id: string): Promise<GameState | null> {
+    const { data: game, error } = await this.supabase
+      .from('games')
+      .select(GAME_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      this.fail('get', error.message, id);
+    }
+
+    const { data: guesses, error: guessError } = await this.supabase
+      .from('guesses')
+      .select('guess_word, feedback')
+      .eq('game_id', id)
+      .order('guess_number', { ascending: true });
+
+    if (guessError) {
+      this.fail('get', guessError.message, id);
+    }
+
+    let targetWord: string | null = null;
+    if (game.status !== 'in_progress') {
+      const { data: answer, error: answerError } = await this.supabase.rpc('game_answer', {
+        p_game_id: id,
+      });
+      if (answerError) {
+        this.fail('get', answerError.message, id);
+      }
+      targetWord = answer;
+    }
+
+    return {
+      game_id: game.id,
+      mode: game.mode,
+      status: game.status,
+      guesses: guesses.map((row: { guess_word: string; feedback: GuessResult['feedback'] }) => ({
+        guess: row.guess_word,
+        feedback: row.feedback,
+      })),
+      max_guesses: MAX_GUESSES,
+      target_word: targetWord,
+      created_at: game.created_at,
+      completed_at: game.completed_at,
+    };
+  }
+
+  /**
+   * Scores a guess and records it, unless it breaks a hard mode rule. Throws
+   * 'Not in word list', 'Game not found' or 'Game is already finished' for
+   * guesses that cannot be played.
+   */
+  async submitGuess(id: string, guess: string): Promise<GuessOutcome> {
+    if (!isAllowedGuess(guess)) {
+      throw new Error('Not in word list');
+    }
+
+    const { data: rows, error } = await this.supabase.rpc('submit_guess', {
+      p_game_id: id,
+      p_guess: guess,
+    });
+
+    if (error) {
+      if (error.code === NO_DATA_FOUND) {
+        throw new Error('Game not found');
+      }
+      if (error.code === NOT_IN_PREREQUISITE_STATE) {
+        throw new Error('Game is already finished');
+      }
+      if (error.code === CHECK_VIOLATION) {
+        return { played: false, violations: error.details.split('\n') };
+      }
+      this.fail('guess', error.message, id);
+    }
+
+    const [result] = rows as GuessResult[];
+    if (!result) {
+      this.fail('guess', 'No result returned', id);
+    }
+
+    logger.info({
+      event: 'game.guess.submitted',
+      actor: this.userId,
+      resource: id,
+      outcome: 'success',
+      metadata: { guess_number: result.guess_number, game_status: result.game_status },
+    });
+
+    return { played: true, result };
+  }
+
+  /** Lists finished games with their answers, most recent first */
+  async listHistory(limit: number): Promise<GameHistoryItem[]> {
+    const { data: games, error } = await this.supabase.rpc('game_history', {
+      max_results: limit,
+    });
+
+    if (error) {
+      this.fail('history', error.message);
+    }
+
+    return games;
+  }
+
+  /**
+   * Totals, streaks and guess distribution over games finished in a range of
+   * local days. Throws 'Unknown time zone' if the database does not know the
+   * time zone.
+   */
+  async getStats(query: GameStatsQuery): Promise<GameStats> {
+    const { data: rows, error } = await this.supabase.rpc('game_stats', {
+      p_mode: query.mode,
+      p_time_zone: query.timezone,
+      p_from: query.from ?? null,
+      p_to: query.to ?? null,
+    });
+
+    if (error) {
+      if (error.code === INVALID_PARAMETER_VALUE) {
+        throw new Error('Unknown time zone');
+      }
+      this.fail('stats', error.message);
+    }
+
+    const [stats] = rows as Omit<GameStats, 'win_percentage'>[];
+    if (!stats) {
+      this.fail('stats', 'No result returned');
+    }
+
+    return {
+      ...stats,
+      win_percentage:
+        stats.total_games === 0 ? 0 : Math.round((stats.games_won / stats.total_games) * 1000) / 10,
+    };
+  }
+
+  private fail(action: keyof typeof FAILURES, message: string, resource?: string): never {
+    logger.error({
+      event: `game.${action}.failed`,
+      actor: this.userId,
+      resource,
+      outcome: 'failure',
+      metadata: { error: message },
+    });
+    throw new Error(FAILURES[action]);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * @file Word game sharing service layer
+ * @purpose Builds a player's shareable result for a finished game, creates
+ *          public share links, and reads shared results for anyone with a link
+ * @inputs Game IDs and share IDs
+ * @outputs Rendered results and share IDs
+ * @invariants A player's own games are read through RLS. Shared results are
+ *             only read through shared_game, which returns letter statuses and
+ *             never letters, so a public link cannot reveal the answer.
+ * @spec SPEC-2026-27
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GuessResult, SharedGame } from '../schemas/game.js';
+import { renderShare, type ShareableGame } from './game-share.js';
+import { logger } from './logger.js';
+
+// Raised by share_game for an unknown game, and for one in progress
+const NO_DATA_FOUND = 'P0002';
+const NOT_IN_PREREQUISITE_STATE = '55000';
+
+/** Path of a shared result, served without authentication */
+export function sharePath(shareId: string): string {
+  return `/api/public/shares/${shareId}`;
+}
+
+/**
+ * Returns the result of a shared game, or null if no finished game has the
+ * share ID. The client only needs the anon key.
+ */
+export async function fetchSharedGame(
+  supabase: SupabaseClient,
+  shareId: string,
+): Promise<SharedGame | null> {
+  const { data, error } = await supabase.rpc('shared_game', { p_share_id: shareId });
+
+  if (error) {
+    throw new Error('Failed to fetch shared game');
+  }
+
+  const [game] = data as ShareableGame[];
+  return game ? renderShare(game) : null;
+}
+
+export class GameShareService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  /**
+   * Returns a finished game's result with its share ID, which is null until
+   * the game is shared, or null if the user has no such game. Throws 'Game is
+   * still in progress' for a game that has no result yet.
+   */
+  async getShare(id: string): Promise<(SharedGame & { share_id: string | null }) | null> {
+    const { data: game, error } = await this.supabase
+      .from('games')
+      .select('mode, status, guesses_taken, daily_date, share_id')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      this.fail('get', error.message, id);
+    }
+
+    if (game.status === 'in_progress') {
+      throw new Error('Game is still in progress');
+    }
+
+    const { data: guesses, error: guessError } = await this.supabase
+      .from('guesses')
+      .select('feedback')
+      .eq('game_id', id)
+      .order('guess_number', { ascending: true });
+
+    if (guessError) {
+      this.fail('get', guessError.message, id);
+    }
+
+    const result = renderShare({
+      mode: game.mode,
+      status: game.status,
+      guesses_taken: game.guesses_taken,
+      daily_date: game.daily_date,
+      grid: guesses.map((row: { feedback: GuessResult['feedback'] }) =>
+        row.feedback.map((letter) => letter.status),
+      ),
+    });
+
+    return { ...result, share_id: game.share_id };
+  }
+
+  /**
+   * Gives a finished game a public share ID, or returns the one it already
+   * has. Throws 'Game not found' or 'Game is still in progress'.
+   */
+  async createShareLink(id: string): Promise<string> {
+    const { data: shareId, error } = await this.supabase.rpc('share_game', { p_game_id: id });
+
+    if (error) {
+      if (error.code === NO_DATA_FOUND) {
+        throw new Error('Game not found');
+      }
+      if (error.code === NOT_IN_PREREQUISITE_STATE) {
+        throw new Error('Game is still in progress');
+      }
+      this.fail('create', error.message, id);
+    }
+
+    logger.info({
+      event: 'game.shared',
+      actor: this.userId,
+      resource: id,
+      outcome: 'success',
+      metadata: {},
+    });
+
+    return shareId;
+  }
+
+  private fail(action: 'get' | 'create', message: string, resource: string): never {
+    logger.error({
+      event: `game.share.${action}.failed`,
+      actor: this.userId,
+      resource,
+      outcome: 'failure',
+      metadata: { error: message },
+    });
+    throw new Error(action === 'get' ? 'Failed to fetch game result' : 'Failed to share game');
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @file Word game result grids
+ * @purpose Renders a finished game as the familiar coloured-square grid with
+ *          a one-line header, ready to paste into a message
+ * @inputs A finished game's mode, outcome and letter statuses
+ * @outputs Header line, one row of squares per guess, and the combined text
+ * @invariants Output is built from letter statuses only, never letters, so a
+ *             shared result cannot give the answer away. Pure functions with
+ *             no I/O.
+ * @spec SPEC-2026-27
+ */
+
+import {
+  MAX_GUESSES,
+  type GameMode,
+  type LetterFeedback,
+  type SharedGame,
+} from '../schemas/game.js';
+
+/** The parts of a finished game that its shared result shows */
+export interface ShareableGame {
+  mode: GameMode;
+  status: 'won' | 'lost';
+  guesses_taken: number;
+  daily_date: string | null;
+  /** Each guess's letter statuses, in guess order */
+  grid: LetterFeedback['status'][][];
+}
+
+const SQUARES: Record<LetterFeedback['status'], string> = {
+  correct: '🟩',
+  present: '🟨',
+  absent: '⬛',
+};
+
+/**
+ * Header line such as "Word game 4/6", "Word game X/6*" for a lost hard mode
+ * game, or "Daily word 2026-10-19 3/6"
+ */
+function header(game: ShareableGame): string {
+  const title = game.mode === 'daily' ? `Daily word ${game.daily_date}` : 'Word game';
+  const score = game.status === 'won' ? String(game.guesses_taken) : 'X';
+  const hard = game.mode === 'hard' ? '*' : '';
+  return `${title} ${score}/${MAX_GUESSES}${hard}`;
+}
+
+/** Renders a finished game's shareable result */
+export function renderShare(game: ShareableGame): SharedGame {
+  const rows = game.grid.map((statuses) => statuses.map((status) => SQUARES[status]).join(''));
+  const title = header(game);
+
+  return { header: title, grid: rows, text: [title, '', ...rows].join('\n') };
+}
@@ -0,0 +1,14 @@
+/**
+ * @file Hashing helpers
+ * @purpose SHA-256 digests of strings via the Web Crypto API
+ * @inputs Arbitrary strings
+ * @outputs Lowercase hexadecimal digests
+ * @invariants Pure functions with no I/O
+ * @spec SPEC-2026-12
+ */
+
+/** Returns the SHA-256 digest of a string's UTF-8 bytes as 64 hex characters */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,55 @@
+/**
+ * @file HTML text helpers
+ * @purpose Decodes entities in text scraped from HTML documents, and escapes
+ *          text written into generated HTML and XML documents
+ * @inputs Raw HTML text fragments, or plain text to embed in markup
+ * @outputs Plain text, or markup-safe text
+ * @invariants Pure functions with no DOM dependency, so they run unchanged
+ *             in Workers and in tests.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decodes named, decimal and hex character references. Unknown named
+ * entities and invalid code points are left as written.
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, ref: string) => {
+    if (ref.startsWith('#')) {
+      const isHex = ref[1] === 'x' || ref[1] === 'X';
+      const codePoint = Number.parseInt(ref.slice(isHex ? 2 : 1), isHex ? 16 : 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Converts an HTML fragment to plain text: strips tags, decodes entities
+ * and collapses whitespace.
+ */
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Escapes text for use in HTML or XML element content and quoted attributes.
+ */
+export function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
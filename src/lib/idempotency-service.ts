@@ -0,0 +1,189 @@
+/**
+ * @file Idempotency key storage
+ * @purpose Claims idempotency keys for mutating requests and stores the
+ *          response each key produced, so a retried request can be replayed
+ * @inputs Client-chosen keys, request fingerprints and completed responses
+ * @outputs Whether a request should run, be replayed, or be rejected
+ * @invariants All queries scoped to authenticated user via RLS, so keys are
+ *             per user. A key is claimed by inserting its row, so two
+ *             concurrent requests with one key can never both run. A claim
+ *             without a response is held only for its lease; a retry after
+ *             the lease runs out takes it over, conditionally on the lease it
+ *             found, so only one retry can.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from './logger.js';
+
+// Raised when the key has already been claimed
+const UNIQUE_VIOLATION = '23505';
+
+export interface StoredResponse {
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+export type IdempotencyClaim =
+  | { outcome: 'claimed' }
+  | { outcome: 'replay'; response: StoredResponse }
+  | { outcome: 'mismatch' }
+  | { outcome: 'in_progress' };
+
+/** Storage for idempotency keys; IdempotencyService is the production store */
+export interface IdempotencyStore {
+  /**
+   * Claims a key for a request, or reports what an earlier use of it
+   * produced. The claim is held for leaseMs unless completed or released.
+   */
+  claim(
+    key: string,
+    requestHash: string,
+    windowMs: number,
+    leaseMs: number,
+  ): Promise<IdempotencyClaim>;
+  /** Records the response of a claimed request */
+  complete(key: string, response: StoredResponse): Promise<void>;
+  /** Frees a claimed key whose request failed, so it can be retried */
+  release(key: string): Promise<void>;
+}
+
+export class IdempotencyService implements IdempotencyStore {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  async claim(
+    key: string,
+    requestHash: string,
+    windowMs: number,
+    leaseMs: number,
+  ): Promise<IdempotencyClaim> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + leaseMs).toISOString();
+
+    // An expired key is free to use again
+    const { error: expireError } = await this.supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('key', key)
+      .lt('expires_at', now.toISOString());
+
+    if (expireError) {
+      this.fail('claim', expireError.message);
+    }
+
+    const { error } = await this.supabase.from('idempotency_keys').insert({
+      user_id: this.userId,
+      key,
+      request_hash: requestHash,
+      locked_until: lockedUntil,
+      expires_at: new Date(now.getTime() + windowMs).toISOString(),
+    });
+
+    if (!error) {
+      return { outcome: 'claimed' };
+    }
+    if (error.code !== UNIQUE_VIOLATION) {
+      this.fail('claim', error.message);
+    }
+
+    const { data: existing, error: readError } = await this.supabase
+      .from('idempotency_keys')
+      .select('request_hash, response_status, response_content_type, response_body, locked_until')
+      .eq('key', key)
+      .single();
+
+    if (readError) {
+      this.fail('claim', readError.message);
+    }
+
+    if (existing.request_hash !== requestHash) {
+      return { outcome: 'mismatch' };
+    }
+    if (existing.response_status === null) {
+      return new Date(existing.locked_until) > now
+        ? { outcome: 'in_progress' }
+        : this.takeOver(key, existing.locked_until, lockedUntil);
+    }
+    return {
+      outcome: 'replay',
+      response: {
+        status: existing.response_status,
+        contentType: existing.response_content_type,
+        body: existing.response_body ?? '',
+      },
+    };
+  }
+
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    const { error } = await this.supabase
+      .from('idempotency_keys')
+      .update({
+        response_status: response.status,
+        response_content_type: response.contentType,
+        response_body: response.body,
+        locked_until: null,
+      })
+      .eq('key', key);
+
+    if (error) {
+      this.fail('complete', error.message);
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    const { error } = await this.supabase.from('idempotency_keys').delete().eq('key', key);
+
+    if (error) {
+      this.fail('release', error.message);
+    }
+  }
+
+  /**
+   * Takes over a claim whose lease has run out, which means its request
+   * stopped without storing a response. Only one retry can take it over:
+   * the others no longer find the lease they saw and report in_progress.
+   */
+  private async takeOver(
+    key: string,
+    staleLockedUntil: string,
+    lockedUntil: string,
+  ): Promise<IdempotencyClaim> {
+    const { data: taken, error } = await this.supabase
+      .from('idempotency_keys')
+      .update({ locked_until: lockedUntil })
+      .eq('key', key)
+      .is('response_status', null)
+      .eq('locked_until', staleLockedUntil)
+      .select('key');
+
+    if (error) {
+      this.fail('claim', error.message);
+    }
+
+    if (taken.length === 0) {
+      return { outcome: 'in_progress' };
+    }
+
+    logger.warn({
+      event: 'idempotency.taken_over',
+      actor: this.userId,
+      outcome: 'success',
+      metadata: { staleLockedUntil },
+    });
+    return { outcome: 'claimed' };
+  }
+
+  private fail(action: 'claim' | 'complete' | 'release', message: string): never {
+    logger.error({
+      event: `idempotency.${action}.failed`,
+      actor: this.userId,
+      outcome: 'failure',
+      metadata: { error: message },
+    });
+    throw new Error('Failed to store idempotency key');
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * @file Bookmark import service
+ * @purpose Validates parsed export records and stores them in one database
+ *          call, producing a per-record import report
+ * @inputs Validated import requests (format, file content, duplicate policy)
+ * @outputs Import report listing created, merged, skipped and rejected records
+ * @invariants Every stored record has passed CreateBookmarkSchema.
+ *             Every record in the file appears in exactly one report list.
+ *             All writes scoped to authenticated user via RLS.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ZodError } from 'zod';
+import { CreateBookmarkSchema, type CreateBookmark } from '../schemas/bookmark.js';
+import { MAX_IMPORT_RECORDS, type ImportReport, type ImportRequest } from '../schemas/import.js';
+import { parseImport, type ParsedRecord } from './importers/index.js';
+import { logger } from './logger.js';
+import { canonicalizeUrl } from './url-canonical.js';
+
+/** A record that passed validation and is ready to store */
+interface ValidRecord extends CreateBookmark {
+  position: number;
+  canonical_url: string;
+  created_at?: string;
+}
+
+/** Only web links are imported; browser exports also contain javascript: and place: URLs */
+const IMPORTABLE_PROTOCOLS = new Set(['http:', 'https:']);
+
+/** Summarises Zod field errors as one client-safe sentence */
+function describeErrors(error: ZodError): string {
+  return Object.entries(error.flatten().fieldErrors)
+    .map(([field, messages]) => `${field}: ${(messages ?? []).join(', ')}`)
+    .join('; ');
+}
+
+export class ImportService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  async importBookmarks(request: ImportRequest): Promise<ImportReport> {
+    const parsed = parseImport(request.format, request.content);
+    const report: ImportReport = {
+      summary: { total: 0, created: 0, merged: 0, skipped: 0, rejected: 0 },
+      created: [],
+      merged: [],
+      skipped: [],
+      rejected: parsed.errors.map(({ position, reason }) => ({ position, reason })),
+    };
+
+    const valid = this.validate(parsed.records, report);
+
+    if (valid.length > 0) {
+      await this.store(valid, request.on_duplicate === 'merge', report);
+    }
+
+    report.summary = {
+      total: parsed.records.length + parsed.errors.length,
+      created: report.created.length,
+      merged: report.merged.length,
+      skipped: report.skipped.length,
+      rejected: report.rejected.length,
+    };
+
+    logger.info({
+      event: 'bookmark.imported',
+      actor: this.userId,
+      outcome: 'success',
+      metadata: { format: request.format, onDuplicate: request.on_duplicate, ...report.summary },
+    });
+
+    return report;
+  }
+
+  /**
+   * Validates records against CreateBookmarkSchema, rejecting invalid ones
+   * and skipping repeats of a canonical URL seen earlier in the same file.
+   */
+  private validate(records: ParsedRecord[], report: ImportReport): ValidRecord[] {
+    const valid: ValidRecord[] = [];
+    const seen = new Map<string, number>();
+
+    for (const record of records) {
+      const { position, url } = record;
+
+      if (position > MAX_IMPORT_RECORDS) {
+        report.rejected.push({
+          position,
+          url,
+          reason: `Import limit of ${MAX_IMPORT_RECORDS} bookmarks exceeded`,
+        });
+        continue;
+      }
+
+      const result = CreateBookmarkSchema.safeParse({
+        url: record.url,
+        title: record.title.slice(0, 500),
+        description: record.description,
+        tags: record.tags.length > 0 ? record.tags : undefined,
+      });
+
+      if (!result.success) {
+        report.rejected.push({ position, url, reason: describeErrors(result.error) });
+        continue;
+      }
+
+      if (!IMPORTABLE_PROTOCOLS.has(new URL(result.data.url).protocol)) {
+        report.rejected.push({
+          position,
+          url,
+          reason: 'url: Only http and https URLs can be imported',
+        });
+        continue;
+      }
+
+      const canonicalUrl = canonicalizeUrl(result.data.url);
+      const firstPosition = seen.get(canonicalUrl);
+      if (firstPosition !== undefined) {
+        report.skipped.push({
+          position,
+          url,
+          reason: `Duplicate of record ${firstPosition} in this file`,
+        });
+        continue;
+      }
+
+      seen.set(canonicalUrl, position);
+      valid.push({
+        ...result.data,
+        position,
+        canonical_url: canonicalUrl,
+        created_at: record.created_at,
+      });
+    }
+
+    return valid;
+  }
+
+  private async store(records: ValidRecord[], mergeDuplicates: boolean, report: ImportReport) {
+    const { data: outcomes, error } = await this.supabase.rpc('import_bookmarks', {
+      records,
+      merge_duplicates: mergeDuplicates,
+    });
+
+    if (error) {
+      logger.error({
+        event: 'bookmark.import.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message, records: records.length },
+      });
+      throw new Error('Failed to import bookmarks');
+    }
+
+    const urls = new Map(records.map((record) => [record.position, record.url]));
+
+    for (const row of outcomes) {
+      const entry = {
+        position: row.record_position,
+        url: urls.get(row.record_position),
+        id: row.bookmark_id,
+      };
+      switch (row.outcome) {
+        case 'created':
+          report.created.push(entry);
+          break;
+        case 'merged':
+          report.merged.push(entry);
+          break;
+        case 'tag_limit':
+          report.skipped.push({ ...entry, reason: 'Merging tags would exceed 20 tags' });
+          break;
+        default:
+          report.skipped.push({ ...entry, reason: 'A bookmark with this URL already exists' });
+      }
+    }
+  }
+}
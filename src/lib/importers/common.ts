@@ -0,0 +1,40 @@
+/**
+ * @file Import parser common definitions
+ * @purpose Shared record shape and helpers used by every bookmark export parser
+ * @inputs N/A
+ * @outputs Type definitions and timestamp conversion
+ * @invariants Parsed records are unvalidated; they must pass
+ *             CreateBookmarkSchema before they are stored.
+ * @spec SPEC-2026-12
+ */
+
+/** A bookmark read from an export file, before validation */
+export interface ParsedRecord {
+  /** 1-based position of the record in the source file, for the import report */
+  position: number;
+  url: string;
+  title: string;
+  description?: string;
+  tags: string[];
+  /** Original save time from the source, as an ISO 8601 string */
+  created_at?: string;
+}
+
+/** A record the parser could not read at all */
+export interface UnparsableRecord {
+  position: number;
+  reason: string;
+}
+
+export interface ParseResult {
+  records: ParsedRecord[];
+  errors: UnparsableRecord[];
+}
+
+/** Converts a Unix timestamp in seconds, as used by all three formats, to ISO 8601 */
+export function fromUnixSeconds(value: string | undefined): string | undefined {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds > 0
+    ? new Date(seconds * 1000).toISOString()
+    : undefined;
+}
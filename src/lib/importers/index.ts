@@ -0,0 +1,29 @@
+/**
+ * @file Import parser dispatcher
+ * @purpose Selects the parser for a supported bookmark export format
+ * @inputs Import format and raw file content
+ * @outputs Parsed, still unvalidated, records
+ * @invariants Every ImportFormat value maps to exactly one parser.
+ * @spec SPEC-2026-12
+ */
+
+import type { ImportFormat } from '../../schemas/import.js';
+import type { ParseResult } from './common.js';
+import { parseNetscape } from './netscape.js';
+import { parsePinboardJson } from './pinboard.js';
+import { parsePocketCsv } from './pocket.js';
+
+export type { ParsedRecord, ParseResult, UnparsableRecord } from './common.js';
+
+const PARSERS: Record<ImportFormat, (content: string) => ParseResult> = {
+  netscape: parseNetscape,
+  pocket: parsePocketCsv,
+  pinboard: parsePinboardJson,
+};
+
+/**
+ * Parses an export file in the given format.
+ */
+export function parseImport(format: ImportFormat, content: string): ParseResult {
+  return PARSERS[format](content);
+}
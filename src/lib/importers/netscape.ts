@@ -0,0 +1,76 @@
+/**
+ * @file Netscape bookmark file parser
+ * @purpose Reads the NETSCAPE-Bookmark-file-1 HTML format exported by every
+ *          major browser, Pinboard and many bookmarking services
+ * @inputs Bookmark file HTML as text
+ * @outputs Parsed records; the names of enclosing folders become tags
+ * @invariants Never executes or renders the document; it is scanned as text.
+ *             Malformed markup degrades to skipped records, never an exception.
+ * @spec SPEC-2026-12
+ */
+
+import { decodeHtmlEntities, htmlToText } from '../html.js';
+import { fromUnixSeconds, type ParseResult, type ParsedRecord } from './common.js';
+
+// Matches, in document order: a folder heading, the end of a folder's list,
+// a bookmark anchor, or a bookmark description
+const TOKEN_PATTERN =
+  /<h3\b[^>]*>([\s\S]*?)<\/h3>|<\/dl>|<a\b([^>]*)>([\s\S]*?)<\/a>|<dd>([^<]*)/gi;
+
+const ATTRIBUTE_PATTERN = /([a-z_]+)\s*=\s*"([^"]*)"/gi;
+
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const [, name = '', value = ''] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes.set(name.toLowerCase(), decodeHtmlEntities(value));
+  }
+  return attributes;
+}
+
+/**
+ * Parses a Netscape bookmark file. Every <H3> folder is followed by a <DL>
+ * list of its contents, so folders are pushed on their heading and popped
+ * on the matching </DL>; the outermost </DL> pops an empty stack.
+ */
+export function parseNetscape(content: string): ParseResult {
+  const records: ParsedRecord[] = [];
+  const folders: string[] = [];
+  let last: ParsedRecord | undefined;
+
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const [token, folderName, anchorAttributes, anchorText, description] = match;
+
+    if (folderName !== undefined) {
+      folders.push(htmlToText(folderName));
+      last = undefined;
+    } else if (token.toLowerCase() === '</dl>') {
+      folders.pop();
+      last = undefined;
+    } else if (anchorAttributes !== undefined) {
+      const attributes = parseAttributes(anchorAttributes);
+      const url = attributes.get('href') ?? '';
+      const explicitTags = (attributes.get('tags') ?? '').split(',');
+      const tags = [...folders, ...explicitTags]
+        .map((tag) => tag.trim())
+        .filter((tag, index, all) => tag.length > 0 && all.indexOf(tag) === index);
+
+      last = {
+        position: records.length + 1,
+        url,
+        // Untitled bookmarks fall back to their URL, as browsers display them
+        title: htmlToText(anchorText ?? '') || url,
+        tags,
+        created_at: fromUnixSeconds(attributes.get('add_date')),
+      };
+      records.push(last);
+    } else if (description !== undefined && last) {
+      const text = htmlToText(description);
+      if (text) {
+        last.description = text;
+      }
+      last = undefined;
+    }
+  }
+
+  return { records, errors: [] };
+}
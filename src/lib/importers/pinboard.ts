@@ -0,0 +1,54 @@
+/**
+ * @file Pinboard JSON export parser
+ * @purpose Reads the JSON array produced by Pinboard's posts/all export
+ * @inputs JSON text
+ * @outputs Parsed records; Pinboard's space-separated tags become tag arrays
+ * @invariants Every entry is validated with PinboardRecordSchema; one bad
+ *             entry is reported without rejecting the rest of the file.
+ * @spec SPEC-2026-12
+ */
+
+import { PinboardRecordSchema } from '../../schemas/import.js';
+import type { ParseResult } from './common.js';
+
+/**
+ * Parses a Pinboard JSON export. Pinboard calls the title "description"
+ * and the description "extended".
+ */
+export function parsePinboardJson(content: string): ParseResult {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(content);
+  } catch {
+    return { records: [], errors: [{ position: 0, reason: 'File is not valid JSON' }] };
+  }
+
+  if (!Array.isArray(entries)) {
+    return { records: [], errors: [{ position: 0, reason: 'Expected a JSON array' }] };
+  }
+
+  const result: ParseResult = { records: [], errors: [] };
+
+  entries.forEach((entry: unknown, index) => {
+    const position = index + 1;
+    const parsed = PinboardRecordSchema.safeParse(entry);
+
+    if (!parsed.success) {
+      result.errors.push({ position, reason: 'Entry is not a Pinboard bookmark' });
+      return;
+    }
+
+    const { href, description, extended, tags, time } = parsed.data;
+    result.records.push({
+      position,
+      url: href,
+      title: description?.trim() || href,
+      description: extended?.trim() || undefined,
+      tags: (tags ?? '').split(/\s+/).filter((tag) => tag.length > 0),
+      created_at:
+        time && !Number.isNaN(Date.parse(time)) ? new Date(time).toISOString() : undefined,
+    });
+  });
+
+  return result;
+}
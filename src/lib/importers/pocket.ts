@@ -0,0 +1,46 @@
+/**
+ * @file Pocket CSV export parser
+ * @purpose Reads the CSV file produced by Pocket's export tool
+ * @inputs CSV text with a header row of title,url,time_added,tags,status
+ * @outputs Parsed records; Pocket's pipe-separated tags become tag arrays
+ * @invariants Columns are located by header name, so reordered or extra
+ *             columns are tolerated. A file without a url column is rejected.
+ * @spec SPEC-2026-12
+ */
+
+import { parseCsv } from '../csv.js';
+import { fromUnixSeconds, type ParseResult, type ParsedRecord } from './common.js';
+
+/**
+ * Parses a Pocket CSV export.
+ */
+export function parsePocketCsv(content: string): ParseResult {
+  const [header, ...rows] = parseCsv(content);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const urlIndex = columns.indexOf('url');
+
+  if (urlIndex === -1) {
+    return { records: [], errors: [{ position: 0, reason: 'CSV header has no url column' }] };
+  }
+
+  const column = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index === -1 ? undefined : row[index]?.trim();
+  };
+
+  const records: ParsedRecord[] = rows.map((row, index) => {
+    const url = column(row, 'url') ?? '';
+    return {
+      position: index + 1,
+      url,
+      title: column(row, 'title') || url,
+      tags: (column(row, 'tags') ?? '')
+        .split('|')
+        .map((tag) => tag.trim())
+        .filter((tag) => tag.length > 0),
+      created_at: fromUnixSeconds(column(row, 'time_added')),
+    };
+  });
+
+  return { records, errors: [] };
+}
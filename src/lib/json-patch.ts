@@ -0,0 +1,158 @@
+/**
+ * @file JSON Patch
+ * @purpose Applies RFC 6902 JSON Patch operations to a JSON document
+ * @inputs A JSON document and validated patch operations
+ * @outputs The patched copy of the document
+ * @invariants The input document is never modified. Operations apply in
+ *             order and all or nothing: any failure throws before a result
+ *             is returned. Throws 'Invalid patch' for paths that cannot be
+ *             applied and 'Patch test failed' for failed test operations.
+ * @spec SPEC-2026-12
+ */
+
+import type { JsonPatchOperation } from '../schemas/bookmark.js';
+
+type Container = Record<string, unknown> | unknown[];
+
+interface Location {
+  container: Container;
+  key: string;
+}
+
+function invalid(): never {
+  throw new Error('Invalid patch');
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return isContainer(value) && !Array.isArray(value);
+}
+
+/** Splits a JSON Pointer into unescaped reference tokens */
+function parsePointer(pointer: string): string[] {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/** Parses an array index token; "-" means one past the end */
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+  const index = token === '-' ? array.length : /^(0|[1-9]\d*)$/.test(token) ? Number(token) : -1;
+  return index >= 0 && (index < array.length || (allowEnd && index === array.length))
+    ? index
+    : invalid();
+}
+
+function child(container: Container, token: string): unknown {
+  if (Array.isArray(container)) {
+    return container[arrayIndex(container, token, false)];
+  }
+  return Object.hasOwn(container, token) ? container[token] : invalid();
+}
+
+/**
+ * Finds the container a pointer refers into. The document sits under a
+ * holder object, so the pointer "" (the whole document) has a parent too.
+ */
+function locate(holder: Container, pointer: string): Location {
+  const tokens = ['document', ...parsePointer(pointer)];
+  let container = holder;
+
+  for (const token of tokens.slice(0, -1)) {
+    const next = child(container, token);
+    if (!isContainer(next)) {
+      invalid();
+    }
+    container = next;
+  }
+
+  const key = tokens[tokens.length - 1] ?? invalid();
+  // Assigning __proto__ would replace the object's prototype
+  return key === '__proto__' ? invalid() : { container, key };
+}
+
+function read(holder: Container, pointer: string): unknown {
+  const { container, key } = locate(holder, pointer);
+  return child(container, key);
+}
+
+function insert(holder: Container, pointer: string, value: unknown): void {
+  const { container, key } = locate(holder, pointer);
+  if (Array.isArray(container)) {
+    container.splice(arrayIndex(container, key, true), 0, value);
+  } else {
+    container[key] = value;
+  }
+}
+
+function take(holder: Container, pointer: string): unknown {
+  const { container, key } = locate(holder, pointer);
+  const value = child(container, key);
+  if (Array.isArray(container)) {
+    container.splice(arrayIndex(container, key, false), 1);
+  } else {
+    Reflect.deleteProperty(container, key);
+  }
+  return value;
+}
+
+/** Compares two JSON values structurally, ignoring object key order */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => jsonEqual(item, b[index]))
+    );
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && jsonEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+}
+
+/** Applies JSON Patch operations in order to a copy of the document */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  const holder: Record<string, unknown> = { document: structuredClone(document) };
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'add':
+        insert(holder, operation.path, structuredClone(operation.value));
+        break;
+      case 'remove':
+        take(holder, operation.path);
+        break;
+      case 'replace':
+        take(holder, operation.path);
+        insert(holder, operation.path, structuredClone(operation.value));
+        break;
+      case 'move':
+        // A value cannot be moved into one of its own children
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          invalid();
+        }
+        insert(holder, operation.path, take(holder, operation.from));
+        break;
+      case 'copy':
+        insert(holder, operation.path, structuredClone(read(holder, operation.from)));
+        break;
+      case 'test':
+        if (!jsonEqual(read(holder, operation.path), operation.value)) {
+          throw new Error('Patch test failed');
+        }
+        break;
+    }
+  }
+
+  return holder.document;
+}
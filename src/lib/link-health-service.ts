@@ -0,0 +1,65 @@
+/**
+ * @file Link health service
+ * @purpose Checks a single bookmark's link on demand and stores the result
+ * @inputs Bookmark IDs
+ * @outputs Bookmarks with updated health fields
+ * @invariants All queries scoped to authenticated user via RLS.
+ *             Only health columns are written, so updated_at is unchanged.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Bookmark } from '../schemas/bookmark.js';
+import { BookmarkService } from './bookmark-service.js';
+import { checkLink } from './link-health.js';
+import { logger } from './logger.js';
+
+export class LinkHealthService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  /** Checks an active bookmark's URL now. Returns null if the bookmark does not exist. */
+  async checkBookmark(id: string): Promise<Bookmark | null> {
+    const bookmark = await new BookmarkService(this.supabase, this.userId).getBookmarkById(id);
+    if (!bookmark) {
+      return null;
+    }
+
+    const health = await checkLink(bookmark.url);
+
+    const { data: checked, error } = await this.supabase
+      .from('bookmarks')
+      .update(health)
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // Deleted while the check was running
+        return null;
+      }
+      logger.error({
+        event: 'bookmark.health.record.failed',
+        actor: this.userId,
+        resource: id,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to record link health');
+    }
+
+    logger.info({
+      event: 'bookmark.health.checked',
+      actor: this.userId,
+      resource: id,
+      outcome: 'success',
+      metadata: { status: health.health_status, statusCode: health.last_status_code },
+    });
+
+    return checked;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * @file Link health checks
+ * @purpose Requests a bookmarked URL and classifies the result as working,
+ *          redirected elsewhere, or broken
+ * @inputs Bookmark URLs
+ * @outputs Health records ready to store on the bookmark
+ * @invariants All requests go through safeRequest, so SSRF and timeout
+ *             limits always apply. Bodies are never read.
+ * @spec SPEC-2026-12
+ */
+
+import type { HealthStatus } from '../schemas/bookmark.js';
+import { safeRequest, type RequestLimits } from './safe-fetch.js';
+import { canonicalizeUrl } from './url-canonical.js';
+
+export interface LinkHealth {
+  health_status: HealthStatus;
+  /** Status code of the final response; null if no response was received */
+  last_status_code: number | null;
+  /** Where the URL now leads, when that differs from the bookmarked URL */
+  redirect_url: string | null;
+  last_checked_at: string;
+}
+
+/** Limits for a single link check */
+export const LINK_CHECK_LIMITS: RequestLimits = {
+  timeoutMs: 8000,
+  maxRedirects: 5,
+  accept: ['*/*'],
+};
+
+/**
+ * Checks one URL. A URL is redirected when it ends somewhere other than its
+ * own canonical form, and broken when it cannot be reached or the final
+ * response is an error.
+ */
+export async function checkLink(
+  url: string,
+  limits: RequestLimits = LINK_CHECK_LIMITS,
+): Promise<LinkHealth> {
+  const result = await safeRequest(url, limits);
+  const checkedAt = new Date().toISOString();
+
+  if (!result.ok || result.status >= 400) {
+    return {
+      health_status: 'broken',
+      last_status_code: result.ok ? result.status : null,
+      redirect_url: null,
+      last_checked_at: checkedAt,
+    };
+  }
+
+  const moved = canonicalizeUrl(result.url) !== canonicalizeUrl(url);
+  return {
+    health_status: moved ? 'redirected' : 'ok',
+    last_status_code: result.status,
+    redirect_url: moved ? result.url : null,
+    last_checked_at: checkedAt,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * @file Page metadata enrichment
+ * @purpose Fetches a bookmarked page and reads its title, description,
+ *          site name, favicon and declared canonical URL from the document head
+ * @inputs Bookmark URLs supplied by the user
+ * @outputs Page metadata, or null when the page could not be fetched
+ * @invariants All fetches go through safeFetch, so SSRF, timeout and size
+ *             limits always apply. Extracted values are plain text within the
+ *             bookmark column limits; extracted URLs are absolute http(s) URLs.
+ *             Enrichment failure never fails bookmark creation.
+ * @spec SPEC-2026-12
+ */
+
+import { decodeHtmlEntities, htmlToText } from './html.js';
+import { logger } from './logger.js';
+import { safeFetch, type SafeFetchOptions } from './safe-fetch.js';
+
+export interface PageMetadata {
+  title: string | null;
+  description: string | null;
+  site_name: string | null;
+  favicon_url: string | null;
+  page_canonical_url: string | null;
+}
+
+/** Limits for fetching a page during bookmark creation */
+export const ENRICHMENT_FETCH_OPTIONS: SafeFetchOptions = {
+  timeoutMs: 5000,
+  // Metadata lives in <head>, which is almost always well within this
+  maxBytes: 512 * 1024,
+  maxRedirects: 3,
+  accept: ['text/html', 'application/xhtml+xml'],
+};
+
+const TAG_PATTERN = /<(meta|link)\b([^>]*)>/gi;
+const TITLE_PATTERN = /<title\b[^>]*>([\s\S]*?)<\/title>/i;
+const ATTRIBUTE_PATTERN = /([a-z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const [, name = '', double, single, bare] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes.set(name.toLowerCase(), decodeHtmlEntities(double ?? single ?? bare ?? ''));
+  }
+  return attributes;
+}
+
+/** Returns cleaned text cut to a column limit, or null if nothing is left */
+function toText(value: string | undefined, maxLength: number): string | null {
+  const text = value === undefined ? '' : htmlToText(value).slice(0, maxLength).trim();
+  return text.length > 0 ? text : null;
+}
+
+/** Resolves a possibly relative link against the page URL, keeping only http(s) */
+function toAbsoluteUrl(value: string | undefined, base: string): string | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const url = new URL(value.trim(), base);
+    const href = url.toString();
+    return (url.protocol === 'http:' || url.protocol === 'https:') && href.length <= 2048
+      ? href
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads metadata from an HTML document. Open Graph values win over plain
+ * meta tags, which win over <title>. Without an icon link the site's
+ * /favicon.ico is assumed, as browsers do.
+ */
+export function extractPageMetadata(html: string, pageUrl: string): PageMetadata {
+  const meta = new Map<string, string>();
+  const links = new Map<string, string>();
+
+  for (const [, tag = '', source = ''] of html.matchAll(TAG_PATTERN)) {
+    const attributes = parseAttributes(source);
+    if (tag.toLowerCase() === 'meta') {
+      const key = (attributes.get('property') ?? attributes.get('name'))?.toLowerCase();
+      const content = attributes.get('content');
+      if (key && content !== undefined && !meta.has(key)) {
+        meta.set(key, content);
+      }
+    } else {
+      const href = attributes.get('href');
+      for (const rel of (attributes.get('rel') ?? '').toLowerCase().split(/\s+/)) {
+        if (rel && href && !links.has(rel)) {
+          links.set(rel, href);
+        }
+      }
+    }
+  }
+
+  const title = meta.get('og:title') ?? meta.get('twitter:title') ?? html.match(TITLE_PATTERN)?.[1];
+  const description =
+    meta.get('og:description') ?? meta.get('description') ?? meta.get('twitter:description');
+
+  return {
+    title: toText(title, 500),
+    description: toText(description, 2000),
+    site_name: toText(meta.get('og:site_name') ?? meta.get('application-name'), 200),
+    favicon_url: toAbsoluteUrl(
+      links.get('icon') ?? links.get('apple-touch-icon') ?? '/favicon.ico',
+      pageUrl,
+    ),
+    page_canonical_url: toAbsoluteUrl(links.get('canonical'), pageUrl),
+  };
+}
+
+/**
+ * Fetches a page and extracts its metadata. Returns null, after logging
+ * why, if the page cannot be fetched or is not HTML.
+ */
+export async function fetchPageMetadata(
+  url: string,
+  actor: string,
+  options: SafeFetchOptions = ENRICHMENT_FETCH_OPTIONS,
+): Promise<PageMetadata | null> {
+  const result = await safeFetch(url, options);
+
+  if (!result.ok) {
+    logger.warn({
+      event: 'bookmark.enrichment.failed',
+      actor,
+      outcome: 'failure',
+      metadata: { reason: result.reason },
+    });
+    return null;
+  }
+
+  const metadata = extractPageMetadata(result.body, result.url);
+
+  logger.info({
+    event: 'bookmark.enriched',
+    actor,
+    outcome: 'success',
+    metadata: { hasTitle: metadata.title !== null, hasDescription: metadata.description !== null },
+  });
+
+  return metadata;
+}
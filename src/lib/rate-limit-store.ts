@@ -0,0 +1,96 @@
+/**
+ * @file Rate limit counters
+ * @purpose Counts requests per key in fixed windows, in memory or in a
+ *          Durable Object shared by every Worker instance
+ * @inputs Rate limit keys (budget and user or client address) and window ends
+ * @outputs The number of requests counted in the current window
+ * @invariants Counts for a window are discarded once it has ended. The
+ *             Durable Object counts one request at a time, so concurrent
+ *             requests are never under-counted.
+ * @spec SPEC-2026-12
+ */
+
+/** Where request counts are kept; pluggable so tests and production differ */
+export interface RateLimitStore {
+  /** Counts one request in the window ending at resetAt and returns the count so far */
+  increment(key: string, resetAt: number): Promise<number>;
+}
+
+interface Window {
+  resetAt: number;
+  count: number;
+}
+
+// Finished windows are swept once this many keys are held
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Keeps counts in this isolate's memory. Exact for tests and local
+ * development; in production each Worker instance would count separately.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, Window>();
+
+  async increment(key: string, resetAt: number): Promise<number> {
+    if (this.windows.size >= SWEEP_THRESHOLD) {
+      const now = Date.now();
+      for (const [windowKey, window] of this.windows) {
+        if (window.resetAt <= now) {
+          this.windows.delete(windowKey);
+        }
+      }
+    }
+
+    const window = this.windows.get(key);
+    const count = window && window.resetAt === resetAt ? window.count + 1 : 1;
+    this.windows.set(key, { resetAt, count });
+    return count;
+  }
+}
+
+/** Keeps counts in one RateLimiter Durable Object per key */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async increment(key: string, resetAt: number): Promise<number> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const response = await stub.fetch('https://rate-limiter/increment', {
+      method: 'POST',
+      body: JSON.stringify({ resetAt }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to count request');
+    }
+
+    const { count } = await response.json<{ count: number }>();
+    return count;
+  }
+}
+
+/**
+ * Durable Object holding the request count of one rate limit key. Storage
+ * operations are serialised per object, so read-increment-write is atomic.
+ * An alarm deletes the count when its window ends.
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { resetAt } = await request.json<{ resetAt: number }>();
+    const window = await this.state.storage.get<Window>('window');
+    const current = window?.resetAt === resetAt;
+    const count = current ? window.count + 1 : 1;
+
+    await this.state.storage.put<Window>('window', { resetAt, count });
+    if (!current) {
+      await this.state.storage.setAlarm(resetAt);
+    }
+
+    return Response.json({ count });
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
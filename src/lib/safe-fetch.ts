@@ -0,0 +1,230 @@
+/**
+ * @file Outbound fetch guard
+ * @purpose Fetches user-supplied URLs without exposing internal services:
+ *          refuses non-HTTP schemes and private or reserved addresses,
+ *          re-checks every redirect hop, and bounds time and response size
+ * @inputs Untrusted absolute URLs and fetch limits
+ * @outputs The final URL with its status, or its content type and (possibly
+ *          truncated) body text, or the reason the fetch was refused or failed
+ * @invariants Never throws. Never follows a redirect it has not re-checked.
+ *             Address checks cover literal IPs and local hostnames; names are
+ *             resolved by Cloudflare, whose edge does not route to private ranges.
+ */
+
+export interface RequestLimits {
+  /** Budget for the whole request, including redirects and any body read */
+  timeoutMs: number;
+  maxRedirects: number;
+  /** Content types to ask for, in the Accept header */
+  accept: string[];
+}
+
+export interface SafeFetchOptions extends RequestLimits {
+  /** Bytes of body to read; the rest is discarded unread */
+  maxBytes: number;
+}
+
+export type SafeRequestFailure = 'blocked_url' | 'too_many_redirects' | 'timeout' | 'network_error';
+
+export type SafeFetchFailure = SafeRequestFailure | 'http_error' | 'unsupported_content_type';
+
+export type SafeRequestResult =
+  | { ok: true; url: string; status: number }
+  | { ok: false; reason: SafeRequestFailure };
+
+export type SafeFetchResult =
+  | { ok: true; url: string; contentType: string; body: string }
+  | { ok: false; reason: SafeFetchFailure };
+
+type FollowResult =
+  | { ok: true; url: string; response: Response }
+  | { ok: false; reason: 'blocked_url' | 'too_many_redirects' };
+
+const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+// [network, prefix length] for IPv4 ranges that are private, shared,
+// loopback, link-local, reserved for documentation or benchmarking, or multicast
+const BLOCKED_IPV4_RANGES: [number, number][] = [
+  [0x00000000, 8], // 0.0.0.0/8
+  [0x0a000000, 8], // 10.0.0.0/8
+  [0x64400000, 10], // 100.64.0.0/10
+  [0x7f000000, 8], // 127.0.0.0/8
+  [0xa9fe0000, 16], // 169.254.0.0/16
+  [0xac100000, 12], // 172.16.0.0/12
+  [0xc0000000, 24], // 192.0.0.0/24
+  [0xc0000200, 24], // 192.0.2.0/24
+  [0xc0a80000, 16], // 192.168.0.0/16
+  [0xc6120000, 15], // 198.18.0.0/15
+  [0xc6336400, 24], // 198.51.100.0/24
+  [0xcb007100, 24], // 203.0.113.0/24
+  [0xe0000000, 3], // 224.0.0.0/4 multicast and 240.0.0.0/4 reserved
+];
+
+function isBlockedIpv4(host: string): boolean {
+  const octets = host.split('.').map(Number);
+  const address = octets.reduce((value, octet) => value * 256 + octet, 0);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(address / size) === Math.floor(network / size);
+  });
+}
+
+function isBlockedIpv6(host: string): boolean {
+  const address = host.toLowerCase();
+  return (
+    address === '::' ||
+    address === '::1' ||
+    // IPv4-mapped, IPv4-compatible (::/96, which the URL parser writes as
+    // ::7f00:1 for ::127.0.0.1) and IPv4-translated addresses can reach any
+    // IPv4 host
+    address.startsWith('::ffff:') ||
+    /^::[0-9a-f]{1,4}(:[0-9a-f]{1,4})?$/.test(address) ||
+    address.startsWith('64:ff9b:') ||
+    /^f[cd][0-9a-f]{0,2}:/.test(address) || // fc00::/7 unique local
+    /^fe[89ab][0-9a-f]?:/.test(address) || // fe80::/10 link-local
+    address.startsWith('ff') // ff00::/8 multicast
+  );
+}
+
+/**
+ * Returns true if a URL may be fetched: http or https, no credentials, and
+ * a host that is not a local name or a private, loopback or reserved address.
+ * Relies on the URL parser having normalised numeric hosts to dotted form.
+ * Names are checked without one trailing dot, since `localhost.` and
+ * `printer.local.` resolve like the names without it.
+ */
+export function isFetchableUrl(url: URL): boolean {
+  if (!ALLOWED_PROTOCOLS.has(url.protocol) || url.username || url.password) {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/\.$/, '');
+
+  if (host.startsWith('[')) {
+    return !isBlockedIpv6(host.slice(1, -1));
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    return !isBlockedIpv4(host);
+  }
+  return (
+    host !== 'localhost' &&
+    host.includes('.') &&
+    !BLOCKED_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  );
+}
+
+/** Reads at most maxBytes of a response body and cancels the rest */
+async function readLimited(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value.subarray(0, maxBytes - received));
+    received += value.byteLength;
+  }
+  await reader.cancel();
+
+  const bytes = new Uint8Array(Math.min(received, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Requests a URL, following redirects manually so each target is checked
+ * before it is requested. The final response's body is left for the caller.
+ * Throws on network errors and timeouts.
+ */
+async function followRedirects(
+  url: string,
+  limits: RequestLimits,
+  signal: AbortSignal,
+): Promise<FollowResult> {
+  let target = new URL(url);
+
+  for (let hop = 0; hop <= limits.maxRedirects; hop++) {
+    if (!isFetchableUrl(target)) {
+      return { ok: false, reason: 'blocked_url' };
+    }
+
+    const response = await fetch(target, {
+      redirect: 'manual',
+      signal,
+      headers: { Accept: limits.accept.join(', ') },
+    });
+
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { ok: true, url: target.toString(), response };
+    }
+
+    await response.body?.cancel();
+    target = new URL(location, target);
+  }
+  return { ok: false, reason: 'too_many_redirects' };
+}
+
+/**
+ * Requests a URL within the given limits and reports the final URL and
+ * status code without reading the body.
+ */
+export async function safeRequest(url: string, limits: RequestLimits): Promise<SafeRequestResult> {
+  const signal = AbortSignal.timeout(limits.timeoutMs);
+
+  try {
+    const result = await followRedirects(url, limits, signal);
+    if (!result.ok) {
+      return result;
+    }
+    await result.response.body?.cancel();
+    return { ok: true, url: result.url, status: result.response.status };
+  } catch {
+    return { ok: false, reason: signal.aborted ? 'timeout' : 'network_error' };
+  }
+}
+
+/**
+ * Fetches a successful response of an accepted content type within the
+ * given limits and returns its body text.
+ */
+export async function safeFetch(url: string, options: SafeFetchOptions): Promise<SafeFetchResult> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+
+  try {
+    const result = await followRedirects(url, options, signal);
+    if (!result.ok) {
+      return result;
+    }
+
+    const { response } = result;
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { ok: false, reason: 'http_error' };
+    }
+
+    const contentType = (response.headers.get('Content-Type') ?? '').split(';')[0] ?? '';
+    if (!options.accept.includes(contentType.trim().toLowerCase())) {
+      await response.body?.cancel();
+      return { ok: false, reason: 'unsupported_content_type' };
+    }
+
+    const body = await readLimited(response, options.maxBytes);
+    return { ok: true, url: result.url, contentType, body };
+  } catch {
+    return { ok: false, reason: signal.aborted ? 'timeout' : 'network_error' };
+  }
+}
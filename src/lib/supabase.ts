@@ -1,9 +1,19 @@
 /**
  * @file Supabase client utilities
- * @purpose Creates authenticated Supabase clients scoped to the request context
- * @inputs Request context with user authentication
+ * @purpose Creates authenticated Supabase clients scoped to the request context,
+ *          anonymous clients for public routes, and the service-role client
+ *          used only by scheduled jobs
+ * @inputs Request context with user authentication, or Worker environment
  * @outputs Supabase client with RLS context for the authenticated user
- * @invariants Client always uses user JWT for RLS enforcement, never service role
+ * @invariants Authenticated request handlers always use the user JWT for RLS
+ *             enforcement. No request handler uses the service role key.
+ *             Request handlers do hold one master credential: authMiddleware
+ *             reads SUPABASE_JWT_SECRET to sign JWTs for API token owners.
+ *             That secret could equally sign a service_role JWT, so it is
+ *             as powerful as the service role key. This is accepted so that
+ *             API token requests stay RLS-scoped. Only mintAccessToken may use
+ *             it, always with the authenticated role, and changing either
+ *             needs human approval (docs/CONVENTIONS.md).
  * @spec SPEC-2026-12
  */
 
@@ -13,20 +23,52 @@ import type { AuthEnv, AuthVariables } from '../middleware/auth.js';
 
 /**
  * Creates an authenticated Supabase client from the request context.
- * Uses the user's JWT for RLS enforcement.
+ * Uses the user's JWT for RLS enforcement: the session JWT, or the JWT
+ * minted for the owner of the API token the request was made with.
  * Must be called from within an authenticated route handler.
  */
 export function createAuthenticatedSupabaseClient(
   c: Context<{ Bindings: AuthEnv; Variables: AuthVariables }>,
 ) {
-  const authHeader = c.req.header('Authorization');
-  if (!authHeader) {
-    throw new Error('No authorization header found - client must be used in authenticated context');
+  // AuthVariables types accessToken as always set, but it is missing when
+  // this is called from a public route, which authMiddleware lets through
+  const accessToken = c.get('accessToken') as string | undefined;
+  if (!accessToken) {
+    throw new Error('No access token found - client must be used in authenticated context');
   }
 
   return createClient(c.env.SUPABASE_URL, c.env.SUPABASE_ANON_KEY, {
     global: {
-      headers: { Authorization: authHeader },
+      headers: { Authorization: `Bearer ${accessToken}` },
     },
   });
 }
+
+/**
+ * Creates a Supabase client with no user, for public routes. Without a user
+ * JWT, RLS hides every row, so only database functions granted to anon can
+ * return anything.
+ */
+export function createAnonymousSupabaseClient(c: Context<{ Bindings: AuthEnv }>) {
+  return createClient(c.env.SUPABASE_URL, c.env.SUPABASE_ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+/** Bindings needed by scheduled jobs that operate across all users */
+export interface ServiceRoleEnv {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+}
+
+/**
+ * Creates a service-role Supabase client for scheduled maintenance jobs.
+ * The service role bypasses RLS, so this must never be called from a
+ * request handler; jobs should only invoke narrowly scoped database
+ * functions that are granted to the service role.
+ */
+export function createServiceSupabaseClient(env: ServiceRoleEnv) {
+  return createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
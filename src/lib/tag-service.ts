@@ -0,0 +1,162 @@
+/**
+ * @file Tag service layer
+ * @purpose Lists and suggests tags, and renames, merges and deletes tags
+ *          across all of a user's bookmarks
+ * @inputs Validated tag names, autocomplete prefixes and page details
+ * @outputs Tag usage statistics, ranked suggestions and counts of changed bookmarks
+ * @invariants All queries scoped to authenticated user via RLS.
+ *             Every rewrite is a single database function call, so it is
+ *             atomic and costs one round trip however many bookmarks change.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SuggestTags, TagSuggestion, TagUsage } from '../schemas/tag.js';
+import { logger } from './logger.js';
+import { toSuggestionInputs } from './tag-suggest.js';
+import { buildTagTree, type TagNode } from './tags.js';
+
+export class TagService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  /** Lists every tag on the user's active bookmarks, alphabetically, with usage */
+  async listTags(): Promise<TagUsage[]> {
+    const { data: rows, error } = await this.supabase
+      .rpc('tag_usage')
+      .order('tag', { ascending: true });
+
+    if (error) {
+      logger.error({
+        event: 'bookmark.tags.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to fetch tags');
+    }
+
+    const tags: TagUsage[] = rows.map(
+      (row: { tag: string; usage_count: number; last_used_at: string }) => ({
+        tag: row.tag,
+        count: row.usage_count,
+        last_used_at: row.last_used_at,
+      }),
+    );
+
+    logger.info({
+      event: 'bookmark.tags.listed',
+      actor: this.userId,
+      outcome: 'success',
+      metadata: { count: tags.length },
+    });
+
+    return tags;
+  }
+
+  /** Lists tag usage arranged by hierarchy level ("dev" above "dev/typescript") */
+  async getTagTree(): Promise<TagNode[]> {
+    return buildTagTree(await this.listTags());
+  }
+
+  /** Lists the user's tags starting with a prefix at any level, most used first */
+  async autocompleteTags(prefix: string, limit: number): Promise<TagUsage[]> {
+    const { data: rows, error } = await this.supabase.rpc('autocomplete_tags', {
+      prefix,
+      max_results: limit,
+    });
+
+    if (error) {
+      logger.error({
+        event: 'bookmark.tags.autocomplete.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to suggest tags');
+    }
+
+    return rows.map((row: { tag: string; usage_count: number; last_used_at: string }) => ({
+      tag: row.tag,
+      count: row.usage_count,
+      last_used_at: row.last_used_at,
+    }));
+  }
+
+  /**
+   * Suggests the user's existing tags for a page, from bookmarks on the same
+   * site and bookmarks sharing keywords with its title, description and path.
+   */
+  async suggestTags(input: SuggestTags): Promise<TagSuggestion[]> {
+    const { host, keywords } = toSuggestionInputs(input);
+
+    const { data: suggestions, error } = await this.supabase.rpc('suggest_tags', {
+      target_host: host,
+      keywords,
+      max_results: input.limit,
+    });
+
+    if (error) {
+      logger.error({
+        event: 'bookmark.tags.suggest.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to suggest tags');
+    }
+
+    logger.info({
+      event: 'bookmark.tags.suggested',
+      actor: this.userId,
+      outcome: 'success',
+      metadata: { keywords: keywords.length, count: suggestions.length },
+    });
+
+    return suggestions;
+  }
+
+  /** Renames a tag on every bookmark. Returns the number of bookmarks changed. */
+  async renameTag(tag: string, name: string): Promise<number> {
+    return this.rewrite('renamed', 'rename_tags', { source_tags: [tag], target_tag: name });
+  }
+
+  /** Replaces each source tag with the target. Returns the number of bookmarks changed. */
+  async mergeTags(sources: string[], target: string): Promise<number> {
+    return this.rewrite('merged', 'rename_tags', { source_tags: sources, target_tag: target });
+  }
+
+  /** Removes a tag from every bookmark. Returns the number of bookmarks changed. */
+  async deleteTag(tag: string): Promise<number> {
+    return this.rewrite('deleted', 'delete_tag', { tag_name: tag });
+  }
+
+  private async rewrite(
+    action: 'renamed' | 'merged' | 'deleted',
+    fn: string,
+    args: Record<string, unknown>,
+  ): Promise<number> {
+    const { data: updated, error } = await this.supabase.rpc(fn, args);
+
+    if (error) {
+      logger.error({
+        event: `bookmark.tag.${action}.failed`,
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to update tags');
+    }
+
+    logger.info({
+      event: `bookmark.tag.${action}`,
+      actor: this.userId,
+      outcome: 'success',
+      metadata: { updated },
+    });
+
+    return updated;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * @file Tag suggestion inputs
+ * @purpose Reduces a page's URL, title and description to the host and
+ *          keywords the suggest_tags database function scores tags against
+ * @inputs Validated tag suggestion requests
+ * @outputs A host without "www." and a bounded list of plain keywords
+ * @invariants Keywords contain only letters and digits, so they can never
+ *             act as search operators. Pure functions with no I/O.
+ * @spec SPEC-2026-12
+ */
+
+import type { SuggestTags } from '../schemas/tag.js';
+import { canonicalizeUrl } from './url-canonical.js';
+
+/** Most keywords sent to the database for one suggestion request */
+export const MAX_KEYWORDS = 20;
+
+// Common words that say nothing about a page's topic. Words shorter than
+// three letters, including the search operator "or", are dropped anyway.
+const STOP_WORDS = new Set(
+  (
+    'and are but can for from has have how into its not now our out the their this that ' +
+    'what when why will with you your www com org net html htm php index'
+  ).split(' '),
+);
+
+export interface SuggestionInputs {
+  host: string;
+  keywords: string[];
+}
+
+/** Splits text into lowercase words of 3 to 30 letters or digits */
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 3 && word.length <= 30);
+}
+
+/**
+ * Extracts the host and keywords for a suggestion request. Keywords come
+ * from the title, description and URL path, in that order of priority,
+ * without stop words or repeats.
+ */
+export function toSuggestionInputs(input: SuggestTags): SuggestionInputs {
+  const url = new URL(canonicalizeUrl(input.url));
+  const text = [input.title ?? '', input.description ?? '', url.pathname].join(' ');
+
+  const keywords = [...new Set(words(text))]
+    .filter((word) => !STOP_WORDS.has(word))
+    .slice(0, MAX_KEYWORDS);
+
+  return { host: url.hostname.replace(/^www\./, ''), keywords };
+}
@@ -0,0 +1,84 @@
+/**
+ * @file Tag normalisation and hierarchy
+ * @purpose Puts tags into their stored form and arranges tag usage into the
+ *          tree implied by '/'-separated hierarchical tags
+ * @inputs Raw tag strings, or tag usage rows
+ * @outputs Normalised tags, or a tag tree
+ * @invariants normalizeTag is idempotent and matches the SQL used to
+ *             normalise tags saved before normalisation was introduced
+ *             (migration 012). Pure functions with no I/O.
+ * @spec SPEC-2026-12
+ */
+
+import type { TagUsage } from '../schemas/tag.js';
+
+/** Separates levels of a hierarchical tag, as in "dev/typescript" */
+export const TAG_SEPARATOR = '/';
+
+/** A tag in the tag tree; tags that only exist as ancestors have count 0 */
+export interface TagNode {
+  /** Last level of the tag, e.g. "typescript" */
+  name: string;
+  /** Full tag, e.g. "dev/typescript" */
+  tag: string;
+  count: number;
+  last_used_at: string | null;
+  children: TagNode[];
+}
+
+/**
+ * Lowercases a tag, trims each level and collapses its inner whitespace,
+ * and drops empty levels: " Dev / Type  Script/ " becomes "dev/type script".
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .toLowerCase()
+    .split(TAG_SEPARATOR)
+    .map((level) => level.replace(/\s+/g, ' ').trim())
+    .filter((level) => level.length > 0)
+    .join(TAG_SEPARATOR);
+}
+
+/** Drops repeated tags, keeping the first occurrence of each */
+export function dedupeTags(tags: string[]): string[] {
+  return [...new Set(tags)];
+}
+
+/**
+ * Arranges tag usage into a tree by hierarchy level. Ancestors that are not
+ * used as tags themselves appear with count 0. Siblings are sorted by name.
+ */
+export function buildTagTree(usage: TagUsage[]): TagNode[] {
+  const root: TagNode[] = [];
+  const nodes = new Map<string, TagNode>();
+
+  for (const { tag, count, last_used_at } of usage) {
+    let siblings = root;
+    let path = '';
+
+    for (const name of tag.split(TAG_SEPARATOR)) {
+      path = path ? `${path}${TAG_SEPARATOR}${name}` : name;
+      let node = nodes.get(path);
+      if (!node) {
+        node = { name, tag: path, count: 0, last_used_at: null, children: [] };
+        nodes.set(path, node);
+        siblings.push(node);
+      }
+      siblings = node.children;
+    }
+
+    const node = nodes.get(tag);
+    if (node) {
+      node.count = count;
+      node.last_used_at = last_used_at;
+    }
+  }
+
+  const sort = (level: TagNode[]) => {
+    level.sort((a, b) => a.name.localeCompare(b.name));
+    level.forEach((node) => sort(node.children));
+  };
+  sort(root);
+
+  return root;
+}
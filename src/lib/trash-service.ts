@@ -0,0 +1,143 @@
+/**
+ * @file Bookmark trash service
+ * @purpose Lists, restores and permanently deletes soft-deleted bookmarks
+ * @inputs Bookmark IDs and trash pagination parameters
+ * @outputs Trashed bookmark pages, restored bookmarks, purge confirmations
+ * @invariants All queries scoped to authenticated user via RLS.
+ *             Restore only affects bookmarks that are currently in the trash,
+ *             and refuses one whose URL is already saved on an active bookmark.
+ * @spec SPEC-2026-12
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Bookmark, TrashQuery } from '../schemas/bookmark.js';
+import { applyKeyset, toPage, type BookmarkPage } from './bookmark-pagination.js';
+import { logger } from './logger.js';
+
+// Raised when the URL is already saved on an active bookmark
+const UNIQUE_VIOLATION = '23505';
+
+export class TrashService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+  ) {}
+
+  async listTrash(query: TrashQuery): Promise<BookmarkPage> {
+    const pageRequest = {
+      sort: 'deleted_at' as const,
+      order: 'desc' as const,
+      cursor: query.cursor,
+      limit: query.limit || 20,
+    };
+
+    const supabaseQuery = applyKeyset(
+      this.supabase.from('bookmarks').select('*').not('deleted_at', 'is', null),
+      pageRequest,
+    );
+
+    const { data: bookmarks, error } = await supabaseQuery.limit(pageRequest.limit + 1);
+
+    if (error) {
+      logger.error({
+        event: 'bookmark.trash.list.failed',
+        actor: this.userId,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to fetch trash');
+    }
+
+    const page = toPage(bookmarks, pageRequest);
+
+    logger.info({
+      event: 'bookmark.trash.listed',
+      actor: this.userId,
+      outcome: 'success',
+      metadata: { count: page.bookmarks.length, hasMore: page.hasMore },
+    });
+
+    return page;
+  }
+
+  /**
+   * Moves a bookmark out of the trash. Returns null when it is not in the
+   * trash, and throws 'Bookmark already exists' when its URL has been saved
+   * again since it was deleted.
+   */
+  async restoreBookmark(id: string): Promise<Bookmark | null> {
+    const { data: bookmark, error } = await this.supabase
+      .from('bookmarks')
+      .update({ deleted_at: null })
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error('Bookmark already exists');
+      }
+      logger.error({
+        event: 'bookmark.restore.failed',
+        actor: this.userId,
+        resource: id,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to restore bookmark');
+    }
+
+    logger.info({
+      event: 'bookmark.restored',
+      actor: this.userId,
+      resource: id,
+      outcome: 'success',
+      metadata: {},
+    });
+
+    return bookmark;
+  }
+
+  /**
+   * Permanently deletes a bookmark, whether or not it is in the trash.
+   * Returns false when no bookmark with that ID exists for the user, or when
+   * expectedUpdatedAt is given and the bookmark has changed since.
+   */
+  async purgeBookmark(id: string, expectedUpdatedAt?: string): Promise<boolean> {
+    const { data: purged, error } = await this.supabase
+      .from('bookmarks')
+      .delete()
+      .eq('id', id)
+      .match(expectedUpdatedAt ? { updated_at: expectedUpdatedAt } : {})
+      .select('id');
+
+    if (error) {
+      logger.error({
+        event: 'bookmark.purge.failed',
+        actor: this.userId,
+        resource: id,
+        outcome: 'failure',
+        metadata: { error: error.message },
+      });
+      throw new Error('Failed to permanently delete bookmark');
+    }
+
+    if (purged.length === 0) {
+      return false;
+    }
+
+    logger.info({
+      event: 'bookmark.purged',
+      actor: this.userId,
+      resource: id,
+      outcome: 'success',
+      metadata: {},
+    });
+
+    return true;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @file URL canonicalisation
+ * @purpose Reduces bookmark URLs to a canonical form so the same page saved
+ *          through different links is recognised as one bookmark
+ * @inputs Absolute URLs that have already passed Zod URL validation
+ * @outputs Canonical URL strings, stored in bookmarks.canonical_url
+ * @invariants Canonicalisation is idempotent. Only changes that cannot alter
+ *             which page is served are made: path case, parameter order and
+ *             trailing slashes are preserved.
+ * @spec SPEC-2026-12
+ */
+
+/** Query parameters that only carry analytics or click attribution */
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'gclsrc',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  'mkt_tok',
+  '_hsenc',
+  '_hsmi',
+]);
+
+const DEFAULT_PORTS: Record<string, string> = { 'http:': '80', 'https:': '443' };
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Returns the canonical form of a URL: lowercase scheme and host (done by
+ * the URL parser), no default port, no fragment, and no tracking parameters.
+ * Returns the input unchanged if it cannot be parsed.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  if (DEFAULT_PORTS[parsed.protocol] === parsed.port) {
+    parsed.port = '';
+  }
+  parsed.hash = '';
+
+  // Parameters are filtered as written rather than through URLSearchParams,
+  // which would re-encode the ones that are kept ("%20" becomes "+"). This
+  // matches the backfill in migration 007, so old and new rows compare equal.
+  const kept = parsed.search
+    .slice(1)
+    .split('&')
+    .filter((param) => param !== '' && !isTrackingParam(param.split('=')[0] ?? ''));
+  // The setter drops one leading "?", so a kept query that starts with one
+  // survives, and an empty list leaves no bare "?" behind
+  parsed.search = kept.length > 0 ? `?${kept.join('&')}` : '';
+
+  return parsed.toString();
+}
@@ -0,0 +1,95 @@
+/**
+ * @file Word game dictionary
+ * @purpose The five-letter words the game picks answers from and accepts as
+ *          guesses, and the choice of a game's answer
+ * @inputs Guesses, upper-cased by the request schema; answer seeds and a
+ *         player's recent answers
+ * @outputs Whether a guess is a word, and answers chosen from a seed
+ * @invariants Every word is five letters A-Z in Australian spelling
+ *             (FIBRE, LITRE, ODOUR), never the US variant. Every answer is
+ *             also a valid guess. The same seed and recent answers always
+ *             choose the same answer.
+ * @spec SPEC-2026-27
+ */
+
+import { WORD_LENGTH } from '../schemas/game.js';
+import { sha256Hex } from './hash.js';
+import { ANSWERS } from './words/answers.js';
+import { GUESSES } from './words/guesses.js';
+
+/**
+ * A sorted list of words stored as one string with no separators. Lookups
+ * are a binary search over the string, so checking a guess costs about a
+ * dozen comparisons and no list has to be split or indexed at startup.
+ */
+export class PackedWordList {
+  readonly size: number;
+
+  constructor(private packed: string) {
+    this.size = packed.length / WORD_LENGTH;
+  }
+
+  /** Returns the word at a position in the list */
+  at(index: number): string {
+    return this.packed.slice(index * WORD_LENGTH, (index + 1) * WORD_LENGTH);
+  }
+
+  /** Returns true if the list holds the word */
+  has(word: string): boolean {
+    if (word.length !== WORD_LENGTH) {
+      return false;
+    }
+
+    let low = 0;
+    let high = this.size - 1;
+    while (low <= high) {
+      const middle = (low + high) >>> 1;
+      const candidate = this.at(middle);
+      if (candidate === word) {
+        return true;
+      }
+      if (candidate < word) {
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return false;
+  }
+}
+
+/** Common words, suitable as answers */
+export const ANSWER_WORDS = new PackedWordList(ANSWERS);
+
+/** Further words accepted as guesses but never chosen as answers */
+export const GUESS_WORDS = new PackedWordList(GUESSES);
+
+/** Returns true if a guess is a word the game knows */
+export function isAllowedGuess(word: string): boolean {
+  return ANSWER_WORDS.has(word) || GUESS_WORDS.has(word);
+}
+
+/** Draws made before a seed gives up on avoiding recent answers */
+const MAX_DRAWS = 100;
+
+/**
+ * Chooses an answer from a seed. The seed's hash picks a word; if the player
+ * has had it recently, "seed:1", "seed:2" and so on are hashed in turn until
+ * one picks a word they have not. Every answer stays equally likely, which
+ * stepping to the next word in the list would not give. If no draw finds a
+ * word, because nearly every answer is recent, the first draw is used anyway.
+ */
+export async function selectAnswer(seed: string, recent: readonly string[]): Promise<string> {
+  const skipped = new Set(recent);
+  let first: string | undefined;
+
+  for (let draw = 0; draw < MAX_DRAWS; draw++) {
+    const digest = await sha256Hex(draw === 0 ? seed : `${seed}:${draw}`);
+    const word = ANSWER_WORDS.at(parseInt(digest.slice(0, 8), 16) % ANSWER_WORDS.size);
+    if (!skipped.has(word)) {
+      return word;
+    }
+    first ??= word;
+  }
+  return first ?? ANSWER_WORDS.at(0);
+}
@@ -0,0 +1,169 @@
+/**
+ * @file Word game answers
+ * @purpose The common five-letter words a game's answer is chosen from.
+ *          Built from the SCOWL word lists (Copyright 2000-2016 Kevin
+ *          Atkinson)
+ * @inputs N/A
+ * @outputs The answer list, packed
+ * @invariants Words are A-Z, in Australian spelling, sorted and distinct,
+ *             written back to back with no separator. No word here is also
+ *             in the guess list. Answers are common words: no plurals, past
+ *             tenses or offensive words.
+ * @spec SPEC-2026-27
+ */
+
+/** 2736 answers, five letters each */
+export const ANSWERS = [
+  'ABACKABAFTABASEABASHABATEABBEYABBOTABEAMABHORABIDEABLERABODEABORTABOUTABOVEABUSEABUZZABYSS',
+  'ACHOOACINGACORNACRIDACTORACUTEADAGEADAPTADDERADDLEADEPTADIEUADMANADMENADMITADOBEADOPTADORE',
+  'ADORNADULTAEGISAERIEAFFIXAFIREAFOOTAFOULAFTERAFTIEAGAINAGAPEAGATEAGAVEAGENTAGILEAGLOWAGONY',
+  'AGREEAHEADAISLEALARMALBUMALDERALERTALGAEALIASALIBIALIENALIGNALIKEALIVEALLAYALLEYALLOTALLOW',
+  'ALLOYALOFTALOHAALONEALONGALOOFALOUDALPHAALTARALTERAMASSAMAZEAMBERAMBLEAMENDAMIGOAMINOAMISS',
+  'AMITYAMONGAMOURAMPLEAMPLYAMUSEANGELANGERANGLEANGRYANGSTANIMEANIONANISEANKLEANNEXANNOYANNUL',
+  'ANODEANTICANVILAORTAAPACEAPARTAPHIDAPINGAPPALAPPLEAPPLYAPRONAPTERAPTLYARENAARGONARGOTARGUE',
+  'ARISEARMEDAROMAAROSEARRAYARROWARSONARTSYASCOTASHENASIDEASKEWASPENASPICASSAYASSETASTERASTIR',
+  'ATLASATOLLATONEATRIAATTARATTICAUDIOAUDITAUGERAUGHTAUGURAURALAVAILAVASTAVERTAVIANAVOIDAWAIT',
+  'AWAKEAWARDAWAREAWASHAWFULAWINGAWOKEAXIALAXINGAXIOMAZUREBABELBACONBADGEBADLYBAGELBAGGYBAIZE',
+  'BAKERBALKYBALMYBALSABANALBANDYBANJOBANNSBARERBARGEBARONBASALBASERBASICBASILBASINBASISBASSO',
+  'BASTEBATCHBATHEBATIKBATONBATTYBAULKBAWDYBAYOUBEACHBEADYBEARDBEASTBEBOPBEECHBEEFYBEFITBEFOG',
+  'BEGANBEGATBEGETBEGINBEGOTBEGUNBEIGEBEINGBELAYBELCHBELIEBELLEBELLYBELOWBENCHBERETBERRYBERTH',
+  'BERYLBESETBESOMBESOTBEVELBIBLEBICEPBIDDYBIDETBIFFOBIGHTBIGOTBIKERBILGEBILLYBIMBOBINGEBINGO',
+  'BIPEDBIRCHBIRTHBISONBLACKBLADEBLAMEBLANDBLANKBLAREBLASTBLAZEBLEAKBLEATBLEEPBLENDBLESSBLIMP',
+  'BLINDBLINGBLINKBLISSBLITZBLOATBLOCKBLONDBLOODBLOOMBLOWNBLUERBLUEYBLUFFBLUNTBLURBBLURTBLUSH',
+  'BOARDBOASTBOBBYBOGANBOGEYBOGGYBOGIEBOGUSBONGOBONNYBONUSBONZABONZEBOOSTBOOTHBOOTYBOOZEBOOZY',
+  'BORAXBORERBORNEBORONBOSOMBOSSYBOTCHBOUGHBOUNDBOWELBOWERBOXERBRACEBRACTBRAIDBRAINBRAKEBRAND',
+  'BRASHBRASSBRAVEBRAVOBRAWLBRAWNBREADBREAKBRIARBRIBEBRICKBRIDEBRIEFBRINEBRINGBRINKBRINYBRISK',
+  'BROADBROILBROKEBROODBROOKBROOMBROTHBROWNBRUINBRUNTBRUSHBRUTEBUDDYBUDGEBUGGYBUGLEBUILDBUILT',
+  'BULGEBULGYBULKYBULLYBUMPYBUNCHBUNDYBUNNYBURLYBURNTBURQABURROBURSTBUSBYBUSHYBUTCHBUTTEBUXOM',
+  'BUYERBYLAWBYWAYCABALCABBYCABINCABLECACAOCACHECACTICADETCADGECADRECAGEYCAIRNCALVECALYXCAMEL',
+  'CAMEOCAMPYCANALCANDYCANNYCANOECANONCANTOCAPERCAPONCARATCARETCARGOCAROLCAROMCARPICARRYCARVE',
+  'CASTECATCHCATERCATTYCAULKCAUSECAVILCEASECEDARCELLOCHAFECHAFFCHAINCHAIRCHALKCHAMPCHANTCHARM',
+  'CHARTCHARYCHASECHASMCHEAPCHEATCHECKCHEEKCHEEPCHEERCHESSCHESTCHEWYCHICKCHIDECHIEFCHILDCHILL',
+  'CHIMECHIMPCHINACHINOCHIRPCHIVECHOCKCHOIRCHOKECHOMPCHOOKCHORDCHORECHOSECHUCKCHUMPCHUNKCHURL',
+  'CHURNCHUTECIDERCIGARCILIACINCHCIRCACIVETCIVICCIVILCLACKCLAIMCLAMPCLANGCLANKCLASHCLASPCLASS',
+  'CLEANCLEARCLEATCLEFTCLERKCLICKCLIFFCLIMBCLIMECLINGCLINKCLOAKCLOCKCLOMPCLONECLOSECLOTHCLOUD',
+  'CLOUTCLOVECLOWNCLUCKCLUMPCLUNGCLUNKCOACHCOASTCOBRACOCCICOCKYCOCOACODEXCOLICCOLONCOMBOCOMER',
+  'COMETCOMFYCOMICCOMMACONCHCONDOCONGACONICCOOEECOPRACOPSECORALCORNYCORPSCOUCHCOUGHCOULDCOUNT',
+  'COUPECOURTCOVENCOVERCOVETCOVEYCOWERCOYERCOYLYCOZENCRACKCRAFTCRAMPCRANECRANKCRAPECRASHCRASS',
+  'CRATECRAVECRAWLCRAZECRAZYCREAKCREAMCREDOCREEKCREELCREEPCREPECREPTCRESSCRESTCRICKCRIERCRIME',
+  'CRIMPCRISPCROAKCROCKCRONECRONYCROOKCROONCROSSCROUPCROWDCROWNCRUDECRUELCRUETCRUMBCRUSHCRUST',
+  'CRYPTCUBICCUBITCUINGCUMINCUPIDCURERCURIECURIOCURLYCURRYCURSECURVECURVYCUSHYCUTERCUTUPCYCLE',
+  'CYNICDACHADADDYDAFFYDAILYDAIRYDAISYDALLYDANCEDANDYDATUMDAUNTDAVITDEALTDEATHDEBARDEBITDEBUG',
+  'DEBUTDECAFDECALDECAYDECORDECOYDECRYDEFERDEICEDEIFYDEIGNDEISMDEITYDELAYDELTADELVEDEMONDEMUR',
+  'DENIMDENSEDEPOTDEPTHDERBYDETERDETOXDEUCEDEVILDHOTIDIARYDICEYDICTADIGITDILLYDIMERDIMLYDINER',
+  'DINGODINGYDINKYDIODEDIRERDIRGEDIRTYDISCODITCHDITTODITTYDIVANDIVERDIVOTDIVVYDIZZYDODGEDOGGY',
+  'DOGIEDOGMADOILYDOINGDOLLYDONORDOONADOPEYDORKYDOTTYDOUBTDOUGHDOUSEDOWDYDOWELDOWNYDOWRYDOWSE',
+  'DOYENDOZENDRAFTDRAINDRAKEDRAMADRANKDRAPEDRAWLDRAWNDREADDREAMDRESSDRIERDRIFTDRILLDRILYDRINK',
+  'DRIVEDROLLDRONEDROOLDROOPDROSSDROVEDROWNDRUIDDRUNKDRYADDRYERDUCALDUCATDUCHYDULLYDUMMYDUMPY',
+  'DUNCEDUNNODUNNYDUSKYDUSTYDUVETDWARFDWEEBDWELLDWELTDYINGEAGEREAGLEEARLYEARTHEASELEATENEATER',
+  'EBONYEDGEREDICTEDIFYEERIEEGRETEIDEREIGHTEJECTEKINGELATEELBOWELDERELECTELEGYELFINELIDEELITE',
+  'ELOPEELUDEELVESEMAILEMBEDEMBEREMCEEEMENDEMERYEMOJIEMOTEEMPTYENACTENDOWENDUEENEMYENJOYENNUI',
+  'ENROLENSUEENTERENTRYENVOYENZEDEPOCHEPOXYEQUALEQUIPERASEERECTERODEERRORERUPTESSAYESTERETHER',
+  'ETHICETHOSEVADEEVENTEVERYEVICTEVOKEEXACTEXALTEXCELEXERTEXILEEXISTEXPELEXTOLEXTRAEXUDEEXULT',
+  'FABLEFACETFAINTFAIRYFAITHFAKERFAKIRFALSEFANCYFARCEFATALFATTYFAULTFAUNAFEASTFEIGNFEINTFELON',
+  'FEMURFENCEFERALFERRYFETALFETCHFETIDFEVERFEWERFIBREFICHEFIELDFIENDFIERYFIFTHFIFTYFIGHTFILCH',
+  'FILETFILLYFILMYFILTHFINALFINCHFINERFINNYFIRSTFIRTHFISHYFITLYFIVERFIXERFIZZYFJORDFLACKFLAIL',
+  'FLAIRFLAKEFLAKYFLAMEFLANKFLAREFLASHFLASKFLECKFLEETFLESHFLICKFLINGFLINTFLIRTFLOATFLOCKFLOOD',
+  'FLOORFLORAFLOSSFLOURFLOUTFLOWNFLUFFFLUIDFLUKEFLUKYFLUMEFLUNGFLUNKFLUSHFLUTEFLYBYFLYERFOAMY',
+  'FOCALFOCUSFOGEYFOGGYFOISTFOLIOFOLLYFORAYFORCEFORGEFORGOFORTEFORTHFORTYFORUMFOUNDFOUNTFOYER',
+  'FRACKFRAILFRAMEFRANCFRANKFRAUDFREAKFREERFRESHFRIARFRILLFRISKFRIZZFROCKFRONDFRONTFROSTFROTH',
+  'FROWNFROZEFRUITFRUMPFRYERFUDGEFUGUEFULLYFUNGIFUNKYFUNNYFURRYFURZEFUSSYFUSTYFUTONFUZZYGABBY',
+  'GABLEGAFFEGAILYGALAHGAMERGAMINGAMMAGAMUTGARBOGASSYGAUDYGAUGEGAUNTGAUZEGAUZYGAVELGAWKYGAYER',
+  'GAZERGECKOGEEKYGEESEGELIDGENIEGENIIGENREGEODEGETUPGHOSTGHOULGIANTGIDDYGIMMEGIMPYGIRTHGIVEN',
+  'GIZMOGLADEGLANDGLAREGLASSGLAZEGLEAMGLEANGLIDEGLINTGLITZGLOATGLOBEGLOOMGLORYGLOSSGLOVEGLUEY',
+  'GLYPHGNARLGNASHGNOMEGODLYGOFERGOINGGOLLYGONERGONNAGOODOGOODYGOOEYGOOFYGOOSEGORGEGORSEGOTTA',
+  'GOUGEGOURDGOUTYGRACEGRADEGRAFTGRAILGRAINGRANDGRANTGRAPEGRAPHGRASPGRASSGRATEGRAVEGRAVYGRAZE',
+  'GREATGREBEGREENGREETGRIEFGRILLGRIMEGRIMYGRINDGRIPEGRISTGROANGROINGROOMGROPEGROSSGROUPGROUT',
+  'GROVEGROWLGROWNGRUELGRUFFGRUNTGUANOGUARDGUAVAGUESSGUESTGUIDEGUILDGUILEGUILTGUISEGULCHGULLY',
+  'GUMBOGUMMYGUNNYGUPPYGUSHYGUSTOGUSTYGUTSYHABITHAIKUHAIRYHALERHALONHALVEHANDYHANKYHAPPYHARDY',
+  'HAREMHARPYHARRYHARSHHASTEHASTYHATCHHATERHAUNTHAVENHAVOCHAZELHEADYHEARDHEARTHEATHHEAVEHEAVY',
+  'HEDGEHEFTYHEISTHELIXHELLOHELOTHENCEHENNAHERONHERTZHEWERHIKERHILLYHINGEHIPPOHIPPYHITCHHOARD',
+  'HOARYHOBBYHOGANHOISTHOKEYHOKUMHOLLYHOMERHOMEYHONEYHOOCHHOOEYHOOKYHORDEHORSEHOTELHOTLYHOUND',
+  'HOUSEHOVELHOVERHOWDYHUBBYHUFFYHUGERHUMANHUMIDHUMUSHUNCHHURRYHUSKYHUTCHHYDRAHYENAHYINGHYPER',
+  'ICIERICILYICINGIDEALIDIOMIDIOTIDLERIDYLLIGLOOIMAGEIMBUEIMPELIMPLYINANEINAPTINBOXINCURINDEX',
+  'INEPTINERTINFERINFIXINGOTINLAYINLETINNERINPUTINSETINTERINUREIRATEIRONYISLETISSUEITCHYIVORY',
+  'JABOTJAUNTJAZZYJELLYJERKYJETTYJEWELJIFFYJIMMYJINNIJOINTJOISTJOKERJOLLYJOULEJOUSTJUDGEJUICE',
+  'JUICYJULEPJUMBOJUMPYJUNCOJUNTAJURORKANGAKAPOKKAPUTKARATKARMAKAYAKKAZOOKEBABKETCHKHAKIKICKY',
+  'KIDDOKINDAKIOSKKITTYKLUTZKNACKKNAVEKNEADKNEELKNELLKNELTKNIFEKNOCKKNOLLKNOWNKOALAKOOKYKRONE',
+  'KUDZULABELLADENLADLELAGERLAITYLAMERLANCELANKYLAPELLAPSELARCHLARGELARGOLARVALASERLASSOLATCH',
+  'LATERLATEXLATHELATTELAUGHLAXERLAXLYLAYERLEACHLEAFYLEAKYLEAPTLEARNLEASELEASHLEASTLEAVELEDGE',
+  'LEECHLEERYLEFTYLEGALLEGGYLEGITLEMMALEMMELEMONLEMURLEPERLETUPLEVEELEVELLEVERLIBELLICITLIEGE',
+  'LIFERLIGHTLIKENLIKERLILACLIMBOLIMITLINENLINERLINGOLIPIDLISLELITHELITRELIVENLIVERLIVIDLLAMA',
+  'LLANOLOAMYLOATHLOBBYLOCALLOCUSLODGELOFTYLOGICLOGINLOGONLONERLOONYLOOPYLOOSELORRYLOSERLOTTO',
+  'LOTUSLOUSELOUSYLOVERLOWERLOWLYLOYALLUCIDLUCKYLUCRELUMPYLUNARLUNCHLUNGELUPINLUPUSLURCHLURID',
+  'LUSTYLYINGLYMPHLYRICMACAWMACHOMACROMADAMMADLYMAGICMAGMAMAIZEMAJORMAKERMAMBOMAMMAMANGAMANGE',
+  'MANGOMANGYMANIAMANICMANLYMANNAMANORMANSEMAPLEMARCHMARRYMARSHMASONMATCHMATTEMATZOMAUVEMAVEN',
+  'MAXIMMAYBEMAYORMEALYMEANTMEATYMECCAMEDALMEDIAMEDICMELONMERCYMERGEMERITMERRYMESSYMETALMETER',
+  'METREMETROMIAOWMIDDYMIDGEMIDSTMIGHTMILCHMILERMILKYMIMICMINCEMINERMINIMMINORMINTYMINUSMIRTH',
+  'MISDOMISERMISTYMITREMIXEDMIXERMOCHAMODALMODELMODEMMOGULMOIREMOISTMOLARMONEYMONTHMOOCHMOODY',
+  'MOOSEMORALMORAYMORONMOSEYMOSSYMOTELMOTIFMOTORMOTTOMOULDMOULTMOUNDMOUNTMOURNMOUSEMOUSYMOUTH',
+  'MOVERMOVIEMOWERMUCKYMUCUSMUDDYMUFTIMUGGYMULCHMULTIMUMMYMUNCHMURALMURKYMUSHYMUSICMUSKYMUSSY',
+  'MUSTYMUTERMYNAHMYRRHNABOBNACHONACRENADIRNAIADNAIVENAKEDNANNYNAPPYNASALNASTYNATALNATTYNAVAL',
+  'NAVELNEATHNEEDYNEIGHNERDYNERVENERVYNEVERNEWELNEWERNEWLYNEWSYNEXUSNICERNICHENIECENIFTYNIGHT',
+  'NIMBININJANINNYNINTHNIPPYNITRENOBLENOBLYNODALNODDYNOISENOISYNOMADNONCENOOSENORTHNOTCHNOVAE',
+  'NOVELNOWAYNUDERNUDGENULLANURSENUTTYNYLONNYMPHOAKENOAKUMOASESOASISOATENOBESEOCCUROCEANOCHRE',
+  'OCTALOCTETODDERODDLYODIUMODOUROFFALOFFEROFTENOLDENOLDEROLDIEOLIVEOMEGAONIONONSETOPERAOPINE',
+  'OPIUMOPTICORATEORBITORDERORGANOSIEROTHEROTTEROUGHTOUNCEOUTDOOUTEROUTGOOVARYOVERTOVOIDOVULE',
+  'OWINGOWLETOWNEROXBOWOXIDEOZONEPADDYPADREPAEANPAGANPAGERPAINTPALERPALMYPALSYPANDAPANELPANIC',
+  'PANSYPAPALPAPERPARCHPARKAPARRYPARSEPARTYPASHAPASTAPASTEPASTYPATCHPATIOPATSYPATTYPAUSEPAYEE',
+  'PAYERPEACEPEACHPEARLPECANPEDALPEEVEPEKOEPENALPENCEPENNYPEONYPEPPYPERCHPERILPERKYPESKYPETAL',
+  'PETERPETTYPEWEEPHASEPHIALPHISHPHLOXPHONEPHOTOPHYLAPIANOPICKYPIECEPIETYPIGGYPIINGPIKERPILAF',
+  'PILLYPILOTPINCHPINTOPINUPPIOUSPIPERPIPITPIQUEPITCHPITHYPITONPIVOTPIXELPIXIEPIZZAPLACEPLAID',
+  'PLAINPLAITPLANEPLANKPLANTPLATEPLAZAPLEADPLEATPLUCKPLUMBPLUMEPLUMPPLUNKPLUSHPOACHPOESYPOINT',
+  'POISEPOKERPOKEYPOKIEPOLARPOLIOPOLKAPOLYPPOOCHPOPPAPOPPYPORCHPOSERPOSITPOSSEPOTTYPOUCHPOUND',
+  'POWERPRANKPRATEPRAWNPREENPRESSPRICEPRIDEPRIMEPRIMPPRINTPRIORPRISEPRISMPRIVYPRIZEPROBEPROMO',
+  'PRONEPRONGPROOFPROSEPROSYPROUDPROVEPROWLPROXYPRUDEPRUNEPSALMPSHAWPSYCHPUDGYPUFFYPULPYPULSE',
+  'PUNCHPUPAEPUPALPUPILPUPPYPUREEPURERPURGEPURSEPUSHYPUTTYPYGMYPYLONQUACKQUAFFQUAILQUAKEQUALM',
+  'QUARKQUARTQUASHQUASIQUEENQUEERQUELLQUERYQUESTQUEUEQUICKQUIETQUILLQUILTQUIREQUIRKQUITEQUOIT',
+  'QUOTAQUOTEQUOTHRABBIRABIDRACERRADARRADIIRADIORADONRAGERRAINYRAISERAJAHRALLYRANCHRANDYRANGE',
+  'RANGYRAPIDRARERRASPYRATIORATTYRAVELRAVENRAWERRAYONRAZOORAZORREACHREACTREADYREALMREARMREBEL',
+  'REBUSREBUTRECAPRECURREDIDREEDYREEVEREFERREFITREGALREHABREIGNRELAXRELAYRELICREMITRENALRENEW',
+  'REORGREPAYREPELREPLYRERANRERUNRESETRESINRETCHRETRYREUSEREVELREVUERHEUMRHINORHYMERIDERRIDGE',
+  'RIFERRIFLERIGHTRIGIDRINSERIPENRIPERRISENRISERRISKYRITZYRIVALRIVENRIVERRIVETROACHROASTROBIN',
+  'ROBOTROCKYRODEOROGERROGUEROMANROOMYROOSTROSINROTORROUGEROUGHROUNDROUSEROUTEROVERROWDYROWEL',
+  'ROWERROYALRUDDYRUDERRUGBYRUINGRULERRUMBARUMMYRUNNYRUPEERURALRUSTYSABLESABRESADLYSAFERSAGER',
+  'SAHIBSAINTSAITHSALADSALLYSALONSALSASALTYSALVESALVOSAMBASANDYSANERSAPPYSASSYSATAYSATINSATYR',
+  'SAUCESAUCYSAUNASAVERSAVVYSCALDSCALESCALPSCALYSCAMPSCANTSCARESCARFSCARYSCENESCENTSCHWASCION',
+  'SCOFFSCOLDSCONESCOOPSCOOTSCOPESCORESCORNSCOURSCOUTSCOWLSCRAMSCRAPSCREWSCRIPSCRODSCRUBSCUBA',
+  'SCUFFSCULLSCURFSEAMYSEDANSEDGESEEDYSEGUESEIZESENNASENSESEPALSEPIASEPTASERERSERGESERUMSERVE',
+  'SERVOSETUPSEVENSEVERSEWERSHACKSHADESHADYSHAFTSHAKESHAKYSHALESHALLSHALTSHAMESHANKSHAPESHARD',
+  'SHARESHARKSHARPSHAVESHAWLSHEAFSHEARSHEENSHEEPSHEERSHEETSHELFSHELLSHIFTSHILLSHINESHINYSHIRE',
+  'SHIRKSHIRRSHIRTSHOALSHOCKSHONESHONKSHOOKSHOOTSHORESHORTSHOUTSHOVESHOWNSHOWYSHREDSHREWSHRUB',
+  'SHRUGSHUCKSHUNTSHUSHSHYERSHYLYSIBYLSIDLESIEGESIEVESIGHTSIGMASILKYSILLYSINCESINEWSINGESINUS',
+  'SIRENSISALSISSYSITARSIXTHSIXTYSIZERSKATESKEETSKEINSKIERSKIFFSKILLSKIMPSKIRTSKITESKULKSKULL',
+  'SKUNKSLACKSLAINSLAKESLANGSLANTSLASHSLATESLEEKSLEEPSLEETSLEPTSLICESLICKSLIDESLIMESLIMYSLING',
+  'SLINKSLOOPSLOPESLOSHSLOTHSLUMPSLUNGSLUNKSLURPSLUSHSLYERSLYLYSMACKSMALLSMARTSMASHSMEARSMELL',
+  'SMELTSMILESMIRKSMITESMITHSMOCKSMOKESMOKOSMOKYSMOTESNACKSNAFUSNAILSNAKESNAKYSNARESNARLSNEAK',
+  'SNEERSNIDESNIFFSNIPESNOOPSNOOTSNORESNORTSNOUTSNOWYSNUFFSOAPYSOBERSOFTYSOGGYSOLARSOLIDSOLVE',
+  'SONARSONICSONNYSOOKYSOOTHSOOTYSOPPYSORERSORRYSORTASOUGHSOUNDSOUPYSOUSESOUTHSOWERSPACESPADE',
+  'SPAKESPANKSPARESPARKSPASMSPATESPAWNSPEAKSPEARSPECKSPEEDSPELLSPELTSPENDSPENTSPICESPICYSPIEL',
+  'SPIKESPIKYSPILLSPILTSPINESPINYSPIRESPITESPLATSPLAYSPLITSPOILSPOKESPOOFSPOOKSPOOLSPOONSPOOR',
+  'SPORESPORTSPOUTSPRATSPRAYSPREESPRIGSPUMESPURNSPURTSQUABSQUADSQUATSQUIDSTACKSTAFFSTAGESTAID',
+  'STAINSTAIRSTAKESTALESTALKSTALLSTAMPSTANDSTANKSTAPHSTARESTARKSTARTSTASHSTATESTAVESTEADSTEAK',
+  'STEALSTEAMSTEEDSTEELSTEEPSTEERSTEINSTENTSTERNSTICKSTIFFSTILESTILLSTILTSTINGSTINKSTINTSTOAT',
+  'STOCKSTOICSTOKESTOLESTOMPSTONESTONYSTOODSTOOLSTOOPSTORESTORKSTORMSTORYSTOUTSTOVESTRAPSTRAW',
+  'STRAYSTREPSTREWSTRIPSTROPSTRUMSTRUTSTUCKSTUDYSTUFFSTUMPSTUNGSTUNKSTUNTSTYLESTYLISUAVESUDSY',
+  'SUEDESUGARSUINGSUITESULKYSULLYSUMACSUNNYSUNUPSUPERSURERSURGESURLYSUSHISWAINSWAMISWAMPSWANK',
+  'SWARDSWARMSWASHSWATHSWEARSWEATSWEEPSWEETSWELLSWEPTSWIFTSWILLSWINESWINGSWIPESWIRLSWISHSWOON',
+  'SWOOPSWORDSWORESWORNSWUNGSYLPHSYNODSYRUPTABBYTABLETABOOTACITTACKYTAFFYTAINTTAKENTAKERTALLY',
+  'TALONTAMERTANGOTANGYTANSYTAPERTAPIRTARDYTAROTTARRYTASERTASTETASTYTATTYTAUNTTAUPETAWNYTEACH',
+  'TEARYTEASETEENYTEETHTELEXTEMPOTEMPTTENETTENONTENORTENSETENTHTEPEETEPIDTERRYTERSETESTYTHANK',
+  'THEFTTHEIRTHEMETHERETHESETHETATHICKTHIEFTHIGHTHINETHINGTHINKTHIRDTHONGTHORNTHOSETHREETHREW',
+  'THROBTHROETHROWTHRUMTHUMBTHUMPTHYMETIARATIBIATIDALTIGERTIGHTTILDETIMERTIMIDTINGETINNYTIPSY',
+  'TITANTITHETITLETIZZYTOADYTOASTTODAYTODDYTOKENTONALTONERTONICTONNETOOTHTOPAZTOPICTOQUETORCH',
+  'TORSOTORTETORUSTOTALTOTEMTOUCHTOUGHTOWELTOWERTOXICTOXINTRACETRACKTRACTTRADETRAILTRAINTRAIT',
+  'TRAMPTRASHTRAWLTREADTREATTRENDTRESSTRIADTRIALTRIBETRICETRICKTRIKETRILLTRIPETRITETROLLTROMP',
+  'TROOPTROPETROTHTROUTTRUCETRUCKTRUERTRULYTRUMPTRUNKTRUSSTRUSTTRUTHTRYSTTUBBYTUBERTULIPTULLE',
+  'TUMIDTUMMYTUNERTUNICTUNNYTUTORTWAINTWANGTWEAKTWEETTWERPTWICETWILLTWINETWIRLTWISTTYINGUDDER',
+  'ULCERULNAEULTRAUMBELUMBERUMIAKUNBARUNCLEUNCUTUNDERUNDIDUNDUEUNFITUNIFYUNIONUNITEUNITYUNMAN',
+  'UNPINUNSAYUNSETUNTIEUNTILUNWEDUNZIPUPENDUPPERUPSETURBANUSAGEUSHERUSINGUSUALUSURPUSURYUTTER',
+  'UVULAVAGUEVALETVALIDVALUEVALVEVAPIDVAULTVAUNTVEGANVENALVENOMVENUEVERGEVERSEVERVEVETCHVIAND',
+  'VICARVIDEOVIGILVILERVILLAVINYLVIOLAVIPERVIRALVIREOVIRUSVISITVISORVISTAVITALVIVIDVIXENVOCAL',
+  'VODKAVOGUEVOICEVOILEVOMITVOTERVOUCHVOWELVYINGWACKOWACKYWADERWAFERWAGERWAGONWAISTWAIVEWAKEN',
+  'WALTZWANLYWANNAWARTYWASTEWATCHWATERWAVERWAXENWEARYWEAVEWEDGEWEEDYWEEPYWEESTWEIGHWEIRDWETLY',
+  'WHACKWHALEWHARFWHEALWHEATWHEELWHELKWHELPWHEREWHICHWHIFFWHILEWHINEWHINYWHIRLWHIRRWHISKWHIST',
+  'WHITEWHIZZWHOLEWHOOPWHORLWHOSEWIDENWIDERWIDOWWIDTHWIELDWIGHTWIMPYWINCEWINCHWINDYWIPERWISER',
+  'WISPYWITCHWITTYWOKENWOMANWOMENWOODYWOOERWOOZYWORDYWORLDWORMYWORRYWORSEWORSTWORTHWOULDWOUND',
+  'WOVENWRACKWRATHWREAKWRECKWRESTWRINGWRISTWRITEWRONGWROTEWROTHWRUNGWRYERWRYLYXENONXYLEMYABBY',
+  'YACHTYAHOOYAKKAYEARNYEASTYIELDYODELYOKELYOUNGYOUSEYOUTHYUCCAYUCKYYUMMYZEBRAZILCHZIPPYZONAL',
+].join('');
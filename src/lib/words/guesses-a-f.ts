@@ -0,0 +1,183 @@
+/**
+ * @file Word game guesses, A to F
+ * @purpose The part of the guess list that starts with A to F; see guesses.ts
+ * @inputs N/A
+ * @outputs The words, packed
+ * @invariants Words are A-Z, sorted and distinct, written back to back with
+ *             no separator
+ * @spec SPEC-2026-27
+ */
+
+/** 3043 guesses, five letters each */
+export const GUESSES_A_TO_F = [
+  'AAHEDAALIIAARGHAARTIABACAABACIABACSABAKAABAMPABANDABASKABAYAABBASABBEDABBESABCEEABEARABELE',
+  'ABETSABIESABLEDABLESABLETABLOWABMHOABOHMABOILABOMAABOONABORDABOREABRAMABRAYABRIMABRINABRIS',
+  'ABSEYABSITABUNAABUNEABUTSABYESABYSMACAISACARIACCASACCOYACERBACERSACETAACHARACHEDACHESACIDS',
+  'ACIDYACINIACKEEACKERACMESACMICACNEDACNESACOCKACOLDACREDACRESACTEDACTINACTONACYLSADAWSADAYS',
+  'ADDAXADDEDADDIOADEEMADHANADIOSADITSADMINADMIXADOBOADOWNADOZEADRADADREDADSUMADUKIADUNCADUST',
+  'ADVEWADYTAADZEDADZESAECIAAEDESAEONSAEROSAESIRAFALDAFARAAFARSAFEARAFLAJAFOREAFRITAFROSAFTOS',
+  'AGAMAAGAMIAGARSAGASTAGAZEAGENEAGERSAGGERAGGIEAGGRIAGGROAGGRYAGHASAGILAAGIOSAGISMAGISTAGITA',
+  'AGLEEAGLETAGLEYAGLOOAGLUSAGMASAGOGEAGONEAGONSAGOODAGORAAGRIAAGRINAGUEDAGUESAGUNAAGUTIAHEAP',
+  'AHENTAHIGHAHINDAHINGAHINTAHOLDAHULLAHURUAIDASAIDEDAIDERAIDESAIDOIAIDOSAIERYAIGASAIGHTAILED',
+  'AIMEDAIMERAINEEAINGAAIOLIAIREDAIRERAIRNSAIRTHAIRTSAITCHAITUSAIVERAIZLEAJIVAAJUGAAJWANAKEES',
+  'AKELAAKENEAKINGAKITAAKKASALAAPALACKALAMOALANDALANEALANGALANSALANTALAPAALAPSALARYALATEALAYS',
+  'ALBASALBEEALCIDALCOSALDEAALDOLALECKALECSALEFSALEFTALEPHALEWSALEYEALFASALGALALGASALGIDALGIN',
+  'ALGORALGUMALIFSALINEALISTALIYAALKIEALKOSALKYDALKYLALLEEALLELALLISALLODALLYLALMAHALMASALMEH',
+  'ALMESALMUDALMUGALODSALOEDALOESALOINALOOSALOWEALTHOALTOSALULAALUMSALUREALWAYAMAHSAMAINAMATE',
+  'AMAUTAMBANAMBITAMBOSAMBRYAMEBAAMEERAMENEAMENSAMENTAMIASAMICEAMICIAMIDEAMIDOAMIDSAMIESAMIGA',
+  'AMINEAMINSAMIRSAMLASAMMANAMMONAMMOSAMNIAAMNICAMNIOAMOKSAMOLEAMORTAMOVEAMOWTAMPEDAMPULAMRIT',
+  'AMUCKAMYLSANANAANATAANCHOANCLEANCONANDROANEARANELEANENTANGASANGLOANIGHANILEANILSANIMAANIMI',
+  'ANKERANKHSANKUSANLASANNALANNASANNATANOASANOLEANOMYANONSANSAEANTAEANTARANTASANTEDANTESANTIS',
+  'ANTRAANTREANTSYANYONAPAGEAPAIDAPAYDAPAYSAPEAKAPEEKAPERSAPERTAPERYAPGARAPHISAPIANAPIOLAPISH',
+  'APISMAPODEAPODSAPOOPAPORTAPPAYAPPELAPPROAPPUIAPPUYAPRESAPSESAPSISAPSOSAPTEDAQUAEAQUASARABA',
+  'ARAKSARAMEARARSARBASARCEDARCOSARCUSARDEBARDRIAREADAREAEAREALAREARAREASARECAAREDDAREDEAREFY',
+  'AREICARENEAREPAAREREARETEARETSARETTARGALARGANARGILARGLEARGOLARGUSARHATARIASARIELARIKIARILS',
+  'ARIOTARISHARKEDARLEDARLESARMERARMETARMILARNASARNUTAROBAAROHAAROIDARPASARPENARRAHARRASARRET',
+  'ARRISARSEDARSESARSISARTALARTELARTICARTISARUHEARUMSARVALARVOSARYLSASANAASCUSASDICASHEDASHES',
+  'ASHETASKEDASKERASKOIASKOSASPERASPISASPROASSAIASSAMASSESASSEZASSOTASTUNASWAYASWIMASYLAATAPS',
+  'ATAXYATIGIATILTATIMYATMANATMASATOCSATOKEATOKSATOMSATOMYATONYATOPYATRIPATTAPATUASAUDADAULAS',
+  'AULICAULOIAULOSAUMILAUNESAUNTSAUNTYAURAEAURARAURASAUREIAURESAURICAURISAURUMAUTOSAUXINAVALE',
+  'AVANTAVELSAVENSAVERSAVGASAVINEAVIONAVISEAVISOAVIZEAVOWSAVYZEAWARNAWATOAWAVEAWAYSAWDLSAWEEL',
+  'AWETOAWMRYAWNEDAWNERAWOLSAWORKAXELSAXILEAXILSAXIONAXITEAXLEDAXLESAXMANAXMENAXOIDAXONEAXONS',
+  'AYAHSAYELPAYGREAYINSAYONTAYRESAYRIEAZANSAZIDEAZIDOAZINEAZLONAZOICAZOLEAZONSAZOTEAZOTHAZUKI',
+  'AZURNAZURYAZYGYAZYMEAZYMSBAAEDBAALSBABASBABESBABKABABOOBABULBABUSBACCABACCOBACCYBACHABACHS',
+  'BACKSBADDYBAELSBAFFSBAFFYBAFTSBAGHSBAGIEBAHTSBAHUSBAHUTBAILSBAIRNBAITHBAITSBAIZABAJANBAJRA',
+  'BAJRIBAJUSBAKEDBAKENBAKESBAKRABALASBALDSBALDYBALEDBALERBALESBALLSBALLYBALMSBALOOBALTIBALUN',
+  'BALUSBAMBIBANAKBANCOBANCSBANDABANDHBANDSBANEDBANESBANGSBANIABANKSBANTSBANTUBANTYBANYABAPUS',
+  'BARBEBARBSBARBYBARCABARDEBARDOBARDSBARDYBAREDBARESBARFSBARICBARKSBARKYBARMSBARMYBARNSBARNY',
+  'BARPSBARRABARREBARROBARRYBARYEBASANBASEDBASENBASESBASHOBASIJBASKSBASONBASSEBASSIBASSYBASTA',
+  'BASTIBASTOBASTSBATEDBATESBATHSBATTABATTSBATTUBAUDSBAUKSBAURSBAVINBAWDSBAWLSBAWNSBAWRSBAWTY',
+  'BAYEDBAYESBAYLEBAYTSBAZARBAZOOBEADSBEAKSBEAKYBEAMSBEAMYBEANOBEANSBEANYBEAREBEARSBEATHBEATS',
+  'BEATYBEAUSBEAUTBEAUXBECAPBECKEBECKSBEDADBEDELBEDESBEDEWBEDIMBEDYEBEEDIBEEFSBEEPSBEERSBEERY',
+  'BEETSBEGADBEGARBEGEMBEGUMBEIGYBEKAHBELAHBELARBELEEBELGABELLSBELONBELTSBEMADBEMASBEMIXBEMUD',
+  'BENDSBENDYBENESBENETBENGABENISBENNEBENNIBENNYBENTOBENTSBENTYBEPATBERAYBERESBERGSBERKOBERKS',
+  'BERMEBERMSBEROBBESATBESAWBESEEBESESBESITBESTIBESTSBETASBETEDBETELBETESBETHSBETIDBETONBETTA',
+  'BETTYBEVERBEVORBEVUEBEVVYBEWETBEWIGBEZELBEZESBEZILBHAISBHAJIBHANGBHELSBHOOTBHUNABHUTSBIACH',
+  'BIALIBIALYBIBBSBICCYBICESBIDEDBIDERBIDESBIDISBIDONBIELDBIERSBIFFSBIFFYBIFIDBIGAEBIGGSBIGGY',
+  'BIGHABIGLYBIGOSBIJOUBIKEDBIKESBIKIEBILBOBILBYBILEDBILESBILGYBILKSBILLSBIMAHBIMASBINALBINDI',
+  'BINDSBINERBINESBINGSBINGYBINITBINKSBINTSBIOGSBIOMEBIONTBIOTABIPODBIRDSBIRKSBIRLEBIRLSBIROS',
+  'BIRRSBIRSEBIRSYBISESBISKSBISOMBITCHBITERBITESBITOSBITOUBITSYBITTEBITTSBITTYBIVIABIVVYBIZES',
+  'BIZZOBIZZYBLABSBLADSBLADYBLAERBLAESBLAFFBLAGSBLAHSBLAINBLAMSBLARTBLASEBLASHBLATEBLATSBLATT',
+  'BLAUDBLAWNBLAWSBLAYSBLEARBLEBSBLEEDBLEESBLENTBLERTBLESTBLETSBLEYSBLIMYBLINIBLINSBLINYBLIPS',
+  'BLISTBLITEBLITSBLIVEBLOBSBLOCSBLOGSBLOKEBLOOKBLOOPBLOREBLOTSBLOWSBLOWYBLUBSBLUDEBLUDYBLUED',
+  'BLUESBLUETBLUIDBLUMEBLUNKBLURSBLYPEBOABSBOAKSBOARSBOARTBOATSBOBACBOBAKBOBASBOBOLBOCCABOCCE',
+  'BOCCIBOCHEBOCKSBODEDBODESBODGEBODHIBODLEBOEPSBOETSBOEUFBOFFOBOFFSBOGLEBOHEABOHOSBOILSBOING',
+  'BOINKBOITEBOKEDBOKEHBOKESBOKOSBOLARBOLASBOLDSBOLESBOLIXBOLLSBOLOSBOLTSBOLUSBOMASBOMBEBOMBO',
+  'BOMBSBONCEBONDSBONEDBONERBONESBONEYBONGSBONIEBONKSBONNEBOOAIBOOAYBOOBSBOOBYBOODYBOOEDBOOFY',
+  'BOOGYBOOHSBOOKSBOOKYBOOLSBOOMSBOOMYBOONGBOONSBOORDBOORSBOOSEBOOTSBORAKBORALBORASBORDEBORDS',
+  'BOREDBOREEBORELBORESBORGOBORICBORKSBORMSBORNABORTSBORTYBORTZBOSIEBOSKSBOSKYBOSONBOSUNBOTAS',
+  'BOTELBOTESBOTHYBOTTEBOTTSBOTTYBOUGEBOUKSBOULEBOULTBOUNSBOURDBOURGBOURNBOUSEBOUSYBOUTSBOVID',
+  'BOWATBOWEDBOWESBOWETBOWIEBOWLSBOWNEBOWRSBOWSEBOXEDBOXENBOXESBOXTYBOYARBOYAUBOYEDBOYFSBOYGS',
+  'BOYLABOYOSBOYSYBOZOSBRAAIBRACHBRACKBRADSBRAESBRAGSBRAILBRAKSBRAKYBRAMEBRANEBRANKBRANSBRANT',
+  'BRASTBRATSBRAVABRAVIBRAWSBRAXYBRAYSBRAZABRAZEBREAMBREDEBREDSBREEDBREEMBREERBREESBREIDBREIS',
+  'BREMEBRENSBRENTBREREBRERSBREVEBREWSBREYSBRIESBRIGSBRIKIBRIKSBRILLBRIMSBRINSBRIOSBRISEBRISS',
+  'BRITHBRITSBRITTBRIZEBROCHBROCKBRODSBROGHBROGSBROMEBROMOBRONCBRONDBROOLBROOSBROSEBROSYBROWS',
+  'BRUGHBRUITBRULEBRUMEBRUNGBRUSKBRUSTBRUTSBUATSBUAZEBUBALBUBASBUBBABUBBYBUBUSBUCHUBUCKOBUCKS',
+  'BUCKUBUDASBUDISBUDOSBUENOBUFFABUFFEBUFFIBUFFOBUFFSBUFFYBUFOSBUFTYBUHLSBUHRSBUIKSBUISTBUKES',
+  'BULBSBULKSBULLABULLSBULSEBUMBOBUMFSBUMPHBUMPSBUNASBUNCEBUNCOBUNDEBUNDHBUNDSBUNDTBUNDUBUNGS',
+  'BUNGYBUNIABUNJEBUNJYBUNKOBUNKSBUNNSBUNTSBUNTYBUNYABUOYSBUPPYBURANBURASBURBSBURDSBURETBURGH',
+  'BURGSBURINBURKEBURKSBURLSBURNSBUROOBURPSBURRSBURRYBURSABURSEBUSESBUSKSBUSKYBUSSUBUSTIBUSTS',
+  'BUSTYBUTEOBUTESBUTLEBUTTSBUTTYBUTUTBUTYLBUZZYBWANABWAZIBYDEDBYDESBYKEDBYKESBYRESBYRLSBYSSI',
+  'BYTESCAAEDCABASCABERCABOBCABOCCABRECACASCACKSCACKYCADDYCADEECADESCADGYCADIECADISCAECACAESE',
+  'CAFESCAFFSCAGEDCAGERCAGESCAGOTCAHOWCAIDSCAINSCAIRDCAJONCAJUNCAKEDCAKESCAKEYCALFSCALIDCALIF',
+  'CALIXCALLACALLSCALMSCALMYCALOSCALPACALPSCAMANCAMASCAMESCAMISCAMOSCAMPICAMPOCAMPSCAMUSCANED',
+  'CANEHCANERCANESCANGSCANIDCANNACANNSCANSOCANSTCANTSCANTYCAPASCAPEDCAPESCAPEXCAPHSCAPIZCAPLE',
+  'CAPOSCAPOTCAPULCAPUTCARAPCARBOCARBSCARBYCARDICARDSCARDYCAREDCARERCARESCAREXCARKSCARLECARLS',
+  'CARNSCARNYCAROBCARONCARPSCARRSCARSECARTACARTECARTSCARVYCASASCASCOCASEDCASESCASKSCASKYCASTS',
+  'CASUSCATESCAUDACAUKSCAULDCAULSCAUMSCAUPSCAUSACAVASCAVEDCAVELCAVERCAVESCAVIECAWEDCAWKSCAXON',
+  'CEAZECEBIDCECALCECUMCEDEDCEDERCEDESCEDISCEIBACEILICEILSCELEBCELLACELLICELLSCELTSCENSECENTO',
+  'CENTSCENTUCEORLCEPESCERCICEREDCERGECERIACERICCERNECEROSCERTSCERTYCESSECESTACESTICETESCETYL',
+  'CEZVECHACECHACKCHACOCHADOCHADSCHAFTCHAISCHALSCHAMSCHANACHANGCHANKCHAOSCHAPECHAPSCHAPTCHARA',
+  'CHARDCHARECHARKCHARRCHARSCHATSCHAVECHAVSCHAWKCHAWSCHAYACHAYSCHEFSCHEKACHELACHELPCHEMOCHERE',
+  'CHERTCHETHCHEVYCHEWSCHIAOCHIASCHIBSCHICACHICHCHICOCHICSCHIELCHIKSCHILECHIMBCHIMOCHINECHING',
+  'CHINSCHIPSCHIRKCHIRLCHIRMCHIROCHIRRCHIRTCHIRUCHITSCHIVSCHIVYCHIZZCHOCOCHOCSCHODECHOGSCHOKO',
+  'CHOKYCHOLACHOLICHOLOCHOOFCHOOMCHOONCHOPSCHOTACHOTTCHOUTCHOUXCHOWKCHOWSCHUBSCHUFACHUFFCHUGS',
+  'CHUMSCHURRCHUSECHYLECHYMECHYNDCIAOSCIBOLCIDEDCIDESCIELSCIGGYCILLSCIMARCIMEXCINCTCINESCIONS',
+  'CIPPICIRCSCIRESCIRLSCIRRICISCOCISSYCISTSCITALCITEDCITERCITESCIVESCIVIECIVVYCLACHCLADECLADS',
+  'CLAESCLAGSCLAMECLAMSCLANSCLAPSCLAPTCLAROCLARTCLARYCLASTCLATSCLAUTCLAVECLAVICLAWSCLAYSCLECK',
+  'CLEEKCLEEPCLEFSCLEGSCLEIKCLEMSCLEPECLEPTCLEVECLEWSCLIEDCLIESCLIFTCLINECLINTCLIPECLIPSCLIPT',
+  'CLITSCLOAMCLODSCLOFFCLOGSCLOKECLOMBCLONKCLONSCLOOPCLOOTCLOPSCLOTECLOTSCLOURCLOUSCLOWSCLOYE',
+  'CLOYSCLOZECLUBSCLUEDCLUESCLYPECNIDACOACTCOALACOALSCOALYCOAPTCOARBCOATECOATICOATSCOBBSCOBBY',
+  'COBIACOBLECOBZACOCASCOCCOCOCKSCOCOSCODASCODECCODEDCODENCODERCODESCODONCOEDSCOFFSCOGIECOGON',
+  'COGUECOHABCOHENCOHOECOHOGCOHOSCOIFSCOIGNCOILSCOINSCOIRSCOITSCOKEDCOKESCOLASCOLBYCOLDSCOLED',
+  'COLESCOLEYCOLINCOLLSCOLLYCOLOGCOLTSCOLZACOMAECOMALCOMASCOMBECOMBICOMBSCOMBYCOMESCOMIXCOMMO',
+  'COMMSCOMMYCOMPOCOMPSCOMPTCOMTECOMUSCONEDCONESCONEYCONFSCONGECONGOCONIACONINCONKSCONKYCONNE',
+  'CONNSCONTECONTOCONUSCONVOCOOCHCOOEDCOOERCOOEYCOOFSCOOKSCOOKYCOOLSCOOLYCOOMBCOOMSCOOMYCOOPS',
+  'COOPTCOOSTCOOTSCOOZECOPALCOPAYCOPEDCOPENCOPERCOPESCOPPYCOPSYCORAMCORBECORBYCORDSCOREDCORER',
+  'CORESCOREYCORGICORIACORKSCORKYCORMSCORNICORNOCORNSCORNUCORSECORSOCOSECCOSEDCOSESCOSETCOSEY',
+  'COSIECOSTACOSTSCOTANCOTEDCOTESCOTHSCOTTACOTTSCOUDECOUPSCOURBCOURDCOURECOURSCOUTACOUTHCOVED',
+  'COVESCOVINCOWALCOWANCOWEDCOWKSCOWLSCOWPSCOWRYCOXAECOXALCOXEDCOXESCOXIBCOYEDCOYPUCOZEDCOZES',
+  'COZEYCOZIECRAALCRABSCRAGSCRAICCRAIGCRAKECRAMECRAMSCRANSCRAPSCRAPYCRARECRAWSCRAYSCREDSCREED',
+  'CREESCREMECREMSCRENACREPSCREPYCREWECREWSCRIASCRIBSCRIEDCRIESCRIMSCRINECRIOSCRIPECRISECRITH',
+  'CRITSCROCICROCSCROFTCROGSCROMBCROMECRONKCROOLCROPSCRORECROSTCROUTCROWSCROZECRUCKCRUDSCRUDY',
+  'CRUESCRUFTCRUMPCRUNKCRUORCRURACRUSECRUSYCRUVECRWTHCTENECUBBYCUBEBCUBEDCUBERCUBESCUDDYCUFFO',
+  'CUFFSCUIFSCUISHCUITSCUKESCULCHCULETCULEXCULLSCULLYCULMSCULPACULTICULTSCULTYCUMECCUNDYCUNEI',
+  'CUNTSCUPELCUPPACUPPYCURATCURBSCURCHCURDSCURDYCUREDCURESCURETCURFSCURIACURLICURLSCURNSCURNY',
+  'CURRSCURSICURSTCUSECCUSKSCUSPSCUSPYCUSSOCUSUMCUTCHCUTESCUTEYCUTIECUTINCUTISCUTTOCUTTYCUVEE',
+  'CWTCHCYANOCYANSCYBERCYCADCYCASCYCLOCYDERCYLIXCYMAECYMARCYMASCYMESCYMOLCYSTSCYTESCYTONDAALS',
+  'DABBADACESDACKSDADAHDADASDADOSDAEVADAFFSDAGGADAGGYDAHLSDAIKODAINEDAINTDAKERDALEDDALESDALIS',
+  'DALLEDALTSDAMANDAMARDAMESDAMMEDAMNSDAMPSDAMPYDANCYDANGSDANIODANKSDANNYDANTSDARAFDARBSDARCY',
+  'DAREDDARERDARESDARGADARGSDARICDARISDARKSDARKYDARNSDARREDARTSDARZIDASHIDASHYDATALDATEDDATER',
+  'DATESDATOSDATTODAUBEDAUBSDAUBYDAUDSDAULTDAURSDAUTSDAVENDAWAHDAWDSDAWEDDAWENDAWKSDAWNSDAWTS',
+  'DAYANDAYCHDAYNTDAZEDDAZERDAZESDEADSDEAIRDEALSDEANSDEAREDEARNDEARSDEARYDEASHDEAVEDEAWSDEAWY',
+  'DEBAGDEBBYDEBELDEBESDEBTSDEBUDDEBURDEBUSDEBYEDECADDECKODECKSDECOSDEEDSDEEDYDEELYDEEMSDEENS',
+  'DEEPSDEEREDEERSDEETSDEEVEDEEVSDEFATDEFFODEFISDEFOGDEGASDEGUMDEGUSDEIDSDEILSDEISTDEKEDDEKES',
+  'DEKKODELEDDELESDELFSDELFTDELISDELLSDELLYDELOSDELPHDELTSDEMANDEMESDEMICDEMITDEMOBDEMOSDEMPT',
+  'DENARDENAYDENESDENETDENISDENTSDEOXYDERATDERAYDEREDDERESDERIGDERMADERMSDERNSDEROSDERRODERRY',
+  'DERTHDERVSDESEXDESHIDESKSDESSEDEVASDEVELDEVONDEVOTDEWANDEWARDEWAXDEWEDDEXESDEXIEDHAKSDHALS',
+  'DHOBIDHOLEDHOLLDHOLSDHOWSDHUTIDIACTDIALSDIANEDIAZODIBBSDICEDDICERDICESDICHTDICKSDICKYDICOT',
+  'DICTSDICTYDIDDYDIDIEDIDOSDIDSTDIEBSDIENEDIETSDIFFSDIGHTDIKASDIKEDDIKERDIKEYDILDODILLIDILLS',
+  'DIMESDIMPSDINARDINEDDINESDINGEDINGSDINICDINNADINOSDINTSDIOLSDIOTADIPPYDIPSODIRAMDIRKEDIRKS',
+  'DIRLSDIRTSDISASDISCIDISCSDISHYDISKSDISMEDITALDITASDITEDDITESDITSYDITTSDITZYDIVASDIVEDDIVES',
+  'DIVISDIVNADIVOSDIWANDIXIEDIXITDIYASDIZENDJINNDJINSDOABSDOATSDOBBYDOBIEDOBLADOBRADOBRODOCHT',
+  'DOCKSDOCOSDODDYDODGYDODOSDOEKSDOERSDOESTDOETHDOFFSDOGESDOGEYDOGGODOHYODOILTDOITSDOJOSDOLCE',
+  'DOLCIDOLEDDOLESDOLIADOLLSDOLMADOLOSDOLTSDOMALDOMEDDOMESDOMICDONAHDONASDONEEDONERDONGADONGS',
+  'DONKODONNADONNEDONNYDONSYDONUTDOOBSDOOCEDOODYDOOKSDOOLEDOOLSDOOLYDOOMSDOOMYDOORNDOORSDOOZY',
+  'DOPASDOPEDDOPERDOPESDORADDORBADORBSDOREEDORESDORICDORISDORKSDORMSDORMYDORPSDORRSDORSADORSE',
+  'DORTSDORTYDOSEDDOSEHDOSERDOSESDOTALDOTEDDOTERDOTESDOUARDOUCEDOUCSDOUKSDOULADOUMADOUMSDOUPS',
+  'DOURADOUTSDOVEDDOVENDOVERDOVESDOVIEDOWARDOWDSDOWEDDOWERDOWIEDOWLEDOWLSDOWLYDOWNADOWNSDOWPS',
+  'DOWTSDOXIEDOYLYDOZEDDOZERDOZESDRABSDRACKDRACODRAFFDRAGSDRAILDRAMSDRANTDRAPSDRATSDRAVEDRAWS',
+  'DRAYSDREARDRECKDREEDDREESDREGSDREKSDRENTDREREDRESTDREYSDRIBSDRICEDRIEDDRIESDRIPSDRIPTDROID',
+  'DROILDROITDROLEDROMEDRONYDROOBDROOGDROOKDROPSDROPTDROUKDROWSDRUBSDRUGSDRUMSDRUPEDRUSEDRUSY',
+  'DRUXYDSOBODSOMODUADSDUALSDUANSDUARSDUBBODUCESDUCKSDUCKYDUCTSDUDDYDUDEDDUDESDUELSDUETSDUETT',
+  'DUFFSDUFUSDUINGDUITSDUKASDUKEDDUKESDUKKADULESDULIADULLSDULSEDUMASDUMBODUMBSDUMKADUMKYDUMPS',
+  'DUNAMDUNCHDUNESDUNGSDUNGYDUNKSDUNSHDUNTSDUOMIDUOMODUPEDDUPERDUPESDUPLEDUPLYDUPPYDURALDURAS',
+  'DUREDDURESDURGYDURNSDUROCDUROSDUROYDURRADURRSDURRYDURSTDURUMDURZIDUSKSDUSTSDUTCHDUXESDWAAL',
+  'DWALEDWALMDWAMSDWANGDWAUMDWILEDWINEDYADSDYERSDYKONDYNELDYNESDZHOSEAGREEALESEANEDEARDSEARED',
+  'EARLSEARNSEARSTEASEDEASEREASESEASLEEASTSEATHEEAVEDEAVESEBBEDEBBETEBONSEBOOKECADSECHEDECHES',
+  'ECHOSECLATECRUSEDGEDEDGESEDILEEDITSEDUCEEDUCTEEJITEEVENEEVNSEFFEDEGADSEGERSEGESTEGGAREGGED',
+  'EGGEREGMASEHINGEIDOSEIGNEEIKEDEIKONEILDSEISELEKKASELAINELANDELANSELCHIELDINELEMIELFEDELIAD',
+  'ELINTELMENELOGEELOGYELOINELOPSELPEEELSINELUTEELVANELVEREMACSEMBAREMBAYEMBOGEMBOWEMBOXEMBUS',
+  'EMEEREMEUSEMIRSEMITSEMMASEMMEREMMETEMMEWEMMYSEMONGEMOVEEMPTSEMULEEMUREEMYDEEMYDSENARMENATE',
+  'ENDEDENDERENDEWENEMAENEWSENFIXENIACENLITENMEWENNOGENOKIENOLSENORMENOWSENSEWENSKYENTIAENURE',
+  'ENURNENVOIENZYMEORLSEOSINEPACTEPEESEPHAHEPHASEPHODEPHOREPICSEPODEEPOPTEPRISEQUIDERBIAEREVS',
+  'ERGONERGOSERGOTERHUSERICAERICKERICSERINGERNEDERREDERSESERUCTERUVSERVENERVILESCARESCOTESILE',
+  'ESKARESKERESNESESSESESTOCESTOPESTROETAGEETAPEETATSETENSETHALETHYLETNASETTINETTLEETUDEETUIS',
+  'ETWEEETYMAEUGHSEUKEDEUPADEUROSEUSOLEVENSEVERTEVETSEVHOEEVILSEVITEEVOHEEWERSEWESTEWHOWEWKED',
+  'EXAMSEXEATEXECSEXEEMEXEMEEXIESEXINEEXINGEXITSEXODEEXONSEXPATEXPOSEXULSEXURBEYASSEYERSEYING',
+  'EYOTSEYRASEYRESEYRIEEYRIRFABBYFACEDFACERFACESFACIAFACTSFADDYFADEDFADERFADESFADGEFADOSFAENA',
+  'FAERYFAFFSFAGGYFAGINFAIKSFAILSFAINEFAINSFAIRSFAKEDFAKESFAKEYFAKIEFALAJFALLSFAMEDFAMESFANAL',
+  'FANDSFANESFANGAFANGOFANGSFANKSFANNYFANONFANOSFANUMFAQIRFARADFARCIFARCYFARDSFAREDFARERFARES',
+  'FARLEFARLSFARMSFAROSFARSEFARTSFASCIFASTIFASTSFATEDFATESFATLYFATSOFATWAFAUGHFAULDFAUNSFAURD',
+  'FAUTSFAUVEFAVASFAVELFAVERFAVESFAVUSFAWNSFAWNYFAXEDFAXESFAYEDFAYNEFAYREFAZEDFAZESFEALSFEARE',
+  'FEARSFEARTFEASEFEATSFEAZEFECHTFECITFECKSFEDEXFEEBSFEEDSFEELSFEENSFEERSFEESEFEEZEFEHMEFEIST',
+  'FELIDFELLAFELLSFELLYFELTSFELTYFEMALFEMESFEMMEFEMMYFENDSFENDYFENISFENKSFENNYFENTSFEODSFEOFF',
+  'FERERFERESFERIAFERLYFERMIFERMSFERNSFERNYFESSEFESTAFESTSFESTYFETASFETEDFETESFETTAFETTSFETUS',
+  'FETWAFEUARFEUDSFEUEDFEYEDFEYERFEYLYFEZESFEZZYFIARSFIATSFIBROFICESFICHUFICINFICOSFICUSFIDES',
+  'FIDGEFIDOSFIEFSFIENTFIEREFIERSFIESTFIFEDFIFERFIFESFIGOSFIKEDFIKESFILARFILEDFILERFILESFILII',
+  'FILLEFILLOFILLSFILMIFILMSFILOSFILUMFINCAFINDSFINEDFINESFINISFINKSFINOSFIORDFIQHSFIQUEFIRED',
+  'FIRERFIRESFIRIEFIRKSFIRMSFIRNSFIRRYFISCSFISKSFISTSFISTYFITCHFITNAFITTEFITTSFIVESFIXEDFIXES',
+  'FIXITFJELDFLABSFLAFFFLAGSFLAKSFLAMMFLAMSFLAMYFLANSFLAPSFLARYFLATSFLAVAFLAWNFLAWSFLAWYFLAXY',
+  'FLAYSFLEAMFLEASFLEERFLEESFLEGSFLEMEFLEWSFLEXOFLEYSFLICSFLIEDFLIESFLIMPFLIMSFLIPSFLIRSFLISK',
+  'FLITEFLITSFLITTFLOBSFLOCSFLOESFLOGSFLONGFLOPSFLORSFLORYFLOSHFLOTAFLOTEFLOWSFLUBSFLUEDFLUES',
+  'FLUEYFLUMPFLUORFLURRFLUTYFLUYTFLYPEFLYTEFOALSFOAMSFOEHNFOGIEFOGLEFOGOUFOHNSFOIDSFOILSFOINS',
+  'FOLDSFOLEYFOLIAFOLICFOLIEFOLKSFOLKYFOMESFONDAFONDSFONDUFONLYFONTSFOODSFOODYFOOLSFOOTSFOOTY',
+  'FORAMFORBSFORBYFORDOFORDSFORELFORESFOREXFORKSFORKYFORMSFORTSFORZAFORZEFOSSAFOUATFOUDSFOUER',
+  'FOUETFOULEFOULSFOURBFOURSFOUTHFOVEAFOWLSFOWTHFOXEDFOXESFOXIEFOYLEFOYNEFRABSFRACTFRAGSFRAIM',
+  'FRAPEFRAPSFRASSFRATEFRATIFRATSFRAUSFRAYSFREEDFREESFREETFREITFREMDFREREFRETSFRIBSFRIEDFRIER',
+  'FRIESFRIGSFRISEFRISTFRITHFRITSFRITTFRITZFROESFROGSFRONSFROREFRORNFRORYFROSHFROWSFROWYFRUGS',
+  'FRUSHFRUSTFUBARFUBBYFUBSYFUCKSFUCUSFUDDYFUELSFUEROFUFFSFUFFYFUGALFUGGYFUGIEFUGIOFUGLEFUGLY',
+  'FUGUSFUJISFULLSFUMEDFUMERFUMESFUMETFUNDIFUNDSFUNDYFUNGOFUNGSFUNKSFURALFURANFURCAFURLSFUROL',
+  'FURRSFURTHFURZYFUSEDFUSEEFUSELFUSESFUSILFUSTSFUZEDFUZEEFUZESFUZILFYCESFYKEDFYKESFYLESFYRDS',
+  'FYTTE',
+].join('');
@@ -0,0 +1,178 @@
+/**
+ * @file Word game guesses, G to O
+ * @purpose The part of the guess list that starts with G to O; see guesses.ts
+ * @inputs N/A
+ * @outputs The words, packed
+ * @invariants Words are A-Z, sorted and distinct, written back to back with
+ *             no separator
+ * @spec SPEC-2026-27
+ */
+
+/** 2959 guesses, five letters each */
+export const GUESSES_G_TO_O = [
+  'GABBAGADDIGADESGADGEGADIDGADISGADJEGADJOGADSOGAFFSGAGEDGAGERGAGESGAIDSGAINSGAIRSGAITAGAITS',
+  'GAITTGAJOSGALASGALAXGALEAGALESGALLSGALLYGALOPGALUTGALVOGAMASGAMAYGAMBAGAMBEGAMBOGAMBSGAMED',
+  'GAMESGAMEYGAMICGAMMEGAMMYGAMPSGANCHGANDYGANEFGANEVGANGSGANJAGANOFGANTSGAOLSGAPEDGAPERGAPES',
+  'GAPOSGAPPYGARBEGARBSGARDAGARISGARNIGARREGARTHGARUMGASESGASPSGASPYGASTSGATEDGATERGATESGATHS',
+  'GATORGAUCYGAUDSGAUJEGAULTGAUMSGAUMYGAUPSGAURSGAUSSGAVOTGAWCYGAWDSGAWKSGAWPSGAWSYGAYALGAYLY',
+  'GAZALGAZARGAZEDGAZESGAZONGAZOOGEALSGEANSGEAREGEARSGEATSGEBURGECKSGEEKSGEEPSGEESTGEISTGEITS',
+  'GELDSGELEEGELLYGELTSGEMELGEMMAGEMMYGEMOTGENALGENASGENESGENETGENICGENIPGENNYGENOAGENOMGENRO',
+  'GENTSGENTYGENUAGENUSGEOIDGERAHGERBEGERESGERLEGERMSGERMYGERNEGESSEGESSOGESTEGESTSGETASGEUMS',
+  'GEYANGEYERGHASTGHATSGHAUTGHAZIGHEESGHESTGHYLLGIBELGIBERGIBLIGIBUSGIFTSGIGASGIGHEGIGOTGIGUE',
+  'GILASGILDSGILETGILLSGILLYGILPYGILTSGIMELGIMPSGINGEGINGSGINKSGINNYGINZOGIPONGIPPYGIPSYGIRDS',
+  'GIRLSGIRLYGIRNSGIRONGIROSGIRRSGIRSHGIRTSGISMOGISMSGISTSGITESGIUSTGIVEDGIVERGIVESGLACEGLADS',
+  'GLADYGLAIKGLAIRGLAMSGLANSGLARYGLAUMGLAURGLAZYGLEBAGLEBYGLEDEGLEDSGLEEDGLEEKGLEESGLEETGLEIS',
+  'GLENSGLENTGLEYSGLIALGLIASGLIBSGLIFFGLIFTGLIKEGLIMEGLIMSGLISKGLITSGLOAMGLOBIGLOBSGLOBYGLODE',
+  'GLOGGGLOMSGLOOPGLOPSGLOSTGLOUTGLOWSGLOZEGLUEDGLUERGLUESGLUGSGLUMEGLUMSGLUONGLUTEGLUTSGNARR',
+  'GNARSGNATSGNAWNGNAWSGNOWSGOADSGOAFSGOALSGOARYGOATSGOATYGOBANGOBARGOBBIGOBBOGOBBYGOBISGOBOS',
+  'GODETGODSOGOELSGOERSGOESTGOETHGOETYGOFFSGOGGAGOGOSGOIERGOJISGOLDSGOLDYGOLEMGOLESGOLFSGOLPE',
+  'GOLPSGOMBOGOMERGOMPAGONADGONEFGONGSGONIAGONIFGONKSGONOFGONYSGONZOGOOBYGOODSGOOFSGOOGSGOOKY',
+  'GOOLDGOOLSGOOLYGOONSGOONYGOOPSGOOPYGOORSGOORYGOOSYGOPAKGOPIKGORALGORASGOREDGORESGORISGORMS',
+  'GORMYGORPSGORSYGOSHTGOSSEGOTHSGOUCHGOUKSGOURAGOUTSGOWANGOWDSGOWFSGOWKSGOWLSGOWNSGOXESGOYIM',
+  'GOYLEGRAALGRABSGRADSGRAFFGRAIPGRAMAGRAMEGRAMPGRAMSGRANAGRANSGRAPYGRAVSGREBOGRECEGREEDGREEK',
+  'GREESGREGEGREGOGREINGRENSGRESEGREVEGREWSGREYSGRICEGRIDEGRIDSGRIFFGRIFTGRIGSGRIKEGRINSGRIOT',
+  'GRIPSGRIPTGRIPYGRISEGRISYGRITHGRITSGRIZEGROATGRODYGROGSGROKSGROMAGRONEGROOFGROSZGROTSGROUF',
+  'GROWSGRRLSGRRRLGRUBSGRUEDGRUESGRUFEGRUMEGRUMPGRUNDGRYCEGRYDEGRYKEGRYPEGRYPTGUACOGUANAGUANS',
+  'GUARSGUCKSGUCKYGUDESGUFFSGUGASGUIDSGUIMPGUIROGULAGGULARGULASGULESGULETGULFSGULFYGULLSGULPH',
+  'GULPSGULPYGUMMAGUMPSGUNDYGUNGEGUNGYGUNKSGUNKYGUQINGURGEGURLSGURLYGURNSGURRYGURSHGURUSGUSLA',
+  'GUSLEGUSLIGUSSYGUSTSGUTTAGUTTYGUYEDGUYLEGUYOTGUYSEGWINEGYALSGYBEDGYBESGYELDGYMPSGYNAEGYNIE',
+  'GYNNYGYOZAGYPPYGYPSYGYRALGYREDGYRESGYRONGYROSGYRUSGYTESGYVEDGYVESHAAFSHAARSHABLEHABUSHACEK',
+  'HACKSHADALHADEDHADESHADJIHADSTHAEMSHAETSHAFFSHAFISHAFIZHAFTSHAGGSHAHASHAICKHAIKAHAIKSHAILS',
+  'HAILYHAINSHAINTHAIRSHAITHHAJESHAJISHAJJIHAKAMHAKASHAKEAHAKESHAKIMHAKUSHALALHALEDHALESHALFA',
+  'HALFSHALIDHALLOHALLSHALMAHALMSHALOSHALSEHALTSHALVAHAMALHAMBAHAMEDHAMESHAMMYHAMZAHANAPHANCE',
+  'HANCHHANDSHANGIHANGSHANKSHANSAHANSEHANTSHAOLEHAOMAHAPAXHAPLYHAPUSHARAMHARDSHAREDHARESHARIM',
+  'HARKSHARLSHARMSHARNSHAROSHARPSHARTSHASHYHASKSHASPSHASTAHATEDHATESHATHAHAUDSHAUFSHAUGHHAULD',
+  'HAULMHAULSHAULTHAUSEHAUTEHAVERHAVESHAWEDHAWKSHAWMSHAWSEHAYEDHAYERHAYEYHAYLEHAZANHAZEDHAZER',
+  'HAZESHEADSHEALDHEALSHEAMEHEAPSHEAPYHEAREHEARSHEASTHEATSHEBENHEBESHECHTHECKSHEDERHEDGYHEEDS',
+  'HEEDYHEELSHEEZEHEFTEHEFTSHEIDSHEIGHHEILSHEIRSHEJABHEJRAHELEDHELESHELIOHELLSHELMSHELOSHELPS',
+  'HELVEHEMESHEMPSHEMPYHENDSHENGEHENNYHENRYHENTSHEPARHERBSHERBYHERDSHERESHERLSHERMAHERMSHERNS',
+  'HEROSHERRYHERSEHERYEHESPSHESTSHETESHETHSHEUCHHEUGHHEVEAHEWEDHEWGHHEXADHEXEDHEXERHEXESHEXYL',
+  'HEYEDHIANTHICKSHIDEDHIDERHIDESHIEMSHIGHSHIGHTHIJABHIJRAHIKEDHIKESHIKOIHILARHILCHHILLOHILLS',
+  'HILTSHILUMHILUSHIMBOHINAUHINDSHINGSHINKYHINNYHINTSHIOISHIPLYHIREDHIREEHIRERHIRESHISSYHISTS',
+  'HITHEHIVEDHIVERHIVESHIZENHOAEDHOAGYHOARSHOASTHOBOSHOCKSHOCUSHODADHODJAHOERSHOGENHOGGSHOGHS',
+  'HOHEDHOICKHOIKSHOINGHOISEHOKASHOKEDHOKESHOKISHOKKUHOLDSHOLEDHOLESHOLEYHOLKSHOLLAHOLLOHOLMS',
+  'HOLONHOLTSHOMASHOMEDHOMESHOMIEHOMMEHOMOSHONANHONDAHONDSHONEDHONERHONESHONGIHONGSHONKSHONKY',
+  'HOODSHOODYHOOFSHOOKAHOOKSHOOLYHOONSHOOPSHOORDHOORSHOOSHHOOTSHOOTYHOOVEHOPEDHOPERHOPESHOPPY',
+  'HORAHHORALHORASHORISHORMEHORNSHORNYHORSTHORSYHOSEDHOSELHOSENHOSERHOSESHOSEYHOSTAHOSTSHOTCH',
+  'HOTENHOTTYHOUFFHOUFSHOUGHHOURIHOURSHOUTSHOVEAHOVEDHOVENHOVESHOWBEHOWESHOWFFHOWFSHOWKSHOWLS',
+  'HOWREHOWSOHOXEDHOXESHOYASHOYEDHOYLEHUCKSHUDNAHUDUDHUERSHUFFSHUGGYHUHUSHUIASHULASHULESHULKS',
+  'HULKYHULLOHULLSHULLYHUMASHUMFSHUMICHUMPHHUMPSHUMPYHUNKSHUNKYHUNTSHURDSHURLSHURLYHURRAHURST',
+  'HURTSHUSHYHUSKSHUSOSHUSSYHUTIAHUZZAHUZZYHWYLSHYDROHYENSHYKESHYLASHYLEGHYLESHYLICHYMENHYMNS',
+  'HYNDEHYOIDHYPEDHYPESHYPHAHYPHYHYPOSHYRAXHYSONHYTHEIAMBIIAMBSIBRIKICERSICHEDICHESICHORICKER',
+  'ICKLEICONSICTALICTICICTUSIDANTIDEASIDEESIDENTIDLEDIDLESIDOLAIDOLSIDYLSIFTARIGAPOIGGEDIGLUS',
+  'IHRAMIKANSIKATSIKONSILEACILEALILEUMILEUSILIACILIADILIALILIUMILLERILLTHIMAGOIMAMSIMARIIMAUM',
+  'IMBARIMBEDIMIDEIMIDOIMIDSIMINEIMINOIMMEWIMMITIMMIXIMPEDIMPISIMPOTIMSHIIMSHYINARMINBYEINCLE',
+  'INCOGINCUSINCUTINDEWINDIAINDIEINDOLINDOWINDRIINDUEINERMINFOSINFRAINGANINGLEINIONINKEDINKER',
+  'INKLEINNEDINNITINORBINRUNINTELINTILINTISINTRAINTROINULAINURNINUSTINVARINWITIODICIODIDIODIN',
+  'IONICIOTASIPPONIRADEIRIDSIRINGIRKEDIROKOIRONEIRONSISBASISHESISLEDISLESISNAEISSEIISTLEITEMS',
+  'ITHERIVIEDIVIESIXIASIXORAIXTLEIZARDIZARSIZZATJAAPSJACALJACKSJACKYJADEDJADESJAFASJAFFAJAGAS',
+  'JAGERJAGGSJAGGYJAGIRJAGRAJAILSJAKESJAKEYJALAPJALOPJAMBEJAMBOJAMBSJAMBUJAMESJAMMYJAMONJANES',
+  'JANNSJANNYJANTYJAPANJAPEDJAPERJAPESJARKSJARLSJARPSJARTAJARULJASEYJASPEJASPSJATOSJAUKSJAUPS',
+  'JAVASJAVELJAWANJAWEDJAXIEJEANSJEATSJEBELJEDISJEELSJEELYJEEPSJEERSJEFESJEFFSJEHADJEHUSJELAB',
+  'JELLOJELLSJEMBEJEMMYJENNYJERIDJERKSJERRYJESSEJESTSJESUSJETESJETONJEUNEJEWEDJEWIEJHALAJIAOS',
+  'JIBBAJIBBSJIBEDJIBERJIBESJIFFSJIGGYJIGOTJIHADJILLSJILTSJIMPYJINGOJINKSJINNEJINNSJIRDSJIRGA',
+  'JIRREJIVEDJIVERJIVESJIVEYJNANAJOBEDJOBESJOCKOJOCKSJODELJOEYSJOHNSJOINSJOKEDJOKESJOKEYJOKOL',
+  'JOLEDJOLESJOLLSJOLTSJOLTYJOMONJOMOSJONESJONGSJONTYJOOKSJORAMJORUMJOTASJOTTYJOTUNJOUALJOUGS',
+  'JOUKSJOURSJOWARJOWEDJOWLSJOWLYJOYEDJUBASJUBESJUCOSJUDASJUDOSJUGALJUGUMJUJUSJUKEDJUKESJUKUS',
+  'JUMARJUMBYJUMPSJUNKSJUNKYJUNTOJUPESJUPONJURALJURATJURELJUSTSJUTESJUTTYJUVESJUVIEKAAMAKABAB',
+  'KABARKABOBKACHAKACKSKADESKADISKAFIRKAGOSKAGUSKAHALKAIAKKAIDSKAIESKAIFSKAIKAKAIKSKAILSKAIMS',
+  'KAINGKAINSKAKASKAKISKALAMKALESKALIFKALISKALPAKAMASKAMESKAMIKKAMISKAMMEKANAEKANASKANDYKANEH',
+  'KANESKANGSKANJIKANTSKANZUKAONSKAPASKAPHSKAPPAKARASKARKSKARNSKAROOKAROSKARRIKARSTKARSYKARTS',
+  'KARZYKASHAKASMEKATALKATASKATISKATTIKAUGHKAURIKAURUKAURYKAVALKAVASKAWASKAWAUKAWEDKAYLEKAYOS',
+  'KAZISKBARSKEBARKEBOBKECKSKEDGEKEDGYKEECHKEEFSKEEKSKEELSKEEMAKEENOKEENSKEEPSKEETSKEEVEKEFIR',
+  'KEHUAKEIRSKELEPKELIMKELLSKELLYKELPSKELPYKELTSKELTYKEMBOKEMBSKEMPSKEMPTKEMPYKENAFKENCHKENDO',
+  'KENOSKENTEKENTSKEPISKERBSKERELKERFSKERKYKERMAKERNEKERNSKEROSKERRYKERVEKESARKESTSKETASKETES',
+  'KETOLKEVELKEVILKEXESKEYEDKHADIKHAFSKHANSKHAPHKHATSKHAYAKHAZIKHEDAKHETHKHETSKHOJAKHORSKHOUM',
+  'KHUDSKIAATKIANGKIBBEKIBBIKIBEIKIBESKIBLAKICKSKIDDYKIDELKIDGEKIEFSKIERSKIEVEKIEVSKIGHTKIKOI',
+  'KILEYKILIMKILLSKILNSKILOSKILPSKILTSKILTYKIMBOKINASKINDSKINDYKINESKINGSKININKINKSKINKYKINOS',
+  'KIOREKIPESKIPPAKIPPSKIRBYKIRKSKIRNSKIRRIKISANKISSYKISTSKITEDKITERKITESKITHEKITHSKITULKIVAS',
+  'KIWISKLANGKLAPSKLETTKLICKKLIEGKLIKSKLONGKLOOFKLUGEKNAGSKNAPSKNARLKNARSKNAURKNAWEKNEEDKNEES',
+  'KNISHKNITSKNIVEKNOBSKNOPSKNOSPKNOTSKNOUTKNOWEKNOWSKNUBSKNURLKNURRKNURSKNUTSKOANSKOAPSKOBAN',
+  'KOBOSKOELSKOFFSKOFTAKOGALKOHASKOHENKOHLSKOINEKOJISKOKASKOKERKOKRAKOKUMKOLASKOLOSKOMBUKONBU',
+  'KONDOKONKSKOOKSKOORIKOPEKKOPHSKOPJEKOPPAKORAIKORASKORATKORESKORMAKOROSKORUNKORUSKOSESKOTCH',
+  'KOTOSKOTOWKOURAKRAALKRABSKRAFTKRAITKRANGKRANSKRANZKRAUTKREEPKRENGKREWEKRILLKRONAKROONKRUBI',
+  'KRUNKKSARSKUDOSKUDUSKUFISKUGELKUIASKUKRIKUKUSKULAKKULANKULASKULFIKUMYSKURISKURREKURTAKURUS',
+  'KUSSOKUTASKUTCHKUTISKUTUSKUZUSKVASSKVELLKWELAKYACKKYAKSKYANGKYARSKYATSKYBOSKYDSTKYLESKYLIE',
+  'KYLINKYLIXKYLOEKYNDEKYNDSKYPESKYRIEKYTESKYTHELAARILABDALABIALABISLABRALACEDLACERLACESLACET',
+  'LACEYLACKSLADEDLADERLADESLAERSLAEVOLAGANLAHARLAICHLAICSLAIDSLAIGHLAIKALAIKSLAIRDLAIRSLAIRY',
+  'LAITHLAKEDLAKERLAKESLAKHSLAKINLAKSALALDYLALLSLAMASLAMBSLAMBYLAMEDLAMESLAMIALAMMYLAMPSLANAI',
+  'LANASLANCHLANDELANDSLANESLANKSLANTSLAPINLAPISLAPJELARDSLARDYLAREELARESLARISLARKSLARKYLARNS',
+  'LARUMLASEDLASESLASSILASSULASTSLATAHLATEDLATENLATHILATHSLATHYLATKELAUANLAUCHLAUDSLAUFSLAUND',
+  'LAURALAVASLAVEDLAVERLAVESLAVRALAVVYLAWEDLAWERLAWINLAWKSLAWNSLAWNYLAXESLAYEDLAYINLAYUPLAZAR',
+  'LAZEDLAZESLAZOSLAZZILAZZOLEADSLEADYLEAFSLEAKSLEAMSLEANSLEANTLEANYLEAPSLEARELEARSLEARYLEATS',
+  'LEAVYLEAZELEBENLECCYLEDGYLEDUMLEEARLEEKSLEEPSLEERSLEESELEETSLEEZELEFTELEFTSLEGERLEGESLEGGE',
+  'LEHRSLEHUALEIRSLEISHLEMANLEMEDLEMELLEMESLENDSLENESLENGSLENISLENOSLENSELENTILENTOLEONELEPID',
+  'LEPRALEPTALEREDLERESLERPSLESBOLESESLESTSLETCHLETHELEUCHLEUCOLEUDSLEUGHLEVESLEVINLEVISLEWIS',
+  'LEXESLEXISLEZESLEZZALEZZYLIANALIANELIANGLIARDLIARSLIARTLIBERLIBRALIBRILICHILICHTLICKSLIDAR',
+  'LIDOSLIEFSLIENSLIERSLIEUSLIEVELIFESLIFTSLIGANLIGERLIGGELIGNELIKEDLIKESLIKINLILLSLILLYLILOS',
+  'LILTSLIMANLIMASLIMAXLIMBALIMBILIMBSLIMBYLIMEDLIMENLIMESLIMEYLIMMALIMNSLIMOSLIMPALIMPSLINAC',
+  'LINCHLINDSLINDYLINEDLINESLINEYLINGALINGSLINGYLININLINKSLINKYLINNSLINNYLINOSLINTSLINTYLINUM',
+  'LINUXLIONSLIPASLIPINLIPOSLIPPYLIRASLIRKSLIROTLISKSLISPSLISTSLITAILITASLITEDLITESLITHOLITHS',
+  'LIVEDLIVESLIVORLIVRELOACHLOADSLOAFSLOAMSLOANSLOASTLOAVELOBARLOBEDLOBESLOBOSLOBUSLOCHSLOCKS',
+  'LOCOSLOCUMLODENLODESLOESSLOFTSLOGANLOGESLOGGYLOGIALOGIELOGOILOGOSLOHANLOIDSLOINSLOIPELOIRS',
+  'LOKESLOLLSLOLLYLOLOGLOMASLOMEDLOMESLONGALONGELONGSLOOBYLOOEDLOOEYLOOFALOOFSLOOIELOOKSLOOMS',
+  'LOONSLOOPSLOORDLOOTSLOPEDLOPERLOPESLOPPYLORALLORANLORDSLORDYLORELLORESLORICLORISLOSEDLOSEL',
+  'LOSENLOSESLOSSYLOTAHLOTASLOTESLOTICLOTOSLOTTELOUEDLOUGHLOUIELOUISLOUMALOUNDLOUNSLOUPELOUPS',
+  'LOURELOURSLOURYLOUTSLOVATLOVEDLOVESLOVEYLOWANLOWEDLOWESLOWNDLOWNELOWNSLOWPSLOWRYLOWSELOWTS',
+  'LOXEDLOXESLOZENLUACHLUAUSLUBEDLUBESLUBRALUCESLUCKSLUDESLUDICLUDOSLUFFALUFFSLUGEDLUGERLUGES',
+  'LULLSLULUSLUMASLUMENLUMMELUMMYLUMPSLUNASLUNESLUNETLUNGILUNGSLUNKSLUNTSLUREDLURERLURESLUREX',
+  'LURGILURGYLURKSLURRYLURVELUSERLUSHYLUSKSLUSTSLUSUSLUTEALUTEDLUTERLUTESLUVVYLUXESLWEISLYAMS',
+  'LYARDLYARTLYASELYCEALYCEELYCRALYMESLYNCHLYNESLYRESLYSEDLYSESLYSINLYSISLYSOLLYSSALYTEDLYTES',
+  'LYTHELYTICLYTTAMAAEDMAAREMAARSMABESMACEDMACERMACESMACHEMACHIMACHSMACKSMACLEMACONMADGEMADID',
+  'MADREMAERLMAFIAMAFICMAGESMAGGSMAGOTMAGUSMAHOEMAHUAMAHWAMAIDSMAIKOMAIKSMAILEMAILLMAILSMAIMS',
+  'MAINSMAIREMAIRSMAISEMAISTMAKARMAKESMAKISMAKOSMALAMMALARMALASMALAXMALESMALICMALIKMALISMALLS',
+  'MALMSMALMYMALTSMALTYMALVAMALWAMAMASMAMBAMAMEEMAMEYMAMIEMAMMYMANASMANATMANDIMANEDMANEHMANES',
+  'MANETMANGSMANISMANKYMANOSMANTAMANTOMANTYMANULMANUSMAPAUMAQUIMARAEMARAHMARASMARCSMARDYMARES',
+  'MARGEMARGSMARIAMARIDMARKAMARKSMARLEMARLSMARLYMARMSMARONMARORMARRIMARSEMARTSMARVYMASASMASED',
+  'MASERMASESMASHYMASKSMASSAMASSEMASSYMASTSMASTYMASUSMATAIMATEDMATERMATESMATEYMATHSMATINMATLO',
+  'MATTSMATZAMAUBYMAUDSMAULSMAUNDMAURIMAUTSMAVIEMAVINMAVISMAWEDMAWKSMAWKYMAWRSMAXEDMAXESMAXIS',
+  'MAYANMAYASMAYEDMAYOSMAYSTMAZEDMAZERMAZESMAZEYMAZUTMBIRAMEADSMEALSMEANEMEANSMEANYMEAREMEASE',
+  'MEATHMEATSMEBOSMECKSMEDIIMEDLEMEEDSMEERSMEETSMEFFSMEINSMEINTMEINYMEITHMEKKAMELASMELBAMELDS',
+  'MELEEMELICMELIKMELLSMELTSMELTYMEMESMEMOSMENADMENDSMENEDMENESMENGEMENGSMENSAMENSEMENSHMENTA',
+  'MENTOMENUSMEOUSMERCHMERCSMERDEMEREDMERELMERERMERESMERILMERISMERKSMERLEMERLSMERSEMESALMESAS',
+  'MESELMESESMESHYMESICMESNEMESONMESTOMETEDMETESMETHOMETHSMETICMETIFMETISMETOLMEUSEMEVEDMEVES',
+  'MEWEDMEWLSMEYNTMEZESMEZZEMEZZOMHORRMIAOUMIASMMIAULMICASMICHEMICHTMICKSMICKYMICOSMICRAMICRO',
+  'MIDGYMIDISMIENSMIEVEMIFFSMIFFYMIFTYMIGGSMIHASMIHISMIKEDMIKESMIKRAMIKVAMILDSMILESMILFSMILIA',
+  'MILKOMILKSMILLEMILLSMILORMILOSMILPAMILTSMILTYMILTZMIMEDMIMEOMIMERMIMESMIMSYMINAEMINARMINAS',
+  'MINCYMINDSMINEDMINESMINGEMINGSMINGYMINISMINKEMINKSMINNYMINOSMINTSMIREDMIRESMIREXMIRINMIRKS',
+  'MIRKYMIRLYMIROSMIRVSMIRZAMISCHMISESMISGOMISOSMISSAMISSYMISTSMITCHMITESMITISMITTSMIXENMIXES',
+  'MIXTEMIXUPMIZENMIZZYMNEMEMOANSMOATSMOBBYMOBESMOBEYMOBIEMOBLEMOCHSMOCHYMOCKSMODERMODESMODGE',
+  'MODIIMODUSMOERSMOHELMOHRSMOHUAMOHURMOILSMOIRAMOITSMOJOSMOKESMOKISMOKOSMOLALMOLASMOLESMOLLA',
+  'MOLLSMOLLYMOLTOMOMESMOMMAMOMMYMOMUSMONADMONALMONASMONDEMONDOMONERMONGOMONGSMONIEMONKSMONOS',
+  'MONTEMONTYMOOBSMOODSMOOEDMOOKSMOOLAMOOLIMOOLSMOOLYMOONGMOONSMOONYMOOPSMOORSMOORYMOOTSMOOVE',
+  'MOPEDMOPERMOPESMOPEYMOPPYMOPSYMOPUSMORAEMORASMORATMORELMORESMORIAMORNEMORNSMORPHMORRAMORRO',
+  'MORSEMORTSMOSEDMOSESMOSKSMOSSOMOSTEMOSTSMOTEDMOTENMOTESMOTETMOTEYMOTHSMOTHYMOTISMOTTEMOTTS',
+  'MOTTYMOTUSMOTZAMOUCHMOUESMOULSMOUPSMOUSTMOVEDMOVESMOWASMOWEDMOWRAMOXASMOXIEMOYASMOYLEMOYLS',
+  'MOZEDMOZESMOZOSMPRETMUCHOMUCICMUCIDMUCINMUCKSMUCORMUCROMUDGEMUDIRMUDRAMUFFSMUGGAMUGGSMUHLY',
+  'MUIDSMUILSMUIRSMUISTMUJIKMULCTMULEDMULESMULEYMULGAMULLAMULLSMULSEMULSHMUMMSMUMPSMUMSYMUMUS',
+  'MUNGAMUNGEMUNGOMUNGSMUNISMUNTSMUNTUMUONSMURASMUREDMURESMUREXMURIDMURKSMURLSMURLYMURRAMURRE',
+  'MURRIMURRSMURRYMURTIMURVAMUSARMUSCAMUSEDMUSERMUSESMUSETMUSHAMUSITMUSKSMUSOSMUSSEMUSTHMUSTS',
+  'MUTCHMUTEDMUTESMUTISMUTONMUTTSMUXEDMUXESMUZAKMUZZYMVULEMYALLMYLARMYOIDMYOMAMYOPEMYOPSMYOPY',
+  'MYSIDMYTHIMYTHSMYTHYMYXOSMZEESNAAMSNAANSNABESNABISNABKSNABLANACHENADASNAEVENAEVINAFFSNAGAS',
+  'NAGGYNAGORNAHALNAIFSNAIKSNAILSNAIRANAIRUNAKERNAKFANALASNALEDNALLANAMEDNAMERNAMESNAMMANAMUS',
+  'NANASNANCENANCYNANDUNANNANANUANAPASNAPEDNAPESNAPOONAPPANAPPENARASNARCONARCSNARDSNARESNARIC',
+  'NARISNARKSNARKYNARRENASHINATCHNATESNATISNAUCHNAUNTNAVARNAVESNAVEWNAVVYNAWABNAZESNAZIRNAZIS',
+  'NEAFENEALSNEAPSNEARSNEATSNEBEKNEBELNECKSNEDDYNEEDSNEELDNEELENEEMBNEEMSNEEPSNEESENEEZENEGRO',
+  'NEGUSNEIFSNEISTNEIVENELISNELLYNEMASNEMNSNEMPTNENESNEONSNEPERNEPITNERALNERDSNERKANERKSNEROL',
+  'NERTSNERTZNESTSNETESNETOPNETTSNETTYNEUKSNEUMENEUMSNEVELNEVESNEVUSNEWEDNEWIENEWTSNEXTSNGAIO',
+  'NGANANGATINGOMANGWEENICADNICHTNICKSNICOLNIDALNIDEDNIDESNIDORNIDUSNIEFSNIEVENIFESNIFFSNIFFY',
+  'NIGERNIGHSNIHILNIKABNIKAHNIKAUNILLSNIMBSNIMBYNIMPSNINESNINONNIPASNIQABNIRLSNIRLYNISEINISSE',
+  'NISUSNITESNITIDNITONNITRONITRYNITTYNIVALNIXEDNIXERNIXESNIXIENIZAMNKOSINOAHSNOBBYNOCKSNODES',
+  'NODUSNOELSNOGGSNOHOWNOILSNOILYNOINTNOIRSNOLESNOLLSNOLOSNOMASNOMENNOMESNOMICNOMOINOMOSNONAS',
+  'NONESNONETNONGSNONISNONNYNONYLNOOBSNOOITNOOKSNOOKYNOONSNOOPSNOPALNORIANORISNORKSNORMANORMS',
+  'NOSEDNOSERNOSESNOSEYNOTALNOTEDNOTERNOTESNOTUMNOULDNOULENOULSNOUNSNOUNYNOUPSNOVASNOVUMNOWED',
+  'NOWLSNOWTSNOWTYNOXALNOXESNOYAUNOYEDNOYESNUBBYNUBIANUCHANUDDYNUDESNUDZHNUFFSNUGAENUKEDNUKES',
+  'NULLSNUMBSNUMENNUNNYNURDSNURDYNURLSNURRSNUTSONUTSYNYAFFNYALANYINGNYSSAOAKEDOAKEROAREDOASTS',
+  'OATEROATHSOAVESOBANGOBEAHOBELIOBEYSOBIASOBIEDOBIITOBITSOBJETOBOESOBOLEOBOLIOBOLSOCCAMOCHES',
+  'OCHRYOCKEROCREAOCTADOCTANOCTASOCTYLOCULIODAHSODALSODEONODEUMODISMODISTODYLEODYLSOECUSOFAYS',
+  'OFFEDOFFIEOFLAGOFTEROGAMSOGEEDOGEESOGGINOGHAMOGIVEOGLEDOGLEROGLESOGMICOGRESOHIASOHINGOHMIC',
+  'OHONEOIDIAOILEDOILEROINKSOINTSOJIMEOKAPIOKAYSOKEHSOKRASOKTASOLEICOLEINOLENTOLEOSOLEUMOLIOS',
+  'OLLASOLLAVOLLEROLLIEOLOGYOLPAEOLPESOMASAOMBREOMBUSOMENSOMERSOMITSOMLAHOMOVSOMRAHONCERONCES',
+  'ONCETONCUSONELYONERSONERYONIUMONKUSONLAYONNEDONTICONYASOOBITOOHEDOOMPHOONTSOOPEDOORIEOOSES',
+  'OOTIDOOZEDOOZESOPAHSOPALSOPENSOPEPEOPINGOPPOSOPSINOPTEDOPTERORACHORACYORALSORANGORANTORBED',
+  'ORCASORCINORDOSOREADORFESORGIAORGICORGUEORIBIORIELORIXAORLESORLONORLOPORMERORNISORPINORRIS',
+  'ORTHOORVALORZOSOSCAROSHACOSMICOSMOLOSSIAOSTIAOTAKUOTARYOTTAROTTOSOUBITOUCHTOUENSOUIJAOULKS',
+  'OUMASOUNDYOUPASOUPEDOUPHEOUPHSOURIEOUSELOUSTSOUTBYOUTEDOUTREOUTROOUTTAOUZELOUZOSOVALSOVATE',
+  'OVELSOVENSOVERSOVINEOVISTOVOLIOVOLOOWCHEOWLEDOWLEROWNEDOWRESOWRIEOWSENOXERSOXEYEOXIDSOXIES',
+  'OXIMEOXIMSOXLIPOXTEROYERSOZEKIOZZIE',
+].join('');
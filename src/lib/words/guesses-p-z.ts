@@ -0,0 +1,227 @@
+/**
+ * @file Word game guesses, P to Z
+ * @purpose The part of the guess list that starts with P to Z; see guesses.ts
+ * @inputs N/A
+ * @outputs The words, packed
+ * @invariants Words are A-Z, sorted and distinct, written back to back with
+ *             no separator
+ * @spec SPEC-2026-27
+ */
+
+/** 3839 guesses, five letters each */
+export const GUESSES_P_TO_Z = [
+  'PAALSPAANSPACASPACEDPACERPACESPACEYPACHAPACKSPACOSPACTAPACTSPADISPADLEPADMAPADRIPAEDOPAEON',
+  'PAGEDPAGESPAGLEPAGODPAGRIPAIKSPAILSPAINSPAIREPAIRSPAISAPAISEPAKKAPALASPALAYPALEAPALEDPALES',
+  'PALETPALKIPALLAPALLSPALLYPALMSPALPIPALPSPAMPAPANAXPANCEPANDSPANDYPANEDPANESPANGAPANGSPANIM',
+  'PANKOPANNEPANTOPANTSPAOLIPAOLOPAPASPAPAWPAPESPAPPIPAPPYPARAEPARASPARDIPARDSPARDYPAREDPAREO',
+  'PARERPARESPAREUPAREVPARGEPARGOPARISPARKIPARKSPARKYPARLEPARLYPAROLPARPSPARRAPARRSPARTIPARTS',
+  'PARVEPARVOPASEOPASESPASHMPASPYPASSEPASTSPATEDPATENPATERPATESPATHSPATINPATKAPATLYPATTEPATUS',
+  'PAUASPAULSPAVANPAVEDPAVENPAVERPAVESPAVIDPAVINPAVISPAWASPAWAWPAWEDPAWERPAWKSPAWKYPAWLSPAWNS',
+  'PAXESPAYEDPAYORPAYSDPEAGEPEAGSPEAKSPEAKYPEALSPEANSPEAREPEARSPEARTPEASEPEATSPEATYPEAVYPEAZE',
+  'PEBASPECHSPECKEPECKSPECKYPEDESPEDROPEECEPEEKSPEELSPEENSPEEOYPEEPEPEEPSPEERSPEERYPEGGYPEGHS',
+  'PEINSPEISEPEIZEPEKANPEKESPEKINPELASPELESPELFSPELLSPELMAPELONPELTAPELTSPENDSPENDUPENEDPENES',
+  'PENGOPENIEPENISPENKSPENNAPENNIPENTSPEONSPEPLAPEPOSPERAIPERCEPERDUPERDYPEREAPERESPERISPERKS',
+  'PERMSPERNSPERPSPERRYPERSTPERTSPERVEPERVSPERVYPESOSPESTOPESTSPESTYPETARPETITPETREPETRIPETTI',
+  'PETTOPEWITPEYSEPHAGEPHANGPHAREPHARMPHEERPHENEPHEONPHESEPHOCAPHONOPHONSPHOTSPHPHTPHUTSPHYLE',
+  'PIANIPIANSPIBALPICALPICASPICCYPICKSPICOTPICRAPICULPIENDPIERSPIERTPIETAPIETSPIEZOPIGHTPIGMY',
+  'PIKASPIKAUPIKEDPIKESPIKEYPIKISPIKULPILAOPILARPILAUPILAWPILCHPILEAPILEDPILEIPILERPILESPILIS',
+  'PILLSPILOWPILUMPILUSPIMASPIMPSPINASPINEDPINESPINEYPINGOPINGSPINKOPINKSPINKYPINNAPINNYPINON',
+  'PINOTPINTAPINTSPIONSPIONYPIOYEPIOYSPIPALPIPASPIPEDPIPESPIPETPIPISPIPPYPIPULPIRAIPIRLSPIRNS',
+  'PIROGPISCOPISESPISKYPISOSPISTEPITASPITHSPITTAPIUMSPIXESPIZEDPIZESPLAASPLACKPLANSPLAPSPLASH',
+  'PLASMPLASTPLATSPLATYPLAYAPLAYSPLEASPLEBEPLEBSPLENAPLEONPLESHPLEWSPLICAPLIEDPLIERPLIESPLIMS',
+  'PLINGPLINKPLOATPLOCEPLODSPLONGPLONKPLOOKPLOPSPLOTSPLOTZPLOUKPLOYSPLUESPLUFFPLUGSPLUMSPLUMY',
+  'PLYERPOAKAPOAKEPOBOYPOCKSPOCKYPODALPODDYPODEXPODGEPODGYPODIAPOEMSPOEPSPOETSPOGEYPOGGEPOGOS',
+  'POILUPOINDPOKALPOKEDPOKESPOLEDPOLERPOLESPOLEYPOLISPOLJEPOLKSPOLLSPOLLYPOLOSPOLTSPOLYSPOMBE',
+  'POMESPOMMYPOMOSPOMPSPONCEPONCYPONDSPONESPONEYPONGAPONGOPONGSPONGYPONKSPONTSPONTYPONZUPOODS',
+  'POOEDPOOHSPOOJAPOOKAPOOKSPOOLSPOONSPOOPSPOORIPOORTPOOTSPOOVEPOOVYPOPESPOPSYPOPUPPORAEPORAL',
+  'POREDPORESPORGEPORGYPORKSPORKYPORNOPORTAPORTSPORTYPOSEDPOSESPOSEYPOSHOPOSTSPOTAEPOTCHPOTED',
+  'POTESPOTINPOTOOPOTSYPOTTOPOTTSPOUFFPOUFSPOUKEPOUKSPOULEPOULPPOULTPOUPEPOUPTPOURSPOUTSPOUTY',
+  'POWANPOWINPOWNDPOWNSPOWNYPOWREPOXEDPOXESPOYNTPOYOUPOYSEPOZZYPRAAMPRADSPRAHUPRAMSPRANAPRANG',
+  'PRAOSPRASEPRATSPRATTPRATYPRAUSPRAYSPREDYPREEDPREESPREIFPREMSPREMYPRENTPREONPREOPPREPSPRESA',
+  'PRESEPRESTPREVEPREXYPREYSPRIALPRICKPRICYPRIEDPRIEFPRIERPRIESPRIGSPRILLPRIMAPRIMIPRIMOPRIMS',
+  'PRIMYPRINKPRIONPRISSPROASPROBSPRODSPROEMPROFSPROGSPROINPROKEPROLEPROLLPROMSPRONKPROPSPRORE',
+  'PROSOPROSSPROSTPROTOPROULPROWSPROYNPRUNTPRUTAPRYERPRYSEPSEUDPSIONPSOAEPSOAIPSOASPSORAPSYOP',
+  'PUBCOPUBESPUBICPUBISPUCANPUCERPUCESPUCKAPUCKSPUDDYPUDGEPUDICPUDORPUDSYPUDUSPUERSPUFFSPUGGY',
+  'PUGILPUHASPUJAHPUJASPUKASPUKEDPUKERPUKESPUKEYPUKKAPUKUSPULAOPULASPULEDPULERPULESPULIKPULIS',
+  'PULKAPULKSPULLIPULLSPULMOPULPSPULUSPUMASPUMIEPUMPSPUNASPUNCEPUNGAPUNGSPUNGYPUNJIPUNKAPUNKS',
+  'PUNKYPUNNYPUNTOPUNTSPUNTYPUPASPUPUSPURDAPUREDPURESPURINPURISPURLSPURPYPURRSPURSYPURTYPUSES',
+  'PUSLEPUSSYPUTIDPUTONPUTTIPUTTOPUTTSPUZELPWNEDPYATSPYETSPYGALPYINSPYNEDPYNESPYOIDPYOTSPYRAL',
+  'PYRANPYRESPYREXPYRICPYROSPYXEDPYXESPYXIEPYXISPZAZZQADISQAIDSQANATQIBLAQOPHSQORMAQUADSQUAGS',
+  'QUAIRQUAISQUAKYQUALEQUANTQUAREQUASSQUATEQUATSQUAYDQUAYSQUBITQUEANQUEMEQUENAQUERNQUEYNQUEYS',
+  'QUICHQUIDSQUIFFQUINAQUINEQUINOQUINSQUINTQUIPOQUIPSQUIPUQUIRTQUISTQUITSQUOADQUODSQUOIFQUOIN',
+  'QUOLLQUONKQUOPSQURSHQUYTERABATRABICRABISRACEDRACESRACHERACKSRACONRADGERADIXRAFFSRAFTSRAGAS',
+  'RAGDERAGEDRAGEERAGESRAGGARAGGSRAGGYRAGISRAGUSRAHEDRAHUIRAIASRAIDSRAIKSRAILERAILSRAINERAINS',
+  'RAIRDRAITARAITSRAJASRAJESRAKEDRAKEERAKERRAKESRAKIARAKISRAKUSRALESRALPHRAMALRAMEERAMENRAMET',
+  'RAMIERAMINRAMISRAMMYRAMPSRAMUSRANASRANCERANDSRANEERANGARANGIRANIDRANISRANKERANKSRANTSRAPED',
+  'RAPERRAPESRAPHERAPPERAREDRAREERARESRARKSRASEDRASERRASESRASPSRASSERASTARATALRATANRATASRATCH',
+  'RATEDRATELRATERRATESRATHARATHERATHSRATOORATOSRATUSRAUNSRAUPORAVEDRAVERRAVESRAVINRAWINRAWLY',
+  'RAWNSRAXEDRAXESRAYAHRAYASRAYEDRAYLERAYNERAZEDRAZEERAZERRAZESREADDREADSREAKSREALOREALSREAME',
+  'REAMSREAMYREANSREAPSREARSREASTREATAREATEREAVEREBARREBBEREBECREBIDREBITREBOPREBUYRECALRECCE',
+  'RECCORECCYRECITRECKSRECONRECTARECTIRECTORECUTREDANREDDSREDDYREDEDREDESREDIAREDIPREDLYREDON',
+  'REDOSREDOXREDRYREDUBREDUXREDYEREECHREEDEREEDSREEFSREEFYREEKSREEKYREELSREENSREESTREFEDREFEL',
+  'REFFOREFIXREFLYREFRYREGARREGESREGEXREGGOREGIEREGMAREGNAREGOSREGURREHEMREIFSREIFYREIKIREIKS',
+  'REINKREINSREIRDREISTREIVEREJIGREJONREKEDREKESREKEYRELETRELIERELITREMANREMAPREMENREMETREMEX',
+  'REMIXRENAYRENDSRENESRENEYRENGARENIGRENINRENNERENTERENTSREOILREPEGREPINREPLAREPOSREPOTREPPS',
+  'REPRORERIGRESATRESAWRESAYRESEERESESRESEWRESIDRESITRESODRESOWRESTORESTSRESTYRETAGRETAXRETEM',
+  'RETIARETIERETROREVETREVIEREWANREWAXREWEDREWETREWINREWONREWTHREXESRHEASRHEMERHIESRHIMERHINE',
+  'RHODYRHOMBRHONERHUMBRHYNERHYTARIADSRIALSRIANTRIATARIBASRIBBYRIBESRICEDRICERRICESRICEYRICHT',
+  'RICINRICKSRIDESRIDGYRIELSRIEMSRIEVERIFFSRIFTERIFTSRIFTYRIGGSRIGOLRILEDRILESRILEYRILLERILLS',
+  'RIMAERIMEDRIMERRIMESRIMUSRINDSRINDYRINESRINGSRINKSRIOJARIOTSRIPEDRIPESRIPPSRISESRISHIRISKS',
+  'RISPSRISUSRITESRITTSRIVASRIVEDRIVELRIVESRIYALRIZASROADSROAMSROANSROARSROARYROATEROBEDROBES',
+  'ROBLEROCKSRODEDRODESROGUYROILSROILYROINSROISTROJAKROJISROKEDROKERROKESROLAGROLESROLFSROLLS',
+  'ROMALROMEOROMPSRONDERONDORONEORONESRONINRONNERONTERONTSROODSROOFSROOFYROOKSROOKYROOMSROONS',
+  'ROOPSROOPYROOSAROOSEROOTSROOTYROPEDROPERROPESROPEYROQUERORALRORESRORICRORIDRORIERORTSRORTY',
+  'ROSEDROSESROSETROSHIROSITROSTIROSTSROTALROTANROTASROTCHROTEDROTESROTISROTLSROTONROTOSROTTE',
+  'ROUENROUESROULEROULSROUMSROUPSROUPYROUSTROUTHROUTSROVEDROVENROVESROWANROWEDROWENROWMEROWND',
+  'ROWTHROWTSROYNEROYSTROZETROZITRUANARUBAIRUBBYRUBELRUBESRUBINRUBUSRUCHERUCKSRUDASRUDDSRUDES',
+  'RUDIERUEDARUERSRUFFERUFFSRUGAERUGALRUGGYRUINSRUKHSRULEDRULESRUMALRUMBORUMENRUMESRUMLYRUMPO',
+  'RUMPSRUMPYRUNCHRUNDSRUNEDRUNESRUNGSRUNICRUNTSRUNTYRUPIARURPSRURUSRUSASRUSESRUSHYRUSKSRUSMA',
+  'RUSSERUSTSRUTHSRUTINRUTTYRYALSRYBATRYKEDRYKESRYMMERYNDSRYOTSRYPERSAAGSSABALSABEDSABESSABHA',
+  'SABINSABIRSABOTSABRASACKSSACRASADDOSADESSADHESADHUSADISSADOSSADZASAETASAFEDSAFESSAGASSAGES',
+  'SAGGYSAGOSSAGUMSAHEBSAICESAICKSAICSSAIDSSAIGASAILSSAIMSSAINESAINSSAIRSSAISTSAJOUSAKAISAKER',
+  'SAKESSAKIASAKISSALALSALEPSALESSALETSALICSALIXSALLESALMISALOLSALOPSALPASALPSSALSESALTOSALTS',
+  'SALUESAMANSAMASSAMBOSAMEKSAMELSAMENSAMESSAMEYSAMFUSAMMYSAMPISAMPSSANDSSANEDSANESSANGASANGH',
+  'SANGOSANGSSANKOSANSASANTOSANTSSAOLASAPANSAPIDSARANSARDSSAREDSAREESARGESARGOSARINSARISSARKS',
+  'SARKYSARODSAROSSARUSSASERSASINSASSESATAISATEDSATEMSATESSATISSAUBASAUCHSAUGHSAULSSAULTSAUNT',
+  'SAURYSAUTESAUTSSAVEDSAVESSAVEYSAVINSAVOYSAWAHSAWEDSAWERSAXESSAYEDSAYERSAYIDSAYNESAYONSAYST',
+  'SAZESSCABSSCADSSCAFFSCAGSSCAILSCALASCALLSCAMSSCANDSCANSSCAPASCAPESCAPISCARPSCARSSCARTSCATH',
+  'SCATSSCATTSCAUDSCAUPSCAURSCAWSSCEATSCENASCENDSCHAVSCHMOSCHULSCLIMSCODYSCOGSSCOOGSCOPASCOPS',
+  'SCOTSSCOUGSCOUPSCOWPSCOWSSCRABSCRAESCRAGSCRANSCRATSCRAWSCRAYSCREESCRIMSCROGSCROWSCRUMSCUDI',
+  'SCUDOSCUDSSCUFTSCUGSSCULKSCULPSCULSSCUMSSCUPSSCURSSCUSESCUTASCUTESCUTSSCUZZSCYESSDAYNSDEIN',
+  'SEALSSEAMESEAMSSEANSSEARESEARSSEASESEATSSEAZESEBUMSECCOSECHSSECTSSEDERSEDESSEDGYSEDUMSEEDS',
+  'SEEKSSEELDSEELSSEELYSEEMSSEEPSSEEPYSEERSSEFERSEGARSEGNISEGNOSEGOLSEGOSSEHRISEIFSSEILSSEINE',
+  'SEIRSSEISESEISMSEITYSEKOSSEKTSSELAHSELESSELFSSELLASELLESELLSSELVASEMEESEMENSEMESSEMIESEMIS',
+  'SENASSENDSSENESSENGISENORSENSASENSISENTESENTISENTSSENVYSENZASEPADSEPICSEPOYSEPTSSERACSERAI',
+  'SERALSEREDSERESSERFSSERICSERIFSERINSERKSSERONSEROWSERRASERRESERRSSERRYSESEYSESSASETAESETAL',
+  'SETONSETTSSEWANSEWARSEWEDSEWELSEWENSEWINSEXEDSEXERSEXESSEXTOSEXTSSEYENSHADSSHAGSSHAHSSHAKO',
+  'SHAKTSHALMSHALYSHAMASHAMSSHANDSHANSSHAPSSHARNSHARTSHASHSHAULSHAWMSHAWNSHAWSSHAYASHAYSSHCHI',
+  'SHEALSHEASSHEDSSHEELSHENDSHENTSHEOLSHERDSHERESHETSSHEVASHEWNSHEWSSHIAISHIEDSHIELSHIERSHIES',
+  'SHILYSHIMSSHINSSHIPSSHIRSSHISHSHISOSHISTSHITSSHIURSHIVASHIVESHIVSSHLEPSHLUBSHMEKSHOATSHOED',
+  'SHOERSHOESSHOGISHOGSSHOJISHOLASHOOLSHOONSHOOSSHOPESHOPSSHORLSHORNSHOTESHOTSSHOTTSHOWDSHOWS',
+  'SHOYUSHRISSHROWSHTIKSHTUMSHTUPSHULESHULNSHULSSHUNSSHURASHUTESHUTSSHWASSIALSSIBBSSICESSICHT',
+  'SICKOSICKSSIDASSIDEDSIDERSIDESSIDHASIDHESIELDSIENSSIENTSIETHSIEURSIFTSSIGHSSIGILSIGLASIGNA',
+  'SIGNSSIJOSSIKASSIKERSIKESSILDSSILEDSILENSILERSILESSILEXSILKSSILLSSILOSSILTSSILTYSILVASIMAR',
+  'SIMASSIMBASIMISSIMPSSIMULSINDSSINEDSINESSINGSSINHSSINKSSINKYSIPEDSIPESSIPPYSIREDSIREESIRES',
+  'SIRIHSIRISSIROCSIRRASIRUPSISESSISTSSITEDSITESSITHESITKASITUPSITUSSIVERSIXERSIXESSIXMOSIXTE',
+  'SIZARSIZEDSIZELSIZESSKAGSSKAILSKALDSKARTSKATSSKATTSKAWSSKEANSKEARSKEEDSKEEFSKEENSKEERSKEES',
+  'SKEGGSKEGSSKELFSKELLSKELMSKELPSKENESKENSSKEOSSKEPSSKERSSKETSSKEWSSKIDSSKIEDSKIESSKIEYSKIMO',
+  'SKIMSSKINKSKINSSKINTSKIOSSKIPSSKIRLSKIRRSKITSSKIVESKIVYSKLIMSKOALSKOFFSKOLSSKOOLSKORTSKOSH',
+  'SKRANSKRIKSKUASSKUGSSKYEDSKYERSKYEYSKYFSSKYRESKYRSSKYTESLABSSLADESLAESSLAGSSLAIDSLAMSSLANE',
+  'SLANKSLAPSSLARTSLATSSLATYSLAVESLAWSSLAYSSLEBSSLEDSSLEERSLEWSSLEYSSLILYSLIMSSLIPESLIPSSLIPT',
+  'SLISHSLITSSLIVESLOANSLOBSSLOESSLOGSSLOIDSLOJDSLOOMSLOOTSLOPSSLOPYSLORMSLOTSSLOVESLOWSSLOYD',
+  'SLUBBSLUBSSLUEDSLUESSLUFFSLUGSSLUITSLUMSSLURBSLURSSLUSESLUTSSLYPESMAAKSMAIKSMALMSMALTSMARM',
+  'SMAZESMEEKSMEESSMEIKSMEKESMERKSMEWSSMIRRSMIRSSMITSSMOGSSMOLTSMOORSMOOTSMORESMOUTSMOWTSMUGS',
+  'SMURSSMUSHSMUTSSNABSSNAGSSNAPSSNARFSNARKSNARSSNARYSNASHSNATHSNAWSSNEADSNEAPSNEBSSNECKSNEDS',
+  'SNEEDSNEESSNELLSNIBSSNICKSNIESSNIFTSNIGSSNIPSSNIPYSNIRTSNITSSNOBSSNODSSNOEKSNOEPSNOGSSNOKE',
+  'SNOODSNOOKSNOOLSNOTSSNOWKSNOWSSNUBSSNUCKSNUGSSNUSHSNYESSOAKSSOAPSSOARESOARSSOAVESOBASSOCAS',
+  'SOCKOSOCKSSOCLESODASSODDYSODICSODOMSOFARSOFASSOFTASOFTSSOGERSOHURSOILSSOILYSOJASSOKAHSOKEN',
+  'SOKESSOKOLSOLAHSOLANSOLASSOLDESOLDISOLDOSOLDSSOLEDSOLEISOLERSOLESSOLONSOLOSSOLUMSOLUSSOMAN',
+  'SOMASSONCESONDESONESSONGSSONLYSONNESONSESONSYSOOEYSOOKSSOOLESOOLSSOOMSSOOPSSOOTESOOTSSOPHS',
+  'SOPHYSOPORSOPRASORALSORASSORBOSORBSSORDASORDOSORDSSOREDSOREESORELSORESSOREXSORGOSORNSSORRA',
+  'SORTSSORUSSOTHSSOTOLSOUCESOUCTSOUKSSOULSSOUMSSOUPSSOURSSOUTSSOWARSOWCESOWEDSOWFFSOWFSSOWLE',
+  'SOWLSSOWMSSOWNDSOWNESOWPSSOWSESOWTHSOYASSOYLESOYUZSOZINSPACYSPADOSPAEDSPAERSPAESSPAGSSPAHI',
+  'SPAILSPAINSPAITSPALDSPALESPALLSPALTSPAMSSPANESPANGSPANSSPARDSPARSSPARTSPATSSPAULSPAWLSPAWS',
+  'SPAYDSPAYSSPEALSPEANSPEATSPECSSPEELSPEERSPEILSPEIRSPEKSSPELDSPELKSPEOSSPERMSPETSSPEUGSPEWS',
+  'SPEWYSPIALSPICASPICKSPIDESPIEDSPIERSPIESSPIFFSPIFSSPIKSSPILESPIMSSPINASPINKSPINSSPIRTSPIRY',
+  'SPITSSPITZSPIVSSPLOGSPODESPODSSPOOMSPOOTSPORKSPOSHSPOTSSPRADSPRAGSPREDSPREWSPRITSPRODSPROG',
+  'SPRUESPRUGSPUDSSPUEDSPUERSPUESSPUGSSPULESPUMYSPUNKSPURSSPUTASPYALSPYRESQUEGSQUIBSQUITSQUIZ',
+  'SRUTISTABSSTADESTAGSSTAGYSTAIGSTANESTANGSTAPSSTARNSTARRSTARSSTATSSTAUNSTAWSSTAYSSTEANSTEAR',
+  'STEDDSTEDESTEDSSTEEKSTEEMSTEENSTEILSTELASTELLSTEMESTEMSSTENDSTENOSTENSSTEPSSTEPTSTETSSTEWS',
+  'STEWYSTICHSTIEDSTIESSTILBSTIMESTIMSSTIMYSTIPASTIPESTIRESTIRKSTIRPSTIRSSTIVESTIVYSTOAESTOAI',
+  'STOASSTOBSSTOEPSTOGYSTOITSTOLNSTOMASTONDSTONGSTONKSTONNSTOOKSTOORSTOPESTOPSSTOPTSTOSSSTOTS',
+  'STOTTSTOUNSTOUPSTOURSTOWNSTOWPSTOWSSTRADSTRAESTRAGSTRAKSTREESTRIASTRIGSTRIMSTROWSTROYSTUBS',
+  'STUDESTUDSSTULLSTULMSTUMMSTUMSSTUNSSTUPASTUPESTURESTURTSTYEDSTYESSTYLOSTYMESTYMYSTYRESTYTE',
+  'SUBAHSUBASSUBBYSUBERSUBHASUCCISUCKSSUCRESUDDSSUDORSUENTSUERSSUETSSUETYSUGANSUGHSSUGOSSUHUR',
+  'SUIDSSUINTSUITSSUJEESUKHSSUKUKSULCISULFASULFOSULKSSULPHSULUSSUMMASUMOSSUMPHSUMPSSUNISSUNKS',
+  'SUNNASUNNSSUPESSUPRASURAHSURALSURASSURATSURDSSUREDSURESSURFSSURFYSURGYSURRASUSESSUSUSSUTOR',
+  'SUTRASUTTASWABSSWACKSWADSSWAGESWAGSSWAILSWALESWALYSWAMYSWANGSWANSSWAPSSWAPTSWARESWARFSWART',
+  'SWATSSWAYLSWAYSSWEALSWEDESWEEDSWEELSWEERSWEESSWEIRSWELTSWERFSWEYSSWIESSWIGSSWIMSSWINKSWIRE',
+  'SWISSSWITHSWITSSWIVESWIZZSWOBSSWOLNSWOPSSWOPTSWOTSSWOUNSYBBESYBILSYBOESYBOWSYCEESYCESSYENS',
+  'SYKERSYKESSYLISSYLVASYMARSYNCHSYNCSSYNDSSYNEDSYNESSYNTHSYPEDSYPESSYPHSSYRAHSYRENSYSOPSYTHE',
+  'SYVERTAALSTAATATABERTABESTABIDTABLATABORTABUNTABUSTACANTACESTACETTACHETACHOTACHSTACKSTACOS',
+  'TACTSTAELSTAFIATAGGYTAGMATAHASTAHRSTAIGATAIGSTAIKOTAILSTAINSTAIRATAISHTAITSTAJESTAKASTAKES',
+  'TAKHITAKINTAKISTALAKTALAQTALARTALASTALCSTALCYTALEATALERTALESTALKSTALKYTALLSTALMATALPATALUK',
+  'TALUSTAMALTAMEDTAMESTAMINTAMISTAMMYTAMPSTANASTANGATANGITANGSTANHSTANKATANKSTANKYTANNATANTI',
+  'TANTOTAPASTAPEDTAPENTAPESTAPETTAPISTAPPATAPUSTARASTARDOTAREDTARESTARGATARGETARNSTAROCTAROK',
+  'TAROSTARPSTARRETARSITARTSTARTYTASARTASKSTASSETATARTATERTATESTATHSTATIETATOUTATTSTATUSTAUBE',
+  'TAULDTAUONTAUTSTAVAHTAVASTAVERTAWAITAWASTAWEDTAWERTAWIETAWSETAWTSTAXEDTAXERTAXESTAXISTAXOL',
+  'TAXONTAXORTAXUSTAYRATAZZATAZZETEADETEADSTEAEDTEAKSTEALSTEAMSTEARSTEATSTEAZETECHSTECHYTECTA',
+  'TEDDYTEELSTEEMSTEENDTEENETEENSTEERSTEFFSTEGGSTEGUATEGUSTEHRSTEIIDTEILSTEINDTEINSTELAETELCO',
+  'TELESTELIATELICTELLSTELLYTELOITELOSTEMEDTEMESTEMPITEMPSTEMSETENCHTENDSTENDUTENESTENGETENNE',
+  'TENNOTENNYTENTSTENTYTENUETEPALTEPASTEPOYTERAITERASTERCETEREKTERESTERFETERFSTERGATERMSTERNE',
+  'TERNSTERRATERTSTESLATESTATESTETESTSTETESTETHSTETRATETRITEUCHTEUGHTEWEDTEWELTEWITTEXASTEXES',
+  'TEXTSTHACKTHAGITHAIMTHALETHALITHANATHANETHANGTHANSTHARMTHARSTHAWSTHAWYTHEBETHECATHEEDTHEEK',
+  'THEESTHEGNTHEICTHEINTHELFTHEMATHENSTHEOWTHERMTHESPTHETETHEWSTHEWYTHIGSTHILKTHILLTHINSTHIOL',
+  'THIRLTHOFTTHOLETHOLITHOROTHORPTHOUSTHOWLTHRAETHRAWTHRIDTHRIPTHUDSTHUGSTHUJATHUNKTHURLTHUYA',
+  'THYMITHYMYTIANSTIARSTICALTICCATICEDTICESTICHYTICKSTICKYTIDDYTIDEDTIDESTIERSTIFFSTIFTSTIGES',
+  'TIGONTIKASTIKESTIKISTIKKATILAKTILEDTILERTILESTILLSTILLYTILTHTILTSTIMBOTIMEDTIMESTIMONTIMPS',
+  'TINASTINCTTINDSTINEATINEDTINESTINGSTINKSTINTSTINTYTIPISTIPPYTIREDTIRESTIRLSTIROSTIRRSTITCH',
+  'TITISTITRETITTYTITUPTIYINTOADSTOAZETOCKSTOCKYTOCOSTODDETOEASTOFFSTOFFYTOFTSTOFUSTOGAETOGAS',
+  'TOGEDTOGESTOGUETOILETOILSTOINGTOISETOITSTOKAYTOKEDTOKERTOKESTOKOSTOLANTOLARTOLASTOLEDTOLES',
+  'TOLLSTOLLYTOLTSTOLUSTOLYLTOMANTOMBSTOMESTOMIATOMMYTOMOSTONDITONDOTONEDTONESTONEYTONGATONGS',
+  'TONKATONKSTONUSTOOLSTOOMSTOONSTOOTSTOPEDTOPEETOPEKTOPERTOPESTOPHETOPHITOPHSTOPISTOPOITOPOS',
+  'TOPPYTORAHTORANTORASTORCSTORESTORICTORIITOROSTOROTTORRSTORSETORSITORSKTORTATORTSTOSASTOSED',
+  'TOSESTOSHYTOSSYTOTEDTOTERTOTESTOTTYTOUKSTOUNSTOURSTOUSETOUSYTOUTSTOUZETOUZYTOWEDTOWIETOWNS',
+  'TOWNYTOWSETOWSYTOWTSTOWZETOWZYTOYEDTOYERTOYONTOYOSTOZEDTOZESTOZIETRABSTRADSTRAGITRAIKTRAMS',
+  'TRANKTRANQTRANSTRANTTRAPETRAPSTRAPTTRASSTRATSTRATTTRAVETRAYSTRECKTREEDTREENTREESTREFATREIF',
+  'TREKSTREMATRESTTRETSTREWSTREYSTRIACTRIDETRIEDTRIERTRIESTRIFFTRIGOTRIGSTRILDTRIMSTRINETRINS',
+  'TRIOLTRIORTRIOSTRIPSTRIPYTRISTTROADTROAKTROATTROCKTRODETRODSTROGSTROISTROKETRONATRONCTRONE',
+  'TRONKTRONSTROOZTROTSTROVETROWSTROYSTRUEDTRUESTRUGOTRUGSTRULLTRYERTRYKETRYMATRYPSTSADETSADI',
+  'TSARSTSKEDTSUBATUANSTUARTTUATHTUBAETUBALTUBARTUBASTUBEDTUBESTUCKSTUFASTUFFETUFFSTUFTSTUFTY',
+  'TUGRATUINATUISMTUKTUTULESTULPATUMPSTUMPYTUNASTUNDSTUNEDTUNESTUNGSTUPEKTUPIKTUPLETUQUETURBO',
+  'TURDSTURFSTURFYTURKSTURMETURMSTURNSTURPSTUSHYTUSKSTUSKYTUTEETUTTITUTTYTUTUSTUXESTUYERTWAES',
+  'TWALSTWANKTWATSTWAYSTWEEDTWEELTWEENTWEERTWERKTWIERTWIGSTWILTTWINKTWINSTWINYTWIRETWIRPTWITE',
+  'TWITSTWIXTTWOERTWYERTYEESTYERSTYIYNTYKESTYLERTYMPSTYNDETYNEDTYNESTYPALTYPEDTYPESTYPEYTYPIC',
+  'TYPOSTYPPSTYPTOTYRANTYREDTYRESTYROSTYTHETZARSUDALSUDONSUGALIUGGEDUHLANUHURUUKASEULAMAULANS',
+  'ULEMAULMINULNADULNARULNASULPANULVASULYIEULZIEUMAMIUMBLEUMBOSUMBRAUMBREUMIACUMIAQUMMAHUMMAS',
+  'UMMEDUMPEDUMPIEUMPTYUMRAHUMRASUNAISUNAPTUNARMUNARYUNAUSUNBAGUNBANUNBEDUNBIDUNBOXUNCAPUNCES',
+  'UNCIAUNCOSUNCOYUNCUSUNDAMUNDEEUNDUGUNETHUNFEDUNFIXUNGAGUNGETUNGODUNGOTUNGUMUNHATUNHIPUNITS',
+  'UNJAMUNKEDUNKETUNKIDUNLAWUNLAYUNLEDUNLETUNLIDUNLITUNMETUNMEWUNMIXUNPAYUNPEGUNPENUNREDUNRID',
+  'UNRIGUNRIPUNSEWUNSEXUNSODUNTAXUNTINUNWETUNWITUNWONUPBOWUPBYEUPDOSUPDRYUPJETUPLAYUPLEDUPLIT',
+  'UPPEDUPRANUPRUNUPSEEUPSEYUPTAKUPTERUPTIEURAEIURALIURAOSURAREURARIURASEURATEURBIAURDEEUREAL',
+  'UREASUREDOUREICURENAURENTURGEDURGERURGESURIALURINEURITEURMANURNALURNEDURPEDURSAEURSIDURSON',
+  'URUBUURVASUSERSUSNEAUSQUEUSUREUTERIUTILEUVEALUVEASVACUAVADEDVADESVAGALVAGUSVAILSVAIREVAIRS',
+  'VAIRYVAKASVAKILVALESVALISVALSEVAMPSVAMPYVANDAVANEDVANESVANGSVANTSVAPEDVAPESVARANVARASVARDY',
+  'VARECVARESVARIAVARIXVARNAVARUSVARVEVASALVASESVASTSVASTYVATICVATUSVAUCHVAUTEVAUTSVAWTEVEALE',
+  'VEALSVEALYVEDICVEENAVEEPSVEERSVEGASVEGESVEGIEVEGOSVEHMEVEILSVEILYVEINSVEINYVELARVELDSVELDT',
+  'VELESVELLSVELUMVENAEVENDSVENEYVENGEVENINVENTSVENUSVERBSVEREYVERRAVERRYVERSAVERSOVERSTVERTS',
+  'VERTUVESPAVESTAVESTSVEXEDVEXERVEXESVEXILVEZIRVIALSVIBESVIBEXVIBEYVICEDVICESVICHYVIERSVIEWS',
+  'VIEWYVIFDAVIGASVIGIAVILDEVILLIVILLSVIMENVINALVINASVINCAVINEDVINERVINESVINEWVINICVINOSVINTS',
+  'VIOLDVIOLSVIREDVIRESVIRGAVIRGEVIRIDVIRLSVIRTUVISASVISEDVISESVISIEVISNEVISONVISTOVITAEVITAS',
+  'VITEXVITTAVIVASVIVATVIVDAVIVERVIVESVIZIRVIZORVLEISVLIESVLOGSVOARSVOCABVOCESVODDYVODOUVODUN',
+  'VOEMAVOGIEVOIDSVOILAVOIPSVOLAEVOLARVOLEDVOLESVOLETVOLKSVOLTAVOLTEVOLTIVOLTSVOLVAVOLVEVOMER',
+  'VOTEDVOTESVOUGEVOULUVOWEDVOWERVOXELVOZHDVRAICVRILSVROOMVROUSVROUWVROWSVUGGSVUGGYVUGHSVUGHY',
+  'VULGOVULNSVULVAVUTTYWAACSWACKEWACKSWADDSWADDYWADEDWADESWADGEWADISWADTSWAFFSWAFTSWAGEDWAGES',
+  'WAGGAWAGYUWAHOOWAIDEWAIFSWAIFTWAILSWAINSWAIRSWAITEWAITSWAKASWAKEDWAKERWAKESWAKFSWALDOWALDS',
+  'WALEDWALERWALESWALISWALKSWALLAWALLSWALLYWALTYWAMEDWAMESWAMUSWANDSWANEDWANESWANEYWANGSWANKS',
+  'WANLEWANTSWANTYWANZEWAQFSWARBSWARBYWARDSWAREDWARESWAREZWARKSWARMSWARNSWARPSWARREWARSTWARTS',
+  'WASESWASHYWASPSWASPYWASTSWATAPWATTSWAUFFWAUGHWAUKSWAULKWAULSWAURSWAVEDWAVESWAVEYWAWASWAWES',
+  'WAWLSWAXEDWAXERWAXESWAYEDWAZIRWAZOOWEALDWEALSWEAMBWEANSWEARSWEBBYWEBERWECHTWEDELWEDGYWEEDS',
+  'WEEKEWEEKSWEELSWEEMSWEENSWEENYWEEPSWEETEWEETSWEFTEWEFTSWEIDSWEILSWEIRSWEISEWEIZEWEKASWELCH',
+  'WELDSWELKEWELKSWELKTWELLSWELLYWELSHWELTSWEMBSWENCHWENDSWENGEWENNYWENTSWEROSWERSHWESTSWETAS',
+  'WEXEDWEXESWHAMOWHAMSWHANGWHAPSWHAREWHATAWHATSWHAUPWHAURWHEARWHEENWHEEPWHEFTWHELMWHENSWHETS',
+  'WHEWSWHEYSWHIDSWHIFTWHIGSWHILKWHIMSWHINSWHIOSWHIPSWHIPTWHISHWHISSWHITSWHITYWHOMPWHOOFWHOOT',
+  'WHOPSWHOREWHORTWHOSOWHUMPWHUPSWICCAWICKSWICKYWIDDYWIDESWIELSWIFEDWIFESWIFEYWIFIEWIFTYWIGAN',
+  'WIGGAWIGGYWIKISWILCOWILDSWILEDWILESWILGAWILISWILJAWILLSWILLYWILTSWIMPSWINDSWINEDWINESWINEY',
+  'WINGEWINGSWINGYWINKSWINNAWINNSWINOSWINZEWIPEDWIPESWIREDWIRERWIRESWIRRAWISEDWISENWISESWISHA',
+  'WISHTWISPSWISTSWITANWITEDWITESWITHEWITHSWITHYWIVEDWIVERWIVESWIZESWOADSWOALDWOCKSWODGEWOFUL',
+  'WOKKAWOLDSWOLFSWOLLYWOLVEWOMBSWOMBYWOMYNWONGAWONGIWONKSWONKYWONTSWOODSWOOEDWOOFSWOOFYWOOLD',
+  'WOOLSWOOLYWOONSWOOPSWOOSEWOOSHWOOTZWORDSWORKSWORMSWORTSWOWEDWOWEEWOXENWRANGWRAPSWRAPTWRAST',
+  'WRATEWRAWLWRENSWRICKWRIEDWRIERWRIESWRITSWROKEWROOTWUDUSWULLSWURSTWUSESWUSHUWUSSYWUXIAWYLED',
+  'WYLESWYNDSWYNNSWYTEDWYTESXEBECXENIAXENICXERICXEROXXERUSXOANAXRAYSXYLANXYLICXYLOLXYLYLXYSTI',
+  'XYSTSYAARSYABASYABBAYACCAYACKAYACKSYAFFSYAGERYAGISYAIRDYAKOWYALESYAMENYAMPYYAMUNYANGSYANKS',
+  'YAPOKYAPONYAPPSYAPPYYARCOYARDSYARERYARFAYARKSYARNSYARRSYARTAYARTOYATESYAUDSYAULDYAUPSYAWED',
+  'YAWEYYAWLSYAWNSYAWNYYAWPSYBOREYCLADYCLEDYCONDYDRADYDREDYEADSYEAHSYEALMYEANSYEARDYEARSYECCH',
+  'YECHSYECHYYEDESYEEDSYEGGSYELKSYELLSYELMSYELPSYELTSYENTAYENTEYERBAYERDSYERKSYESESYESKSYESTS',
+  'YESTYYETISYETTSYEUKSYEUKYYEVENYEVESYEWENYEXEDYEXESYFEREYIKEDYIKESYILLSYINCEYIPESYIPPYYIRDS',
+  'YIRKSYIRRSYIRTHYITESYITIEYLEMSYLIKEYLKESYMOLTYMPESYOBBOYOCKSYODHSYODLEYOGASYOGEEYOGHSYOGIC',
+  'YOGINYOGISYOICKYOJANYOKEDYOKERYOKESYOKULYOLKSYOLKYYOMIMYOMPSYONICYONISYONKSYOOFSYOOPSYORES',
+  'YORKSYORPSYOUKSYOURNYOURSYOURTYOWEDYOWESYOWIEYOWLSYRAPTYRENTYRIVDYRNEHYSAMEYTOSTYUANSYUCAS',
+  'YUCCHYUCKOYUCKSYUFTSYUGASYUKEDYUKESYUKKYYUKOSYULANYULESYUMMOYUMPSYUPONYUPPYYURTAYURTSYUZUS',
+  'ZABRAZACKSZAIREZAKATZAMANZAMBOZAMIAZANJAZANTEZANZAZANZEZAPPYZARFSZARISZATISZAXESZAYINZAZEN',
+  'ZEALSZEBECZEBUBZEBUSZEINSZERDAZERKSZEROSZESTSZESTYZETASZEXESZEZESZHOMOZIBETZIFFSZIGANZILAS',
+  'ZILLAZILLSZIMBIZIMBSZINCOZINCSZINCYZINEBZINESZINGSZINGYZINKEZINKYZIPPOZIRAMZITISZIZELZIZIT',
+  'ZLOTEZLOTYZOAEAZOBOSZOBUSZOCCOZOEAEZOEALZOEASZOISMZOISTZOMBIZONAEZONDAZONEDZONERZONESZONKS',
+  'ZOOEAZOOEYZOOIDZOOKSZOOMSZOONSZOOTYZOPPAZOPPOZORILZORISZORROZOUKSZOWIEZULUSZUPANZUPASZURFS',
+  'ZUZIMZYGALZYGONZYMESZYMIC',
+].join('');
@@ -0,0 +1,21 @@
+/**
+ * @file Word game guesses
+ * @purpose Five-letter words accepted as guesses but never chosen as answers:
+ *          rarer words, plurals and past tenses.
+ *          Built from the SCOWL word lists (Copyright 2000-2016 Kevin
+ *          Atkinson) and the word-list package (Copyright Sindre Sorhus, MIT)
+ * @inputs N/A
+ * @outputs The guess list, packed
+ * @invariants Words are A-Z, in Australian spelling, sorted and distinct,
+ *             written back to back with no separator. No word here is also
+ *             in the answer list. The list is kept in alphabetical parts only
+ *             to keep each file short.
+ * @spec SPEC-2026-27
+ */
+
+import { GUESSES_A_TO_F } from './guesses-a-f.js';
+import { GUESSES_G_TO_O } from './guesses-g-o.js';
+import { GUESSES_P_TO_Z } from './guesses-p-z.js';
+
+/** 9841 additional guesses, five letters each */
+export const GUESSES = GUESSES_A_TO_F + GUESSES_G_TO_O + GUESSES_P_TO_Z;
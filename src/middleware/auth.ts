@@ -1,18 +1,26 @@
 /**
  * @file Authentication middleware
- * @purpose Verifies Supabase JWT on every request. Rejects unauthenticated
- *          requests with 401. Injects authenticated user ID into Hono context
- *          for use by route handlers and Supabase RLS queries.
+ * @purpose Verifies Supabase JWT or personal API token on every request.
+ *          Rejects unauthenticated requests with 401. Injects authenticated
+ *          user ID into Hono context for use by route handlers and Supabase
+ *          RLS queries.
  * @inputs Authorization header (Bearer token) from incoming request
- * @outputs Sets 'userId' and 'supabaseClient' on Hono context variables
- * @invariants All routes except those under /api/auth/* require a valid JWT.
- *             No request reaches a route handler without verified authentication.
+ * @outputs Sets 'userId', 'accessToken' and 'tokenScopes' on Hono context variables
+ * @invariants All routes except those under /api/auth/* and /api/public/*
+ *             require a valid JWT or API token. No request reaches a route handler without
+ *             verified authentication. API tokens are exchanged for a
+ *             short-lived JWT of their owner, so database access is RLS-scoped
+ *             either way. requireScope limits API tokens to the routes their
+ *             scopes cover; sessions are never limited.
  * @spec N/A (bootstrap infrastructure)
  */
 
 import { createMiddleware } from 'hono/factory';
 import { createClient } from '@supabase/supabase-js';
 import { logger } from '../lib/logger.js';
+import { isApiToken, mintAccessToken } from '../lib/api-token.js';
+import { authenticateApiToken } from '../lib/api-token-service.js';
+import type { ApiTokenScope } from '../schemas/token.js';
 
 /**
  * Environment bindings expected by the auth middleware.
@@ -21,27 +29,44 @@ import { logger } from '../lib/logger.js';
 export interface AuthEnv {
   SUPABASE_URL: string;
   SUPABASE_ANON_KEY: string;
+  /**
+   * Signs the short-lived JWTs that API token requests query the database
+   * with. It could sign a service_role JWT too; only mintAccessToken uses it.
+   */
+  SUPABASE_JWT_SECRET: string;
 }
 
 /** Shape of context variables set by auth middleware */
 export interface AuthVariables {
   userId: string;
+  /** JWT that database queries for this request are made with */
+  accessToken: string;
+  /** Scopes of the API token used, or null for a session, which may do anything */
+  tokenScopes: ApiTokenScope[] | null;
 }
 
-/** Paths that do not require authentication */
-const PUBLIC_PATH_PREFIX = '/api/auth';
+/**
+ * Paths that do not require authentication: sign-in, and content players
+ * have chosen to publish, such as shared game results
+ */
+const PUBLIC_PATH_PREFIXES = ['/api/auth', '/api/public'];
+
+/** Returns true for a public prefix itself or any path below it */
+function isPublicPath(path: string): boolean {
+  return PUBLIC_PATH_PREFIXES.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+}
 
 /**
  * Authentication middleware for Hono.
  * Verifies the Supabase JWT from the Authorization header.
- * Public paths (under /api/auth/) bypass authentication.
+ * Public paths (under /api/auth/ and /api/public/) bypass authentication.
  */
 export const authMiddleware = createMiddleware<{
   Bindings: AuthEnv;
   Variables: AuthVariables;
 }>(async (c, next) => {
-  // Allow public auth routes through without verification
-  if (c.req.path.startsWith(PUBLIC_PATH_PREFIX)) {
+  // Allow public routes through without verification
+  if (isPublicPath(c.req.path)) {
     await next();
     return;
   }
@@ -61,6 +86,43 @@ export const authMiddleware = createMiddleware<{
   const token = authHeader.slice(7); // Remove 'Bearer ' prefix
 
   try {
+    if (isApiToken(token)) {
+      // API tokens are looked up by hash with the anon key, then exchanged
+      // for a JWT of their owner so queries stay scoped by RLS
+      const supabase = createClient(c.env.SUPABASE_URL, c.env.SUPABASE_ANON_KEY);
+      const apiToken = await authenticateApiToken(supabase, token);
+
+      if (!apiToken) {
+        logger.warn({
+          event: 'auth.invalid_token',
+          actor: 'anonymous',
+          outcome: 'failure',
+          metadata: { path: c.req.path, method: c.req.method, via: 'api_token' },
+        });
+        return c.json({ error: 'Invalid or expired token' }, 401);
+      }
+
+      c.set('userId', apiToken.userId);
+      // The one place a request handler reaches the JWT secret
+      c.set('accessToken', await mintAccessToken(apiToken.userId, c.env.SUPABASE_JWT_SECRET));
+      c.set('tokenScopes', apiToken.scopes);
+
+      logger.info({
+        event: 'auth.verified',
+        actor: apiToken.userId,
+        outcome: 'success',
+        metadata: {
+          path: c.req.path,
+          method: c.req.method,
+          via: 'api_token',
+          token: apiToken.tokenId,
+        },
+      });
+
+      await next();
+      return;
+    }
+
     // Create a Supabase client with the user's JWT to verify it
     // and to scope all subsequent queries via RLS
     const supabase = createClient(c.env.SUPABASE_URL, c.env.SUPABASE_ANON_KEY, {
@@ -86,12 +148,14 @@ export const authMiddleware = createMiddleware<{
 
     // Set verified user ID in context for route handlers
     c.set('userId', user.id);
+    c.set('accessToken', token);
+    c.set('tokenScopes', null);
 
     logger.info({
       event: 'auth.verified',
       actor: user.id,
       outcome: 'success',
-      metadata: { path: c.req.path, method: c.req.method },
+      metadata: { path: c.req.path, method: c.req.method, via: 'session' },
     });
 
     await next();
@@ -108,3 +172,40 @@ export const authMiddleware = createMiddleware<{
     return c.json({ error: 'Authentication failed' }, 401);
   }
 });
+
+/**
+ * Rejects requests authenticated with an API token. Used on routes that
+ * manage credentials, so a token can never be used to mint broader tokens.
+ */
+export const requireSession = createMiddleware<{ Variables: AuthVariables }>(async (c, next) => {
+  if (c.get('tokenScopes') !== null) {
+    return c.json({ error: 'This endpoint requires a session, not an API token' }, 403);
+  }
+  await next();
+});
+
+/**
+ * Rejects requests whose API token was not granted a scope, with 403.
+ * Sessions may do anything, so only API token requests are checked.
+ *
+ * @example
+ * app.delete('/:id', requireScope('bookmarks:write'), handler);
+ */
+export function requireScope(scope: ApiTokenScope) {
+  return createMiddleware<{ Variables: AuthVariables }>(async (c, next) => {
+    const scopes = c.get('tokenScopes');
+
+    if (scopes && !scopes.includes(scope)) {
+      logger.warn({
+        event: 'auth.insufficient_scope',
+        actor: c.get('userId'),
+        outcome: 'failure',
+        metadata: { path: c.req.path, method: c.req.method, scope },
+      });
+      c.header('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${scope}"`);
+      return c.json({ error: 'Insufficient scope', details: { required: scope } }, 403);
+    }
+
+    await next();
+  });
+}
@@ -0,0 +1,185 @@
+/**
+ * @file Idempotency middleware factory
+ * @purpose Honours the Idempotency-Key header on mutating requests: the first
+ *          request with a key runs and its response is stored; retries with
+ *          the same key and payload get the stored response back instead of
+ *          repeating the change.
+ * @inputs Idempotency-Key header, request method, path, query and body, and
+ *         the scopes of the API token used, if any
+ * @outputs The route's response, a replayed response, or 400, 409 or 422
+ * @invariants Requests without the header, safe methods, public routes and
+ *             routes whose responses carry credentials pass through untouched,
+ *             so a secret such as a new API token is never stored or replayed.
+ *             A key reused with a different payload, or by a caller with other
+ *             scopes, is rejected with 422, so a response is only replayed to
+ *             callers the route's requireScope would let through. Server
+ *             errors (5xx) and authorization failures (401, 403) are not
+ *             stored, so they can be retried with the same key. A claim is leased for
+ *             IDEMPOTENCY_LEASE_MS: if the response cannot be stored, or the
+ *             Worker stops mid-request, a retry can run once the lease ends.
+ *             Failing to store a response never changes it.
+ * @spec SPEC-2026-12
+ */
+
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { sha256Hex } from '../lib/hash.js';
+import { IdempotencyService, type IdempotencyStore } from '../lib/idempotency-service.js';
+import { logger } from '../lib/logger.js';
+import { createAuthenticatedSupabaseClient } from '../lib/supabase.js';
+import type { AuthEnv, AuthVariables } from './auth.js';
+
+type IdempotencyContext = Context<{ Bindings: AuthEnv; Variables: AuthVariables }>;
+
+export interface IdempotencyOptions {
+  /** How long a key and its response are kept, in milliseconds */
+  windowMs?: number;
+  /** How long a claim without a response holds its key, in milliseconds */
+  leaseMs?: number;
+  /** Creates the store for a request; defaults to the database, scoped to the user */
+  store?: (c: IdempotencyContext) => IdempotencyStore;
+}
+
+/** Keys and their responses are kept for 24 hours */
+export const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** A request holds its key for up to a minute before a retry may run */
+export const IDEMPOTENCY_LEASE_MS = 60 * 1000;
+
+// Visible ASCII, as recommended for the header's string value
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// Depend on who is asking rather than on the request, so a retry may differ
+const AUTHORIZATION_FAILURES = new Set([401, 403]);
+
+/**
+ * Paths whose responses carry credentials. Storing them would keep the
+ * secret in the database and hand it to every retry; these routes run
+ * every time instead.
+ */
+const CREDENTIAL_PATH_PREFIXES = ['/api/tokens'];
+
+/** Returns true for a credential prefix itself or any path below it */
+function isCredentialPath(path: string): boolean {
+  return CREDENTIAL_PATH_PREFIXES.some(
+    (prefix) => path === prefix || path.startsWith(`${prefix}/`),
+  );
+}
+
+function databaseStore(c: IdempotencyContext): IdempotencyStore {
+  return new IdempotencyService(createAuthenticatedSupabaseClient(c), c.get('userId'));
+}
+
+/**
+ * Creates middleware that makes mutating requests with an Idempotency-Key
+ * header safe to retry. Must run after authMiddleware.
+ *
+ * @example
+ * app.use('/api/*', idempotency());
+ */
+export function idempotency(options: IdempotencyOptions = {}) {
+  const windowMs = options.windowMs ?? IDEMPOTENCY_WINDOW_MS;
+  const leaseMs = options.leaseMs ?? IDEMPOTENCY_LEASE_MS;
+  const createStore = options.store ?? databaseStore;
+
+  return createMiddleware<{ Bindings: AuthEnv; Variables: AuthVariables }>(async (c, next) => {
+    const key = c.req.header('Idempotency-Key');
+    const userId = c.get('userId');
+
+    // Public routes have no user to store the key for
+    if (
+      key === undefined ||
+      SAFE_METHODS.has(c.req.method) ||
+      !userId ||
+      isCredentialPath(c.req.path)
+    ) {
+      await next();
+      return;
+    }
+
+    if (!KEY_PATTERN.test(key)) {
+      return c.json({ error: 'Invalid Idempotency-Key header' }, 400);
+    }
+
+    const store = createStore(c);
+    const url = new URL(c.req.url);
+    // Scope checks run in the routes, after any replay, so the stored
+    // response is bound to the scopes that passed them
+    const scopes = c.get('tokenScopes');
+    const principal = scopes ? `token ${[...scopes].sort().join(',')}` : 'session';
+    const requestHash = await sha256Hex(
+      `${principal}\n${c.req.method} ${url.pathname}${url.search}\n${await c.req.text()}`,
+    );
+
+    const claim = await store.claim(key, requestHash, windowMs, leaseMs);
+
+    switch (claim.outcome) {
+      case 'mismatch':
+        logger.warn({
+          event: 'idempotency.key_reused',
+          actor: userId,
+          outcome: 'failure',
+          metadata: { path: c.req.path, method: c.req.method },
+        });
+        return c.json({ error: 'Idempotency key was already used for a different request' }, 422);
+      case 'in_progress':
+        return c.json({ error: 'A request with this idempotency key is still in progress' }, 409);
+      case 'replay': {
+        logger.info({
+          event: 'idempotency.replayed',
+          actor: userId,
+          outcome: 'success',
+          metadata: { path: c.req.path, method: c.req.method, status: claim.response.status },
+        });
+        const { status, contentType, body } = claim.response;
+        const headers: Record<string, string> = { 'Idempotent-Replayed': 'true' };
+        if (contentType) {
+          headers['Content-Type'] = contentType;
+        }
+        return new Response(body === '' ? null : body, { status, headers });
+      }
+    }
+
+    /**
+     * Runs a store write after the route. A failed write is logged and the
+     * route's response is returned as it is; the lease frees the key later.
+     */
+    const settle = async (action: 'complete' | 'release', write: () => Promise<void>) => {
+      try {
+        await write();
+      } catch (error) {
+        logger.error({
+          event: `idempotency.${action}.skipped`,
+          actor: userId,
+          outcome: 'failure',
+          metadata: {
+            path: c.req.path,
+            method: c.req.method,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+        });
+      }
+    };
+
+    try {
+      await next();
+    } catch (error) {
+      await settle('release', () => store.release(key));
+      throw error;
+    }
+
+    if (c.res.status >= 500 || AUTHORIZATION_FAILURES.has(c.res.status)) {
+      await settle('release', () => store.release(key));
+      return;
+    }
+
+    const response = {
+      status: c.res.status,
+      contentType: c.res.headers.get('Content-Type'),
+      body: await c.res.clone().text(),
+    };
+    await settle('complete', () => store.complete(key, response));
+  });
+}
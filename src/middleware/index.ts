@@ -7,9 +7,19 @@
  * @invariants This file only re-exports. No logic here.
  */
 
-export { authMiddleware } from './auth.js';
+export { authMiddleware, requireSession } from './auth.js';
 export type { AuthEnv, AuthVariables } from './auth.js';
 export { headersMiddleware } from './headers.js';
 export { errorMiddleware } from './errors.js';
-export { validateBody, validateQuery } from './validation.js';
+export { validateBody, validateBodyByType, validateQuery } from './validation.js';
 export type { ValidationVariables } from './validation.js';
+export { idempotency, IDEMPOTENCY_WINDOW_MS } from './idempotency.js';
+export type { IdempotencyOptions } from './idempotency.js';
+export { rateLimit, RATE_LIMIT_BUDGETS } from './rate-limit.js';
+export type {
+  RateLimitBudget,
+  RateLimitEnv,
+  RateLimitOptions,
+  RateLimitState,
+  RateLimitVariables,
+} from './rate-limit.js';
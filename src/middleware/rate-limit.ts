@@ -0,0 +1,178 @@
+/**
+ * @file Rate limiting middleware factory
+ * @purpose Throttles requests per user, or per client address for
+ *          unauthenticated requests, against per-route budgets
+ * @inputs Authenticated user ID (or CF-Connecting-IP), request method and path
+ * @outputs RateLimit-* headers on every limited response, or 429 with
+ *          Retry-After once a budget is spent
+ * @invariants Must run after authMiddleware so requests are counted per user.
+ *             When several budgets apply, the headers describe the one with
+ *             the fewest requests left. If the counter store fails, requests
+ *             are let through and the failure is logged.
+ * @spec SPEC-2026-12
+ */
+
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { logger } from '../lib/logger.js';
+import {
+  DurableObjectRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitStore,
+} from '../lib/rate-limit-store.js';
+import type { AuthVariables } from './auth.js';
+
+/** Environment bindings used by the rate limiter */
+export interface RateLimitEnv {
+  /** Durable Object namespace holding shared counters; counts stay per isolate without it */
+  RATE_LIMITER?: DurableObjectNamespace;
+}
+
+/** A number of requests allowed per fixed window */
+export interface RateLimitBudget {
+  /** Identifies the budget in counter keys and logs */
+  name: string;
+  limit: number;
+  windowMs: number;
+  /** Methods the budget applies to; all methods when omitted */
+  methods?: string[];
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  /** Seconds until the window ends */
+  reset: number;
+  windowMs: number;
+}
+
+/** Shape of context variables set by the rate limiter */
+export interface RateLimitVariables {
+  rateLimit?: RateLimitState;
+}
+
+type RateLimitContext = Context<{
+  Bindings: RateLimitEnv;
+  Variables: AuthVariables & RateLimitVariables;
+}>;
+
+export interface RateLimitOptions {
+  /** Creates the counter store for a request */
+  store?: (c: RateLimitContext) => RateLimitStore;
+}
+
+/**
+ * Budgets applied by the application. Thresholds are provisional: generous
+ * for normal use, tighter where a request fetches other sites or does bulk work.
+ */
+export const RATE_LIMIT_BUDGETS = {
+  api: { name: 'api', limit: 300, windowMs: 60_000 },
+  createBookmark: { name: 'bookmarks.create', limit: 60, windowMs: 60_000, methods: ['POST'] },
+  checkLink: { name: 'bookmarks.check', limit: 30, windowMs: 60_000, methods: ['POST'] },
+  importBookmarks: {
+    name: 'bookmarks.import',
+    limit: 10,
+    windowMs: 60 * 60_000,
+    methods: ['POST'],
+  },
+  createGame: { name: 'games.create', limit: 30, windowMs: 60_000, methods: ['POST'] },
+  submitGuess: { name: 'games.guess', limit: 60, windowMs: 60_000, methods: ['POST'] },
+} satisfies Record<string, RateLimitBudget>;
+
+// Used when no Durable Object is bound, e.g. in local development
+const isolateStore = new MemoryRateLimitStore();
+
+function defaultStore(c: RateLimitContext): RateLimitStore {
+  return c.env.RATE_LIMITER ? new DurableObjectRateLimitStore(c.env.RATE_LIMITER) : isolateStore;
+}
+
+function setHeaders(headers: Headers, state: RateLimitState): void {
+  headers.set('RateLimit-Limit', String(state.limit));
+  headers.set('RateLimit-Remaining', String(state.remaining));
+  headers.set('RateLimit-Reset', String(state.reset));
+  headers.set('RateLimit-Policy', `${state.limit};w=${Math.ceil(state.windowMs / 1000)}`);
+}
+
+/**
+ * Creates middleware that enforces a budget on the routes it is mounted on.
+ *
+ * @example
+ * app.use('/api/*', rateLimit(RATE_LIMIT_BUDGETS.api));
+ */
+export function rateLimit(budget: RateLimitBudget, options: RateLimitOptions = {}) {
+  const createStore = options.store ?? defaultStore;
+
+  return createMiddleware<{
+    Bindings: RateLimitEnv;
+    Variables: AuthVariables & RateLimitVariables;
+  }>(async (c, next) => {
+    if (budget.methods && !budget.methods.includes(c.req.method)) {
+      await next();
+      return;
+    }
+
+    // AuthVariables types userId as always set, but public routes pass
+    // authMiddleware without one, and they are limited by address instead
+    const userId = c.get('userId') as string | undefined;
+    const subject = userId
+      ? `user:${userId}`
+      : `ip:${c.req.header('CF-Connecting-IP') ?? 'unknown'}`;
+
+    const now = Date.now();
+    const resetAt = (Math.floor(now / budget.windowMs) + 1) * budget.windowMs;
+
+    let count: number;
+    try {
+      count = await createStore(c).increment(`${budget.name}:${subject}`, resetAt);
+    } catch (error) {
+      logger.error({
+        event: 'ratelimit.store.failed',
+        actor: userId ?? 'anonymous',
+        outcome: 'failure',
+        metadata: {
+          budget: budget.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+      await next();
+      return;
+    }
+
+    const state: RateLimitState = {
+      limit: budget.limit,
+      remaining: Math.max(0, budget.limit - count),
+      reset: Math.max(1, Math.ceil((resetAt - now) / 1000)),
+      windowMs: budget.windowMs,
+    };
+
+    if (count > budget.limit) {
+      logger.warn({
+        event: 'ratelimit.exceeded',
+        actor: userId ?? 'anonymous',
+        outcome: 'failure',
+        metadata: {
+          budget: budget.name,
+          limit: budget.limit,
+          path: c.req.path,
+          method: c.req.method,
+        },
+      });
+      const response = c.json({ error: 'Too many requests' }, 429);
+      setHeaders(response.headers, state);
+      response.headers.set('Retry-After', String(state.reset));
+      return response;
+    }
+
+    const tightest = c.get('rateLimit');
+    if (!tightest || state.remaining < tightest.remaining) {
+      c.set('rateLimit', state);
+    }
+
+    await next();
+
+    const applied = c.get('rateLimit');
+    if (applied) {
+      setHeaders(c.res.headers, applied);
+    }
+  });
+}
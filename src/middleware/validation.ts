@@ -31,6 +31,11 @@ function formatZodError(error: ZodError): Record<string, string[]> {
   return error.flatten().fieldErrors as Record<string, string[]>;
 }
 
+export interface ValidateBodyOptions {
+  /** Validate a request with an empty body as an empty JSON object */
+  optional?: boolean;
+}
+
 /**
  * Creates middleware that validates the request JSON body against a Zod schema.
  * Validated data is available via c.get('validatedBody') in route handlers.
@@ -41,12 +46,12 @@ function formatZodError(error: ZodError): Record<string, string[]> {
  *   // data is typed and validated
  * });
  */
-export function validateBody<T>(schema: ZodSchema<T>) {
+export function validateBody<T>(schema: ZodSchema<T>, options: ValidateBodyOptions = {}) {
   return createMiddleware<{ Variables: ValidationVariables }>(async (c, next) => {
     let rawBody: unknown;
 
     try {
-      rawBody = await c.req.json();
+      rawBody = options.optional && (await c.req.text()) === '' ? {} : await c.req.json();
     } catch {
       return c.json({ error: 'Invalid JSON in request body' }, 400);
     }
@@ -86,6 +91,37 @@ export function validateBody<T>(schema: ZodSchema<T>) {
   });
 }
 
+/**
+ * Creates middleware that validates the request JSON body against the schema
+ * registered for its Content-Type, for endpoints that accept several body
+ * formats. Other content types are rejected with 415.
+ *
+ * @example
+ * app.patch('/api/things/:id', validateBodyByType({
+ *   'application/merge-patch+json': MergePatchSchema,
+ *   'application/json-patch+json': JsonPatchSchema,
+ * }), handler);
+ */
+export function validateBodyByType(schemas: Record<string, ZodSchema<unknown>>) {
+  const validators = new Map(
+    Object.entries(schemas).map(([type, schema]) => [type, validateBody(schema)]),
+  );
+
+  return createMiddleware<{ Variables: ValidationVariables }>(async (c, next) => {
+    const type = (c.req.header('Content-Type') ?? '').split(';')[0]?.trim().toLowerCase() ?? '';
+    const validator = validators.get(type);
+
+    if (!validator) {
+      return c.json(
+        { error: 'Unsupported content type', details: { accepted: [...validators.keys()] } },
+        415,
+      );
+    }
+
+    return validator(c, next);
+  });
+}
+
 /**
  * Creates middleware that validates query parameters against a Zod schema.
  * Validated data is available via c.get('validatedQuery') in route handlers.
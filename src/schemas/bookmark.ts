@@ -8,45 +8,228 @@
  */
 
 import { z } from 'zod';
+import { decodeCursor } from '../lib/cursor.js';
+import { dedupeTags, normalizeTag } from '../lib/tags.js';
+
+// Tag constraints shared by every schema that accepts tags. Tags are
+// normalised on input (see normalizeTag), so "JS " and "js" are one tag and
+// "Dev / TypeScript" is the hierarchical tag "dev/typescript".
+export const TagSchema = z
+  .string()
+  .max(200)
+  .transform(normalizeTag)
+  .pipe(z.string().min(1, 'Tag cannot be empty').max(50));
+export const TagListSchema = z.array(TagSchema).max(20).transform(dedupeTags);
+export const NonEmptyTagListSchema = z.array(TagSchema).min(1).max(20).transform(dedupeTags);
+
+// Collections a bookmark belongs to
+export const CollectionIdListSchema = z.array(z.string().uuid()).max(20);
+
+// Comma-separated tag list in a query string, e.g. ?tags=dev,reading
+const TagListParamSchema = z
+  .string()
+  .transform((value) =>
+    value
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0),
+  )
+  .pipe(NonEmptyTagListSchema);
+
+// Outcome of a link health check
+export const HealthStatusSchema = z.enum(['ok', 'redirected', 'broken']);
 
 // Core bookmark entity schema
 export const BookmarkSchema = z.object({
   id: z.string().uuid(),
   user_id: z.string().uuid(),
   url: z.string().url().max(2048),
+  // Normalised form of url used to detect duplicates
+  canonical_url: z.string().max(2048),
   title: z.string().min(1).max(500),
   description: z.string().max(2000).nullable(),
-  tags: z.array(z.string().max(50)).max(20).nullable(),
+  tags: TagListSchema.nullable(),
+  collection_ids: CollectionIdListSchema,
+  // Page metadata, filled in when the bookmark was created without a title
+  site_name: z.string().max(200).nullable(),
+  favicon_url: z.string().url().max(2048).nullable(),
+  page_canonical_url: z.string().url().max(2048).nullable(),
+  enriched_at: z.string().datetime().nullable(),
+  // Result of the most recent link check; null until first checked
+  health_status: HealthStatusSchema.nullable(),
+  last_status_code: z.number().int().nullable(),
+  redirect_url: z.string().url().max(2048).nullable(),
+  last_checked_at: z.string().datetime().nullable(),
   created_at: z.string().datetime(),
   updated_at: z.string().datetime(),
   deleted_at: z.string().datetime().nullable(),
+  // Present only on full-text search results
+  search_rank: z.number().optional(),
 });
 
-// Schema for creating bookmarks (POST requests)
+// Schema for creating bookmarks (POST requests). Without a title, the page
+// is fetched to fill in its metadata.
 export const CreateBookmarkSchema = z.object({
   url: z.string().url().max(2048),
-  title: z.string().min(1).max(500),
+  title: z.string().min(1).max(500).optional(),
   description: z.string().max(2000).optional(),
-  tags: z.array(z.string().max(50)).max(20).optional(),
+  tags: TagListSchema.optional(),
+  collection_ids: CollectionIdListSchema.optional(),
 });
 
-// Schema for updating bookmarks (PUT requests)
-export const UpdateBookmarkSchema = z.object({
-  url: z.string().url().max(2048).optional(),
-  title: z.string().min(1).max(500).optional(),
-  description: z.string().max(2000).optional(),
-  tags: z.array(z.string().max(50)).max(20).optional(),
+// Schema for create query parameters: what to do when the URL is already saved
+export const CreateBookmarkQuerySchema = z.object({
+  on_duplicate: z.enum(['reject', 'merge']).default('reject'),
+});
+
+// Schema for replacing a bookmark (PUT requests). Every editable field is
+// set: optional fields that are left out are cleared.
+export const ReplaceBookmarkSchema = z.object({
+  url: z.string().url().max(2048),
+  title: z.string().min(1).max(500),
+  description: z.string().max(2000).nullable().default(null),
+  tags: TagListSchema.nullable().default(null),
+  collection_ids: CollectionIdListSchema.default([]),
+});
+
+// Schema for JSON Merge Patch (RFC 7396) updates (PATCH requests). Fields
+// left out are unchanged and null clears a field; url and title cannot be
+// cleared.
+export const PatchBookmarkSchema = z
+  .object({
+    url: z.string().url().max(2048).optional(),
+    title: z.string().min(1).max(500).optional(),
+    description: z.string().max(2000).nullable().optional(),
+    tags: TagListSchema.nullable().optional(),
+    collection_ids: CollectionIdListSchema.nullable().optional(),
+  })
+  .strict();
+
+// Schema for JSON Patch (RFC 6902) updates (PATCH requests with
+// Content-Type: application/json-patch+json). Paths address the editable
+// fields, e.g. {"op": "add", "path": "/tags/-", "value": "reading"}.
+const JsonPointerSchema = z
+  .string()
+  .max(200)
+  .regex(/^(\/[^/]*)*$/, 'Must be a JSON Pointer');
+const PatchValueSchema = z.unknown().refine((value) => value !== undefined, 'Required');
+
+export const JsonPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: JsonPointerSchema, value: PatchValueSchema }),
+  z.object({ op: z.literal('remove'), path: JsonPointerSchema }),
+  z.object({ op: z.literal('replace'), path: JsonPointerSchema, value: PatchValueSchema }),
+  z.object({ op: z.literal('move'), from: JsonPointerSchema, path: JsonPointerSchema }),
+  z.object({ op: z.literal('copy'), from: JsonPointerSchema, path: JsonPointerSchema }),
+  z.object({ op: z.literal('test'), path: JsonPointerSchema, value: PatchValueSchema }),
+]);
+export const JsonPatchSchema = z.array(JsonPatchOperationSchema).min(1).max(50);
+
+// Sort orders supported by the list endpoint
+export const BookmarkSortSchema = z.enum(['created_at', 'updated_at', 'title', 'relevance']);
+export const SortOrderSchema = z.enum(['asc', 'desc']);
+
+// Decoded pagination cursor: the sort key and id of the row a page starts after.
+// deleted_at is only used by the trash listing.
+export const BookmarkCursorSchema = z.object({
+  sort: z.union([BookmarkSortSchema, z.literal('deleted_at')]),
+  order: SortOrderSchema,
+  value: z.union([z.string().max(500), z.number()]),
+  id: z.string().uuid(),
+  direction: z.enum(['next', 'prev']),
+});
+
+// Opaque cursor and page size query parameters
+const CursorParamSchema = z
+  .string()
+  .max(2048)
+  .regex(/^[A-Za-z0-9_-]+$/)
+  .transform(decodeCursor)
+  .pipe(BookmarkCursorSchema);
+
+const LimitParamSchema = z
+  .string()
+  .regex(/^\d+$/)
+  .transform(Number)
+  .refine((n) => n >= 1 && n <= 100);
+
+// Filters shared by every endpoint that selects a set of bookmarks
+export const BookmarkFilterSchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(),
+  tag: TagSchema.optional(),
+  tags: TagListParamSchema.optional(),
+  match: z.enum(['all', 'any']).optional(),
+  exclude_tags: TagListParamSchema.optional(),
+  health: z.enum(['broken', 'redirected']).optional(),
+  collection_id: z.string().uuid().optional(),
 });
 
 // Schema for query parameters (GET requests)
-export const BookmarkQuerySchema = z.object({
-  tag: z.string().max(50).optional(),
-  cursor: z.string().uuid().optional(),
-  limit: z
+export const BookmarkQuerySchema = BookmarkFilterSchema.extend({
+  sort: BookmarkSortSchema.optional(),
+  order: SortOrderSchema.optional(),
+  cursor: CursorParamSchema.optional(),
+  limit: LimitParamSchema.optional(),
+})
+  .refine((query) => query.sort !== 'relevance' || query.q !== undefined, {
+    message: 'sort=relevance requires a search query',
+    path: ['sort'],
+  })
+  .refine((query) => query.match === undefined || query.tags !== undefined, {
+    message: 'match requires a tags filter',
+    path: ['match'],
+  })
+  .transform((query) => {
+    // Relevance is the natural order for a search; otherwise newest first.
+    // Titles read naturally A-Z, everything else defaults to descending.
+    const sort = query.sort ?? (query.q ? 'relevance' : 'created_at');
+    const order = query.order ?? (sort === 'title' ? 'asc' : 'desc');
+    return { ...query, sort, order };
+  })
+  .refine(
+    (query) =>
+      query.cursor === undefined ||
+      (query.cursor.sort === query.sort && query.cursor.order === query.order),
+    { message: 'cursor does not match the requested sort order', path: ['cursor'] },
+  );
+
+// Schema for export query parameters (GET /api/bookmarks/export)
+export const ExportFormatSchema = z.enum(['html', 'json', 'csv', 'atom']);
+
+export const ExportQuerySchema = BookmarkFilterSchema.extend({
+  format: ExportFormatSchema.default('json'),
+}).refine((query) => query.match === undefined || query.tags !== undefined, {
+  message: 'match requires a tags filter',
+  path: ['match'],
+});
+
+// Schema for trash listing query parameters (most recently deleted first)
+export const TrashQuerySchema = z
+  .object({
+    cursor: CursorParamSchema.optional(),
+    limit: LimitParamSchema.optional(),
+  })
+  .refine((query) => query.cursor === undefined || query.cursor.sort === 'deleted_at', {
+    message: 'cursor does not belong to the trash listing',
+    path: ['cursor'],
+  });
+
+// Schema for duplicate report query parameters, paged by canonical URL
+export const DuplicatesQuerySchema = z.object({
+  cursor: z
     .string()
-    .regex(/^\d+$/)
-    .transform(Number)
-    .refine((n) => n >= 1 && n <= 100)
+    .max(4096)
+    .regex(/^[A-Za-z0-9_-]+$/)
+    .transform(decodeCursor)
+    .pipe(z.object({ canonical_url: z.string().max(2048) }))
+    .optional(),
+  limit: LimitParamSchema.optional(),
+});
+
+// Schema for DELETE query parameters
+export const DeleteBookmarkQuerySchema = z.object({
+  permanent: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
     .optional(),
 });
 
@@ -63,18 +246,38 @@ export const BookmarkResponseSchema = z.object({
 export const BookmarkListResponseSchema = z.object({
   data: z.array(BookmarkSchema),
   meta: z.object({
-    cursor: z.string().uuid().optional(),
+    nextCursor: z.string().optional(),
+    prevCursor: z.string().optional(),
+    // Same value as nextCursor, kept for clients of the original contract
+    cursor: z.string().optional(),
     hasMore: z.boolean(),
   }),
 });
 
-export const TagListResponseSchema = z.object({
-  data: z.array(z.string()),
+// A set of active bookmarks that share a canonical URL, oldest first
+export const DuplicateGroupSchema = z.object({
+  canonical_url: z.string(),
+  bookmark_ids: z.array(z.string().uuid()),
+  bookmark_count: z.number().int(),
 });
 
 // Inferred types for use in handlers
 export type Bookmark = z.infer<typeof BookmarkSchema>;
 export type CreateBookmark = z.infer<typeof CreateBookmarkSchema>;
-export type UpdateBookmark = z.infer<typeof UpdateBookmarkSchema>;
+export type CreateBookmarkQuery = z.infer<typeof CreateBookmarkQuerySchema>;
+export type ReplaceBookmark = z.infer<typeof ReplaceBookmarkSchema>;
+export type PatchBookmark = z.infer<typeof PatchBookmarkSchema>;
+export type JsonPatchOperation = z.infer<typeof JsonPatchOperationSchema>;
 export type BookmarkQuery = z.infer<typeof BookmarkQuerySchema>;
+export type HealthStatus = z.infer<typeof HealthStatusSchema>;
+export type BookmarkFilter = z.infer<typeof BookmarkFilterSchema>;
+export type BookmarkSort = z.infer<typeof BookmarkSortSchema>;
+export type SortOrder = z.infer<typeof SortOrderSchema>;
+export type BookmarkCursor = z.infer<typeof BookmarkCursorSchema>;
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+export type ExportQuery = z.infer<typeof ExportQuerySchema>;
+export type TrashQuery = z.infer<typeof TrashQuerySchema>;
+export type DuplicatesQuery = z.infer<typeof DuplicatesQuerySchema>;
+export type DuplicateGroup = z.infer<typeof DuplicateGroupSchema>;
+export type DeleteBookmarkQuery = z.infer<typeof DeleteBookmarkQuerySchema>;
 export type BookmarkParams = z.infer<typeof BookmarkParamsSchema>;
@@ -0,0 +1,94 @@
+/**
+ * @file Bulk bookmark operation schemas
+ * @purpose Zod schemas for validating POST /api/bookmarks/bulk requests
+ *          and describing its per-item results
+ * @inputs Raw bulk operation request bodies
+ * @outputs Typed and validated bulk operations and targets
+ * @invariants A request targets either explicit IDs or a filter, never both.
+ *             No request can affect more than MAX_BULK_BATCH_SIZE bookmarks.
+ *             A filter names at least one criterion.
+ * @spec SPEC-2026-12
+ */
+
+import { z } from 'zod';
+import {
+  BookmarkFilterSchema,
+  TagSchema,
+  TagListSchema,
+  NonEmptyTagListSchema,
+} from './bookmark.js';
+
+/** Largest number of bookmarks a single bulk request may touch */
+export const MAX_BULK_BATCH_SIZE = 100;
+
+// The operation applied to every targeted bookmark
+export const BulkOperationSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('add_tags'), tags: NonEmptyTagListSchema }),
+  z.object({ action: z.literal('remove_tags'), tags: NonEmptyTagListSchema }),
+  z.object({ action: z.literal('replace_tags'), tags: TagListSchema }),
+  z.object({ action: z.literal('delete') }),
+  z.object({ action: z.literal('restore') }),
+]);
+
+// Filter form of the list endpoint's query parameters, with JSON arrays
+// in place of comma-separated tag lists. An empty filter would select every
+// bookmark, so at least one criterion is required.
+export const BulkFilterSchema = z
+  .object({
+    q: BookmarkFilterSchema.shape.q,
+    tag: TagSchema.optional(),
+    tags: NonEmptyTagListSchema.optional(),
+    match: BookmarkFilterSchema.shape.match,
+    exclude_tags: NonEmptyTagListSchema.optional(),
+    health: BookmarkFilterSchema.shape.health,
+    collection_id: BookmarkFilterSchema.shape.collection_id,
+  })
+  .refine((filter) => Object.values(filter).some((value) => value !== undefined), {
+    message: 'filter requires at least one criterion',
+  })
+  .refine((filter) => filter.match === undefined || filter.tags !== undefined, {
+    message: 'match requires a tags filter',
+    path: ['match'],
+  });
+
+// Schema for bulk operation requests (POST /api/bookmarks/bulk)
+export const BulkRequestSchema = z
+  .object({
+    operation: BulkOperationSchema,
+    ids: z.array(z.string().uuid()).min(1).max(MAX_BULK_BATCH_SIZE).optional(),
+    filter: BulkFilterSchema.optional(),
+  })
+  .refine((request) => (request.ids === undefined) !== (request.filter === undefined), {
+    message: 'Provide either ids or filter',
+    path: ['ids'],
+  })
+  .refine((request) => request.operation.action !== 'restore' || request.ids !== undefined, {
+    // Filters select active bookmarks, so they can never match trashed ones
+    message: 'restore requires ids',
+    path: ['operation'],
+  });
+
+// Outcome for a single targeted bookmark
+export const BulkItemResultSchema = z.object({
+  id: z.string().uuid(),
+  status: z.enum(['succeeded', 'not_found', 'failed']),
+  reason: z.string().optional(),
+});
+
+export const BulkResponseSchema = z.object({
+  data: z.object({
+    action: z.enum(['add_tags', 'remove_tags', 'replace_tags', 'delete', 'restore']),
+    results: z.array(BulkItemResultSchema),
+    summary: z.object({
+      requested: z.number().int(),
+      succeeded: z.number().int(),
+      failed: z.number().int(),
+    }),
+  }),
+});
+
+// Inferred types for use in handlers
+export type BulkOperation = z.infer<typeof BulkOperationSchema>;
+export type BulkFilter = z.infer<typeof BulkFilterSchema>;
+export type BulkRequest = z.infer<typeof BulkRequestSchema>;
+export type BulkItemResult = z.infer<typeof BulkItemResultSchema>;
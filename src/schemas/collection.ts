@@ -0,0 +1,63 @@
+/**
+ * @file Collection validation schemas
+ * @purpose Zod schemas for validating collection API requests and responses
+ * @inputs Raw request bodies, route parameters, and database records
+ * @outputs Typed and validated collection data
+ * @invariants All external input validated; parent and ordering fields
+ *             are bounded so a request cannot build an unbounded tree
+ * @spec SPEC-2026-12
+ */
+
+import { z } from 'zod';
+
+// Display order among sibling collections
+const PositionSchema = z.number().int().min(0).max(1_000_000);
+
+// Core collection entity schema
+export const CollectionSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  parent_id: z.string().uuid().nullable(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable(),
+  position: PositionSchema,
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+// Schema for creating collections (POST requests)
+export const CreateCollectionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  parent_id: z.string().uuid().nullable().optional(),
+  position: PositionSchema.optional(),
+});
+
+// Schema for updating collections (PUT requests); parent_id null moves a
+// collection to the top level
+export const UpdateCollectionSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  parent_id: z.string().uuid().nullable().optional(),
+  position: PositionSchema.optional(),
+});
+
+// Schema for route parameters
+export const CollectionParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// Response envelope schemas
+export const CollectionResponseSchema = z.object({
+  data: CollectionSchema,
+});
+
+export const CollectionListResponseSchema = z.object({
+  data: z.array(CollectionSchema),
+});
+
+// Inferred types for use in handlers
+export type Collection = z.infer<typeof CollectionSchema>;
+export type CreateCollection = z.infer<typeof CreateCollectionSchema>;
+export type UpdateCollection = z.infer<typeof UpdateCollectionSchema>;
+export type CollectionParams = z.infer<typeof CollectionParamsSchema>;
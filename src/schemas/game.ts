@@ -0,0 +1,195 @@
+/**
+ * @file Word game schemas
+ * @purpose Zod schemas for the game, guess, history, statistics and share endpoints
+ * @inputs Raw request bodies, route parameters and query parameters
+ * @outputs Typed and validated game data
+ * @invariants Guesses are five letters A-Z; lower case is accepted and
+ *             upper-cased. A game's answer is null until the game is over.
+ * @spec SPEC-2026-27
+ */
+
+import { z } from 'zod';
+
+/** Letters in every word and guesses allowed per game */
+export const WORD_LENGTH = 5;
+export const MAX_GUESSES = 6;
+
+export const GameStatusSchema = z.enum(['in_progress', 'won', 'lost']);
+
+// standard plays any answer; hard requires revealed hints to be used in later
+// guesses; daily shares one answer per UTC day, with one game per player
+export const GameModeSchema = z.enum(['standard', 'hard', 'daily']);
+
+const WordSchema = z.string().regex(/^[A-Z]{5}$/);
+
+// How one letter of a guess matched the answer
+export const LetterFeedbackSchema = z.object({
+  letter: z.string().regex(/^[A-Z]$/),
+  status: z.enum(['correct', 'present', 'absent']),
+});
+
+// Schema for starting a game (POST /api/games). The body is optional.
+export const CreateGameSchema = z.object({
+  mode: GameModeSchema.default('standard'),
+});
+
+// Schema for submitting a guess (POST /api/games/:gameId/guesses)
+export const SubmitGuessSchema = z.object({
+  guess: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{5}$/, 'Guess must be five letters'),
+});
+
+// Schema for route parameters
+export const GameParamsSchema = z.object({
+  gameId: z.string().uuid(),
+});
+
+export const ShareParamsSchema = z.object({
+  shareId: z.string().uuid(),
+});
+
+// Schema for game history query parameters (GET /api/games/history)
+export const GameHistoryQuerySchema = z.object({
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(100))
+    .default('50'),
+});
+
+/** Returns true if the runtime knows an IANA time zone name */
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-AU', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Schema for game statistics query parameters (GET /api/games/stats). The
+// range is of local days in the time zone, and both ends are included.
+export const GameStatsQuerySchema = z
+  .object({
+    mode: GameModeSchema.default('standard'),
+    from: z.string().date().optional(),
+    to: z.string().date().optional(),
+    timezone: z.string().max(64).refine(isTimeZone, 'Unknown time zone').default('UTC'),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+// A newly started game (POST /api/games)
+export const NewGameSchema = z.object({
+  game_id: z.string().uuid(),
+  mode: GameModeSchema,
+  target_word_length: z.literal(WORD_LENGTH),
+  max_guesses: z.literal(MAX_GUESSES),
+  status: z.literal('in_progress'),
+  created_at: z.string().datetime(),
+});
+
+// The outcome of one guess
+export const GuessResultSchema = z.object({
+  guess_number: z.number().int().min(1).max(MAX_GUESSES),
+  feedback: z.array(LetterFeedbackSchema).length(WORD_LENGTH),
+  game_status: GameStatusSchema,
+  target_word: WordSchema.nullable(),
+});
+
+// A game with its guesses so far (GET /api/games/:gameId)
+export const GameStateSchema = z
+  .object({
+    game_id: z.string().uuid(),
+    mode: GameModeSchema,
+    status: GameStatusSchema,
+    guesses: z.array(
+      z.object({
+        guess: WordSchema,
+        feedback: z.array(LetterFeedbackSchema).length(WORD_LENGTH),
+      }),
+    ),
+    max_guesses: z.literal(MAX_GUESSES),
+    target_word: WordSchema.nullable(),
+    created_at: z.string().datetime(),
+    completed_at: z.string().datetime().nullable(),
+  })
+  .refine((game) => game.status !== 'in_progress' || game.target_word === null, {
+    message: 'The answer must not be revealed before the game is over',
+    path: ['target_word'],
+  });
+
+// One finished game in the history (GET /api/games/history)
+export const GameHistoryItemSchema = z.object({
+  game_id: z.string().uuid(),
+  mode: GameModeSchema,
+  target_word: WordSchema,
+  status: z.enum(['won', 'lost']),
+  guesses_taken: z.number().int().min(1).max(MAX_GUESSES),
+  completed_at: z.string().datetime(),
+});
+
+// Statistics over finished games in one mode (GET /api/games/stats). Streaks
+// count consecutive local days whose last game was won.
+export const GameStatsSchema = z.object({
+  total_games: z.number().int().min(0),
+  games_won: z.number().int().min(0),
+  win_percentage: z.number().min(0).max(100),
+  current_streak: z.number().int().min(0),
+  max_streak: z.number().int().min(0),
+  guess_distribution: z.object({
+    '1': z.number().int().min(0),
+    '2': z.number().int().min(0),
+    '3': z.number().int().min(0),
+    '4': z.number().int().min(0),
+    '5': z.number().int().min(0),
+    '6': z.number().int().min(0),
+    failed: z.number().int().min(0),
+  }),
+});
+
+// A finished game's result as it is shared publicly (GET /api/public/shares/:shareId):
+// coloured squares only, never letters
+export const SharedGameSchema = z.object({
+  header: z.string(),
+  grid: z.array(z.string()).max(MAX_GUESSES),
+  text: z.string(),
+});
+
+// A player's own shareable result (GET /api/games/:gameId/share), with the
+// public link once one has been created
+export const GameShareSchema = SharedGameSchema.extend({
+  share_url: z.string().url().nullable(),
+});
+
+// Response envelope schemas
+export const NewGameResponseSchema = z.object({ data: NewGameSchema });
+export const GuessResultResponseSchema = z.object({ data: GuessResultSchema });
+export const GameStateResponseSchema = z.object({ data: GameStateSchema });
+export const GameHistoryResponseSchema = z.object({ data: z.array(GameHistoryItemSchema) });
+export const GameStatsResponseSchema = z.object({ data: GameStatsSchema });
+export const SharedGameResponseSchema = z.object({ data: SharedGameSchema });
+export const GameShareResponseSchema = z.object({ data: GameShareSchema });
+
+// Inferred types for use in handlers
+export type GameStatus = z.infer<typeof GameStatusSchema>;
+export type GameMode = z.infer<typeof GameModeSchema>;
+export type CreateGame = z.infer<typeof CreateGameSchema>;
+export type LetterFeedback = z.infer<typeof LetterFeedbackSchema>;
+export type SubmitGuess = z.infer<typeof SubmitGuessSchema>;
+export type GameParams = z.infer<typeof GameParamsSchema>;
+export type GameHistoryQuery = z.infer<typeof GameHistoryQuerySchema>;
+export type GameStatsQuery = z.infer<typeof GameStatsQuerySchema>;
+export type NewGame = z.infer<typeof NewGameSchema>;
+export type GuessResult = z.infer<typeof GuessResultSchema>;
+export type GameState = z.infer<typeof GameStateSchema>;
+export type GameHistoryItem = z.infer<typeof GameHistoryItemSchema>;
+export type GameStats = z.infer<typeof GameStatsSchema>;
+export type SharedGame = z.infer<typeof SharedGameSchema>;
+export type GameShare = z.infer<typeof GameShareSchema>;
@@ -0,0 +1,63 @@
+/**
+ * @file Bookmark import schemas
+ * @purpose Zod schemas for validating import requests, third-party export
+ *          records, and the import report returned to the client
+ * @inputs Raw import request bodies and parsed export file records
+ * @outputs Typed and validated import requests and records
+ * @invariants Import content size and record count are bounded so a single
+ *             import stays within Workers CPU and subrequest limits.
+ * @spec SPEC-2026-12
+ */
+
+import { z } from 'zod';
+
+/** Largest export file accepted, in characters */
+export const MAX_IMPORT_CONTENT_LENGTH = 2_000_000;
+
+/** Largest number of bookmarks accepted in one import */
+export const MAX_IMPORT_RECORDS = 1000;
+
+export const ImportFormatSchema = z.enum(['netscape', 'pocket', 'pinboard']);
+
+// Schema for import requests (POST /api/bookmarks/import)
+export const ImportRequestSchema = z.object({
+  format: ImportFormatSchema,
+  content: z.string().min(1).max(MAX_IMPORT_CONTENT_LENGTH),
+  on_duplicate: z.enum(['skip', 'merge']).default('skip'),
+});
+
+// One entry of a Pinboard JSON export (posts/all?format=json)
+export const PinboardRecordSchema = z.object({
+  href: z.string(),
+  description: z.string().optional(),
+  extended: z.string().optional(),
+  tags: z.string().optional(),
+  time: z.string().optional(),
+});
+
+const ImportReportEntrySchema = z.object({
+  position: z.number().int(),
+  url: z.string().optional(),
+  id: z.string().uuid().optional(),
+  reason: z.string().optional(),
+});
+
+export const ImportReportSchema = z.object({
+  summary: z.object({
+    total: z.number().int(),
+    created: z.number().int(),
+    merged: z.number().int(),
+    skipped: z.number().int(),
+    rejected: z.number().int(),
+  }),
+  created: z.array(ImportReportEntrySchema),
+  merged: z.array(ImportReportEntrySchema),
+  skipped: z.array(ImportReportEntrySchema),
+  rejected: z.array(ImportReportEntrySchema),
+});
+
+// Inferred types for use in handlers
+export type ImportFormat = z.infer<typeof ImportFormatSchema>;
+export type ImportRequest = z.infer<typeof ImportRequestSchema>;
+export type ImportReportEntry = z.infer<typeof ImportReportEntrySchema>;
+export type ImportReport = z.infer<typeof ImportReportSchema>;
@@ -0,0 +1,87 @@
+/**
+ * @file Tag management schemas
+ * @purpose Zod schemas for the tag listing, suggestion, rename, merge and
+ *          delete endpoints
+ * @inputs Raw request bodies and route parameters
+ * @outputs Typed and validated tag operations
+ * @invariants Tag values obey the same limits as tags on bookmarks
+ * @spec SPEC-2026-12
+ */
+
+import { z } from 'zod';
+import { TagSchema, NonEmptyTagListSchema } from './bookmark.js';
+
+// Schema for route parameters (/api/bookmarks/tags/:tag)
+export const TagParamsSchema = z.object({
+  tag: TagSchema,
+});
+
+// Schema for renaming a tag (PATCH /api/bookmarks/tags/:tag)
+export const RenameTagSchema = z.object({
+  name: TagSchema,
+});
+
+// Schema for merging tags into one (POST /api/bookmarks/tags/merge)
+export const MergeTagsSchema = z.object({
+  sources: NonEmptyTagListSchema,
+  target: TagSchema,
+});
+
+// Schema for tag listing query parameters (GET /api/bookmarks/tags)
+export const TagListQuerySchema = z.object({
+  format: z.enum(['flat', 'tree']).default('flat'),
+});
+
+// Small result counts for autocomplete and suggestions
+const SuggestLimitSchema = z.number().int().min(1).max(50);
+
+// Schema for tag autocomplete query parameters (GET /api/bookmarks/tags/suggest)
+export const TagPrefixQuerySchema = z.object({
+  prefix: z.string().trim().toLowerCase().min(1).max(50),
+  limit: z.string().regex(/^\d+$/).transform(Number).pipe(SuggestLimitSchema).default('10'),
+});
+
+// Schema for tag suggestion requests (POST /api/bookmarks/tags/suggest)
+export const SuggestTagsSchema = z.object({
+  url: z.string().url().max(2048),
+  title: z.string().max(500).optional(),
+  description: z.string().max(2000).optional(),
+  limit: SuggestLimitSchema.default(10),
+});
+
+// An existing tag suggested for a page, with the signals that support it
+export const TagSuggestionSchema = z.object({
+  tag: z.string(),
+  score: z.number(),
+  sources: z.array(z.enum(['domain', 'keywords', 'name'])),
+});
+
+// Usage of a single tag across the user's active bookmarks
+export const TagUsageSchema = z.object({
+  tag: z.string(),
+  count: z.number().int(),
+  last_used_at: z.string().datetime(),
+});
+
+// Response envelope schemas
+export const TagListResponseSchema = z.object({
+  data: z.array(TagUsageSchema),
+});
+
+export const TagSuggestionResponseSchema = z.object({
+  data: z.array(TagSuggestionSchema),
+});
+
+export const TagChangeResponseSchema = z.object({
+  data: z.object({ updated: z.number().int() }),
+});
+
+// Inferred types for use in handlers
+export type TagListQuery = z.infer<typeof TagListQuerySchema>;
+export type TagParams = z.infer<typeof TagParamsSchema>;
+export type RenameTag = z.infer<typeof RenameTagSchema>;
+export type MergeTags = z.infer<typeof MergeTagsSchema>;
+export type TagUsage = z.infer<typeof TagUsageSchema>;
+export type TagPrefixQuery = z.infer<typeof TagPrefixQuerySchema>;
+export type SuggestTags = z.infer<typeof SuggestTagsSchema>;
+export type TagSuggestion = z.infer<typeof TagSuggestionSchema>;
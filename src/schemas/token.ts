@@ -0,0 +1,66 @@
+/**
+ * @file API token validation schemas
+ * @purpose Zod schemas for validating personal API token requests and responses
+ * @inputs Raw request bodies, route parameters, and database records
+ * @outputs Typed and validated token data
+ * @invariants Token hashes never appear in any response schema; the token
+ *             itself only appears in the response to its creation
+ * @spec SPEC-2026-12
+ */
+
+import { z } from 'zod';
+
+/** Permissions a personal API token can be granted */
+export const API_TOKEN_SCOPES = [
+  'bookmarks:read',
+  'bookmarks:write',
+  'collections:read',
+  'collections:write',
+  'games:read',
+  'games:write',
+] as const;
+
+export const ApiTokenScopeSchema = z.enum(API_TOKEN_SCOPES);
+
+// Core token entity schema, as listed to its owner
+export const ApiTokenSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100),
+  token_prefix: z.string(),
+  scopes: z.array(ApiTokenScopeSchema),
+  created_at: z.string().datetime(),
+  last_used_at: z.string().datetime().nullable(),
+  expires_at: z.string().datetime().nullable(),
+});
+
+// Schema for creating tokens (POST requests); tokens never expire unless
+// expires_in_days is given
+export const CreateApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z
+    .array(ApiTokenScopeSchema)
+    .min(1)
+    .transform((scopes) => [...new Set(scopes)]),
+  expires_in_days: z.number().int().min(1).max(365).optional(),
+});
+
+// Schema for route parameters
+export const ApiTokenParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// Response envelope schemas
+export const CreatedApiTokenResponseSchema = z.object({
+  data: ApiTokenSchema.extend({ token: z.string() }),
+});
+
+export const ApiTokenListResponseSchema = z.object({
+  data: z.array(ApiTokenSchema),
+});
+
+// Inferred types for use in handlers
+export type ApiTokenScope = z.infer<typeof ApiTokenScopeSchema>;
+export type ApiToken = z.infer<typeof ApiTokenSchema>;
+export type CreateApiToken = z.infer<typeof CreateApiTokenSchema>;
+export type CreatedApiToken = ApiToken & { token: string };
+export type ApiTokenParams = z.infer<typeof ApiTokenParamsSchema>;
@@ -0,0 +1,51 @@
+-- Add ranked full-text search over bookmark title, description and URL
+-- @spec SPEC-2026-12
+
+-- URL host and path are tokenised by replacing punctuation with spaces, so
+-- "https://docs.example.com/guides/intro?ref=x" contributes
+-- "docs example com guides intro". Scheme, query string and fragment are
+-- excluded because they carry no useful search terms.
+ALTER TABLE bookmarks ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(
+      to_tsvector(
+        'english',
+        regexp_replace(
+          regexp_replace(url, '^[a-z][a-z0-9+.-]*://|[?#].*$', '', 'gi'),
+          '[^[:alnum:]]+', ' ', 'g'
+        )
+      ),
+      'C'
+    )
+  ) STORED;
+
+CREATE INDEX idx_bookmarks_search ON bookmarks USING GIN(search_vector);
+
+-- Search entry point for the API. Returns matching bookmarks with their
+-- relevance rank so PostgREST filters, ordering and limits can be applied
+-- on top of the result set exactly as they are for the bookmarks table.
+-- SECURITY INVOKER keeps the caller's RLS policies in force.
+CREATE OR REPLACE FUNCTION search_bookmarks(search_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  url TEXT,
+  title TEXT,
+  description TEXT,
+  tags TEXT[],
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  search_rank REAL
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    b.id, b.user_id, b.url, b.title, b.description, b.tags,
+    b.created_at, b.updated_at, b.deleted_at,
+    ts_rank_cd(b.search_vector, q) AS search_rank
+  FROM bookmarks b, websearch_to_tsquery('english', search_query) AS q
+  WHERE b.search_vector @@ q;
+$$;
@@ -0,0 +1,12 @@
+-- Support keyset pagination over every sort order the list endpoint offers
+-- @spec SPEC-2026-12
+
+-- Pages are ordered by (sort key, id) so rows sharing a sort value keep a
+-- stable position. Each index matches one of those orderings for active rows.
+DROP INDEX IF EXISTS idx_bookmarks_active;
+CREATE INDEX idx_bookmarks_active ON bookmarks(user_id, created_at DESC, id DESC)
+  WHERE deleted_at IS NULL;
+CREATE INDEX idx_bookmarks_active_updated ON bookmarks(user_id, updated_at DESC, id DESC)
+  WHERE deleted_at IS NULL;
+CREATE INDEX idx_bookmarks_active_title ON bookmarks(user_id, title, id)
+  WHERE deleted_at IS NULL;
@@ -0,0 +1,59 @@
+-- Trash view, restore and permanent purge for soft-deleted bookmarks
+-- @spec SPEC-2026-12
+
+-- Users can see all of their own bookmarks, including trashed ones, so the
+-- trash can be listed and restored. Active-only reads filter on deleted_at
+-- in the application.
+DROP POLICY "Users can view their own bookmarks" ON bookmarks;
+CREATE POLICY "Users can view their own bookmarks" ON bookmarks
+  FOR SELECT USING (
+    user_id = auth.uid()
+  );
+
+-- The two overlapping UPDATE policies collapse into one: soft delete,
+-- restore and edits are all updates to a row the user owns.
+DROP POLICY "Users can update their own bookmarks" ON bookmarks;
+DROP POLICY "Users can delete their own bookmarks" ON bookmarks;
+CREATE POLICY "Users can update their own bookmarks" ON bookmarks
+  FOR UPDATE USING (
+    user_id = auth.uid()
+  ) WITH CHECK (
+    user_id = auth.uid()
+  );
+
+-- Users can permanently delete their own bookmarks
+CREATE POLICY "Users can permanently delete their own bookmarks" ON bookmarks
+  FOR DELETE USING (
+    user_id = auth.uid()
+  );
+
+-- Supports the trash listing and the retention purge
+CREATE INDEX idx_bookmarks_trash ON bookmarks(user_id, deleted_at DESC, id DESC)
+  WHERE deleted_at IS NOT NULL;
+
+-- Purges trash older than the retention window across all users.
+-- Called by the scheduled Worker with the service role only: it bypasses
+-- RLS by design, so it must never be executable by API users.
+CREATE OR REPLACE FUNCTION purge_deleted_bookmarks(retention_days INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  IF retention_days < 1 THEN
+    RAISE EXCEPTION 'retention_days must be at least 1';
+  END IF;
+
+  DELETE FROM bookmarks
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < NOW() - make_interval(days => retention_days);
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_deleted_bookmarks(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_deleted_bookmarks(INTEGER) TO service_role;
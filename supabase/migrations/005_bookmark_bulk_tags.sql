@@ -0,0 +1,54 @@
+-- Set-based tag updates for the bulk bookmark endpoint
+-- @spec SPEC-2026-12
+
+-- Appends tags to an existing array, dropping duplicates while keeping the
+-- first occurrence of each tag in its original position.
+CREATE OR REPLACE FUNCTION merge_tag_arrays(existing TEXT[], additions TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(tag ORDER BY first_position), '{}')
+  FROM (
+    SELECT tag, MIN(position) AS first_position
+    FROM unnest(COALESCE(existing, '{}') || COALESCE(additions, '{}'))
+      WITH ORDINALITY AS t(tag, position)
+    GROUP BY tag
+  ) deduplicated;
+$$;
+
+-- Adds, removes or replaces tags on many active bookmarks in one statement.
+-- Bookmarks whose result would exceed the 20-tag limit are left unchanged
+-- and reported with applied = false, so one oversized row cannot fail the
+-- whole batch. IDs that are missing, trashed or not visible under RLS are
+-- simply absent from the result.
+CREATE OR REPLACE FUNCTION bulk_apply_tags(
+  bookmark_ids UUID[],
+  tag_action TEXT,
+  tag_values TEXT[]
+)
+RETURNS TABLE (bookmark_id UUID, applied BOOLEAN)
+LANGUAGE sql VOLATILE SECURITY INVOKER
+AS $$
+  WITH computed AS (
+    SELECT
+      b.id AS target_id,
+      CASE tag_action
+        WHEN 'add' THEN merge_tag_arrays(b.tags, tag_values)
+        WHEN 'remove' THEN ARRAY(
+          SELECT t FROM unnest(COALESCE(b.tags, '{}')) AS t WHERE t <> ALL (tag_values)
+        )
+        WHEN 'replace' THEN merge_tag_arrays('{}', tag_values)
+      END AS new_tags
+    FROM bookmarks b
+    WHERE b.id = ANY (bookmark_ids) AND b.deleted_at IS NULL
+  ),
+  updated AS (
+    UPDATE bookmarks b
+    SET tags = NULLIF(c.new_tags, '{}')
+    FROM computed c
+    WHERE b.id = c.target_id AND cardinality(c.new_tags) <= 20
+    RETURNING b.id
+  )
+  SELECT c.target_id, EXISTS (SELECT 1 FROM updated u WHERE u.id = c.target_id)
+  FROM computed c;
+$$;
@@ -0,0 +1,61 @@
+-- Bulk import of bookmarks from third-party export files
+-- @spec SPEC-2026-12
+
+-- Inserts validated import records in one statement and reports the outcome
+-- for each record position:
+--   created   - a new bookmark was inserted
+--   duplicate - an active bookmark with the same URL exists and was left as is
+--   merged    - the record's tags were merged into the existing bookmark
+--   tag_limit - merging would exceed the 20-tag limit, so nothing changed
+-- Records must already be validated and free of duplicate URLs among
+-- themselves. SECURITY INVOKER keeps inserts and updates under RLS.
+CREATE OR REPLACE FUNCTION import_bookmarks(records JSONB, merge_duplicates BOOLEAN)
+RETURNS TABLE (record_position INTEGER, outcome TEXT, bookmark_id UUID)
+LANGUAGE sql VOLATILE SECURITY INVOKER
+AS $$
+  WITH input AS (
+    SELECT
+      (r->>'position')::INTEGER AS position,
+      r->>'url' AS url,
+      r->>'title' AS title,
+      r->>'description' AS description,
+      NULLIF(ARRAY(SELECT jsonb_array_elements_text(COALESCE(r->'tags', '[]'))), '{}') AS tags,
+      COALESCE((r->>'created_at')::TIMESTAMPTZ, NOW()) AS created_at
+    FROM jsonb_array_elements(records) AS r
+  ),
+  existing AS (
+    SELECT DISTINCT ON (i.position) i.position, b.id, i.tags AS import_tags
+    FROM input i
+    JOIN bookmarks b ON b.url = i.url AND b.deleted_at IS NULL
+    ORDER BY i.position, b.created_at
+  ),
+  inserted AS (
+    INSERT INTO bookmarks (user_id, url, title, description, tags, created_at)
+    SELECT auth.uid(), i.url, i.title, i.description, i.tags, i.created_at
+    FROM input i
+    WHERE NOT EXISTS (SELECT 1 FROM existing e WHERE e.position = i.position)
+    RETURNING id, url
+  ),
+  merged AS (
+    UPDATE bookmarks b
+    SET tags = NULLIF(merge_tag_arrays(b.tags, e.import_tags), '{}')
+    FROM existing e
+    WHERE merge_duplicates
+      AND b.id = e.id
+      AND cardinality(merge_tag_arrays(b.tags, e.import_tags)) <= 20
+    RETURNING b.id
+  )
+  SELECT i.position, 'created', ins.id
+  FROM input i
+  JOIN inserted ins ON ins.url = i.url
+  UNION ALL
+  SELECT
+    e.position,
+    CASE
+      WHEN NOT merge_duplicates THEN 'duplicate'
+      WHEN EXISTS (SELECT 1 FROM merged m WHERE m.id = e.id) THEN 'merged'
+      ELSE 'tag_limit'
+    END,
+    e.id
+  FROM existing e;
+$$;
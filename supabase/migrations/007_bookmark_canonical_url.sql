@@ -0,0 +1,150 @@
+-- Canonical URLs for duplicate detection
+-- @spec SPEC-2026-12
+
+-- The application writes canonical_url on every insert and URL change
+-- (src/lib/url-canonical.ts is the source of truth). Rows saved before
+-- this migration are backfilled by the one-off function below, which
+-- applies the same rules: lowercase scheme and host, no default port,
+-- no fragment, no utm_* or click-id parameters.
+ALTER TABLE bookmarks ADD COLUMN canonical_url TEXT;
+
+CREATE FUNCTION pg_temp.canonicalize_url(raw TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  parts TEXT[];
+  scheme TEXT;
+  authority TEXT;
+  kept TEXT;
+BEGIN
+  parts := regexp_match(raw, '^([^:/?#]+)://([^/?#]*)([^?#]*)(?:\?([^#]*))?');
+  IF parts IS NULL THEN
+    RETURN raw;
+  END IF;
+
+  scheme := lower(parts[1]);
+  authority := lower(parts[2]);
+  IF scheme = 'http' THEN
+    authority := regexp_replace(authority, ':80$', '');
+  ELSIF scheme = 'https' THEN
+    authority := regexp_replace(authority, ':443$', '');
+  END IF;
+
+  SELECT string_agg(param, '&' ORDER BY ordinality) INTO kept
+  FROM unnest(string_to_array(parts[4], '&')) WITH ORDINALITY AS p(param, ordinality)
+  WHERE param <> ''
+    AND lower(split_part(param, '=', 1)) !~ '^utm_'
+    AND lower(split_part(param, '=', 1)) NOT IN (
+      'fbclid', 'gclid', 'gclsrc', 'dclid', 'msclkid', 'yclid', 'igshid',
+      'mc_cid', 'mc_eid', 'mkt_tok', '_hsenc', '_hsmi'
+    );
+
+  RETURN scheme || '://' || authority || COALESCE(NULLIF(parts[3], ''), '/')
+    || COALESCE('?' || kept, '');
+END;
+$$;
+
+UPDATE bookmarks SET canonical_url = pg_temp.canonicalize_url(url);
+
+ALTER TABLE bookmarks ALTER COLUMN canonical_url SET NOT NULL;
+
+-- Supports the duplicate check on create and the duplicates report
+CREATE INDEX idx_bookmarks_canonical_url ON bookmarks(user_id, canonical_url)
+  WHERE deleted_at IS NULL;
+
+-- Groups of active bookmarks that share a canonical URL. security_invoker
+-- makes the view apply the caller's RLS policies on bookmarks.
+CREATE VIEW bookmark_duplicate_groups WITH (security_invoker = true) AS
+  SELECT
+    user_id,
+    canonical_url,
+    array_agg(id ORDER BY created_at, id) AS bookmark_ids,
+    count(*)::INTEGER AS bookmark_count
+  FROM bookmarks
+  WHERE deleted_at IS NULL
+  GROUP BY user_id, canonical_url
+  HAVING count(*) > 1;
+
+-- search_bookmarks returns the bookmark row shape, so it is recreated with
+-- the new column. The return type cannot change in place.
+DROP FUNCTION search_bookmarks(TEXT);
+
+CREATE FUNCTION search_bookmarks(search_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  url TEXT,
+  canonical_url TEXT,
+  title TEXT,
+  description TEXT,
+  tags TEXT[],
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  search_rank REAL
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    b.id, b.user_id, b.url, b.canonical_url, b.title, b.description, b.tags,
+    b.created_at, b.updated_at, b.deleted_at,
+    ts_rank_cd(b.search_vector, q) AS search_rank
+  FROM bookmarks b, websearch_to_tsquery('english', search_query) AS q
+  WHERE b.search_vector @@ q;
+$$;
+
+-- Imports now match existing bookmarks on canonical URL. Records carry the
+-- canonical_url computed by the application and must be free of duplicate
+-- canonical URLs among themselves.
+CREATE OR REPLACE FUNCTION import_bookmarks(records JSONB, merge_duplicates BOOLEAN)
+RETURNS TABLE (record_position INTEGER, outcome TEXT, bookmark_id UUID)
+LANGUAGE sql VOLATILE SECURITY INVOKER
+AS $$
+  WITH input AS (
+    SELECT
+      (r->>'position')::INTEGER AS position,
+      r->>'url' AS url,
+      r->>'canonical_url' AS canonical_url,
+      r->>'title' AS title,
+      r->>'description' AS description,
+      NULLIF(ARRAY(SELECT jsonb_array_elements_text(COALESCE(r->'tags', '[]'))), '{}') AS tags,
+      COALESCE((r->>'created_at')::TIMESTAMPTZ, NOW()) AS created_at
+    FROM jsonb_array_elements(records) AS r
+  ),
+  existing AS (
+    SELECT DISTINCT ON (i.position) i.position, b.id, i.tags AS import_tags
+    FROM input i
+    JOIN bookmarks b ON b.canonical_url = i.canonical_url AND b.deleted_at IS NULL
+    ORDER BY i.position, b.created_at
+  ),
+  inserted AS (
+    INSERT INTO bookmarks (user_id, url, canonical_url, title, description, tags, created_at)
+    SELECT auth.uid(), i.url, i.canonical_url, i.title, i.description, i.tags, i.created_at
+    FROM input i
+    WHERE NOT EXISTS (SELECT 1 FROM existing e WHERE e.position = i.position)
+    RETURNING id, canonical_url
+  ),
+  merged AS (
+    UPDATE bookmarks b
+    SET tags = NULLIF(merge_tag_arrays(b.tags, e.import_tags), '{}')
+    FROM existing e
+    WHERE merge_duplicates
+      AND b.id = e.id
+      AND cardinality(merge_tag_arrays(b.tags, e.import_tags)) <= 20
+    RETURNING b.id
+  )
+  SELECT i.position, 'created', ins.id
+  FROM input i
+  JOIN inserted ins ON ins.canonical_url = i.canonical_url
+  UNION ALL
+  SELECT
+    e.position,
+    CASE
+      WHEN NOT merge_duplicates THEN 'duplicate'
+      WHEN EXISTS (SELECT 1 FROM merged m WHERE m.id = e.id) THEN 'merged'
+      ELSE 'tag_limit'
+    END,
+    e.id
+  FROM existing e;
+$$;
@@ -0,0 +1,44 @@
+-- Page metadata fetched when a bookmark is created without a title
+-- @spec SPEC-2026-12
+
+-- All nullable: bookmarks created with a title, imported, or whose page
+-- could not be fetched have no enrichment. enriched_at records when the
+-- page was read.
+ALTER TABLE bookmarks
+  ADD COLUMN site_name TEXT CHECK (length(site_name) <= 200),
+  ADD COLUMN favicon_url TEXT CHECK (length(favicon_url) <= 2048),
+  ADD COLUMN page_canonical_url TEXT CHECK (length(page_canonical_url) <= 2048),
+  ADD COLUMN enriched_at TIMESTAMPTZ;
+
+-- search_bookmarks returns the bookmark row shape, so it is recreated with
+-- the new columns. The return type cannot change in place.
+DROP FUNCTION search_bookmarks(TEXT);
+
+CREATE FUNCTION search_bookmarks(search_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  url TEXT,
+  canonical_url TEXT,
+  title TEXT,
+  description TEXT,
+  tags TEXT[],
+  site_name TEXT,
+  favicon_url TEXT,
+  page_canonical_url TEXT,
+  enriched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  search_rank REAL
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    b.id, b.user_id, b.url, b.canonical_url, b.title, b.description, b.tags,
+    b.site_name, b.favicon_url, b.page_canonical_url, b.enriched_at,
+    b.created_at, b.updated_at, b.deleted_at,
+    ts_rank_cd(b.search_vector, q) AS search_rank
+  FROM bookmarks b, websearch_to_tsquery('english', search_query) AS q
+  WHERE b.search_vector @@ q;
+$$;
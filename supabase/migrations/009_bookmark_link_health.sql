@@ -0,0 +1,132 @@
+-- Link health: last check result per bookmark
+-- @spec SPEC-2026-12
+
+-- All nullable: a bookmark that has never been checked has no health.
+ALTER TABLE bookmarks
+  ADD COLUMN health_status TEXT CHECK (health_status IN ('ok', 'redirected', 'broken')),
+  ADD COLUMN last_status_code INTEGER,
+  ADD COLUMN redirect_url TEXT CHECK (length(redirect_url) <= 2048),
+  ADD COLUMN last_checked_at TIMESTAMPTZ;
+
+-- Supports ?health= filtering of a user's active bookmarks
+CREATE INDEX idx_bookmarks_health ON bookmarks(user_id, health_status)
+  WHERE deleted_at IS NULL AND health_status IS NOT NULL;
+
+-- Supports picking the least recently checked bookmarks across all users
+CREATE INDEX idx_bookmarks_health_due ON bookmarks(last_checked_at NULLS FIRST)
+  WHERE deleted_at IS NULL;
+
+-- Recording a check is not an edit, so it must not move updated_at (which
+-- orders lists and tells clients a bookmark changed). The timestamp is
+-- bumped only when a column other than the health columns changes.
+-- search_vector is excluded because generated columns are not yet
+-- computed in BEFORE triggers.
+CREATE OR REPLACE FUNCTION update_bookmarks_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  untracked TEXT[] := ARRAY[
+    'updated_at', 'search_vector',
+    'health_status', 'last_status_code', 'redirect_url', 'last_checked_at'
+  ];
+BEGIN
+  IF to_jsonb(NEW) - untracked = to_jsonb(OLD) - untracked THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER update_bookmarks_updated_at ON bookmarks;
+CREATE TRIGGER update_bookmarks_updated_at BEFORE UPDATE ON bookmarks
+  FOR EACH ROW EXECUTE FUNCTION update_bookmarks_updated_at();
+
+-- Returns the active bookmarks checked least recently, never-checked first.
+-- Called by the scheduled Worker with the service role only.
+CREATE OR REPLACE FUNCTION links_due_for_check(batch_size INTEGER)
+RETURNS TABLE (bookmark_id UUID, url TEXT)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id, url
+  FROM bookmarks
+  WHERE deleted_at IS NULL
+  ORDER BY last_checked_at NULLS FIRST, id
+  LIMIT LEAST(batch_size, 100);
+$$;
+
+-- Stores a batch of check results. Only health columns can be written.
+-- Called by the scheduled Worker with the service role only.
+CREATE OR REPLACE FUNCTION record_link_health(results JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recorded INTEGER;
+BEGIN
+  UPDATE bookmarks b
+  SET
+    health_status = r.health_status,
+    last_status_code = r.last_status_code,
+    redirect_url = r.redirect_url,
+    last_checked_at = r.last_checked_at
+  FROM jsonb_to_recordset(results) AS r(
+    id UUID,
+    health_status TEXT,
+    last_status_code INTEGER,
+    redirect_url TEXT,
+    last_checked_at TIMESTAMPTZ
+  )
+  WHERE b.id = r.id;
+
+  GET DIAGNOSTICS recorded = ROW_COUNT;
+  RETURN recorded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION links_due_for_check(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION links_due_for_check(INTEGER) TO service_role;
+REVOKE EXECUTE ON FUNCTION record_link_health(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_link_health(JSONB) TO service_role;
+
+-- search_bookmarks returns the bookmark row shape, so it is recreated with
+-- the new columns. The return type cannot change in place.
+DROP FUNCTION search_bookmarks(TEXT);
+
+CREATE FUNCTION search_bookmarks(search_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  url TEXT,
+  canonical_url TEXT,
+  title TEXT,
+  description TEXT,
+  tags TEXT[],
+  site_name TEXT,
+  favicon_url TEXT,
+  page_canonical_url TEXT,
+  enriched_at TIMESTAMPTZ,
+  health_status TEXT,
+  last_status_code INTEGER,
+  redirect_url TEXT,
+  last_checked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  search_rank REAL
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    b.id, b.user_id, b.url, b.canonical_url, b.title, b.description, b.tags,
+    b.site_name, b.favicon_url, b.page_canonical_url, b.enriched_at,
+    b.health_status, b.last_status_code, b.redirect_url, b.last_checked_at,
+    b.created_at, b.updated_at, b.deleted_at,
+    ts_rank_cd(b.search_vector, q) AS search_rank
+  FROM bookmarks b, websearch_to_tsquery('english', search_query) AS q
+  WHERE b.search_vector @@ q;
+$$;
@@ -0,0 +1,168 @@
+-- Collections: user-defined, optionally nested folders for bookmarks
+-- @spec SPEC-2026-12
+
+CREATE TABLE collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Deleting a collection moves its child collections to the top level
+  parent_id UUID REFERENCES collections(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 100),
+  description TEXT CHECK (length(description) <= 500),
+  -- Display order among siblings; ties are broken by name
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_collections_user_parent ON collections(user_id, parent_id, position, name);
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collections" ON collections
+  FOR SELECT USING (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can insert their own collections" ON collections
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can update their own collections" ON collections
+  FOR UPDATE USING (
+    user_id = auth.uid()
+  ) WITH CHECK (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can delete their own collections" ON collections
+  FOR DELETE USING (
+    user_id = auth.uid()
+  );
+
+CREATE TRIGGER update_collections_updated_at BEFORE UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A parent must be another collection of the same user, and must not be the
+-- collection itself or one of its descendants. Foreign keys are checked
+-- without RLS, so ownership is verified here. Raised as foreign_key_violation
+-- so the API can report an unknown collection.
+CREATE OR REPLACE FUNCTION check_collection_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM collections WHERE id = NEW.parent_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'parent collection not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM collections WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id FROM collections c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'collection cannot be nested inside itself'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_collection_parent BEFORE INSERT OR UPDATE OF parent_id ON collections
+  FOR EACH ROW EXECUTE FUNCTION check_collection_parent();
+
+-- Bookmark membership is stored on the bookmark, like tags, so collection
+-- filters chain onto both the bookmarks table and search_bookmarks.
+ALTER TABLE bookmarks
+  ADD COLUMN collection_ids UUID[] NOT NULL DEFAULT '{}'
+    CHECK (cardinality(collection_ids) <= 20);
+
+CREATE INDEX idx_bookmarks_collection_ids ON bookmarks USING GIN(collection_ids);
+
+-- Every collection a bookmark is placed in must belong to the bookmark's owner
+CREATE OR REPLACE FUNCTION check_bookmark_collections()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.collection_ids := ARRAY(SELECT DISTINCT unnest(NEW.collection_ids));
+
+  IF (
+    SELECT count(*) FROM collections
+    WHERE id = ANY(NEW.collection_ids) AND user_id = NEW.user_id
+  ) <> cardinality(NEW.collection_ids) THEN
+    RAISE EXCEPTION 'collection not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_bookmark_collections BEFORE INSERT OR UPDATE OF collection_ids ON bookmarks
+  FOR EACH ROW EXECUTE FUNCTION check_bookmark_collections();
+
+-- Removes a deleted collection from every bookmark that was in it
+CREATE OR REPLACE FUNCTION remove_deleted_collection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE bookmarks
+  SET collection_ids = array_remove(collection_ids, OLD.id)
+  WHERE collection_ids @> ARRAY[OLD.id];
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER remove_deleted_collection AFTER DELETE ON collections
+  FOR EACH ROW EXECUTE FUNCTION remove_deleted_collection();
+
+-- search_bookmarks returns the bookmark row shape, so it is recreated with
+-- the new column. The return type cannot change in place.
+DROP FUNCTION search_bookmarks(TEXT);
+
+CREATE FUNCTION search_bookmarks(search_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  url TEXT,
+  canonical_url TEXT,
+  title TEXT,
+  description TEXT,
+  tags TEXT[],
+  collection_ids UUID[],
+  site_name TEXT,
+  favicon_url TEXT,
+  page_canonical_url TEXT,
+  enriched_at TIMESTAMPTZ,
+  health_status TEXT,
+  last_status_code INTEGER,
+  redirect_url TEXT,
+  last_checked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  search_rank REAL
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    b.id, b.user_id, b.url, b.canonical_url, b.title, b.description, b.tags,
+    b.collection_ids,
+    b.site_name, b.favicon_url, b.page_canonical_url, b.enriched_at,
+    b.health_status, b.last_status_code, b.redirect_url, b.last_checked_at,
+    b.created_at, b.updated_at, b.deleted_at,
+    ts_rank_cd(b.search_vector, q) AS search_rank
+  FROM bookmarks b, websearch_to_tsquery('english', search_query) AS q
+  WHERE b.search_vector @@ q;
+$$;
@@ -0,0 +1,59 @@
+-- Tag usage statistics, rename, merge and delete
+-- @spec SPEC-2026-12
+
+-- Each tag on the caller's active bookmarks with the number of bookmarks
+-- carrying it and the last time one of them was saved or edited.
+-- SECURITY INVOKER keeps the caller's RLS policies in force.
+CREATE OR REPLACE FUNCTION tag_usage()
+RETURNS TABLE (tag TEXT, usage_count INTEGER, last_used_at TIMESTAMPTZ)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT t.tag, count(*)::INTEGER, max(b.updated_at)
+  FROM bookmarks b, unnest(b.tags) AS t(tag)
+  WHERE b.deleted_at IS NULL
+  GROUP BY t.tag;
+$$;
+
+-- Replaces every tag in source_tags with target_tag on all of the caller's
+-- bookmarks, trashed ones included so a restore brings back consistent
+-- tags. A bookmark that already carries the target keeps a single copy in
+-- its first position. Renaming is a merge with one source. Returns the
+-- number of bookmarks changed. The tag count can only shrink, so the
+-- 20-tag limit cannot be exceeded.
+CREATE OR REPLACE FUNCTION rename_tags(source_tags TEXT[], target_tag TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql VOLATILE SECURITY INVOKER
+AS $$
+DECLARE
+  changed INTEGER;
+BEGIN
+  UPDATE bookmarks b
+  SET tags = merge_tag_arrays('{}', ARRAY(
+    SELECT CASE WHEN t = ANY (source_tags) THEN target_tag ELSE t END
+    FROM unnest(b.tags) WITH ORDINALITY AS u(t, position)
+    ORDER BY position
+  ))
+  WHERE b.tags && source_tags;
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$$;
+
+-- Removes a tag from all of the caller's bookmarks, trashed ones included.
+-- Returns the number of bookmarks changed.
+CREATE OR REPLACE FUNCTION delete_tag(tag_name TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql VOLATILE SECURITY INVOKER
+AS $$
+DECLARE
+  changed INTEGER;
+BEGIN
+  UPDATE bookmarks b
+  SET tags = NULLIF(array_remove(b.tags, tag_name), '{}')
+  WHERE b.tags @> ARRAY[tag_name];
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$$;
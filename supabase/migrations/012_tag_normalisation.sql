@@ -0,0 +1,94 @@
+-- Normalised and hierarchical tags
+-- @spec SPEC-2026-12
+
+-- Tags are stored lowercase, with '/' separating hierarchy levels
+-- ("dev/typescript"), each level trimmed with inner whitespace collapsed,
+-- and empty levels dropped. The application normalises every tag it
+-- writes (src/lib/tags.ts); this function applies the same rules to tags
+-- saved before this migration.
+CREATE FUNCTION pg_temp.normalize_tag(tag TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT array_to_string(ARRAY(
+    SELECT level
+    FROM unnest(string_to_array(lower(tag), '/')) WITH ORDINALITY AS u(raw_level, position),
+      LATERAL (SELECT btrim(regexp_replace(raw_level, '\s+', ' ', 'g')) AS level) cleaned
+    WHERE level <> ''
+    ORDER BY position
+  ), '/');
+$$;
+
+-- Normalising is not an edit, so updated_at is left alone
+ALTER TABLE bookmarks DISABLE TRIGGER update_bookmarks_updated_at;
+
+UPDATE bookmarks
+SET tags = NULLIF(merge_tag_arrays('{}', ARRAY(
+  SELECT normalized
+  FROM unnest(tags) WITH ORDINALITY AS u(tag, position),
+    LATERAL (SELECT pg_temp.normalize_tag(tag) AS normalized) n
+  WHERE normalized <> ''
+  ORDER BY position
+)), '{}')
+WHERE tags IS NOT NULL;
+
+ALTER TABLE bookmarks ENABLE TRIGGER update_bookmarks_updated_at;
+
+-- Every tag plus each of its ancestors: {dev/typescript} becomes
+-- {dev, dev/typescript}. Filtering on this column makes tag=dev match
+-- bookmarks tagged with any descendant of dev.
+CREATE OR REPLACE FUNCTION expand_tag_paths(tags TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT array_to_string(levels[1:depth], '/')), '{}')
+  FROM unnest(COALESCE(tags, '{}')) AS t(tag),
+    LATERAL (SELECT string_to_array(t.tag, '/') AS levels) l,
+    LATERAL generate_series(1, cardinality(l.levels)) AS depth;
+$$;
+
+ALTER TABLE bookmarks ADD COLUMN tag_paths TEXT[]
+  GENERATED ALWAYS AS (expand_tag_paths(tags)) STORED;
+
+CREATE INDEX idx_bookmarks_tag_paths ON bookmarks USING GIN(tag_paths);
+
+-- search_bookmarks returns the bookmark row shape, so it is recreated with
+-- the new column. The return type cannot change in place.
+DROP FUNCTION search_bookmarks(TEXT);
+
+CREATE FUNCTION search_bookmarks(search_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  url TEXT,
+  canonical_url TEXT,
+  title TEXT,
+  description TEXT,
+  tags TEXT[],
+  tag_paths TEXT[],
+  collection_ids UUID[],
+  site_name TEXT,
+  favicon_url TEXT,
+  page_canonical_url TEXT,
+  enriched_at TIMESTAMPTZ,
+  health_status TEXT,
+  last_status_code INTEGER,
+  redirect_url TEXT,
+  last_checked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  search_rank REAL
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    b.id, b.user_id, b.url, b.canonical_url, b.title, b.description, b.tags,
+    b.tag_paths, b.collection_ids,
+    b.site_name, b.favicon_url, b.page_canonical_url, b.enriched_at,
+    b.health_status, b.last_status_code, b.redirect_url, b.last_checked_at,
+    b.created_at, b.updated_at, b.deleted_at,
+    ts_rank_cd(b.search_vector, q) AS search_rank
+  FROM bookmarks b, websearch_to_tsquery('english', search_query) AS q
+  WHERE b.search_vector @@ q;
+$$;
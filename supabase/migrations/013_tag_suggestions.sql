@@ -0,0 +1,58 @@
+-- Tag autocomplete and suggestions
+-- @spec SPEC-2026-12
+
+-- Tags on the caller's active bookmarks that start with the prefix, at the
+-- top level or at any hierarchy level ("type" finds "dev/typescript"),
+-- most used first. starts_with keeps the prefix a literal, never a pattern.
+CREATE OR REPLACE FUNCTION autocomplete_tags(prefix TEXT, max_results INTEGER)
+RETURNS TABLE (tag TEXT, usage_count INTEGER, last_used_at TIMESTAMPTZ)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT u.tag, u.usage_count, u.last_used_at
+  FROM tag_usage() u
+  WHERE starts_with(u.tag, prefix) OR strpos(u.tag, '/' || prefix) > 0
+  ORDER BY starts_with(u.tag, prefix) DESC, u.usage_count DESC, u.last_used_at DESC, u.tag
+  LIMIT LEAST(max_results, 50);
+$$;
+
+-- Suggests existing tags for a page from three signals, each scored per
+-- bookmark that supports it:
+--   domain   - tags on bookmarks from the same host (www. ignored), 3 points
+--   keywords - tags on bookmarks whose text matches any keyword, by rank
+--   name     - tags whose last level is itself one of the keywords, 2 points
+-- Keywords must be plain words; they are combined with OR into a web
+-- search query. SECURITY INVOKER keeps the caller's RLS policies in force.
+CREATE OR REPLACE FUNCTION suggest_tags(target_host TEXT, keywords TEXT[], max_results INTEGER)
+RETURNS TABLE (tag TEXT, score REAL, sources TEXT[])
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  WITH tagged AS (
+    SELECT b.canonical_url, b.search_vector, t.tag
+    FROM bookmarks b, unnest(b.tags) AS t(tag)
+    WHERE b.deleted_at IS NULL
+  ),
+  keyword_query AS (
+    SELECT websearch_to_tsquery('english', array_to_string(keywords, ' or ')) AS q
+    WHERE cardinality(keywords) > 0
+  ),
+  signals AS (
+    SELECT tg.tag, 3::REAL AS score, 'domain' AS source
+    FROM tagged tg
+    WHERE regexp_replace(
+      substring(tg.canonical_url FROM '^[a-z][a-z0-9+.-]*://([^/?#:]+)'), '^www\.', ''
+    ) = target_host
+    UNION ALL
+    SELECT tg.tag, ts_rank_cd(tg.search_vector, kq.q), 'keywords'
+    FROM tagged tg, keyword_query kq
+    WHERE tg.search_vector @@ kq.q
+    UNION ALL
+    SELECT DISTINCT tg.tag, 2::REAL, 'name'
+    FROM tagged tg
+    WHERE regexp_replace(tg.tag, '^.*/', '') = ANY (keywords)
+  )
+  SELECT s.tag, sum(s.score)::REAL, array_agg(DISTINCT s.source ORDER BY s.source)
+  FROM signals s
+  GROUP BY s.tag
+  ORDER BY 2 DESC, s.tag
+  LIMIT LEAST(max_results, 50);
+$$;
@@ -0,0 +1,63 @@
+-- Idempotency keys: the stored outcome of mutating requests, per user
+-- @spec SPEC-2026-12
+
+CREATE TABLE idempotency_keys (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (length(key) BETWEEN 1 AND 255),
+  -- SHA-256 of the method, path, query and body the key was first used with
+  request_hash TEXT NOT NULL,
+  -- Null while the first request with the key is still being processed
+  response_status INTEGER,
+  response_content_type TEXT,
+  response_body TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- After this the key is free to be used again
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (user_id, key)
+);
+
+CREATE INDEX idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own idempotency keys" ON idempotency_keys
+  FOR SELECT USING (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can insert their own idempotency keys" ON idempotency_keys
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can update their own idempotency keys" ON idempotency_keys
+  FOR UPDATE USING (
+    user_id = auth.uid()
+  ) WITH CHECK (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can delete their own idempotency keys" ON idempotency_keys
+  FOR DELETE USING (
+    user_id = auth.uid()
+  );
+
+-- Removes expired keys across all users.
+-- Called by the scheduled Worker with the service role only.
+CREATE OR REPLACE FUNCTION purge_expired_idempotency_keys()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM idempotency_keys WHERE expires_at < NOW();
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_idempotency_keys() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_expired_idempotency_keys() TO service_role;
@@ -0,0 +1,65 @@
+-- Personal API tokens: long-lived, scoped credentials for scripts and integrations
+-- @spec SPEC-2026-12
+
+CREATE TABLE api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 100),
+  -- SHA-256 of the token; the token itself is only ever shown once, on creation
+  token_hash TEXT NOT NULL UNIQUE,
+  -- Leading characters of the token, so users can tell their tokens apart
+  token_prefix TEXT NOT NULL,
+  scopes TEXT[] NOT NULL CHECK (cardinality(scopes) > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  -- Null for tokens that never expire
+  expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_api_tokens_user ON api_tokens(user_id, created_at DESC);
+
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API tokens" ON api_tokens
+  FOR SELECT USING (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can insert their own API tokens" ON api_tokens
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can update their own API tokens" ON api_tokens
+  FOR UPDATE USING (
+    user_id = auth.uid()
+  ) WITH CHECK (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can delete their own API tokens" ON api_tokens
+  FOR DELETE USING (
+    user_id = auth.uid()
+  );
+
+-- Looks up an unexpired token by its hash and records that it was used.
+-- Called by the auth middleware before the caller's identity is known, so it
+-- runs as its owner; it only ever reveals the owner and scopes of a token
+-- whose hash the caller already holds.
+CREATE OR REPLACE FUNCTION authenticate_api_token(p_token_hash TEXT)
+RETURNS TABLE (token_id UUID, user_id UUID, scopes TEXT[])
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE api_tokens t
+  SET last_used_at = NOW()
+  WHERE t.token_hash = p_token_hash
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+  RETURNING t.id, t.user_id, t.scopes;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION authenticate_api_token(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION authenticate_api_token(TEXT) TO anon, authenticated;
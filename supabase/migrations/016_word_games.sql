@@ -0,0 +1,246 @@
+-- Word game: games, scored guesses, history and statistics
+-- @spec SPEC-2026-27
+
+CREATE TABLE games (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Never readable through the API; see the column grants below
+  target_word TEXT NOT NULL CHECK (target_word ~ '^[A-Z]{5}$'),
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'won', 'lost')),
+  guesses_taken INTEGER NOT NULL DEFAULT 0 CHECK (guesses_taken BETWEEN 0 AND 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  CHECK ((status = 'in_progress') = (completed_at IS NULL)),
+  CHECK (status <> 'won' OR guesses_taken >= 1),
+  CHECK (status <> 'lost' OR guesses_taken = 6)
+);
+
+CREATE TABLE guesses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  guess_number INTEGER NOT NULL CHECK (guess_number BETWEEN 1 AND 6),
+  guess_word TEXT NOT NULL CHECK (guess_word ~ '^[A-Z]{5}$'),
+  -- Array of {letter, status} objects, one per letter
+  feedback JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (game_id, guess_number)
+);
+
+CREATE INDEX idx_games_user_status ON games(user_id, status);
+CREATE INDEX idx_games_user_completed ON games(user_id, completed_at DESC)
+  WHERE completed_at IS NOT NULL;
+CREATE INDEX idx_guesses_game ON guesses(game_id);
+
+CREATE TRIGGER update_games_updated_at BEFORE UPDATE ON games
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE games ENABLE ROW LEVEL SECURITY;
+ALTER TABLE guesses ENABLE ROW LEVEL SECURITY;
+
+-- Games are started directly but only ever advanced by submit_guess, and
+-- finished games are permanent, so there are no update or delete policies.
+CREATE POLICY "Users can view their own games" ON games
+  FOR SELECT USING (
+    user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can insert their own games" ON games
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND status = 'in_progress' AND guesses_taken = 0
+  );
+
+-- Guesses are only ever written by submit_guess
+CREATE POLICY "Users can view their own guesses" ON guesses
+  FOR SELECT USING (
+    user_id = auth.uid()
+  );
+
+-- The answer must not be readable while a game is in progress, and RLS
+-- cannot hide a single column, so target_word is left out of the column
+-- grants. Finished games reveal it through game_answer and game_history.
+REVOKE SELECT, UPDATE, DELETE ON games FROM anon, authenticated;
+GRANT SELECT (id, user_id, status, guesses_taken, created_at, updated_at, completed_at)
+  ON games TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON guesses FROM anon, authenticated;
+
+-- Scores a guess against the answer: each letter is 'correct' in the right
+-- place, 'present' elsewhere in the answer, or 'absent'. A repeated letter
+-- is only marked present as many times as the answer has it unmatched, and
+-- exact matches claim their letters first.
+CREATE OR REPLACE FUNCTION score_guess(target TEXT, guess TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  statuses TEXT[] := array_fill('absent'::TEXT, ARRAY[5]);
+  -- Answer letters not matched exactly, each usable by one 'present' mark
+  unmatched TEXT[] := '{}';
+  match_at INTEGER;
+BEGIN
+  FOR i IN 1..5 LOOP
+    IF substr(guess, i, 1) = substr(target, i, 1) THEN
+      statuses[i] := 'correct';
+    ELSE
+      unmatched := unmatched || substr(target, i, 1);
+    END IF;
+  END LOOP;
+
+  FOR i IN 1..5 LOOP
+    IF statuses[i] <> 'correct' THEN
+      match_at := array_position(unmatched, substr(guess, i, 1));
+      IF match_at IS NOT NULL THEN
+        statuses[i] := 'present';
+        unmatched := unmatched[1:match_at - 1] || unmatched[match_at + 1:];
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN (
+    SELECT jsonb_agg(
+      jsonb_build_object('letter', substr(guess, n, 1), 'status', statuses[n]) ORDER BY n
+    )
+    FROM generate_series(1, 5) AS n
+  );
+END;
+$$;
+
+-- Scores a guess on one of the caller's games in progress, records it and
+-- moves the game on: won on an exact match, lost after the sixth guess.
+-- The answer is only returned once the game is over. Runs as its owner to
+-- read the answer, so it checks ownership itself; the row lock serialises
+-- concurrent guesses on one game.
+CREATE OR REPLACE FUNCTION submit_guess(p_game_id UUID, p_guess TEXT)
+RETURNS TABLE (guess_number INTEGER, feedback JSONB, game_status TEXT, target_word TEXT)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  game games%ROWTYPE;
+  scored JSONB;
+  next_number INTEGER;
+  next_status TEXT;
+BEGIN
+  IF p_guess IS NULL OR p_guess !~ '^[A-Z]{5}$' THEN
+    RAISE EXCEPTION 'guess must be five letters' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO game FROM games g
+  WHERE g.id = p_game_id AND g.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'game not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF game.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'game is already finished' USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  scored := score_guess(game.target_word, p_guess);
+  next_number := game.guesses_taken + 1;
+  next_status := CASE
+    WHEN p_guess = game.target_word THEN 'won'
+    WHEN next_number = 6 THEN 'lost'
+    ELSE 'in_progress'
+  END;
+
+  INSERT INTO guesses (game_id, user_id, guess_number, guess_word, feedback)
+  VALUES (game.id, game.user_id, next_number, p_guess, scored);
+
+  UPDATE games g
+  SET guesses_taken = next_number,
+      status = next_status,
+      completed_at = CASE WHEN next_status = 'in_progress' THEN NULL ELSE NOW() END
+  WHERE g.id = game.id;
+
+  RETURN QUERY SELECT
+    next_number,
+    scored,
+    next_status,
+    CASE WHEN next_status = 'in_progress' THEN NULL ELSE game.target_word END;
+END;
+$$;
+
+-- The answer to one of the caller's games, or null while it is in progress
+CREATE OR REPLACE FUNCTION game_answer(p_game_id UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT g.target_word
+  FROM games g
+  WHERE g.id = p_game_id AND g.user_id = auth.uid() AND g.status <> 'in_progress';
+$$;
+
+-- The caller's finished games with their answers, most recent first
+CREATE OR REPLACE FUNCTION game_history(max_results INTEGER)
+RETURNS TABLE (
+  game_id UUID,
+  target_word TEXT,
+  status TEXT,
+  guesses_taken INTEGER,
+  completed_at TIMESTAMPTZ
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT g.id, g.target_word, g.status, g.guesses_taken, g.completed_at
+  FROM games g
+  WHERE g.user_id = auth.uid() AND g.status <> 'in_progress'
+  ORDER BY g.completed_at DESC, g.id
+  LIMIT LEAST(max_results, 100);
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_guess(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_guess(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION game_answer(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION game_answer(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION game_history(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION game_history(INTEGER) TO authenticated;
+
+-- Totals, win streaks and the guess distribution over the caller's finished
+-- games. Counting losses in completion order splits the games into runs that
+-- each start at a loss (or the first game); the wins in a run are a streak.
+-- SECURITY INVOKER keeps the caller's RLS policies in force.
+CREATE OR REPLACE FUNCTION game_stats()
+RETURNS TABLE (
+  total_games INTEGER,
+  games_won INTEGER,
+  current_streak INTEGER,
+  max_streak INTEGER,
+  guess_distribution JSONB
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  WITH finished AS (
+    SELECT
+      g.status,
+      g.guesses_taken,
+      count(*) FILTER (WHERE g.status = 'lost') OVER (ORDER BY g.completed_at, g.id) AS run
+    FROM games g
+    WHERE g.status <> 'in_progress'
+  ),
+  runs AS (
+    SELECT run, count(*) FILTER (WHERE status = 'won') AS wins
+    FROM finished
+    GROUP BY run
+  )
+  SELECT
+    (SELECT count(*) FROM finished)::INTEGER,
+    (SELECT count(*) FROM finished WHERE status = 'won')::INTEGER,
+    COALESCE((SELECT wins FROM runs ORDER BY run DESC LIMIT 1), 0)::INTEGER,
+    COALESCE((SELECT max(wins) FROM runs), 0)::INTEGER,
+    (
+      SELECT jsonb_build_object(
+        '1', count(*) FILTER (WHERE status = 'won' AND guesses_taken = 1),
+        '2', count(*) FILTER (WHERE status = 'won' AND guesses_taken = 2),
+        '3', count(*) FILTER (WHERE status = 'won' AND guesses_taken = 3),
+        '4', count(*) FILTER (WHERE status = 'won' AND guesses_taken = 4),
+        '5', count(*) FILTER (WHERE status = 'won' AND guesses_taken = 5),
+        '6', count(*) FILTER (WHERE status = 'won' AND guesses_taken = 6),
+        'failed', count(*) FILTER (WHERE status = 'lost')
+      )
+      FROM finished
+    );
+$$;
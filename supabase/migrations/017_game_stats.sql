@@ -0,0 +1,150 @@
+-- Word game statistics kept as running totals, grouped by local day on read
+-- @spec SPEC-2026-27
+
+-- Finished games counted per quarter hour of completion. Every UTC offset in
+-- use is a whole number of quarter hours (Adelaide is +9:30, Eucla +8:45), so
+-- each bucket falls on a single local day in any time zone and statistics
+-- can be grouped into the player's days without reading individual games.
+CREATE TABLE game_stat_buckets (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bucket_start TIMESTAMPTZ NOT NULL
+    CHECK (bucket_start = date_bin('15 minutes', bucket_start, TIMESTAMPTZ 'epoch')),
+  status TEXT NOT NULL CHECK (status IN ('won', 'lost')),
+  guesses_taken INTEGER NOT NULL CHECK (guesses_taken BETWEEN 1 AND 6),
+  games INTEGER NOT NULL CHECK (games > 0),
+  PRIMARY KEY (user_id, bucket_start, status, guesses_taken)
+);
+
+ALTER TABLE game_stat_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Buckets are only ever written by the trigger below
+CREATE POLICY "Users can view their own game stat buckets" ON game_stat_buckets
+  FOR SELECT USING (
+    user_id = auth.uid()
+  );
+
+REVOKE INSERT, UPDATE, DELETE ON game_stat_buckets FROM anon, authenticated;
+
+-- Counts a game once, when it finishes. Games are only advanced by
+-- submit_guess, which runs as the table owner, so the write is not subject
+-- to the revoked privileges above.
+CREATE OR REPLACE FUNCTION record_game_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO game_stat_buckets (user_id, bucket_start, status, guesses_taken, games)
+  VALUES (
+    NEW.user_id,
+    date_bin('15 minutes', NEW.completed_at, TIMESTAMPTZ 'epoch'),
+    NEW.status,
+    NEW.guesses_taken,
+    1
+  )
+  ON CONFLICT (user_id, bucket_start, status, guesses_taken)
+  DO UPDATE SET games = game_stat_buckets.games + 1;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_game_result AFTER UPDATE OF status ON games
+  FOR EACH ROW
+  WHEN (OLD.status = 'in_progress' AND NEW.status <> 'in_progress')
+  EXECUTE FUNCTION record_game_result();
+
+-- Games finished before this migration
+INSERT INTO game_stat_buckets (user_id, bucket_start, status, guesses_taken, games)
+SELECT
+  user_id,
+  date_bin('15 minutes', completed_at, TIMESTAMPTZ 'epoch'),
+  status,
+  guesses_taken,
+  count(*)
+FROM games
+WHERE status <> 'in_progress'
+GROUP BY 1, 2, 3, 4;
+
+-- game_stats now takes a time zone and an optional range of local days, so
+-- it is recreated rather than replaced.
+DROP FUNCTION game_stats();
+
+-- Totals, streaks and the guess distribution over the caller's games finished
+-- between p_from and p_to, both local days in p_time_zone and inclusive; the
+-- range ends today when p_to is null. A streak is a run of consecutive local
+-- days whose last game was won, so a day that ends in a loss, or a day
+-- without a game, ends it. The current streak is the one that reaches the
+-- last day played, if that is the last day of the range or the day before
+-- it, so a streak is not lost before the player has had a chance to play today.
+-- SECURITY INVOKER keeps the caller's RLS policies in force.
+CREATE FUNCTION game_stats(
+  p_time_zone TEXT DEFAULT 'UTC',
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  total_games INTEGER,
+  games_won INTEGER,
+  current_streak INTEGER,
+  max_streak INTEGER,
+  guess_distribution JSONB
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  WITH period AS (
+    SELECT COALESCE(p_to, (now() AT TIME ZONE p_time_zone)::DATE) AS last_day
+  ),
+  results AS (
+    SELECT
+      (b.bucket_start AT TIME ZONE p_time_zone)::DATE AS day,
+      b.bucket_start,
+      b.status,
+      b.guesses_taken,
+      b.games
+    FROM game_stat_buckets b, period
+    WHERE (p_from IS NULL OR b.bucket_start >= p_from::TIMESTAMP AT TIME ZONE p_time_zone)
+      AND b.bucket_start < (period.last_day + 1)::TIMESTAMP AT TIME ZONE p_time_zone
+  ),
+  -- Each day counts as its last result. Games finished in the same quarter
+  -- hour share a bucket and their order is lost, so a loss there comes last
+  -- ('lost' sorts before 'won').
+  day_results AS (
+    SELECT DISTINCT ON (day) day, status
+    FROM results
+    ORDER BY day, bucket_start DESC, status
+  ),
+  -- Consecutive won days keep the same difference between the day and its rank
+  streaks AS (
+    SELECT max(day) AS last_day, count(*) AS days
+    FROM (
+      SELECT day, day - (row_number() OVER (ORDER BY day))::INTEGER AS streak
+      FROM day_results
+      WHERE status = 'won'
+    ) ranked
+    GROUP BY streak
+  )
+  SELECT
+    COALESCE((SELECT sum(games) FROM results), 0)::INTEGER,
+    COALESCE((SELECT sum(games) FROM results WHERE status = 'won'), 0)::INTEGER,
+    COALESCE(
+      (
+        SELECT s.days FROM streaks s, period
+        WHERE s.last_day >= period.last_day - 1
+          AND s.last_day = (SELECT max(day) FROM day_results)
+      ),
+      0
+    )::INTEGER,
+    COALESCE((SELECT max(days) FROM streaks), 0)::INTEGER,
+    (
+      SELECT jsonb_build_object(
+        '1', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 1), 0),
+        '2', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 2), 0),
+        '3', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 3), 0),
+        '4', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 4), 0),
+        '5', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 5), 0),
+        '6', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 6), 0),
+        'failed', COALESCE(sum(games) FILTER (WHERE status = 'lost'), 0)
+      )
+      FROM results
+    );
+$$;
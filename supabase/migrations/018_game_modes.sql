@@ -0,0 +1,348 @@
+-- Word game modes: hard mode, a shared daily word, and statistics per mode
+-- @spec SPEC-2026-27
+
+-- standard: any answer, any valid guess
+-- hard: every hint revealed so far must be used in later guesses
+-- daily: the day's shared answer, one game per player per UTC day
+ALTER TABLE games
+  ADD COLUMN mode TEXT NOT NULL DEFAULT 'standard'
+    CHECK (mode IN ('standard', 'hard', 'daily')),
+  ADD COLUMN daily_date DATE,
+  ADD CHECK ((mode = 'daily') = (daily_date IS NOT NULL));
+
+-- One daily game per player per day. Other games have no date and are not
+-- constrained, as nulls are distinct.
+CREATE UNIQUE INDEX idx_games_user_daily ON games(user_id, daily_date);
+
+GRANT SELECT (mode, daily_date) ON games TO authenticated;
+
+-- Daily games are only started by start_daily_game, which supplies the
+-- day's answer, so players cannot choose their own.
+DROP POLICY "Users can insert their own games" ON games;
+
+CREATE POLICY "Users can insert their own games" ON games
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND status = 'in_progress' AND guesses_taken = 0 AND mode <> 'daily'
+  );
+
+-- The answer for each UTC day, chosen ahead of time by the scheduled Worker.
+-- Never readable through the API: there are no policies and no grants.
+CREATE TABLE daily_words (
+  day DATE PRIMARY KEY,
+  target_word TEXT NOT NULL CHECK (target_word ~ '^[A-Z]{5}$'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE daily_words ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON daily_words FROM anon, authenticated;
+
+-- The latest daily words, most recent first, so new ones can avoid repeats.
+-- Called by the scheduled Worker with the service role only.
+CREATE OR REPLACE FUNCTION recent_daily_words(max_results INTEGER)
+RETURNS TABLE (day DATE, target_word TEXT)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.day, d.target_word
+  FROM daily_words d
+  ORDER BY d.day DESC
+  LIMIT max_results;
+$$;
+
+-- Stores a day's answer unless it already has one, and returns the answer
+-- the day ends up with. A chosen word is never replaced.
+-- Called by the scheduled Worker with the service role only.
+CREATE OR REPLACE FUNCTION set_daily_word(p_day DATE, p_word TEXT)
+RETURNS TEXT
+LANGUAGE sql SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO daily_words (day, target_word) VALUES (p_day, p_word)
+  ON CONFLICT (day) DO NOTHING;
+
+  SELECT d.target_word FROM daily_words d WHERE d.day = p_day;
+$$;
+
+-- Starts the caller's game on today's shared answer. Raises no_data_found
+-- when today has no word yet, and unique_violation when the caller has
+-- already played today.
+CREATE OR REPLACE FUNCTION start_daily_game()
+RETURNS TABLE (id UUID, status TEXT, guesses_taken INTEGER, created_at TIMESTAMPTZ)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+  word TEXT;
+  game games%ROWTYPE;
+BEGIN
+  SELECT d.target_word INTO word FROM daily_words d WHERE d.day = today;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'no daily word for today' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO games AS g (user_id, target_word, mode, daily_date)
+  VALUES (auth.uid(), word, 'daily', today)
+  RETURNING g.* INTO game;
+
+  RETURN QUERY SELECT game.id, game.status, game.guesses_taken, game.created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION recent_daily_words(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION recent_daily_words(INTEGER) TO service_role;
+REVOKE EXECUTE ON FUNCTION set_daily_word(DATE, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_daily_word(DATE, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION start_daily_game() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION start_daily_game() TO authenticated;
+
+-- The hard mode rules a guess breaks, given the game's earlier guesses:
+-- every letter already found in place must stay there, and every letter
+-- revealed must be used at least as often as one earlier guess revealed it.
+CREATE OR REPLACE FUNCTION hard_mode_violations(p_game_id UUID, p_guess TEXT)
+RETURNS TEXT[]
+LANGUAGE sql STABLE
+AS $$
+  WITH hints AS (
+    SELECT
+      g.guess_number,
+      f.slot::INTEGER AS slot,
+      f.hint->>'letter' AS letter,
+      f.hint->>'status' AS status
+    FROM guesses g, jsonb_array_elements(g.feedback) WITH ORDINALITY AS f(hint, slot)
+    WHERE g.game_id = p_game_id AND f.hint->>'status' <> 'absent'
+  ),
+  misplaced AS (
+    SELECT DISTINCT slot, letter
+    FROM hints
+    WHERE status = 'correct' AND substr(p_guess, slot, 1) <> letter
+  ),
+  missing AS (
+    SELECT letter, max(revealed) AS times
+    FROM (
+      SELECT guess_number, letter, count(*) AS revealed
+      FROM hints
+      GROUP BY guess_number, letter
+    ) per_guess
+    GROUP BY letter
+    HAVING length(p_guess) - length(replace(p_guess, letter, '')) < max(revealed)
+  )
+  SELECT COALESCE(array_agg(message ORDER BY kind, sort_key), '{}')
+  FROM (
+    SELECT
+      1 AS kind,
+      slot::TEXT AS sort_key,
+      format(
+        '%s letter must be %s',
+        CASE slot WHEN 1 THEN '1st' WHEN 2 THEN '2nd' WHEN 3 THEN '3rd' ELSE slot || 'th' END,
+        letter
+      ) AS message
+    FROM misplaced
+    UNION ALL
+    SELECT
+      2,
+      letter,
+      CASE
+        WHEN times = 1 THEN format('Guess must contain %s', letter)
+        ELSE format('Guess must contain %s at least %s times', letter, times)
+      END
+    FROM missing
+  ) violations;
+$$;
+
+-- submit_guess refuses guesses that break hard mode, with the broken rules
+-- one per line in the error detail. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION submit_guess(p_game_id UUID, p_guess TEXT)
+RETURNS TABLE (guess_number INTEGER, feedback JSONB, game_status TEXT, target_word TEXT)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  game games%ROWTYPE;
+  violations TEXT[];
+  scored JSONB;
+  next_number INTEGER;
+  next_status TEXT;
+BEGIN
+  IF p_guess IS NULL OR p_guess !~ '^[A-Z]{5}$' THEN
+    RAISE EXCEPTION 'guess must be five letters' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO game FROM games g
+  WHERE g.id = p_game_id AND g.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'game not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF game.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'game is already finished' USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF game.mode = 'hard' THEN
+    violations := hard_mode_violations(game.id, p_guess);
+    IF cardinality(violations) > 0 THEN
+      RAISE EXCEPTION 'guess breaks hard mode rules' USING
+        ERRCODE = 'check_violation',
+        DETAIL = array_to_string(violations, E'\n');
+    END IF;
+  END IF;
+
+  scored := score_guess(game.target_word, p_guess);
+  next_number := game.guesses_taken + 1;
+  next_status := CASE
+    WHEN p_guess = game.target_word THEN 'won'
+    WHEN next_number = 6 THEN 'lost'
+    ELSE 'in_progress'
+  END;
+
+  INSERT INTO guesses (game_id, user_id, guess_number, guess_word, feedback)
+  VALUES (game.id, game.user_id, next_number, p_guess, scored);
+
+  UPDATE games g
+  SET guesses_taken = next_number,
+      status = next_status,
+      completed_at = CASE WHEN next_status = 'in_progress' THEN NULL ELSE NOW() END
+  WHERE g.id = game.id;
+
+  RETURN QUERY SELECT
+    next_number,
+    scored,
+    next_status,
+    CASE WHEN next_status = 'in_progress' THEN NULL ELSE game.target_word END;
+END;
+$$;
+
+-- game_history gains the mode, so it is recreated with the new return type
+DROP FUNCTION game_history(INTEGER);
+
+CREATE FUNCTION game_history(max_results INTEGER)
+RETURNS TABLE (
+  game_id UUID,
+  mode TEXT,
+  target_word TEXT,
+  status TEXT,
+  guesses_taken INTEGER,
+  completed_at TIMESTAMPTZ
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT g.id, g.mode, g.target_word, g.status, g.guesses_taken, g.completed_at
+  FROM games g
+  WHERE g.user_id = auth.uid() AND g.status <> 'in_progress'
+  ORDER BY g.completed_at DESC, g.id
+  LIMIT LEAST(max_results, 100);
+$$;
+
+REVOKE EXECUTE ON FUNCTION game_history(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION game_history(INTEGER) TO authenticated;
+
+-- Statistics are kept per mode. Games finished before modes existed were
+-- all standard games.
+ALTER TABLE game_stat_buckets
+  ADD COLUMN mode TEXT NOT NULL DEFAULT 'standard'
+    CHECK (mode IN ('standard', 'hard', 'daily')),
+  DROP CONSTRAINT game_stat_buckets_pkey,
+  ADD PRIMARY KEY (user_id, mode, bucket_start, status, guesses_taken);
+
+CREATE OR REPLACE FUNCTION record_game_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO game_stat_buckets (user_id, mode, bucket_start, status, guesses_taken, games)
+  VALUES (
+    NEW.user_id,
+    NEW.mode,
+    date_bin('15 minutes', NEW.completed_at, TIMESTAMPTZ 'epoch'),
+    NEW.status,
+    NEW.guesses_taken,
+    1
+  )
+  ON CONFLICT (user_id, mode, bucket_start, status, guesses_taken)
+  DO UPDATE SET games = game_stat_buckets.games + 1;
+
+  RETURN NEW;
+END;
+$$;
+
+-- game_stats takes the mode, so it is recreated with the new signature.
+-- Otherwise unchanged.
+DROP FUNCTION game_stats(TEXT, DATE, DATE);
+
+CREATE FUNCTION game_stats(
+  p_mode TEXT DEFAULT 'standard',
+  p_time_zone TEXT DEFAULT 'UTC',
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  total_games INTEGER,
+  games_won INTEGER,
+  current_streak INTEGER,
+  max_streak INTEGER,
+  guess_distribution JSONB
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  WITH period AS (
+    SELECT COALESCE(p_to, (now() AT TIME ZONE p_time_zone)::DATE) AS last_day
+  ),
+  results AS (
+    SELECT
+      (b.bucket_start AT TIME ZONE p_time_zone)::DATE AS day,
+      b.bucket_start,
+      b.status,
+      b.guesses_taken,
+      b.games
+    FROM game_stat_buckets b, period
+    WHERE b.mode = p_mode
+      AND (p_from IS NULL OR b.bucket_start >= p_from::TIMESTAMP AT TIME ZONE p_time_zone)
+      AND b.bucket_start < (period.last_day + 1)::TIMESTAMP AT TIME ZONE p_time_zone
+  ),
+  -- Each day counts as its last result. Games finished in the same quarter
+  -- hour share a bucket and their order is lost, so a loss there comes last
+  -- ('lost' sorts before 'won').
+  day_results AS (
+    SELECT DISTINCT ON (day) day, status
+    FROM results
+    ORDER BY day, bucket_start DESC, status
+  ),
+  -- Consecutive won days keep the same difference between the day and its rank
+  streaks AS (
+    SELECT max(day) AS last_day, count(*) AS days
+    FROM (
+      SELECT day, day - (row_number() OVER (ORDER BY day))::INTEGER AS streak
+      FROM day_results
+      WHERE status = 'won'
+    ) ranked
+    GROUP BY streak
+  )
+  SELECT
+    COALESCE((SELECT sum(games) FROM results), 0)::INTEGER,
+    COALESCE((SELECT sum(games) FROM results WHERE status = 'won'), 0)::INTEGER,
+    COALESCE(
+      (
+        SELECT s.days FROM streaks s, period
+        WHERE s.last_day >= period.last_day - 1
+          AND s.last_day = (SELECT max(day) FROM day_results)
+      ),
+      0
+    )::INTEGER,
+    COALESCE((SELECT max(days) FROM streaks), 0)::INTEGER,
+    (
+      SELECT jsonb_build_object(
+        '1', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 1), 0),
+        '2', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 2), 0),
+        '3', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 3), 0),
+        '4', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 4), 0),
+        '5', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 5), 0),
+        '6', COALESCE(sum(games) FILTER (WHERE status = 'won' AND guesses_taken = 6), 0),
+        'failed', COALESCE(sum(games) FILTER (WHERE status = 'lost'), 0)
+      )
+      FROM results
+    );
+$$;
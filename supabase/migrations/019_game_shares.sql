@@ -0,0 +1,83 @@
+-- Word game result sharing: public links to finished games' coloured grids
+-- @spec SPEC-2026-27
+
+-- Set once a player shares a finished game; anyone with the ID can see the
+-- game's result, but never its letters
+ALTER TABLE games ADD COLUMN share_id UUID UNIQUE;
+
+GRANT SELECT (share_id) ON games TO authenticated;
+
+-- Gives one of the caller's finished games a public share ID, or returns the
+-- one it already has. Raises no_data_found for an unknown game and
+-- object_not_in_prerequisite_state for a game in progress. Runs as its owner
+-- because players cannot update games, so it checks ownership itself.
+CREATE OR REPLACE FUNCTION share_game(p_game_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  game games%ROWTYPE;
+BEGIN
+  SELECT * INTO game FROM games g
+  WHERE g.id = p_game_id AND g.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'game not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF game.status = 'in_progress' THEN
+    RAISE EXCEPTION 'game is still in progress' USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF game.share_id IS NULL THEN
+    UPDATE games g SET share_id = gen_random_uuid()
+    WHERE g.id = game.id
+    RETURNING g.share_id INTO game.share_id;
+  END IF;
+
+  RETURN game.share_id;
+END;
+$$;
+
+-- The result of a shared game, for anyone with its share ID. The grid holds
+-- each guess's letter statuses only: the letters are left out, because the
+-- last guess of a won game is its answer.
+CREATE OR REPLACE FUNCTION shared_game(p_share_id UUID)
+RETURNS TABLE (
+  mode TEXT,
+  status TEXT,
+  guesses_taken INTEGER,
+  daily_date DATE,
+  grid JSONB
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    g.mode,
+    g.status,
+    g.guesses_taken,
+    g.daily_date,
+    (
+      SELECT COALESCE(
+        jsonb_agg(
+          (
+            SELECT jsonb_agg(f.hint->'status' ORDER BY f.slot)
+            FROM jsonb_array_elements(gu.feedback) WITH ORDINALITY AS f(hint, slot)
+          )
+          ORDER BY gu.guess_number
+        ),
+        '[]'
+      )
+      FROM guesses gu
+      WHERE gu.game_id = g.id
+    )
+  FROM games g
+  WHERE g.share_id = p_share_id AND g.status <> 'in_progress';
+$$;
+
+REVOKE EXECUTE ON FUNCTION share_game(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION share_game(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION shared_game(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION shared_game(UUID) TO anon, authenticated;
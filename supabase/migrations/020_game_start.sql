@@ -0,0 +1,233 @@
+-- Word games are started by the database, which chooses the answer
+-- @spec SPEC-2026-27
+
+-- The words a game's answer is chosen from, the same list as the Worker's
+-- src/lib/words/answers.ts. Further guesses are only checked against the
+-- Worker's bundled list, so they are not stored here. Never readable
+-- through the API: there are no policies and no grants.
+CREATE TABLE australian_words (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  word TEXT NOT NULL UNIQUE CHECK (word ~ '^[A-Z]{5}$'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE australian_words ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON australian_words FROM anon, authenticated;
+
+-- Packed five letters to a word, as in answers.ts. Adjacent string
+-- constants on separate lines are one constant.
+INSERT INTO australian_words (word)
+SELECT substr(answers.packed, n * 5 + 1, 5)
+FROM (
+  SELECT
+  'ABACKABAFTABASEABASHABATEABBEYABBOTABEAMABHORABIDEABLERABODEABORTABOUTABOVEABUSEABUZZABYSS'
+  'ACHOOACINGACORNACRIDACTORACUTEADAGEADAPTADDERADDLEADEPTADIEUADMANADMENADMITADOBEADOPTADORE'
+  'ADORNADULTAEGISAERIEAFFIXAFIREAFOOTAFOULAFTERAFTIEAGAINAGAPEAGATEAGAVEAGENTAGILEAGLOWAGONY'
+  'AGREEAHEADAISLEALARMALBUMALDERALERTALGAEALIASALIBIALIENALIGNALIKEALIVEALLAYALLEYALLOTALLOW'
+  'ALLOYALOFTALOHAALONEALONGALOOFALOUDALPHAALTARALTERAMASSAMAZEAMBERAMBLEAMENDAMIGOAMINOAMISS'
+  'AMITYAMONGAMOURAMPLEAMPLYAMUSEANGELANGERANGLEANGRYANGSTANIMEANIONANISEANKLEANNEXANNOYANNUL'
+  'ANODEANTICANVILAORTAAPACEAPARTAPHIDAPINGAPPALAPPLEAPPLYAPRONAPTERAPTLYARENAARGONARGOTARGUE'
+  'ARISEARMEDAROMAAROSEARRAYARROWARSONARTSYASCOTASHENASIDEASKEWASPENASPICASSAYASSETASTERASTIR'
+  'ATLASATOLLATONEATRIAATTARATTICAUDIOAUDITAUGERAUGHTAUGURAURALAVAILAVASTAVERTAVIANAVOIDAWAIT'
+  'AWAKEAWARDAWAREAWASHAWFULAWINGAWOKEAXIALAXINGAXIOMAZUREBABELBACONBADGEBADLYBAGELBAGGYBAIZE'
+  'BAKERBALKYBALMYBALSABANALBANDYBANJOBANNSBARERBARGEBARONBASALBASERBASICBASILBASINBASISBASSO'
+  'BASTEBATCHBATHEBATIKBATONBATTYBAULKBAWDYBAYOUBEACHBEADYBEARDBEASTBEBOPBEECHBEEFYBEFITBEFOG'
+  'BEGANBEGATBEGETBEGINBEGOTBEGUNBEIGEBEINGBELAYBELCHBELIEBELLEBELLYBELOWBENCHBERETBERRYBERTH'
+  'BERYLBESETBESOMBESOTBEVELBIBLEBICEPBIDDYBIDETBIFFOBIGHTBIGOTBIKERBILGEBILLYBIMBOBINGEBINGO'
+  'BIPEDBIRCHBIRTHBISONBLACKBLADEBLAMEBLANDBLANKBLAREBLASTBLAZEBLEAKBLEATBLEEPBLENDBLESSBLIMP'
+  'BLINDBLINGBLINKBLISSBLITZBLOATBLOCKBLONDBLOODBLOOMBLOWNBLUERBLUEYBLUFFBLUNTBLURBBLURTBLUSH'
+  'BOARDBOASTBOBBYBOGANBOGEYBOGGYBOGIEBOGUSBONGOBONNYBONUSBONZABONZEBOOSTBOOTHBOOTYBOOZEBOOZY'
+  'BORAXBORERBORNEBORONBOSOMBOSSYBOTCHBOUGHBOUNDBOWELBOWERBOXERBRACEBRACTBRAIDBRAINBRAKEBRAND'
+  'BRASHBRASSBRAVEBRAVOBRAWLBRAWNBREADBREAKBRIARBRIBEBRICKBRIDEBRIEFBRINEBRINGBRINKBRINYBRISK'
+  'BROADBROILBROKEBROODBROOKBROOMBROTHBROWNBRUINBRUNTBRUSHBRUTEBUDDYBUDGEBUGGYBUGLEBUILDBUILT'
+  'BULGEBULGYBULKYBULLYBUMPYBUNCHBUNDYBUNNYBURLYBURNTBURQABURROBURSTBUSBYBUSHYBUTCHBUTTEBUXOM'
+  'BUYERBYLAWBYWAYCABALCABBYCABINCABLECACAOCACHECACTICADETCADGECADRECAGEYCAIRNCALVECALYXCAMEL'
+  'CAMEOCAMPYCANALCANDYCANNYCANOECANONCANTOCAPERCAPONCARATCARETCARGOCAROLCAROMCARPICARRYCARVE'
+  'CASTECATCHCATERCATTYCAULKCAUSECAVILCEASECEDARCELLOCHAFECHAFFCHAINCHAIRCHALKCHAMPCHANTCHARM'
+  'CHARTCHARYCHASECHASMCHEAPCHEATCHECKCHEEKCHEEPCHEERCHESSCHESTCHEWYCHICKCHIDECHIEFCHILDCHILL'
+  'CHIMECHIMPCHINACHINOCHIRPCHIVECHOCKCHOIRCHOKECHOMPCHOOKCHORDCHORECHOSECHUCKCHUMPCHUNKCHURL'
+  'CHURNCHUTECIDERCIGARCILIACINCHCIRCACIVETCIVICCIVILCLACKCLAIMCLAMPCLANGCLANKCLASHCLASPCLASS'
+  'CLEANCLEARCLEATCLEFTCLERKCLICKCLIFFCLIMBCLIMECLINGCLINKCLOAKCLOCKCLOMPCLONECLOSECLOTHCLOUD'
+  'CLOUTCLOVECLOWNCLUCKCLUMPCLUNGCLUNKCOACHCOASTCOBRACOCCICOCKYCOCOACODEXCOLICCOLONCOMBOCOMER'
+  'COMETCOMFYCOMICCOMMACONCHCONDOCONGACONICCOOEECOPRACOPSECORALCORNYCORPSCOUCHCOUGHCOULDCOUNT'
+  'COUPECOURTCOVENCOVERCOVETCOVEYCOWERCOYERCOYLYCOZENCRACKCRAFTCRAMPCRANECRANKCRAPECRASHCRASS'
+  'CRATECRAVECRAWLCRAZECRAZYCREAKCREAMCREDOCREEKCREELCREEPCREPECREPTCRESSCRESTCRICKCRIERCRIME'
+  'CRIMPCRISPCROAKCROCKCRONECRONYCROOKCROONCROSSCROUPCROWDCROWNCRUDECRUELCRUETCRUMBCRUSHCRUST'
+  'CRYPTCUBICCUBITCUINGCUMINCUPIDCURERCURIECURIOCURLYCURRYCURSECURVECURVYCUSHYCUTERCUTUPCYCLE'
+  'CYNICDACHADADDYDAFFYDAILYDAIRYDAISYDALLYDANCEDANDYDATUMDAUNTDAVITDEALTDEATHDEBARDEBITDEBUG'
+  'DEBUTDECAFDECALDECAYDECORDECOYDECRYDEFERDEICEDEIFYDEIGNDEISMDEITYDELAYDELTADELVEDEMONDEMUR'
+  'DENIMDENSEDEPOTDEPTHDERBYDETERDETOXDEUCEDEVILDHOTIDIARYDICEYDICTADIGITDILLYDIMERDIMLYDINER'
+  'DINGODINGYDINKYDIODEDIRERDIRGEDIRTYDISCODITCHDITTODITTYDIVANDIVERDIVOTDIVVYDIZZYDODGEDOGGY'
+  'DOGIEDOGMADOILYDOINGDOLLYDONORDOONADOPEYDORKYDOTTYDOUBTDOUGHDOUSEDOWDYDOWELDOWNYDOWRYDOWSE'
+  'DOYENDOZENDRAFTDRAINDRAKEDRAMADRANKDRAPEDRAWLDRAWNDREADDREAMDRESSDRIERDRIFTDRILLDRILYDRINK'
+  'DRIVEDROLLDRONEDROOLDROOPDROSSDROVEDROWNDRUIDDRUNKDRYADDRYERDUCALDUCATDUCHYDULLYDUMMYDUMPY'
+  'DUNCEDUNNODUNNYDUSKYDUSTYDUVETDWARFDWEEBDWELLDWELTDYINGEAGEREAGLEEARLYEARTHEASELEATENEATER'
+  'EBONYEDGEREDICTEDIFYEERIEEGRETEIDEREIGHTEJECTEKINGELATEELBOWELDERELECTELEGYELFINELIDEELITE'
+  'ELOPEELUDEELVESEMAILEMBEDEMBEREMCEEEMENDEMERYEMOJIEMOTEEMPTYENACTENDOWENDUEENEMYENJOYENNUI'
+  'ENROLENSUEENTERENTRYENVOYENZEDEPOCHEPOXYEQUALEQUIPERASEERECTERODEERRORERUPTESSAYESTERETHER'
+  'ETHICETHOSEVADEEVENTEVERYEVICTEVOKEEXACTEXALTEXCELEXERTEXILEEXISTEXPELEXTOLEXTRAEXUDEEXULT'
+  'FABLEFACETFAINTFAIRYFAITHFAKERFAKIRFALSEFANCYFARCEFATALFATTYFAULTFAUNAFEASTFEIGNFEINTFELON'
+  'FEMURFENCEFERALFERRYFETALFETCHFETIDFEVERFEWERFIBREFICHEFIELDFIENDFIERYFIFTHFIFTYFIGHTFILCH'
+  'FILETFILLYFILMYFILTHFINALFINCHFINERFINNYFIRSTFIRTHFISHYFITLYFIVERFIXERFIZZYFJORDFLACKFLAIL'
+  'FLAIRFLAKEFLAKYFLAMEFLANKFLAREFLASHFLASKFLECKFLEETFLESHFLICKFLINGFLINTFLIRTFLOATFLOCKFLOOD'
+  'FLOORFLORAFLOSSFLOURFLOUTFLOWNFLUFFFLUIDFLUKEFLUKYFLUMEFLUNGFLUNKFLUSHFLUTEFLYBYFLYERFOAMY'
+  'FOCALFOCUSFOGEYFOGGYFOISTFOLIOFOLLYFORAYFORCEFORGEFORGOFORTEFORTHFORTYFORUMFOUNDFOUNTFOYER'
+  'FRACKFRAILFRAMEFRANCFRANKFRAUDFREAKFREERFRESHFRIARFRILLFRISKFRIZZFROCKFRONDFRONTFROSTFROTH'
+  'FROWNFROZEFRUITFRUMPFRYERFUDGEFUGUEFULLYFUNGIFUNKYFUNNYFURRYFURZEFUSSYFUSTYFUTONFUZZYGABBY'
+  'GABLEGAFFEGAILYGALAHGAMERGAMINGAMMAGAMUTGARBOGASSYGAUDYGAUGEGAUNTGAUZEGAUZYGAVELGAWKYGAYER'
+  'GAZERGECKOGEEKYGEESEGELIDGENIEGENIIGENREGEODEGETUPGHOSTGHOULGIANTGIDDYGIMMEGIMPYGIRTHGIVEN'
+  'GIZMOGLADEGLANDGLAREGLASSGLAZEGLEAMGLEANGLIDEGLINTGLITZGLOATGLOBEGLOOMGLORYGLOSSGLOVEGLUEY'
+  'GLYPHGNARLGNASHGNOMEGODLYGOFERGOINGGOLLYGONERGONNAGOODOGOODYGOOEYGOOFYGOOSEGORGEGORSEGOTTA'
+  'GOUGEGOURDGOUTYGRACEGRADEGRAFTGRAILGRAINGRANDGRANTGRAPEGRAPHGRASPGRASSGRATEGRAVEGRAVYGRAZE'
+  'GREATGREBEGREENGREETGRIEFGRILLGRIMEGRIMYGRINDGRIPEGRISTGROANGROINGROOMGROPEGROSSGROUPGROUT'
+  'GROVEGROWLGROWNGRUELGRUFFGRUNTGUANOGUARDGUAVAGUESSGUESTGUIDEGUILDGUILEGUILTGUISEGULCHGULLY'
+  'GUMBOGUMMYGUNNYGUPPYGUSHYGUSTOGUSTYGUTSYHABITHAIKUHAIRYHALERHALONHALVEHANDYHANKYHAPPYHARDY'
+  'HAREMHARPYHARRYHARSHHASTEHASTYHATCHHATERHAUNTHAVENHAVOCHAZELHEADYHEARDHEARTHEATHHEAVEHEAVY'
+  'HEDGEHEFTYHEISTHELIXHELLOHELOTHENCEHENNAHERONHERTZHEWERHIKERHILLYHINGEHIPPOHIPPYHITCHHOARD'
+  'HOARYHOBBYHOGANHOISTHOKEYHOKUMHOLLYHOMERHOMEYHONEYHOOCHHOOEYHOOKYHORDEHORSEHOTELHOTLYHOUND'
+  'HOUSEHOVELHOVERHOWDYHUBBYHUFFYHUGERHUMANHUMIDHUMUSHUNCHHURRYHUSKYHUTCHHYDRAHYENAHYINGHYPER'
+  'ICIERICILYICINGIDEALIDIOMIDIOTIDLERIDYLLIGLOOIMAGEIMBUEIMPELIMPLYINANEINAPTINBOXINCURINDEX'
+  'INEPTINERTINFERINFIXINGOTINLAYINLETINNERINPUTINSETINTERINUREIRATEIRONYISLETISSUEITCHYIVORY'
+  'JABOTJAUNTJAZZYJELLYJERKYJETTYJEWELJIFFYJIMMYJINNIJOINTJOISTJOKERJOLLYJOULEJOUSTJUDGEJUICE'
+  'JUICYJULEPJUMBOJUMPYJUNCOJUNTAJURORKANGAKAPOKKAPUTKARATKARMAKAYAKKAZOOKEBABKETCHKHAKIKICKY'
+  'KIDDOKINDAKIOSKKITTYKLUTZKNACKKNAVEKNEADKNEELKNELLKNELTKNIFEKNOCKKNOLLKNOWNKOALAKOOKYKRONE'
+  'KUDZULABELLADENLADLELAGERLAITYLAMERLANCELANKYLAPELLAPSELARCHLARGELARGOLARVALASERLASSOLATCH'
+  'LATERLATEXLATHELATTELAUGHLAXERLAXLYLAYERLEACHLEAFYLEAKYLEAPTLEARNLEASELEASHLEASTLEAVELEDGE'
+  'LEECHLEERYLEFTYLEGALLEGGYLEGITLEMMALEMMELEMONLEMURLEPERLETUPLEVEELEVELLEVERLIBELLICITLIEGE'
+  'LIFERLIGHTLIKENLIKERLILACLIMBOLIMITLINENLINERLINGOLIPIDLISLELITHELITRELIVENLIVERLIVIDLLAMA'
+  'LLANOLOAMYLOATHLOBBYLOCALLOCUSLODGELOFTYLOGICLOGINLOGONLONERLOONYLOOPYLOOSELORRYLOSERLOTTO'
+  'LOTUSLOUSELOUSYLOVERLOWERLOWLYLOYALLUCIDLUCKYLUCRELUMPYLUNARLUNCHLUNGELUPINLUPUSLURCHLURID'
+  'LUSTYLYINGLYMPHLYRICMACAWMACHOMACROMADAMMADLYMAGICMAGMAMAIZEMAJORMAKERMAMBOMAMMAMANGAMANGE'
+  'MANGOMANGYMANIAMANICMANLYMANNAMANORMANSEMAPLEMARCHMARRYMARSHMASONMATCHMATTEMATZOMAUVEMAVEN'
+  'MAXIMMAYBEMAYORMEALYMEANTMEATYMECCAMEDALMEDIAMEDICMELONMERCYMERGEMERITMERRYMESSYMETALMETER'
+  'METREMETROMIAOWMIDDYMIDGEMIDSTMIGHTMILCHMILERMILKYMIMICMINCEMINERMINIMMINORMINTYMINUSMIRTH'
+  'MISDOMISERMISTYMITREMIXEDMIXERMOCHAMODALMODELMODEMMOGULMOIREMOISTMOLARMONEYMONTHMOOCHMOODY'
+  'MOOSEMORALMORAYMORONMOSEYMOSSYMOTELMOTIFMOTORMOTTOMOULDMOULTMOUNDMOUNTMOURNMOUSEMOUSYMOUTH'
+  'MOVERMOVIEMOWERMUCKYMUCUSMUDDYMUFTIMUGGYMULCHMULTIMUMMYMUNCHMURALMURKYMUSHYMUSICMUSKYMUSSY'
+  'MUSTYMUTERMYNAHMYRRHNABOBNACHONACRENADIRNAIADNAIVENAKEDNANNYNAPPYNASALNASTYNATALNATTYNAVAL'
+  'NAVELNEATHNEEDYNEIGHNERDYNERVENERVYNEVERNEWELNEWERNEWLYNEWSYNEXUSNICERNICHENIECENIFTYNIGHT'
+  'NIMBININJANINNYNINTHNIPPYNITRENOBLENOBLYNODALNODDYNOISENOISYNOMADNONCENOOSENORTHNOTCHNOVAE'
+  'NOVELNOWAYNUDERNUDGENULLANURSENUTTYNYLONNYMPHOAKENOAKUMOASESOASISOATENOBESEOCCUROCEANOCHRE'
+  'OCTALOCTETODDERODDLYODIUMODOUROFFALOFFEROFTENOLDENOLDEROLDIEOLIVEOMEGAONIONONSETOPERAOPINE'
+  'OPIUMOPTICORATEORBITORDERORGANOSIEROTHEROTTEROUGHTOUNCEOUTDOOUTEROUTGOOVARYOVERTOVOIDOVULE'
+  'OWINGOWLETOWNEROXBOWOXIDEOZONEPADDYPADREPAEANPAGANPAGERPAINTPALERPALMYPALSYPANDAPANELPANIC'
+  'PANSYPAPALPAPERPARCHPARKAPARRYPARSEPARTYPASHAPASTAPASTEPASTYPATCHPATIOPATSYPATTYPAUSEPAYEE'
+  'PAYERPEACEPEACHPEARLPECANPEDALPEEVEPEKOEPENALPENCEPENNYPEONYPEPPYPERCHPERILPERKYPESKYPETAL'
+  'PETERPETTYPEWEEPHASEPHIALPHISHPHLOXPHONEPHOTOPHYLAPIANOPICKYPIECEPIETYPIGGYPIINGPIKERPILAF'
+  'PILLYPILOTPINCHPINTOPINUPPIOUSPIPERPIPITPIQUEPITCHPITHYPITONPIVOTPIXELPIXIEPIZZAPLACEPLAID'
+  'PLAINPLAITPLANEPLANKPLANTPLATEPLAZAPLEADPLEATPLUCKPLUMBPLUMEPLUMPPLUNKPLUSHPOACHPOESYPOINT'
+  'POISEPOKERPOKEYPOKIEPOLARPOLIOPOLKAPOLYPPOOCHPOPPAPOPPYPORCHPOSERPOSITPOSSEPOTTYPOUCHPOUND'
+  'POWERPRANKPRATEPRAWNPREENPRESSPRICEPRIDEPRIMEPRIMPPRINTPRIORPRISEPRISMPRIVYPRIZEPROBEPROMO'
+  'PRONEPRONGPROOFPROSEPROSYPROUDPROVEPROWLPROXYPRUDEPRUNEPSALMPSHAWPSYCHPUDGYPUFFYPULPYPULSE'
+  'PUNCHPUPAEPUPALPUPILPUPPYPUREEPURERPURGEPURSEPUSHYPUTTYPYGMYPYLONQUACKQUAFFQUAILQUAKEQUALM'
+  'QUARKQUARTQUASHQUASIQUEENQUEERQUELLQUERYQUESTQUEUEQUICKQUIETQUILLQUILTQUIREQUIRKQUITEQUOIT'
+  'QUOTAQUOTEQUOTHRABBIRABIDRACERRADARRADIIRADIORADONRAGERRAINYRAISERAJAHRALLYRANCHRANDYRANGE'
+  'RANGYRAPIDRARERRASPYRATIORATTYRAVELRAVENRAWERRAYONRAZOORAZORREACHREACTREADYREALMREARMREBEL'
+  'REBUSREBUTRECAPRECURREDIDREEDYREEVEREFERREFITREGALREHABREIGNRELAXRELAYRELICREMITRENALRENEW'
+  'REORGREPAYREPELREPLYRERANRERUNRESETRESINRETCHRETRYREUSEREVELREVUERHEUMRHINORHYMERIDERRIDGE'
+  'RIFERRIFLERIGHTRIGIDRINSERIPENRIPERRISENRISERRISKYRITZYRIVALRIVENRIVERRIVETROACHROASTROBIN'
+  'ROBOTROCKYRODEOROGERROGUEROMANROOMYROOSTROSINROTORROUGEROUGHROUNDROUSEROUTEROVERROWDYROWEL'
+  'ROWERROYALRUDDYRUDERRUGBYRUINGRULERRUMBARUMMYRUNNYRUPEERURALRUSTYSABLESABRESADLYSAFERSAGER'
+  'SAHIBSAINTSAITHSALADSALLYSALONSALSASALTYSALVESALVOSAMBASANDYSANERSAPPYSASSYSATAYSATINSATYR'
+  'SAUCESAUCYSAUNASAVERSAVVYSCALDSCALESCALPSCALYSCAMPSCANTSCARESCARFSCARYSCENESCENTSCHWASCION'
+  'SCOFFSCOLDSCONESCOOPSCOOTSCOPESCORESCORNSCOURSCOUTSCOWLSCRAMSCRAPSCREWSCRIPSCRODSCRUBSCUBA'
+  'SCUFFSCULLSCURFSEAMYSEDANSEDGESEEDYSEGUESEIZESENNASENSESEPALSEPIASEPTASERERSERGESERUMSERVE'
+  'SERVOSETUPSEVENSEVERSEWERSHACKSHADESHADYSHAFTSHAKESHAKYSHALESHALLSHALTSHAMESHANKSHAPESHARD'
+  'SHARESHARKSHARPSHAVESHAWLSHEAFSHEARSHEENSHEEPSHEERSHEETSHELFSHELLSHIFTSHILLSHINESHINYSHIRE'
+  'SHIRKSHIRRSHIRTSHOALSHOCKSHONESHONKSHOOKSHOOTSHORESHORTSHOUTSHOVESHOWNSHOWYSHREDSHREWSHRUB'
+  'SHRUGSHUCKSHUNTSHUSHSHYERSHYLYSIBYLSIDLESIEGESIEVESIGHTSIGMASILKYSILLYSINCESINEWSINGESINUS'
+  'SIRENSISALSISSYSITARSIXTHSIXTYSIZERSKATESKEETSKEINSKIERSKIFFSKILLSKIMPSKIRTSKITESKULKSKULL'
+  'SKUNKSLACKSLAINSLAKESLANGSLANTSLASHSLATESLEEKSLEEPSLEETSLEPTSLICESLICKSLIDESLIMESLIMYSLING'
+  'SLINKSLOOPSLOPESLOSHSLOTHSLUMPSLUNGSLUNKSLURPSLUSHSLYERSLYLYSMACKSMALLSMARTSMASHSMEARSMELL'
+  'SMELTSMILESMIRKSMITESMITHSMOCKSMOKESMOKOSMOKYSMOTESNACKSNAFUSNAILSNAKESNAKYSNARESNARLSNEAK'
+  'SNEERSNIDESNIFFSNIPESNOOPSNOOTSNORESNORTSNOUTSNOWYSNUFFSOAPYSOBERSOFTYSOGGYSOLARSOLIDSOLVE'
+  'SONARSONICSONNYSOOKYSOOTHSOOTYSOPPYSORERSORRYSORTASOUGHSOUNDSOUPYSOUSESOUTHSOWERSPACESPADE'
+  'SPAKESPANKSPARESPARKSPASMSPATESPAWNSPEAKSPEARSPECKSPEEDSPELLSPELTSPENDSPENTSPICESPICYSPIEL'
+  'SPIKESPIKYSPILLSPILTSPINESPINYSPIRESPITESPLATSPLAYSPLITSPOILSPOKESPOOFSPOOKSPOOLSPOONSPOOR'
+  'SPORESPORTSPOUTSPRATSPRAYSPREESPRIGSPUMESPURNSPURTSQUABSQUADSQUATSQUIDSTACKSTAFFSTAGESTAID'
+  'STAINSTAIRSTAKESTALESTALKSTALLSTAMPSTANDSTANKSTAPHSTARESTARKSTARTSTASHSTATESTAVESTEADSTEAK'
+  'STEALSTEAMSTEEDSTEELSTEEPSTEERSTEINSTENTSTERNSTICKSTIFFSTILESTILLSTILTSTINGSTINKSTINTSTOAT'
+  'STOCKSTOICSTOKESTOLESTOMPSTONESTONYSTOODSTOOLSTOOPSTORESTORKSTORMSTORYSTOUTSTOVESTRAPSTRAW'
+  'STRAYSTREPSTREWSTRIPSTROPSTRUMSTRUTSTUCKSTUDYSTUFFSTUMPSTUNGSTUNKSTUNTSTYLESTYLISUAVESUDSY'
+  'SUEDESUGARSUINGSUITESULKYSULLYSUMACSUNNYSUNUPSUPERSURERSURGESURLYSUSHISWAINSWAMISWAMPSWANK'
+  'SWARDSWARMSWASHSWATHSWEARSWEATSWEEPSWEETSWELLSWEPTSWIFTSWILLSWINESWINGSWIPESWIRLSWISHSWOON'
+  'SWOOPSWORDSWORESWORNSWUNGSYLPHSYNODSYRUPTABBYTABLETABOOTACITTACKYTAFFYTAINTTAKENTAKERTALLY'
+  'TALONTAMERTANGOTANGYTANSYTAPERTAPIRTARDYTAROTTARRYTASERTASTETASTYTATTYTAUNTTAUPETAWNYTEACH'
+  'TEARYTEASETEENYTEETHTELEXTEMPOTEMPTTENETTENONTENORTENSETENTHTEPEETEPIDTERRYTERSETESTYTHANK'
+  'THEFTTHEIRTHEMETHERETHESETHETATHICKTHIEFTHIGHTHINETHINGTHINKTHIRDTHONGTHORNTHOSETHREETHREW'
+  'THROBTHROETHROWTHRUMTHUMBTHUMPTHYMETIARATIBIATIDALTIGERTIGHTTILDETIMERTIMIDTINGETINNYTIPSY'
+  'TITANTITHETITLETIZZYTOADYTOASTTODAYTODDYTOKENTONALTONERTONICTONNETOOTHTOPAZTOPICTOQUETORCH'
+  'TORSOTORTETORUSTOTALTOTEMTOUCHTOUGHTOWELTOWERTOXICTOXINTRACETRACKTRACTTRADETRAILTRAINTRAIT'
+  'TRAMPTRASHTRAWLTREADTREATTRENDTRESSTRIADTRIALTRIBETRICETRICKTRIKETRILLTRIPETRITETROLLTROMP'
+  'TROOPTROPETROTHTROUTTRUCETRUCKTRUERTRULYTRUMPTRUNKTRUSSTRUSTTRUTHTRYSTTUBBYTUBERTULIPTULLE'
+  'TUMIDTUMMYTUNERTUNICTUNNYTUTORTWAINTWANGTWEAKTWEETTWERPTWICETWILLTWINETWIRLTWISTTYINGUDDER'
+  'ULCERULNAEULTRAUMBELUMBERUMIAKUNBARUNCLEUNCUTUNDERUNDIDUNDUEUNFITUNIFYUNIONUNITEUNITYUNMAN'
+  'UNPINUNSAYUNSETUNTIEUNTILUNWEDUNZIPUPENDUPPERUPSETURBANUSAGEUSHERUSINGUSUALUSURPUSURYUTTER'
+  'UVULAVAGUEVALETVALIDVALUEVALVEVAPIDVAULTVAUNTVEGANVENALVENOMVENUEVERGEVERSEVERVEVETCHVIAND'
+  'VICARVIDEOVIGILVILERVILLAVINYLVIOLAVIPERVIRALVIREOVIRUSVISITVISORVISTAVITALVIVIDVIXENVOCAL'
+  'VODKAVOGUEVOICEVOILEVOMITVOTERVOUCHVOWELVYINGWACKOWACKYWADERWAFERWAGERWAGONWAISTWAIVEWAKEN'
+  'WALTZWANLYWANNAWARTYWASTEWATCHWATERWAVERWAXENWEARYWEAVEWEDGEWEEDYWEEPYWEESTWEIGHWEIRDWETLY'
+  'WHACKWHALEWHARFWHEALWHEATWHEELWHELKWHELPWHEREWHICHWHIFFWHILEWHINEWHINYWHIRLWHIRRWHISKWHIST'
+  'WHITEWHIZZWHOLEWHOOPWHORLWHOSEWIDENWIDERWIDOWWIDTHWIELDWIGHTWIMPYWINCEWINCHWINDYWIPERWISER'
+  'WISPYWITCHWITTYWOKENWOMANWOMENWOODYWOOERWOOZYWORDYWORLDWORMYWORRYWORSEWORSTWORTHWOULDWOUND'
+  'WOVENWRACKWRATHWREAKWRECKWRESTWRINGWRISTWRITEWRONGWROTEWROTHWRUNGWRYERWRYLYXENONXYLEMYABBY'
+  'YACHTYAHOOYAKKAYEARNYEASTYIELDYODELYOKELYOUNGYOUSEYOUTHYUCCAYUCKYYUMMYZEBRAZILCHZIPPYZONAL'
+  AS packed
+) answers, generate_series(0, length(answers.packed) / 5 - 1) AS n;
+
+-- Every answer, including each day's shared word, comes from the list
+ALTER TABLE games
+  ADD FOREIGN KEY (target_word) REFERENCES australian_words(word);
+ALTER TABLE daily_words
+  ADD FOREIGN KEY (target_word) REFERENCES australian_words(word);
+
+-- Players could insert games with an answer of their choosing, which would
+-- let them win at will. Games are now only started by start_game and
+-- start_daily_game.
+DROP POLICY "Users can insert their own games" ON games;
+
+REVOKE INSERT ON games FROM anon, authenticated;
+
+-- Starts a standard or hard game for the caller, with an answer none of
+-- their last 30 games had. If every answer is that recent, any answer is
+-- used. Raises invalid_parameter_value for any other mode.
+CREATE OR REPLACE FUNCTION start_game(p_mode TEXT)
+RETURNS TABLE (id UUID, status TEXT, guesses_taken INTEGER, created_at TIMESTAMPTZ)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  answer TEXT;
+  game games%ROWTYPE;
+BEGIN
+  IF p_mode IS NULL OR p_mode NOT IN ('standard', 'hard') THEN
+    RAISE EXCEPTION 'mode must be standard or hard' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT w.word INTO answer
+  FROM australian_words w
+  WHERE w.word NOT IN (
+    SELECT g.target_word
+    FROM games g
+    WHERE g.user_id = auth.uid()
+    ORDER BY g.created_at DESC
+    LIMIT 30
+  )
+  ORDER BY random()
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    SELECT w.word INTO answer FROM australian_words w ORDER BY random() LIMIT 1;
+  END IF;
+
+  INSERT INTO games AS g (user_id, target_word, mode)
+  VALUES (auth.uid(), answer, p_mode)
+  RETURNING g.* INTO game;
+
+  RETURN QUERY SELECT game.id, game.status, game.guesses_taken, game.created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION start_game(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION start_game(TEXT) TO authenticated;
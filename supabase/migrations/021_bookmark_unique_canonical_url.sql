@@ -0,0 +1,77 @@
+-- Refuses to save a canonical URL that is already on an active bookmark
+-- @spec SPEC-2026-12
+
+-- The application looks for an existing bookmark before saving a URL, but
+-- two concurrent saves both pass that check, and updates and restores from
+-- the trash never made it. This trigger checks every write that makes a URL
+-- active on a bookmark: an insert, a changed canonical URL, or a restore.
+-- Writes for one user and URL take turns on an advisory lock, so the second
+-- of two concurrent saves sees the first. A URL saved twice fails with
+-- unique_violation (23505), which the API answers with 409.
+--
+-- A unique index would do the same, but cannot be built while duplicates
+-- saved before this check remain. Those are left as they are, for the
+-- duplicates report to show; editing one without changing its URL is allowed.
+CREATE OR REPLACE FUNCTION check_bookmark_canonical_url()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.deleted_at IS NULL AND OLD.canonical_url = NEW.canonical_url THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended(NEW.user_id::TEXT || ' ' || NEW.canonical_url, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM bookmarks
+    WHERE user_id = NEW.user_id
+      AND canonical_url = NEW.canonical_url
+      AND deleted_at IS NULL
+      AND id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'bookmark already exists' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_bookmark_canonical_url
+  BEFORE INSERT OR UPDATE OF canonical_url, deleted_at ON bookmarks
+  FOR EACH ROW WHEN (NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION check_bookmark_canonical_url();
+
+-- Restores many trashed bookmarks in one statement. A bookmark whose URL is
+-- already saved on an active bookmark, or on one listed earlier in
+-- bookmark_ids, stays in the trash and is reported with restored = false, so
+-- one conflict cannot fail the whole batch. IDs that are missing, active or
+-- not visible under RLS are absent from the result.
+CREATE FUNCTION restore_bookmarks(bookmark_ids UUID[])
+RETURNS TABLE (bookmark_id UUID, restored BOOLEAN)
+LANGUAGE sql VOLATILE SECURITY INVOKER
+AS $$
+  WITH trashed AS (
+    SELECT b.id, b.canonical_url, array_position(bookmark_ids, b.id) AS position
+    FROM bookmarks b
+    WHERE b.id = ANY (bookmark_ids) AND b.deleted_at IS NOT NULL
+  ),
+  restorable AS (
+    SELECT DISTINCT ON (t.canonical_url) t.id
+    FROM trashed t
+    WHERE NOT EXISTS (
+      SELECT 1 FROM bookmarks b
+      WHERE b.canonical_url = t.canonical_url AND b.deleted_at IS NULL
+    )
+    ORDER BY t.canonical_url, t.position
+  ),
+  updated AS (
+    UPDATE bookmarks b
+    SET deleted_at = NULL
+    FROM restorable r
+    WHERE b.id = r.id
+    RETURNING b.id
+  )
+  SELECT t.id, EXISTS (SELECT 1 FROM updated u WHERE u.id = t.id)
+  FROM trashed t;
+$$;
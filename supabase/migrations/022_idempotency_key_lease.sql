@@ -0,0 +1,12 @@
+-- Idempotency keys: a lease on claims still being processed
+-- @spec SPEC-2026-12
+
+-- A claim whose request never stored its response, because storing it
+-- failed or the Worker was stopped mid-request, used to answer 409 until the
+-- key expired a day later. While the response is null the claim now holds
+-- the key only until locked_until; after that a retry of the same request
+-- takes the claim over. Null once the response is stored.
+ALTER TABLE idempotency_keys ADD COLUMN locked_until TIMESTAMPTZ;
+
+-- Claims left in progress before this migration have no request behind them
+UPDATE idempotency_keys SET locked_until = created_at WHERE response_status IS NULL;
@@ -0,0 +1,233 @@
+/**
+ * @file Bulk bookmark operation contract tests
+ * @purpose Verify bulk request validation, the cap on bookmarks a filter may
+ *          select, and how per-item results add up to the summary.
+ * @spec SPEC-2026-12
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import bulk from '../../src/api/bookmarks/bulk/index.js';
+import type { AuthEnv, AuthVariables } from '../../src/middleware/auth.js';
+import {
+  BulkRequestSchema,
+  BulkResponseSchema,
+  MAX_BULK_BATCH_SIZE,
+} from '../../src/schemas/bulk.js';
+
+const env = {
+  SUPABASE_URL: 'https://test.supabase.co',
+  SUPABASE_ANON_KEY: 'test-key',
+} as AuthEnv;
+
+const id = (index: number) => `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`;
+
+const addTags = { action: 'add_tags', tags: ['reading'] };
+
+const byTag = { tag: 'dev' };
+
+function createTestApp() {
+  const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
+  app.use('*', async (c, next) => {
+    c.set('userId', 'user-1');
+    c.set('accessToken', 'test-jwt');
+    c.set('tokenScopes', null);
+    await next();
+  });
+  app.route('/api/bookmarks/bulk', bulk);
+  return app;
+}
+
+function send(body: unknown) {
+  return createTestApp().request(
+    '/api/bookmarks/bulk',
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+    env,
+  );
+}
+
+/** Answers database calls with the given responses, in order, and records their paths */
+function stubDatabase(...responses: Response[]) {
+  const paths: string[] = [];
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL) => {
+    paths.push(new URL(input instanceof Request ? input.url : input).pathname);
+    return responses.shift() ?? Response.json([]);
+  });
+  return paths;
+}
+
+/** Rows a filter matches, newest first, as the list query returns them */
+function matches(count: number) {
+  return Response.json(
+    Array.from({ length: count }, (_, i) => ({
+      id: id(i + 1),
+      created_at: new Date(Date.UTC(2026, 0, 1) - i * 1000).toISOString(),
+    })),
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FR-002: Bulk operations', () => {
+  describe('Request validation', () => {
+    it('requires exactly one of ids and filter', () => {
+      expect(BulkRequestSchema.safeParse({ operation: addTags, ids: [id(1)] }).success).toBe(true);
+      expect(BulkRequestSchema.safeParse({ operation: addTags, filter: byTag }).success).toBe(true);
+
+      const both = BulkRequestSchema.safeParse({ operation: addTags, ids: [id(1)], filter: byTag });
+      const neither = BulkRequestSchema.safeParse({ operation: addTags });
+      for (const result of [both, neither]) {
+        expect(result.success).toBe(false);
+        expect(result.error?.flatten().fieldErrors).toEqual({
+          ids: ['Provide either ids or filter'],
+        });
+      }
+    });
+
+    it('requires a filter to name at least one criterion', () => {
+      for (const filter of [{}, { unknown: 'dev' }]) {
+        const result = BulkRequestSchema.safeParse({ operation: { action: 'delete' }, filter });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues).toContainEqual(
+          expect.objectContaining({
+            path: ['filter'],
+            message: 'filter requires at least one criterion',
+          }),
+        );
+      }
+    });
+
+    it('filters by every criterion the list endpoint accepts', () => {
+      const filter = {
+        q: 'rust',
+        tag: 'dev',
+        tags: ['reading'],
+        match: 'any',
+        exclude_tags: ['archived'],
+        health: 'broken',
+        collection_id: id(9),
+      };
+
+      expect(BulkRequestSchema.parse({ operation: addTags, filter }).filter).toEqual(filter);
+    });
+
+    it('requires tags for match', () => {
+      const result = BulkRequestSchema.safeParse({
+        operation: addTags,
+        filter: { tag: 'dev', match: 'any' },
+      });
+
+      expect(result.error?.issues).toContainEqual(
+        expect.objectContaining({
+          path: ['filter', 'match'],
+          message: 'match requires a tags filter',
+        }),
+      );
+    });
+
+    it(`accepts at most ${MAX_BULK_BATCH_SIZE} ids`, () => {
+      const ids = Array.from({ length: MAX_BULK_BATCH_SIZE + 1 }, (_, i) => id(i));
+
+      expect(BulkRequestSchema.safeParse({ operation: addTags, ids: ids.slice(1) }).success).toBe(
+        true,
+      );
+      expect(BulkRequestSchema.safeParse({ operation: addTags, ids }).success).toBe(false);
+      expect(BulkRequestSchema.safeParse({ operation: addTags, ids: [] }).success).toBe(false);
+    });
+
+    it('restores by ids only', () => {
+      const operation = { action: 'restore' };
+
+      expect(BulkRequestSchema.safeParse({ operation, ids: [id(1)] }).success).toBe(true);
+      expect(
+        BulkRequestSchema.safeParse({ operation, filter: { tag: 'dev' } }).error?.flatten()
+          .fieldErrors,
+      ).toEqual({ operation: ['restore requires ids'] });
+    });
+
+    it('requires tags to add or remove, but allows replacing with none', () => {
+      expect(
+        BulkRequestSchema.safeParse({ operation: { ...addTags, tags: [] }, ids: [id(1)] }).success,
+      ).toBe(false);
+      expect(
+        BulkRequestSchema.safeParse({
+          operation: { action: 'replace_tags', tags: [] },
+          ids: [id(1)],
+        }).success,
+      ).toBe(true);
+    });
+  });
+
+  describe('Filter cap', () => {
+    it(`rejects a filter matching more than ${MAX_BULK_BATCH_SIZE} bookmarks with 400`, async () => {
+      const paths = stubDatabase(matches(MAX_BULK_BATCH_SIZE + 1));
+
+      const res = await send({ operation: { action: 'delete' }, filter: { tag: 'dev' } });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({
+        error: 'Validation failed',
+        details: { filter: [`Filter matches more than ${MAX_BULK_BATCH_SIZE} bookmarks`] },
+      });
+      // Nothing is changed
+      expect(paths).toEqual(['/rest/v1/bookmarks']);
+    });
+
+    it(`applies the operation to a filter matching exactly ${MAX_BULK_BATCH_SIZE}`, async () => {
+      const deleted = Array.from({ length: MAX_BULK_BATCH_SIZE }, (_, i) => ({ id: id(i + 1) }));
+      stubDatabase(matches(MAX_BULK_BATCH_SIZE), Response.json(deleted));
+
+      const res = await send({ operation: { action: 'delete' }, filter: { tag: 'dev' } });
+      const { data } = BulkResponseSchema.parse(await res.json());
+
+      expect(res.status).toBe(200);
+      expect(data.summary).toEqual({
+        requested: MAX_BULK_BATCH_SIZE,
+        succeeded: MAX_BULK_BATCH_SIZE,
+        failed: 0,
+      });
+    });
+  });
+
+  describe('Results', () => {
+    it('reports each bookmark and counts not found ones as failed', async () => {
+      stubDatabase(
+        Response.json([
+          { bookmark_id: id(1), applied: true },
+          { bookmark_id: id(2), applied: false },
+        ]),
+      );
+
+      const res = await send({ operation: addTags, ids: [id(1), id(2), id(3), id(1)] });
+      const { data } = BulkResponseSchema.parse(await res.json());
+
+      expect(data.results).toEqual([
+        { id: id(1), status: 'succeeded' },
+        { id: id(2), status: 'failed', reason: 'Result would exceed 20 tags' },
+        { id: id(3), status: 'not_found' },
+      ]);
+      expect(data.summary).toEqual({ requested: 3, succeeded: 1, failed: 2 });
+    });
+
+    it('reports bookmarks whose URL is saved again as failed to restore', async () => {
+      stubDatabase(
+        Response.json([
+          { bookmark_id: id(1), restored: true },
+          { bookmark_id: id(2), restored: false },
+        ]),
+      );
+
+      const res = await send({ operation: { action: 'restore' }, ids: [id(1), id(2)] });
+      const { data } = BulkResponseSchema.parse(await res.json());
+
+      expect(data.results).toEqual([
+        { id: id(1), status: 'succeeded' },
+        { id: id(2), status: 'failed', reason: 'Bookmark already exists' },
+      ]);
+      expect(data.summary).toEqual({ requested: 2, succeeded: 1, failed: 1 });
+    });
+  });
+});
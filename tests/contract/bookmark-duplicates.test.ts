@@ -0,0 +1,194 @@
+/**
+ * @file Bookmark duplicate contract tests
+ * @purpose Verify that tags are merged into a duplicate in the database, and
+ *          that writes which would save a URL twice, and lose the race with
+ *          the duplicate check to the database's own check, are answered
+ *          with 409 naming the bookmark that has the URL.
+ * @spec SPEC-2026-12
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import bookmarks from '../../src/api/bookmarks/index.js';
+import bookmarksById from '../../src/api/bookmarks/[id].js';
+import bookmarkActions from '../../src/api/bookmarks/actions.js';
+import type { AuthEnv, AuthVariables } from '../../src/middleware/auth.js';
+
+const BOOKMARK_ID = '00000000-0000-4000-8000-000000000001';
+const EXISTING_ID = '00000000-0000-4000-8000-000000000002';
+
+const env = {
+  SUPABASE_URL: 'https://test.supabase.co',
+  SUPABASE_ANON_KEY: 'test-key',
+} as AuthEnv;
+
+const existing = {
+  id: EXISTING_ID,
+  url: 'https://example.com/',
+  canonical_url: 'https://example.com/',
+  title: 'Example',
+  updated_at: '2026-10-19T00:00:00.000Z',
+};
+
+const uniqueViolation = () =>
+  Response.json(
+    { code: '23505', message: 'duplicate key value violates unique constraint' },
+    { status: 409 },
+  );
+
+function createTestApp() {
+  const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
+  app.use('*', async (c, next) => {
+    c.set('userId', 'user-1');
+    c.set('accessToken', 'test-jwt');
+    c.set('tokenScopes', null);
+    await next();
+  });
+  app.route('/api/bookmarks', bookmarks);
+  app.route('/api/bookmarks', bookmarksById);
+  app.route('/api/bookmarks', bookmarkActions);
+  return app;
+}
+
+function send(method: string, path: string, body?: unknown) {
+  return createTestApp().request(
+    path,
+    {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    env,
+  );
+}
+
+/** Answers database calls with the given responses, in order, and records each call */
+function stubDatabase(...responses: Response[]) {
+  const calls: { path: string; body: unknown }[] = [];
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+    calls.push({
+      path: new URL(input instanceof Request ? input.url : input).pathname,
+      body: init?.body ? JSON.parse(String(init.body)) : undefined,
+    });
+    return responses.shift() ?? Response.json([]);
+  });
+  return calls;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FR-001: Merge tags into a duplicate', () => {
+  it('merges the tags in the database rather than writing a list read earlier', async () => {
+    const calls = stubDatabase(
+      Response.json([{ ...existing, tags: ['dev'] }]),
+      Response.json([{ bookmark_id: EXISTING_ID, applied: true }]),
+      Response.json({ ...existing, tags: ['dev', 'reading', 'news'] }),
+    );
+
+    const res = await send('POST', '/api/bookmarks?on_duplicate=merge', {
+      url: 'https://example.com/',
+      title: 'Example',
+      tags: ['reading', 'news'],
+    });
+
+    expect(res.status).toBe(200);
+    expect(calls[1]).toEqual({
+      path: '/rest/v1/rpc/bulk_apply_tags',
+      body: { bookmark_ids: [EXISTING_ID], tag_action: 'add', tag_values: ['reading', 'news'] },
+    });
+    expect(await res.json()).toMatchObject({ data: { tags: ['dev', 'reading', 'news'] } });
+  });
+
+  it('answers 409 when the merged tags would exceed the limit', async () => {
+    stubDatabase(
+      Response.json([existing]),
+      Response.json([{ bookmark_id: EXISTING_ID, applied: false }]),
+    );
+
+    const res = await send('POST', '/api/bookmarks?on_duplicate=merge', {
+      url: 'https://example.com/',
+      title: 'Example',
+      tags: ['reading'],
+    });
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({
+      error: 'Merging tags would exceed 20 tags',
+      details: { existing_id: EXISTING_ID },
+    });
+  });
+});
+
+describe('FR-001: Duplicate writes the database refuses', () => {
+  it('answers a create that loses the race to another request with 409', async () => {
+    stubDatabase(Response.json([]), uniqueViolation(), Response.json([existing]));
+
+    const res = await send('POST', '/api/bookmarks', {
+      url: 'https://example.com/?utm_source=feed',
+      title: 'Example',
+    });
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({
+      error: 'Bookmark already exists',
+      details: { existing_id: EXISTING_ID },
+    });
+  });
+
+  it('refuses to change a URL to one another bookmark has', async () => {
+    stubDatabase(
+      Response.json({ ...existing, id: BOOKMARK_ID, url: 'https://example.org/' }),
+      uniqueViolation(),
+      Response.json([existing]),
+    );
+
+    const res = await send('PATCH', `/api/bookmarks/${BOOKMARK_ID}`, {
+      url: 'https://example.com/',
+    });
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({
+      error: 'Bookmark already exists',
+      details: { existing_id: EXISTING_ID },
+    });
+  });
+
+  it('refuses to replace a bookmark with a URL another bookmark has', async () => {
+    stubDatabase(uniqueViolation(), Response.json([existing]));
+
+    const res = await send('PUT', `/api/bookmarks/${BOOKMARK_ID}`, {
+      url: 'https://example.com/',
+      title: 'Example',
+    });
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ details: { existing_id: EXISTING_ID } });
+  });
+
+  it('refuses to restore a bookmark whose URL was saved again', async () => {
+    stubDatabase(
+      uniqueViolation(),
+      Response.json({ canonical_url: existing.canonical_url }),
+      Response.json([existing]),
+    );
+
+    const res = await send('POST', `/api/bookmarks/${BOOKMARK_ID}/restore`);
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({
+      error: 'Bookmark already exists',
+      details: { existing_id: EXISTING_ID },
+    });
+  });
+
+  it('still answers 409 when the bookmark with the URL cannot be found', async () => {
+    stubDatabase(uniqueViolation(), Response.json({ message: 'unavailable' }, { status: 503 }));
+
+    const res = await send('POST', `/api/bookmarks/${BOOKMARK_ID}/restore`);
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'Bookmark already exists' });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @file Bookmark export formatter contract tests
+ * @purpose Verify that exported documents escape bookmark content and that
+ *          the Netscape export can be imported again without loss.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EXPORT_FORMATTERS } from '../../src/lib/exporters/index.js';
+import { parseImport } from '../../src/lib/importers/index.js';
+import type { Bookmark, ExportFormat } from '../../src/schemas/bookmark.js';
+
+const BOOKMARKS: Bookmark[] = [
+  {
+    id: '00000000-0000-4000-8000-000000000001',
+    user_id: '00000000-0000-4000-8000-ffffffffffff',
+    url: 'https://example.com/search?q=a&b=c',
+    canonical_url: 'https://example.com/search?q=a&b=c',
+    title: '<script>alert("x")</script> & friends',
+    description: 'Tips & tricks',
+    tags: ['dev', 'reading'],
+    collection_ids: [],
+    site_name: null,
+    favicon_url: null,
+    page_canonical_url: null,
+    enriched_at: null,
+    health_status: null,
+    last_status_code: null,
+    redirect_url: null,
+    last_checked_at: null,
+    created_at: '2023-11-14T22:13:20.000Z',
+    updated_at: '2023-11-15T00:00:00.000Z',
+    deleted_at: null,
+  },
+  {
+    id: '00000000-0000-4000-8000-000000000002',
+    user_id: '00000000-0000-4000-8000-ffffffffffff',
+    url: 'https://example.com/sheet',
+    canonical_url: 'https://example.com/sheet',
+    title: '=HYPERLINK("https://evil.example")',
+    description: null,
+    tags: null,
+    collection_ids: [],
+    site_name: null,
+    favicon_url: null,
+    page_canonical_url: null,
+    enriched_at: null,
+    health_status: null,
+    last_status_code: null,
+    redirect_url: null,
+    last_checked_at: null,
+    created_at: '2023-11-14T22:13:20.000Z',
+    updated_at: '2023-11-14T22:13:20.000Z',
+    deleted_at: null,
+  },
+];
+
+function render(format: ExportFormat): string {
+  const formatter = EXPORT_FORMATTERS[format];
+  return (
+    formatter.header({
+      generatedAt: '2024-01-01T00:00:00.000Z',
+      collectionId: BOOKMARKS[0]!.user_id,
+    }) +
+    BOOKMARKS.map((bookmark, index) => formatter.item(bookmark, index)).join('') +
+    formatter.footer()
+  );
+}
+
+describe('Export formats', () => {
+  it('produces a Netscape file that imports back to the same bookmarks', () => {
+    const { records } = parseImport('netscape', render('html'));
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      url: BOOKMARKS[0]!.url,
+      title: BOOKMARKS[0]!.title,
+      description: 'Tips & tricks',
+      tags: ['dev', 'reading'],
+      created_at: BOOKMARKS[0]!.created_at,
+    });
+  });
+
+  it('escapes markup in HTML and Atom output', () => {
+    for (const format of ['html', 'atom'] as const) {
+      const document = render(format);
+      expect(document).not.toContain('<script>');
+      expect(document).toContain('&lt;script&gt;');
+    }
+  });
+
+  it('produces valid JSON in the API envelope', () => {
+    const parsed = JSON.parse(render('json')) as { data: Bookmark[] };
+    expect(parsed.data.map((bookmark) => bookmark.id)).toEqual(BOOKMARKS.map((b) => b.id));
+  });
+
+  it('neutralises spreadsheet formulas in CSV output', () => {
+    const lines = render('csv').split('\r\n');
+    expect(lines[0]).toBe('url,title,description,tags,created_at,updated_at');
+    expect(lines[2]).toContain(`"'=HYPERLINK(""https://evil.example"")"`);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @file Bookmark tag filter contract tests
+ * @purpose Verify how tags, match and exclude_tags are parsed from the query
+ *          string and which PostgREST filters they become.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyTagFilters } from '../../src/lib/bookmark-filters.js';
+import { BookmarkQuerySchema } from '../../src/schemas/bookmark.js';
+
+/** Records the filters applied to it, in PostgREST's operator names */
+class RecordingQuery {
+  filters: string[] = [];
+
+  contains(column: string, value: string) {
+    this.filters.push(`${column}=cs.${value}`);
+    return this;
+  }
+
+  overlaps(column: string, value: string) {
+    this.filters.push(`${column}=ov.${value}`);
+    return this;
+  }
+
+  not(column: string, operator: string, value: string) {
+    this.filters.push(`${column}=not.${operator}.${value}`);
+    return this;
+  }
+}
+
+describe('FR-002: Filter bookmarks by tags', () => {
+  describe('Query validation', () => {
+    it('splits, trims and normalises comma-separated tags', () => {
+      expect(
+        BookmarkQuerySchema.parse({ tags: ' Dev , reading,,dev', exclude_tags: 'Archived' }),
+      ).toMatchObject({ tags: ['dev', 'reading'], exclude_tags: ['archived'] });
+    });
+
+    it('accepts match=all and match=any with tags, and nothing else', () => {
+      expect(BookmarkQuerySchema.parse({ tags: 'dev', match: 'all' })).toMatchObject({
+        match: 'all',
+      });
+      expect(BookmarkQuerySchema.parse({ tags: 'dev', match: 'any' })).toMatchObject({
+        match: 'any',
+      });
+      expect(BookmarkQuerySchema.safeParse({ tags: 'dev', match: 'none' }).success).toBe(false);
+    });
+
+    it('requires tags for match', () => {
+      const result = BookmarkQuerySchema.safeParse({ match: 'any', exclude_tags: 'dev' });
+
+      expect(result.error?.flatten().fieldErrors).toEqual({
+        match: ['match requires a tags filter'],
+      });
+    });
+
+    it('rejects empty, overlong and oversized tag lists', () => {
+      for (const field of ['tags', 'exclude_tags']) {
+        expect(BookmarkQuerySchema.safeParse({ [field]: ' , ' }).success).toBe(false);
+        expect(BookmarkQuerySchema.safeParse({ [field]: 'x'.repeat(51) }).success).toBe(false);
+        const many = Array.from({ length: 21 }, (_, i) => `tag${i}`).join(',');
+        expect(BookmarkQuerySchema.safeParse({ [field]: many }).success).toBe(false);
+      }
+    });
+  });
+
+  describe('Filters', () => {
+    it('requires every tag by default and any tag with match=any', () => {
+      const all = applyTagFilters(new RecordingQuery(), { tags: ['dev', 'reading'] });
+      const any = applyTagFilters(new RecordingQuery(), { tags: ['dev', 'reading'], match: 'any' });
+
+      expect(all.filters).toEqual(['tag_paths=cs.{"dev","reading"}']);
+      expect(any.filters).toEqual(['tag_paths=ov.{"dev","reading"}']);
+    });
+
+    it('drops bookmarks carrying any excluded tag alongside the other filters', () => {
+      const query = applyTagFilters(new RecordingQuery(), {
+        tag: 'dev',
+        exclude_tags: ['archived', 'old'],
+      });
+
+      expect(query.filters).toEqual([
+        'tag_paths=cs.{"dev"}',
+        'tag_paths=not.ov.{"archived","old"}',
+      ]);
+    });
+  });
+});
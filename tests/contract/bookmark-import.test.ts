@@ -0,0 +1,116 @@
+/**
+ * @file Bookmark import parser contract tests
+ * @purpose Verify that each supported export format is read into bookmark
+ *          records with titles, descriptions, tags and dates preserved.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseImport } from '../../src/lib/importers/index.js';
+
+const NETSCAPE_EXPORT = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1700000000">Dev</H3>
+    <DL><p>
+        <DT><H3>Rust &amp; Go</H3>
+        <DL><p>
+            <DT><A HREF="https://doc.rust-lang.org/book/" ADD_DATE="1700000100" TAGS="books,rust">The Rust Book</A>
+            <DD>Learn Rust &lt;properly&gt;
+        </DL><p>
+        <DT><A HREF="https://go.dev/">Go</A>
+    </DL><p>
+    <DT><A HREF="https://example.com/untitled"></A>
+</DL><p>`;
+
+const POCKET_EXPORT = `title,url,time_added,tags,status
+"Commas, quotes ""and"" more",https://example.com/a,1700000000,reading|later,unread
+,https://example.com/b,1700000001,,archive
+`;
+
+const PINBOARD_EXPORT = JSON.stringify([
+  {
+    href: 'https://example.com/p',
+    description: 'Pinned',
+    extended: 'Notes',
+    tags: 'one two',
+    time: '2023-11-14T22:13:20Z',
+  },
+  { description: 'No link' },
+]);
+
+describe('FR-001: Create bookmarks from export files', () => {
+  describe('Netscape bookmark HTML', () => {
+    it('turns enclosing folders into tags and keeps explicit tags', () => {
+      const { records } = parseImport('netscape', NETSCAPE_EXPORT);
+
+      expect(records).toHaveLength(3);
+      expect(records[0]).toMatchObject({
+        url: 'https://doc.rust-lang.org/book/',
+        title: 'The Rust Book',
+        description: 'Learn Rust <properly>',
+        tags: ['Dev', 'Rust & Go', 'books', 'rust'],
+        created_at: '2023-11-14T22:15:00.000Z',
+      });
+    });
+
+    it('leaves a folder when its list closes', () => {
+      const { records } = parseImport('netscape', NETSCAPE_EXPORT);
+
+      expect(records[1]).toMatchObject({ url: 'https://go.dev/', tags: ['Dev'] });
+      expect(records[2]).toMatchObject({ tags: [] });
+    });
+
+    it('falls back to the URL for untitled bookmarks', () => {
+      const { records } = parseImport('netscape', NETSCAPE_EXPORT);
+      expect(records[2]!.title).toBe('https://example.com/untitled');
+    });
+  });
+
+  describe('Pocket CSV', () => {
+    it('reads quoted fields and pipe-separated tags', () => {
+      const { records } = parseImport('pocket', POCKET_EXPORT);
+
+      expect(records).toHaveLength(2);
+      expect(records[0]).toMatchObject({
+        position: 1,
+        title: 'Commas, quotes "and" more',
+        url: 'https://example.com/a',
+        tags: ['reading', 'later'],
+        created_at: '2023-11-14T22:13:20.000Z',
+      });
+      expect(records[1]).toMatchObject({ title: 'https://example.com/b', tags: [] });
+    });
+
+    it('reports a file without a url column', () => {
+      const { records, errors } = parseImport('pocket', 'title,link\nA,https://example.com');
+      expect(records).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+    });
+  });
+
+  describe('Pinboard JSON', () => {
+    it('maps Pinboard fields and reports malformed entries by position', () => {
+      const { records, errors } = parseImport('pinboard', PINBOARD_EXPORT);
+
+      expect(records).toEqual([
+        {
+          position: 1,
+          url: 'https://example.com/p',
+          title: 'Pinned',
+          description: 'Notes',
+          tags: ['one', 'two'],
+          created_at: '2023-11-14T22:13:20.000Z',
+        },
+      ]);
+      expect(errors).toEqual([{ position: 2, reason: 'Entry is not a Pinboard bookmark' }]);
+    });
+
+    it('rejects content that is not JSON', () => {
+      const { errors } = parseImport('pinboard', '<html>');
+      expect(errors[0]!.reason).toBe('File is not valid JSON');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @file Bookmark pagination contract tests
+ * @purpose Verify that list cursors are opaque, round-trip exactly, are
+ *          validated at the API boundary, and page in both directions
+ *          without skipping rows that share a sort value.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { encodeCursor, decodeCursor } from '../../src/lib/cursor.js';
+import { toPage } from '../../src/lib/bookmark-pagination.js';
+import { BookmarkQuerySchema, type Bookmark } from '../../src/schemas/bookmark.js';
+
+function bookmark(index: number, createdAt: string): Bookmark {
+  return {
+    id: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+    user_id: '00000000-0000-4000-8000-ffffffffffff',
+    url: `https://example.com/${index}`,
+    canonical_url: `https://example.com/${index}`,
+    title: `Bookmark ${index}`,
+    description: null,
+    tags: null,
+    collection_ids: [],
+    site_name: null,
+    favicon_url: null,
+    page_canonical_url: null,
+    enriched_at: null,
+    health_status: null,
+    last_status_code: null,
+    redirect_url: null,
+    last_checked_at: null,
+    created_at: createdAt,
+    updated_at: createdAt,
+    deleted_at: null,
+  };
+}
+
+describe('FR-002: List bookmarks with cursor pagination', () => {
+  describe('Cursor encoding', () => {
+    it('round-trips any JSON payload through an opaque URL-safe token', () => {
+      fc.assert(
+        fc.property(
+          fc.record({ value: fc.oneof(fc.string(), fc.integer()), id: fc.uuid() }),
+          (payload) => {
+            const token = encodeCursor(payload);
+            expect(token).toMatch(/^[A-Za-z0-9_-]*$/);
+            expect(decodeCursor(token)).toEqual(payload);
+          },
+        ),
+      );
+    });
+
+    it('decodes malformed tokens to null instead of throwing', () => {
+      expect(decodeCursor('%%%')).toBeNull();
+      expect(decodeCursor('bm90IGpzb24')).toBeNull();
+    });
+  });
+
+  describe('Query validation', () => {
+    it('rejects a cursor that is not a valid encoded cursor', () => {
+      const result = BookmarkQuerySchema.safeParse({ cursor: encodeCursor({ id: 'nope' }) });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects a cursor issued for a different sort order', () => {
+      const cursor = encodeCursor({
+        sort: 'title',
+        order: 'asc',
+        value: 'Bookmark 1',
+        id: '00000000-0000-4000-8000-000000000001',
+        direction: 'next',
+      });
+      const result = BookmarkQuerySchema.safeParse({ cursor, sort: 'created_at' });
+      expect(result.success).toBe(false);
+    });
+
+    it('defaults to newest first, and to relevance when searching', () => {
+      expect(BookmarkQuerySchema.parse({})).toMatchObject({ sort: 'created_at', order: 'desc' });
+      expect(BookmarkQuerySchema.parse({ q: 'rust' })).toMatchObject({ sort: 'relevance' });
+    });
+  });
+
+  describe('Page construction', () => {
+    const sameTimestamp = '2026-01-01T00:00:00.000000+00:00';
+    const rows = [1, 2, 3].map((i) => bookmark(i, sameTimestamp));
+
+    it('reports more rows and a next cursor when limit + 1 rows are fetched', () => {
+      const page = toPage(rows, { sort: 'created_at', order: 'desc', limit: 2 });
+
+      expect(page.bookmarks).toHaveLength(2);
+      expect(page.hasMore).toBe(true);
+      expect(page.prevCursor).toBeUndefined();
+      expect(decodeCursor(page.nextCursor!)).toMatchObject({
+        value: sameTimestamp,
+        id: rows[1]!.id,
+        direction: 'next',
+      });
+    });
+
+    it('restores the requested order when paging backwards', () => {
+      const cursor = {
+        sort: 'created_at' as const,
+        order: 'desc' as const,
+        value: sameTimestamp,
+        id: rows[2]!.id,
+        direction: 'prev' as const,
+      };
+      // Backwards pages are fetched in reverse order
+      const page = toPage([rows[1]!, rows[0]!], {
+        sort: 'created_at',
+        order: 'desc',
+        cursor,
+        limit: 2,
+      });
+
+      expect(page.bookmarks.map((b) => b.id)).toEqual([rows[0]!.id, rows[1]!.id]);
+      expect(page.hasMore).toBe(true);
+      expect(page.prevCursor).toBeUndefined();
+      expect(page.nextCursor).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @file Bookmark update contract tests
+ * @purpose Verify full replacement (PUT), JSON Merge Patch and JSON Patch
+ *          request validation, and JSON Patch application.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  JsonPatchSchema,
+  PatchBookmarkSchema,
+  ReplaceBookmarkSchema,
+} from '../../src/schemas/bookmark.js';
+import { applyJsonPatch } from '../../src/lib/json-patch.js';
+
+const editable = {
+  url: 'https://example.com/',
+  title: 'Example',
+  description: 'A page',
+  tags: ['dev', 'reading'],
+  collection_ids: [],
+};
+
+describe('FR-002: Replace a bookmark', () => {
+  it('clears optional fields that are left out', () => {
+    expect(ReplaceBookmarkSchema.parse({ url: 'https://example.com/', title: 'Example' })).toEqual({
+      url: 'https://example.com/',
+      title: 'Example',
+      description: null,
+      tags: null,
+      collection_ids: [],
+    });
+  });
+
+  it('requires the URL and title', () => {
+    expect(ReplaceBookmarkSchema.safeParse({ title: 'Example' }).success).toBe(false);
+    expect(ReplaceBookmarkSchema.safeParse({ url: 'https://example.com/' }).success).toBe(false);
+  });
+});
+
+describe('FR-002: Merge patch a bookmark', () => {
+  it('leaves out unchanged fields and keeps null to clear a field', () => {
+    expect(PatchBookmarkSchema.parse({ description: null, tags: null })).toEqual({
+      description: null,
+      tags: null,
+    });
+    expect(PatchBookmarkSchema.parse({ tags: ['JS'] })).toEqual({ tags: ['js'] });
+  });
+
+  it('does not allow the URL or title to be cleared', () => {
+    expect(PatchBookmarkSchema.safeParse({ url: null }).success).toBe(false);
+    expect(PatchBookmarkSchema.safeParse({ title: null }).success).toBe(false);
+  });
+
+  it('rejects fields that cannot be edited', () => {
+    expect(PatchBookmarkSchema.safeParse({ health_status: null }).success).toBe(false);
+  });
+});
+
+describe('FR-002: JSON Patch a bookmark', () => {
+  it('validates operations', () => {
+    expect(JsonPatchSchema.safeParse([{ op: 'add', path: '/tags/-', value: 'x' }]).success).toBe(
+      true,
+    );
+    expect(JsonPatchSchema.safeParse([{ op: 'add', path: '/tags/-' }]).success).toBe(false);
+    expect(JsonPatchSchema.safeParse([{ op: 'add', path: 'tags', value: 'x' }]).success).toBe(
+      false,
+    );
+    expect(JsonPatchSchema.safeParse([{ op: 'merge', path: '/tags' }]).success).toBe(false);
+    expect(JsonPatchSchema.safeParse([]).success).toBe(false);
+  });
+
+  it('adds and removes single tags without resending the list', () => {
+    const patched = applyJsonPatch(editable, [
+      { op: 'test', path: '/tags/0', value: 'dev' },
+      { op: 'remove', path: '/tags/0' },
+      { op: 'add', path: '/tags/-', value: 'typescript' },
+      { op: 'add', path: '/tags/0', value: 'first' },
+    ]);
+    expect(patched).toMatchObject({ tags: ['first', 'reading', 'typescript'] });
+  });
+
+  it('replaces, moves and copies values', () => {
+    const patched = applyJsonPatch(editable, [
+      { op: 'replace', path: '/title', value: 'Renamed' },
+      { op: 'copy', from: '/title', path: '/tags/-' },
+      { op: 'move', from: '/tags/0', path: '/tags/-' },
+      { op: 'replace', path: '/description', value: null },
+    ]);
+    expect(patched).toEqual({
+      ...editable,
+      title: 'Renamed',
+      description: null,
+      tags: ['reading', 'Renamed', 'dev'],
+    });
+  });
+
+  it('unescapes JSON Pointer tokens', () => {
+    expect(applyJsonPatch({ 'a/b': 1, 'c~d': 2 }, [{ op: 'remove', path: '/a~1b' }])).toEqual({
+      'c~d': 2,
+    });
+    expect(applyJsonPatch({ 'c~d': 2 }, [{ op: 'test', path: '/c~0d', value: 2 }])).toEqual({
+      'c~d': 2,
+    });
+  });
+
+  it('compares objects structurally in test operations', () => {
+    const document = { value: { a: 1, b: [1, { c: 2 }] } };
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'test', path: '/value', value: { b: [1, { c: 2 }], a: 1 } }]),
+    ).not.toThrow();
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'test', path: '/value', value: { a: 1 } }]),
+    ).toThrow('Patch test failed');
+  });
+
+  it('rejects paths that do not exist', () => {
+    expect(() => applyJsonPatch(editable, [{ op: 'remove', path: '/tags/5' }])).toThrow(
+      'Invalid patch',
+    );
+    expect(() => applyJsonPatch(editable, [{ op: 'add', path: '/tags/01', value: 'x' }])).toThrow(
+      'Invalid patch',
+    );
+    expect(() => applyJsonPatch(editable, [{ op: 'replace', path: '/missing', value: 1 }])).toThrow(
+      'Invalid patch',
+    );
+    expect(() => applyJsonPatch(editable, [{ op: 'add', path: '/title/x', value: 1 }])).toThrow(
+      'Invalid patch',
+    );
+    expect(() =>
+      applyJsonPatch(editable, [{ op: 'move', from: '/tags', path: '/tags/0' }]),
+    ).toThrow('Invalid patch');
+  });
+
+  it('never modifies the original document or object prototypes', () => {
+    const original = structuredClone(editable);
+    expect(() =>
+      applyJsonPatch(editable, [
+        { op: 'add', path: '/tags/-', value: 'x' },
+        { op: 'add', path: '/__proto__', value: { polluted: true } },
+      ]),
+    ).toThrow('Invalid patch');
+    expect(editable).toEqual(original);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @file Bookmark search contract tests
+ * @purpose Verify search query validation and defaults, and that listing
+ *          reads from the ranked search function only when searching.
+ * @spec SPEC-2026-12
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import bookmarks from '../../src/api/bookmarks/index.js';
+import type { AuthEnv, AuthVariables } from '../../src/middleware/auth.js';
+import { BookmarkQuerySchema } from '../../src/schemas/bookmark.js';
+
+const env = {
+  SUPABASE_URL: 'https://test.supabase.co',
+  SUPABASE_ANON_KEY: 'test-key',
+} as AuthEnv;
+
+function createTestApp() {
+  const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
+  app.use('*', async (c, next) => {
+    c.set('userId', 'user-1');
+    c.set('accessToken', 'test-jwt');
+    c.set('tokenScopes', null);
+    await next();
+  });
+  app.route('/api/bookmarks', bookmarks);
+  return app;
+}
+
+/** Answers every database call with no rows and records the last request */
+function stubDatabase() {
+  const last: { url?: URL; body?: unknown } = {};
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+    last.url = new URL(input instanceof Request ? input.url : input);
+    last.body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    return Response.json([]);
+  });
+  return last;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FR-002: Search bookmarks', () => {
+  describe('Query validation', () => {
+    it('trims the search query', () => {
+      expect(BookmarkQuerySchema.parse({ q: '  rust async  ' })).toMatchObject({
+        q: 'rust async',
+      });
+    });
+
+    it('rejects blank and overlong search queries', () => {
+      expect(BookmarkQuerySchema.safeParse({ q: '   ' }).success).toBe(false);
+      expect(BookmarkQuerySchema.safeParse({ q: 'x'.repeat(200) }).success).toBe(true);
+      expect(BookmarkQuerySchema.safeParse({ q: 'x'.repeat(201) }).success).toBe(false);
+    });
+
+    it('only sorts by relevance when searching', () => {
+      const result = BookmarkQuerySchema.safeParse({ sort: 'relevance' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.flatten().fieldErrors).toEqual({
+        sort: ['sort=relevance requires a search query'],
+      });
+      expect(BookmarkQuerySchema.parse({ q: 'rust', sort: 'relevance' })).toMatchObject({
+        sort: 'relevance',
+        order: 'desc',
+      });
+    });
+
+    it('keeps an explicit sort when searching', () => {
+      expect(BookmarkQuerySchema.parse({ q: 'rust', sort: 'title' })).toMatchObject({
+        sort: 'title',
+        order: 'asc',
+      });
+    });
+  });
+
+  describe('Query source', () => {
+    it('searches through the ranked search function, most relevant first', async () => {
+      const last = stubDatabase();
+
+      const res = await createTestApp().request('/api/bookmarks?q=%20rust%20', {}, env);
+
+      expect(res.status).toBe(200);
+      expect(last.url?.pathname).toBe('/rest/v1/rpc/search_bookmarks');
+      expect(last.body).toEqual({ search_query: 'rust' });
+      expect(last.url?.searchParams.get('order')).toBe('search_rank.desc,id.desc');
+      expect(last.url?.searchParams.get('deleted_at')).toBe('is.null');
+    });
+
+    it('reads the bookmarks table when not searching', async () => {
+      const last = stubDatabase();
+
+      const res = await createTestApp().request('/api/bookmarks', {}, env);
+
+      expect(res.status).toBe(200);
+      expect(last.url?.pathname).toBe('/rest/v1/bookmarks');
+      expect(last.url?.searchParams.get('order')).toBe('created_at.desc,id.desc');
+    });
+
+    it('answers sort=relevance without a search query with 400', async () => {
+      const res = await createTestApp().request('/api/bookmarks?sort=relevance', {}, env);
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * @file Bookmark trash contract tests
+ * @purpose Verify trash listing parameters and pages ordered by deletion
+ *          time, restoring from the trash, and permanent deletion.
+ * @spec SPEC-2026-12
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import bookmarksById from '../../src/api/bookmarks/[id].js';
+import bookmarkActions from '../../src/api/bookmarks/actions.js';
+import { decodeCursor, encodeCursor } from '../../src/lib/cursor.js';
+import { bookmarkEtag } from '../../src/lib/etag.js';
+import { toPage } from '../../src/lib/bookmark-pagination.js';
+import type { AuthEnv, AuthVariables } from '../../src/middleware/auth.js';
+import {
+  BookmarkQuerySchema,
+  DeleteBookmarkQuerySchema,
+  TrashQuerySchema,
+  type Bookmark,
+} from '../../src/schemas/bookmark.js';
+
+const BOOKMARK_ID = '00000000-0000-4000-8000-000000000001';
+
+const env = {
+  SUPABASE_URL: 'https://test.supabase.co',
+  SUPABASE_ANON_KEY: 'test-key',
+} as AuthEnv;
+
+function trashed(index: number, deletedAt: string): Bookmark {
+  return {
+    id: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+    user_id: '00000000-0000-4000-8000-ffffffffffff',
+    url: `https://example.com/${index}`,
+    canonical_url: `https://example.com/${index}`,
+    title: `Bookmark ${index}`,
+    description: null,
+    tags: null,
+    collection_ids: [],
+    site_name: null,
+    favicon_url: null,
+    page_canonical_url: null,
+    enriched_at: null,
+    health_status: null,
+    last_status_code: null,
+    redirect_url: null,
+    last_checked_at: null,
+    created_at: '2026-01-01T00:00:00.000000+00:00',
+    updated_at: deletedAt,
+    deleted_at: deletedAt,
+  };
+}
+
+function trashCursor(value: string) {
+  return encodeCursor({
+    sort: 'deleted_at',
+    order: 'desc',
+    value,
+    id: BOOKMARK_ID,
+    direction: 'next',
+  });
+}
+
+function createTestApp() {
+  const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
+  app.use('*', async (c, next) => {
+    c.set('userId', 'user-1');
+    c.set('accessToken', 'test-jwt');
+    c.set('tokenScopes', null);
+    await next();
+  });
+  app.route('/api/bookmarks', bookmarksById);
+  app.route('/api/bookmarks', bookmarkActions);
+  return app;
+}
+
+/** Answers database calls with the given responses, in order, and records their methods */
+function stubDatabase(...responses: Response[]) {
+  const methods: string[] = [];
+  vi.stubGlobal('fetch', async (_input: RequestInfo | URL, init?: RequestInit) => {
+    methods.push(init?.method ?? 'GET');
+    return responses.shift() ?? Response.json([]);
+  });
+  return methods;
+}
+
+// What PostgREST answers when .single() matches no row
+const noRow = () =>
+  Response.json({ code: 'PGRST116', message: 'JSON object requested, no rows' }, { status: 406 });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FR-002: Trash', () => {
+  describe('Query validation', () => {
+    it('accepts cursors issued by the trash listing only', () => {
+      const cursor = trashCursor('2026-10-01T00:00:00.000000+00:00');
+
+      expect(TrashQuerySchema.safeParse({ cursor }).success).toBe(true);
+      expect(BookmarkQuerySchema.safeParse({ cursor }).success).toBe(false);
+
+      const listCursor = encodeCursor({
+        sort: 'created_at',
+        order: 'desc',
+        value: '2026-10-01T00:00:00.000000+00:00',
+        id: BOOKMARK_ID,
+        direction: 'next',
+      });
+      expect(TrashQuerySchema.safeParse({ cursor: listCursor }).success).toBe(false);
+    });
+
+    it('limits pages to between 1 and 100 bookmarks', () => {
+      expect(TrashQuerySchema.parse({ limit: '100' })).toEqual({ limit: 100 });
+      expect(TrashQuerySchema.safeParse({ limit: '0' }).success).toBe(false);
+      expect(TrashQuerySchema.safeParse({ limit: '101' }).success).toBe(false);
+    });
+
+    it('reads permanent as a boolean and rejects other values', () => {
+      expect(DeleteBookmarkQuerySchema.parse({ permanent: 'true' })).toEqual({ permanent: true });
+      expect(DeleteBookmarkQuerySchema.parse({ permanent: 'false' })).toEqual({
+        permanent: false,
+      });
+      expect(DeleteBookmarkQuerySchema.parse({})).toEqual({});
+      expect(DeleteBookmarkQuerySchema.safeParse({ permanent: '1' }).success).toBe(false);
+    });
+  });
+
+  describe('Page construction', () => {
+    const request = { sort: 'deleted_at' as const, order: 'desc' as const, limit: 2 };
+
+    it('continues from the deletion time of the last bookmark on the page', () => {
+      const rows = [
+        trashed(3, '2026-10-03T00:00:00.000000+00:00'),
+        trashed(2, '2026-10-02T00:00:00.000000+00:00'),
+        trashed(1, '2026-10-01T00:00:00.000000+00:00'),
+      ];
+
+      const page = toPage(rows, request);
+
+      expect(page.bookmarks.map((b) => b.id)).toEqual([rows[0]!.id, rows[1]!.id]);
+      expect(page.hasMore).toBe(true);
+      expect(decodeCursor(page.nextCursor!)).toEqual({
+        sort: 'deleted_at',
+        order: 'desc',
+        value: '2026-10-02T00:00:00.000000+00:00',
+        id: rows[1]!.id,
+        direction: 'next',
+      });
+      expect(TrashQuerySchema.safeParse({ cursor: page.nextCursor }).success).toBe(true);
+    });
+
+    it('ends without a next cursor on the last page', () => {
+      const page = toPage([trashed(1, '2026-10-01T00:00:00.000000+00:00')], request);
+
+      expect(page.hasMore).toBe(false);
+      expect(page.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('Restore', () => {
+    it('returns the restored bookmark', async () => {
+      const bookmark = { ...trashed(1, '2026-10-01T00:00:00.000000+00:00'), deleted_at: null };
+      stubDatabase(Response.json(bookmark));
+
+      const res = await createTestApp().request(
+        `/api/bookmarks/${BOOKMARK_ID}/restore`,
+        { method: 'POST' },
+        env,
+      );
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ data: bookmark });
+    });
+
+    it('returns 404 for a bookmark that is not in the trash', async () => {
+      stubDatabase(noRow());
+
+      const res = await createTestApp().request(
+        `/api/bookmarks/${BOOKMARK_ID}/restore`,
+        { method: 'POST' },
+        env,
+      );
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: 'Bookmark not found in trash' });
+    });
+  });
+
+  describe('Permanent delete', () => {
+    function purge() {
+      return createTestApp().request(
+        `/api/bookmarks/${BOOKMARK_ID}?permanent=true`,
+        { method: 'DELETE' },
+        env,
+      );
+    }
+
+    it('deletes the row rather than moving it to the trash', async () => {
+      const methods = stubDatabase(Response.json([{ id: BOOKMARK_ID }]));
+
+      const res = await purge();
+
+      expect(res.status).toBe(204);
+      expect(methods).toEqual(['DELETE']);
+    });
+
+    it('returns 404 when there is no such bookmark', async () => {
+      stubDatabase(Response.json([]));
+
+      const res = await purge();
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: 'Bookmark not found' });
+    });
+
+    describe('with If-Match', () => {
+      const bookmark = trashed(1, '2026-10-01T00:00:00.000000+00:00');
+
+      /** Answers the lookup as the database would: the bookmark is only in the trash */
+      function stubTrashedBookmark() {
+        const methods: string[] = [];
+        vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+          const url = new URL(input instanceof Request ? input.url : input);
+          methods.push(init?.method ?? 'GET');
+          if (init?.method === 'DELETE') {
+            return Response.json([{ id: bookmark.id }]);
+          }
+          return url.searchParams.get('deleted_at') === 'is.null'
+            ? noRow()
+            : Response.json(bookmark);
+        });
+        return methods;
+      }
+
+      function purgeIfMatch(etag: string, permanent = true) {
+        return createTestApp().request(
+          `/api/bookmarks/${BOOKMARK_ID}${permanent ? '?permanent=true' : ''}`,
+          { method: 'DELETE', headers: { 'If-Match': etag } },
+          env,
+        );
+      }
+
+      it('compares the ETag of a bookmark in the trash', async () => {
+        const methods = stubTrashedBookmark();
+
+        const res = await purgeIfMatch(await bookmarkEtag(bookmark));
+
+        expect(res.status).toBe(204);
+        expect(methods).toEqual(['GET', 'DELETE']);
+      });
+
+      it('returns 412 when the trashed bookmark has changed', async () => {
+        const methods = stubTrashedBookmark();
+
+        const res = await purgeIfMatch('"stale"');
+
+        expect(res.status).toBe(412);
+        expect(methods).toEqual(['GET']);
+      });
+
+      it('still finds only active bookmarks to move to the trash', async () => {
+        stubTrashedBookmark();
+
+        const res = await purgeIfMatch(await bookmarkEtag(bookmark), false);
+
+        expect(res.status).toBe(404);
+      });
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @file Collection contract tests
+ * @purpose Verify collection request validation, how the collection routes
+ *          answer unknown or invalid parents and missing collections, and the
+ *          collection filter on the bookmark list endpoint.
+ * @spec SPEC-2026-12
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import collectionsIndex from '../../src/api/collections/index.js';
+import collectionsById from '../../src/api/collections/[id].js';
+import type { AuthEnv, AuthVariables } from '../../src/middleware/auth.js';
+import { CreateCollectionSchema, UpdateCollectionSchema } from '../../src/schemas/collection.js';
+import { BookmarkQuerySchema, CreateBookmarkSchema } from '../../src/schemas/bookmark.js';
+
+const COLLECTION_ID = '00000000-0000-4000-8000-000000000001';
+
+const env = {
+  SUPABASE_URL: 'https://test.supabase.co',
+  SUPABASE_ANON_KEY: 'test-key',
+} as AuthEnv;
+
+function createTestApp() {
+  const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
+  app.use('*', async (c, next) => {
+    c.set('userId', 'user-1');
+    c.set('accessToken', 'test-jwt');
+    c.set('tokenScopes', null);
+    await next();
+  });
+  app.route('/api/collections', collectionsIndex);
+  app.route('/api/collections', collectionsById);
+  return app;
+}
+
+function send(method: string, path: string, body?: unknown) {
+  return createTestApp().request(
+    path,
+    {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    env,
+  );
+}
+
+/** Answers every database call with the given response */
+function stubDatabase(response: () => Response) {
+  vi.stubGlobal('fetch', async () => response());
+}
+
+// What PostgREST answers when a collection trigger refuses a parent
+const parentRefused = () =>
+  Response.json(
+    { code: '23503', message: 'collection cannot be nested inside itself' },
+    { status: 409 },
+  );
+
+// What PostgREST answers when .single() matches no row
+const noRow = () =>
+  Response.json({ code: 'PGRST116', message: 'JSON object requested, no rows' }, { status: 406 });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FR-004: Organise bookmarks into collections', () => {
+  it('accepts a nested collection and trims its name', () => {
+    const result = CreateCollectionSchema.parse({
+      name: '  Reading  ',
+      parent_id: COLLECTION_ID,
+      position: 2,
+    });
+    expect(result).toEqual({ name: 'Reading', parent_id: COLLECTION_ID, position: 2 });
+  });
+
+  it('rejects blank names and negative positions', () => {
+    expect(CreateCollectionSchema.safeParse({ name: '   ' }).success).toBe(false);
+    expect(CreateCollectionSchema.safeParse({ name: 'A', position: -1 }).success).toBe(false);
+  });
+
+  it('allows moving a collection to the top level', () => {
+    expect(UpdateCollectionSchema.parse({ parent_id: null })).toEqual({ parent_id: null });
+  });
+
+  it('accepts collection IDs when creating a bookmark', () => {
+    const result = CreateBookmarkSchema.safeParse({
+      url: 'https://example.com',
+      collection_ids: [COLLECTION_ID],
+    });
+    expect(result.success).toBe(true);
+    expect(
+      CreateBookmarkSchema.safeParse({ url: 'https://example.com', collection_ids: ['inbox'] })
+        .success,
+    ).toBe(false);
+  });
+
+  it('filters the bookmark list by collection alongside pagination', () => {
+    const result = BookmarkQuerySchema.parse({ collection_id: COLLECTION_ID, limit: '10' });
+    expect(result).toMatchObject({ collection_id: COLLECTION_ID, limit: 10, sort: 'created_at' });
+    expect(BookmarkQuerySchema.safeParse({ collection_id: 'inbox' }).success).toBe(false);
+  });
+});
+
+describe('FR-004: Collection routes', () => {
+  it('answers a parent the database refuses with 400 on create', async () => {
+    stubDatabase(parentRefused);
+
+    const res = await send('POST', '/api/collections', { name: 'A', parent_id: COLLECTION_ID });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: 'Validation failed',
+      details: { parent_id: ['Unknown parent collection'] },
+    });
+  });
+
+  it('answers a move under the collection itself or a descendant with 400', async () => {
+    stubDatabase(parentRefused);
+
+    const res = await send('PUT', `/api/collections/${COLLECTION_ID}`, {
+      parent_id: COLLECTION_ID,
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: 'Validation failed',
+      details: { parent_id: ['Unknown parent collection, or the collection itself'] },
+    });
+  });
+
+  it('answers a collection the user cannot see with 404', async () => {
+    stubDatabase(noRow);
+
+    const updated = await send('PUT', `/api/collections/${COLLECTION_ID}`, { name: 'B' });
+    stubDatabase(() => Response.json([]));
+    const deleted = await send('DELETE', `/api/collections/${COLLECTION_ID}`);
+
+    expect(updated.status).toBe(404);
+    expect(deleted.status).toBe(404);
+  });
+
+  it('rejects malformed collection IDs with 400', async () => {
+    const res = await send('PUT', '/api/collections/inbox', { name: 'B' });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Invalid collection ID' });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @file Word game sharing contract tests
+ * @purpose Verify result grids and headers, that games in progress cannot be
+ *          shared, and that public share links work without authentication
+ *          and never carry letters.
+ * @spec SPEC-2026-27
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import gamesShare from '../../src/api/games/share.js';
+import publicShares from '../../src/api/public/shares/[id].js';
+import { renderShare } from '../../src/lib/game-share.js';
+import type { AuthEnv, AuthVariables } from '../../src/middleware/auth.js';
+import { SharedGameResponseSchema } from '../../src/schemas/game.js';
+
+const GAME_ID = '00000000-0000-4000-8000-000000000001';
+const SHARE_ID = '00000000-0000-4000-8000-0000000000aa';
+
+const env = {
+  SUPABASE_URL: 'https://test.supabase.co',
+  SUPABASE_ANON_KEY: 'test-key',
+} as AuthEnv;
+
+const lost = {
+  mode: 'standard' as const,
+  status: 'lost' as const,
+  guesses_taken: 6,
+  daily_date: null,
+  grid: Array.from({ length: 6 }, () => Array.from({ length: 5 }, () => 'absent' as const)),
+};
+
+function createTestApp() {
+  const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
+  app.use('*', async (c, next) => {
+    c.set('userId', 'user-1');
+    c.set('accessToken', 'test-jwt');
+    c.set('tokenScopes', null);
+    await next();
+  });
+  app.route('/api/games', gamesShare);
+  return app;
+}
+
+/** Answers database calls with the handler's response for each path */
+function stubDatabase(handler: (path: string) => Response) {
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL) => {
+    return handler(new URL(input instanceof Request ? input.url : input).pathname);
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FR-008: Result grids', () => {
+  it('renders one row of squares per guess under a header', () => {
+    const shared = renderShare({
+      mode: 'standard',
+      status: 'won',
+      guesses_taken: 2,
+      daily_date: null,
+      grid: [
+        ['absent', 'present', 'absent', 'correct', 'absent'],
+        ['correct', 'correct', 'correct', 'correct', 'correct'],
+      ],
+    });
+
+    expect(shared.header).toBe('Word game 2/6');
+    expect(shared.grid).toEqual(['⬛🟨⬛🟩⬛', '🟩🟩🟩🟩🟩']);
+    expect(shared.text).toBe('Word game 2/6\n\n⬛🟨⬛🟩⬛\n🟩🟩🟩🟩🟩');
+  });
+
+  it('marks losses, hard mode and daily games in the header', () => {
+    expect(renderShare(lost).header).toBe('Word game X/6');
+    expect(renderShare({ ...lost, mode: 'hard' }).header).toBe('Word game X/6*');
+    expect(renderShare({ ...lost, mode: 'daily', daily_date: '2026-10-19' }).header).toBe(
+      'Daily word 2026-10-19 X/6',
+    );
+  });
+
+  it('refuses to share a game in progress', async () => {
+    stubDatabase(() =>
+      Response.json({
+        mode: 'standard',
+        status: 'in_progress',
+        guesses_taken: 1,
+        daily_date: null,
+        share_id: null,
+      }),
+    );
+
+    const res = await createTestApp().request(`/api/games/${GAME_ID}/share`, {}, env);
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'Game is still in progress' });
+  });
+
+  it('rejects an invalid game ID', async () => {
+    const res = await createTestApp().request('/api/games/not-a-uuid/share', {}, env);
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('SR-004: Public share links', () => {
+  function fetchShare(shareId: string) {
+    const app = new Hono<{ Bindings: AuthEnv }>();
+    app.route('/api/public/shares', publicShares);
+    return app.request(`/api/public/shares/${shareId}`, {}, env);
+  }
+
+  it('serves a shared result without authentication or letters', async () => {
+    let authorization: string | null = null;
+    vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+      authorization = new Headers(input instanceof Request ? input.headers : init?.headers).get(
+        'Authorization',
+      );
+      return Response.json([lost]);
+    });
+
+    const res = await fetchShare(SHARE_ID);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(authorization).toBe('Bearer test-key');
+    expect(SharedGameResponseSchema.parse(body).data.header).toBe('Word game X/6');
+    expect(JSON.stringify(body)).not.toMatch(/[A-Z]{5}/);
+  });
+
+  it('returns 404 for unknown and malformed share IDs', async () => {
+    stubDatabase(() => Response.json([]));
+
+    expect((await fetchShare(SHARE_ID)).status).toBe(404);
+    expect((await fetchShare('not-a-uuid')).status).toBe(404);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * @file Word game contract tests
+ * @purpose Verify guess validation, game modes, statistics queries, and that
+ *          game responses never carry the answer before the game is over.
+ * @spec SPEC-2026-27
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import games from '../../src/api/games/index.js';
+import gamesById from '../../src/api/games/[id].js';
+import type { AuthEnv, AuthVariables } from '../../src/middleware/auth.js';
+import {
+  CreateGameSchema,
+  GameHistoryQuerySchema,
+  GameStatsQuerySchema,
+  GameStateSchema,
+  SubmitGuessSchema,
+} from '../../src/schemas/game.js';
+
+const GAME_ID = '00000000-0000-4000-8000-000000000001';
+
+const env = {
+  SUPABASE_URL: 'https://test.supabase.co',
+  SUPABASE_ANON_KEY: 'test-key',
+} as AuthEnv;
+
+function createTestApp() {
+  const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
+  app.use('*', async (c, next) => {
+    c.set('userId', 'user-1');
+    c.set('accessToken', 'test-jwt');
+    c.set('tokenScopes', null);
+    await next();
+  });
+  app.route('/api/games', games);
+  app.route('/api/games', gamesById);
+  return app;
+}
+
+function guess(path: string, body: unknown) {
+  return createTestApp().request(
+    path,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+    env,
+  );
+}
+
+/** Answers database calls with the handler's response for each path */
+function stubDatabase(handler: (path: string) => Response) {
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL) => {
+    return handler(new URL(input instanceof Request ? input.url : input).pathname);
+  });
+}
+
+function startGame(body?: unknown) {
+  return createTestApp().request(
+    '/api/games',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    env,
+  );
+}
+
+describe('FR-002: Guess validation', () => {
+  it('accepts lower case guesses and upper-cases them', () => {
+    expect(SubmitGuessSchema.parse({ guess: ' crane ' })).toEqual({ guess: 'CRANE' });
+  });
+
+  it('rejects guesses that are not five letters', () => {
+    for (const value of ['CRAN', 'CRANES', 'CR4NE', 'CRÂNE', '']) {
+      expect(SubmitGuessSchema.safeParse({ guess: value }).success).toBe(false);
+    }
+  });
+
+  it('answers a guess that is not a word with 400 before it is played', async () => {
+    const res = await guess(`/api/games/${GAME_ID}/guesses`, { guess: 'zzzzz' });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: 'Validation failed',
+      details: { guess: ['Not in word list'] },
+    });
+  });
+
+  it('rejects malformed guesses and game IDs with 400', async () => {
+    expect((await guess(`/api/games/${GAME_ID}/guesses`, { guess: 'CR' })).status).toBe(400);
+    expect((await guess('/api/games/not-a-game/guesses', { guess: 'CRANE' })).status).toBe(400);
+  });
+});
+
+describe('FR-004: Game modes', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('starts a standard game when no mode is given', async () => {
+    expect(CreateGameSchema.parse({})).toEqual({ mode: 'standard' });
+    expect(CreateGameSchema.safeParse({ mode: 'expert' }).success).toBe(false);
+
+    const paths: string[] = [];
+    stubDatabase((path) => {
+      paths.push(path);
+      return Response.json([{ id: GAME_ID, created_at: '2026-01-01T00:00:00Z' }]);
+    });
+    const res = await startGame();
+
+    expect(paths).toEqual(['/rest/v1/rpc/start_game']);
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({ data: { game_id: GAME_ID, mode: 'standard' } });
+  });
+
+  it('allows one daily game per day', async () => {
+    stubDatabase(() => Response.json({ code: '23505', message: 'duplicate key' }, { status: 409 }));
+    const res = await startGame({ mode: 'daily' });
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'Daily game already played today' });
+  });
+
+  it('answers 503 when the daily word has not been chosen yet', async () => {
+    stubDatabase(() => Response.json({ code: 'P0002', message: 'no daily word' }, { status: 404 }));
+    expect((await startGame({ mode: 'daily' })).status).toBe(503);
+  });
+
+  it('refuses a hard mode guess that ignores hints, listing the broken rules', async () => {
+    stubDatabase(() =>
+      Response.json(
+        {
+          code: '23514',
+          message: 'guess breaks hard mode rules',
+          details: '1st letter must be C\nGuess must contain R',
+        },
+        { status: 400 },
+      ),
+    );
+    const res = await guess(`/api/games/${GAME_ID}/guesses`, { guess: 'SLATE' });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: 'Validation failed',
+      details: { guess: ['1st letter must be C', 'Guess must contain R'] },
+    });
+  });
+
+  it('keeps statistics per mode', () => {
+    expect(GameStatsQuerySchema.parse({ mode: 'hard' })).toMatchObject({ mode: 'hard' });
+  });
+});
+
+describe('FR-005: Game statistics', () => {
+  const stats = {
+    total_games: 4,
+    games_won: 3,
+    current_streak: 2,
+    max_streak: 2,
+    guess_distribution: { '1': 0, '2': 1, '3': 1, '4': 1, '5': 0, '6': 0, failed: 1 },
+  };
+  let rpcBody: unknown;
+
+  /** Answers the game_stats call as the database would, or with an error */
+  function stubStats(error?: { code: string; message: string }) {
+    vi.stubGlobal('fetch', async (_input: RequestInfo | URL, init?: RequestInit) => {
+      rpcBody = JSON.parse(String(init?.body));
+      return error ? Response.json(error, { status: 400 }) : Response.json([stats]);
+    });
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('defaults to all days in UTC', () => {
+    expect(GameStatsQuerySchema.parse({})).toEqual({ mode: 'standard', timezone: 'UTC' });
+  });
+
+  it('accepts IANA time zones, including half-hour offsets', () => {
+    for (const timezone of ['Australia/Sydney', 'Australia/Adelaide', 'Australia/Eucla']) {
+      expect(GameStatsQuerySchema.safeParse({ timezone }).success).toBe(true);
+    }
+  });
+
+  it('rejects unknown time zones, invalid dates and reversed ranges', () => {
+    for (const query of [
+      { timezone: 'Mars/Olympus_Mons' },
+      { from: '2026-02-30' },
+      { to: '26-01-01' },
+      { from: '2026-03-02', to: '2026-03-01' },
+    ]) {
+      expect(GameStatsQuerySchema.safeParse(query).success).toBe(false);
+    }
+  });
+
+  it('passes the range and time zone to the database and adds the win percentage', async () => {
+    stubStats();
+    const res = await createTestApp().request(
+      '/api/games/stats?from=2026-03-01&to=2026-03-31&timezone=Australia/Adelaide',
+      {},
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    expect(rpcBody).toEqual({
+      p_mode: 'standard',
+      p_time_zone: 'Australia/Adelaide',
+      p_from: '2026-03-01',
+      p_to: '2026-03-31',
+    });
+    expect(await res.json()).toEqual({ data: { ...stats, win_percentage: 75 } });
+  });
+
+  it('answers a time zone the database does not know with 400', async () => {
+    stubStats({ code: '22023', message: 'time zone "Asia/Nowhere" not recognized' });
+    const res = await createTestApp().request('/api/games/stats', {}, env);
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: 'Validation failed',
+      details: { timezone: ['Unknown time zone'] },
+    });
+  });
+});
+
+describe('FR-006: Game history', () => {
+  it('defaults to 50 games and allows at most 100', () => {
+    expect(GameHistoryQuerySchema.parse({})).toEqual({ limit: 50 });
+    expect(GameHistoryQuerySchema.safeParse({ limit: '101' }).success).toBe(false);
+  });
+});
+
+describe('SR-004: Game state integrity', () => {
+  const game = {
+    game_id: GAME_ID,
+    mode: 'standard',
+    status: 'in_progress',
+    guesses: [],
+    max_guesses: 6,
+    target_word: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    completed_at: null,
+  };
+
+  it('never describes a game in progress with its answer', () => {
+    expect(GameStateSchema.safeParse(game).success).toBe(true);
+    expect(GameStateSchema.safeParse({ ...game, target_word: 'CRANE' }).success).toBe(false);
+  });
+
+  it('reveals the answer once the game is over', () => {
+    const finished = {
+      ...game,
+      status: 'lost',
+      target_word: 'CRANE',
+      completed_at: '2026-01-01T00:05:00.000Z',
+    };
+    expect(GameStateSchema.safeParse(finished).success).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @file Scheduled job dispatch contract tests
+ * @purpose Verify that each cron trigger runs its own job, that every
+ *          trigger configured in wrangler.toml has one, and that unknown
+ *          triggers are logged.
+ * @spec SPEC-2026-12
+ */
+
+/// <reference types="node" />
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  CRON_CHECK_LINKS,
+  CRON_CHOOSE_DAILY_WORDS,
+  CRON_PURGE_IDEMPOTENCY_KEYS,
+  CRON_PURGE_TRASH,
+  handleScheduled,
+  type JobEnv,
+} from '../../src/jobs/index.js';
+import { checkLinkHealth } from '../../src/jobs/check-links.js';
+import { chooseDailyWords } from '../../src/jobs/choose-daily-words.js';
+import { purgeExpiredIdempotencyKeys } from '../../src/jobs/purge-idempotency-keys.js';
+import { purgeExpiredTrash } from '../../src/jobs/purge-trash.js';
+import { logger } from '../../src/lib/logger.js';
+
+vi.mock('../../src/jobs/check-links.js', () => ({ checkLinkHealth: vi.fn() }));
+vi.mock('../../src/jobs/choose-daily-words.js', () => ({ chooseDailyWords: vi.fn() }));
+vi.mock('../../src/jobs/purge-idempotency-keys.js', () => ({
+  purgeExpiredIdempotencyKeys: vi.fn(),
+}));
+vi.mock('../../src/jobs/purge-trash.js', () => ({ purgeExpiredTrash: vi.fn() }));
+
+const WRANGLER_TOML = join(dirname(fileURLToPath(import.meta.url)), '../../wrangler.toml');
+
+const env = { SUPABASE_URL: 'https://test.supabase.co' } as JobEnv;
+
+const JOBS = {
+  [CRON_PURGE_TRASH]: purgeExpiredTrash,
+  [CRON_CHECK_LINKS]: checkLinkHealth,
+  [CRON_PURGE_IDEMPOTENCY_KEYS]: purgeExpiredIdempotencyKeys,
+  [CRON_CHOOSE_DAILY_WORDS]: chooseDailyWords,
+};
+
+function trigger(cron: string) {
+  // Jobs only read the cron expression from the controller
+  return handleScheduled({ cron } as ScheduledController, env);
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('FR-002: Scheduled maintenance', () => {
+  it.each(Object.entries(JOBS))('runs only its own job for %s', async (cron, job) => {
+    await trigger(cron);
+
+    expect(job).toHaveBeenCalledWith(env);
+    for (const other of Object.values(JOBS).filter((candidate) => candidate !== job)) {
+      expect(other).not.toHaveBeenCalled();
+    }
+  });
+
+  it('has a job for every cron trigger in wrangler.toml', () => {
+    const crons = readFileSync(WRANGLER_TOML, 'utf8').match(/^crons = \[(.*)\]$/m)?.[1] ?? '';
+    const configured = [...crons.matchAll(/"([^"]+)"/g)].map((match) => match[1]);
+
+    expect(configured.sort()).toEqual(Object.keys(JOBS).sort());
+  });
+
+  it('logs a trigger it has no job for and runs nothing', async () => {
+    const warn = vi.spyOn(logger, 'warn').mockReturnValue(undefined);
+
+    await trigger('0 0 * * *');
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'job.unknown_cron', metadata: { cron: '0 0 * * *' } }),
+    );
+    for (const job of Object.values(JOBS)) {
+      expect(job).not.toHaveBeenCalled();
+    }
+  });
+});
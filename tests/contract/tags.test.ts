@@ -0,0 +1,151 @@
+/**
+ * @file Tag management contract tests
+ * @purpose Verify validation of tag rename, merge and delete requests, tag
+ *          normalisation, the tag tree and tag suggestion inputs.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  MergeTagsSchema,
+  RenameTagSchema,
+  SuggestTagsSchema,
+  TagParamsSchema,
+  TagPrefixQuerySchema,
+} from '../../src/schemas/tag.js';
+import { BookmarkQuerySchema, CreateBookmarkSchema } from '../../src/schemas/bookmark.js';
+import { buildTagTree, normalizeTag } from '../../src/lib/tags.js';
+import { MAX_KEYWORDS, toSuggestionInputs } from '../../src/lib/tag-suggest.js';
+
+describe('FR-005: Manage tags across all bookmarks', () => {
+  it('requires a non-empty new name when renaming', () => {
+    expect(RenameTagSchema.safeParse({ name: 'typescript' }).success).toBe(true);
+    expect(RenameTagSchema.safeParse({ name: '' }).success).toBe(false);
+    expect(RenameTagSchema.safeParse({ name: 'x'.repeat(51) }).success).toBe(false);
+  });
+
+  it('requires at least one source tag and a target when merging', () => {
+    expect(MergeTagsSchema.safeParse({ sources: ['js', 'JS'], target: 'javascript' }).success).toBe(
+      true,
+    );
+    expect(MergeTagsSchema.safeParse({ sources: [], target: 'javascript' }).success).toBe(false);
+    expect(MergeTagsSchema.safeParse({ sources: ['js'] }).success).toBe(false);
+  });
+
+  it('rejects empty and oversized tag path parameters', () => {
+    expect(TagParamsSchema.safeParse({ tag: '' }).success).toBe(false);
+    expect(TagParamsSchema.safeParse({ tag: 'x'.repeat(51) }).success).toBe(false);
+  });
+});
+
+describe('FR-005: Normalised, hierarchical tags', () => {
+  it('normalises case, whitespace and empty levels', () => {
+    expect(normalizeTag('  JavaScript ')).toBe('javascript');
+    expect(normalizeTag(' Dev / Type  Script/ ')).toBe('dev/type script');
+    expect(normalizeTag('//a//b//')).toBe('a/b');
+  });
+
+  it('is idempotent', () => {
+    fc.assert(
+      fc.property(fc.string(), (tag) => {
+        expect(normalizeTag(normalizeTag(tag))).toBe(normalizeTag(tag));
+      }),
+    );
+  });
+
+  it('stores tags normalised and deduplicated on write', () => {
+    const result = CreateBookmarkSchema.parse({
+      url: 'https://example.com',
+      tags: ['JS', 'js ', 'Dev/TypeScript', 'dev / typescript'],
+    });
+    expect(result.tags).toEqual(['js', 'dev/typescript']);
+  });
+
+  it('rejects tags that are empty once normalised', () => {
+    expect(
+      CreateBookmarkSchema.safeParse({ url: 'https://example.com', tags: [' / '] }).success,
+    ).toBe(false);
+  });
+
+  it('normalises tag filters so they match stored tags', () => {
+    expect(BookmarkQuerySchema.parse({ tag: 'Dev', tags: 'JS, Dev/TS' })).toMatchObject({
+      tag: 'dev',
+      tags: ['js', 'dev/ts'],
+    });
+  });
+
+  it('arranges tag usage into a tree, adding unused ancestors', () => {
+    const tree = buildTagTree([
+      { tag: 'dev/typescript', count: 3, last_used_at: '2026-01-02T00:00:00.000Z' },
+      { tag: 'reading', count: 1, last_used_at: '2026-01-01T00:00:00.000Z' },
+      { tag: 'dev/go', count: 2, last_used_at: '2026-01-03T00:00:00.000Z' },
+    ]);
+
+    expect(tree.map((node) => node.tag)).toEqual(['dev', 'reading']);
+    expect(tree[0]).toMatchObject({ name: 'dev', count: 0, last_used_at: null });
+    expect(tree[0]!.children.map((node) => [node.name, node.tag, node.count])).toEqual([
+      ['go', 'dev/go', 2],
+      ['typescript', 'dev/typescript', 3],
+    ]);
+  });
+});
+
+describe('FR-005: Tag suggestions', () => {
+  it('lowercases the autocomplete prefix and bounds the limit', () => {
+    expect(TagPrefixQuerySchema.parse({ prefix: ' Type' })).toEqual({ prefix: 'type', limit: 10 });
+    expect(TagPrefixQuerySchema.parse({ prefix: 'dev/', limit: '5' })).toEqual({
+      prefix: 'dev/',
+      limit: 5,
+    });
+    expect(TagPrefixQuerySchema.safeParse({ prefix: '' }).success).toBe(false);
+    expect(TagPrefixQuerySchema.safeParse({ prefix: 'a', limit: '51' }).success).toBe(false);
+  });
+
+  it('requires a valid URL for page suggestions', () => {
+    expect(SuggestTagsSchema.safeParse({ url: 'https://example.com/a' }).success).toBe(true);
+    expect(SuggestTagsSchema.safeParse({ url: 'not a url' }).success).toBe(false);
+    expect(SuggestTagsSchema.safeParse({ title: 'No URL' }).success).toBe(false);
+  });
+
+  it('matches hosts without www and collects keywords from title, description and path', () => {
+    const inputs = toSuggestionInputs(
+      SuggestTagsSchema.parse({
+        url: 'https://WWW.Example.com/blog/typescript-generics.html?utm_source=feed',
+        title: 'Understanding TypeScript Generics',
+        description: 'A guide to the generics you will use every day',
+      }),
+    );
+
+    expect(inputs.host).toBe('example.com');
+    expect(inputs.keywords).toEqual([
+      'understanding',
+      'typescript',
+      'generics',
+      'guide',
+      'use',
+      'every',
+      'day',
+      'blog',
+    ]);
+  });
+
+  it('only produces bounded plain-word keywords', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 500 }), fc.string({ maxLength: 500 }), (title, text) => {
+        const { keywords } = toSuggestionInputs({
+          url: 'https://example.com/',
+          title,
+          description: text,
+          limit: 10,
+        });
+        expect(keywords.length).toBeLessThanOrEqual(MAX_KEYWORDS);
+        expect(new Set(keywords).size).toBe(keywords.length);
+        for (const keyword of keywords) {
+          expect(keyword).toMatch(/^[\p{L}\p{N}]{3,30}$/u);
+          expect(keyword).not.toBe('or');
+        }
+      }),
+    );
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @file URL canonicalisation contract tests
+ * @purpose Verify that links to the same page reduce to one canonical URL
+ *          and that canonicalisation never changes which page is addressed.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { canonicalizeUrl } from '../../src/lib/url-canonical.js';
+
+describe('FR-001: Detect duplicate bookmarks by canonical URL', () => {
+  it('lowercases the scheme and host but not the path', () => {
+    expect(canonicalizeUrl('HTTPS://Example.COM/Docs/Intro')).toBe(
+      'https://example.com/Docs/Intro',
+    );
+  });
+
+  it('drops default ports and keeps others', () => {
+    expect(canonicalizeUrl('http://example.com:80/a')).toBe('http://example.com/a');
+    expect(canonicalizeUrl('https://example.com:443/a')).toBe('https://example.com/a');
+    expect(canonicalizeUrl('https://example.com:8443/a')).toBe('https://example.com:8443/a');
+  });
+
+  it('drops the fragment', () => {
+    expect(canonicalizeUrl('https://example.com/a#section-2')).toBe('https://example.com/a');
+  });
+
+  it('strips tracking parameters and keeps the rest in order', () => {
+    expect(
+      canonicalizeUrl('https://example.com/a?utm_source=x&id=7&fbclid=abc&UTM_Medium=y&page=2'),
+    ).toBe('https://example.com/a?id=7&page=2');
+  });
+
+  it('keeps the remaining parameters exactly as written', () => {
+    expect(canonicalizeUrl('https://example.com/search?q=hello%20world&utm_source=x')).toBe(
+      'https://example.com/search?q=hello%20world',
+    );
+    expect(canonicalizeUrl('https://example.com/a?page&utm_source=x')).toBe(
+      'https://example.com/a?page',
+    );
+    expect(canonicalizeUrl('https://example.com/a?path=a/b&utm_medium=y&q=a+b')).toBe(
+      'https://example.com/a?path=a/b&q=a+b',
+    );
+  });
+
+  it('leaves no bare query marker when only tracking parameters were present', () => {
+    expect(canonicalizeUrl('https://example.com/a?utm_campaign=launch&gclid=1')).toBe(
+      'https://example.com/a',
+    );
+  });
+
+  it('keeps a query that is only a question mark', () => {
+    expect(canonicalizeUrl('https://example.com/a??')).toBe('https://example.com/a??');
+    expect(canonicalizeUrl('https://example.com/a?')).toBe('https://example.com/a');
+  });
+
+  it('treats variants of the same link as one URL', () => {
+    const variants = [
+      'https://Example.com/post',
+      'https://example.com:443/post#comments',
+      'https://example.com/post?utm_source=newsletter',
+    ];
+    expect(new Set(variants.map(canonicalizeUrl)).size).toBe(1);
+  });
+
+  it('is idempotent', () => {
+    fc.assert(
+      fc.property(fc.webUrl({ withQueryParameters: true, withFragments: true }), (url) => {
+        const canonical = canonicalizeUrl(url);
+        expect(canonicalizeUrl(canonical)).toBe(canonical);
+      }),
+    );
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @file Word list contract tests
+ * @purpose Verify the bundled dictionary: its invariants, guess lookups,
+ *          Australian spelling, and seeded answer selection.
+ * @spec SPEC-2026-27
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ANSWER_WORDS,
+  GUESS_WORDS,
+  PackedWordList,
+  isAllowedGuess,
+  selectAnswer,
+} from '../../src/lib/word-list.js';
+
+function wordsOf(list: PackedWordList): string[] {
+  return Array.from({ length: list.size }, (_, index) => list.at(index));
+}
+
+describe('FR-001: Word selection', () => {
+  it('picks answers from the dictionary', async () => {
+    for (let i = 0; i < 20; i++) {
+      expect(ANSWER_WORDS.has(await selectAnswer(`seed-${i}`, []))).toBe(true);
+    }
+  });
+
+  it('picks the same answer for the same seed', async () => {
+    const first = await selectAnswer('seed', ['CRANE']);
+    expect(await selectAnswer('seed', ['CRANE'])).toBe(first);
+  });
+
+  it('avoids the answers a player has had recently', async () => {
+    const first = await selectAnswer('seed', []);
+    const second = await selectAnswer('seed', [first]);
+    expect(second).not.toBe(first);
+    expect(await selectAnswer('seed', [second])).toBe(first);
+  });
+
+  it('draws again rather than taking the next word after a recent answer', async () => {
+    const words = wordsOf(ANSWER_WORDS);
+    let neighbours = 0;
+    for (let i = 0; i < 20; i++) {
+      const first = await selectAnswer(`seed-${i}`, []);
+      const next = words[(words.indexOf(first) + 1) % words.length];
+      if ((await selectAnswer(`seed-${i}`, [first])) === next) {
+        neighbours++;
+      }
+    }
+    expect(neighbours).toBeLessThan(2);
+  });
+
+  it('falls back to a recent answer once every answer has been played', async () => {
+    expect(await selectAnswer('seed', wordsOf(ANSWER_WORDS))).toBe(await selectAnswer('seed', []));
+  });
+
+  it('holds sorted, distinct five-letter words', () => {
+    for (const list of [ANSWER_WORDS, GUESS_WORDS]) {
+      const words = wordsOf(list);
+      expect(words.every((word) => /^[A-Z]{5}$/.test(word))).toBe(true);
+      expect(words).toEqual([...new Set(words)].sort());
+    }
+  });
+
+  it('keeps answers and further guesses apart', () => {
+    expect(wordsOf(ANSWER_WORDS).filter((word) => GUESS_WORDS.has(word))).toEqual([]);
+  });
+});
+
+describe('FR-002: Guess validation', () => {
+  it('only accepts known words', () => {
+    expect(isAllowedGuess('CRANE')).toBe(true);
+    expect(isAllowedGuess('ZZZZZ')).toBe(false);
+  });
+
+  it('accepts words that are never answers', () => {
+    expect(ANSWER_WORDS.has('QUIFF')).toBe(false);
+    expect(isAllowedGuess('QUIFF')).toBe(true);
+  });
+
+  it('accepts everyday words, plurals and past tenses', () => {
+    const words = 'TEARS TIMES YEARS PARTS WORKS RULES SIDES HEADS LOOKS FACTS WALKS SEATS JEANS';
+    for (const word of [...words.split(' '), 'BAKED', 'TRIED', 'HOPED']) {
+      expect(isAllowedGuess(word)).toBe(true);
+    }
+  });
+
+  it('has a dictionary of the size the game needs', () => {
+    expect(ANSWER_WORDS.size).toBeGreaterThanOrEqual(2000);
+    expect(ANSWER_WORDS.size).toBeLessThanOrEqual(3000);
+    expect(ANSWER_WORDS.size + GUESS_WORDS.size).toBeGreaterThanOrEqual(10000);
+  });
+
+  it('finds the first and last words of each list', () => {
+    for (const list of [ANSWER_WORDS, GUESS_WORDS]) {
+      expect(list.has(list.at(0))).toBe(true);
+      expect(list.has(list.at(list.size - 1))).toBe(true);
+    }
+    expect(new PackedWordList('').has('CRANE')).toBe(false);
+    expect(ANSWER_WORDS.has('CRAN')).toBe(false);
+  });
+});
+
+describe('FR-007: Australian spelling', () => {
+  it('uses Australian rather than US spellings', () => {
+    for (const word of ['FIBRE', 'LITRE', 'METRE', 'ODOUR', 'SABRE', 'GREYS', 'MOULT']) {
+      expect(isAllowedGuess(word)).toBe(true);
+    }
+    for (const word of ['FIBER', 'LITER', 'SABER', 'COLOR', 'FAVOR', 'HUMOR', 'ARMOR', 'GRAYS']) {
+      expect(isAllowedGuess(word)).toBe(false);
+    }
+  });
+});
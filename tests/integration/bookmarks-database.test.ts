@@ -0,0 +1,172 @@
+/**
+ * @file Bookmark database integration tests
+ * @purpose Verify against an embedded Postgres that a canonical URL already
+ *          on an active bookmark cannot be saved again, that duplicates saved
+ *          before that check are left alone, how bulk restore treats
+ *          bookmarks whose URL has been saved again, and that tag filters
+ *          reach Postgres as the tags they were built from.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import fc from 'fast-check';
+import type { PGlite } from '@electric-sql/pglite';
+import { toPgArrayLiteral } from '../../src/lib/bookmark-filters.js';
+import { actAs, createUser, migratedDatabase, rolledBack } from './database.js';
+
+const PAGE_URL = 'https://example.com/';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await migratedDatabase();
+}, 30_000);
+
+/** Saves a bookmark for a user, as the database owner, and returns its ID */
+async function saveBookmark(userId: string, deletedAt: string | null = null): Promise<string> {
+  const {
+    rows: [bookmark],
+  } = await db.query<{ id: string }>(
+    `INSERT INTO bookmarks (user_id, url, canonical_url, title, deleted_at)
+     VALUES ($1, $2, $2, 'Example', $3) RETURNING id`,
+    [userId, PAGE_URL, deletedAt],
+  );
+  return bookmark?.id ?? '';
+}
+
+/** Runs restore_bookmarks as the user and returns whether each ID was restored */
+async function restore(userId: string, ids: string[]): Promise<Record<string, boolean>> {
+  await actAs(db, userId);
+  const { rows } = await db.query<{ bookmark_id: string; restored: boolean }>(
+    'SELECT * FROM restore_bookmarks($1)',
+    [ids],
+  );
+  await actAs(db, null);
+  return Object.fromEntries(rows.map((row) => [row.bookmark_id, row.restored]));
+}
+
+describe('FR-001: One active bookmark per canonical URL', () => {
+  it('refuses a second active bookmark with the same canonical URL', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await saveBookmark(userId);
+      await expect(saveBookmark(userId)).rejects.toMatchObject({ code: '23505' });
+    });
+  });
+
+  it('refuses moving a bookmark to a URL that is already saved', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await saveBookmark(userId);
+      const other = await db.query<{ id: string }>(
+        `INSERT INTO bookmarks (user_id, url, canonical_url, title)
+         VALUES ($1, 'https://example.org/', 'https://example.org/', 'Other') RETURNING id`,
+        [userId],
+      );
+
+      await expect(
+        db.query('UPDATE bookmarks SET canonical_url = $1 WHERE id = $2', [
+          PAGE_URL,
+          other.rows[0]?.id,
+        ]),
+      ).rejects.toMatchObject({ code: '23505' });
+    });
+  });
+
+  it('refuses restoring a bookmark whose URL has been saved again', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const trashed = await saveBookmark(userId, '2026-10-01T00:00:00Z');
+      await saveBookmark(userId);
+
+      await expect(
+        db.query('UPDATE bookmarks SET deleted_at = NULL WHERE id = $1', [trashed]),
+      ).rejects.toMatchObject({ code: '23505' });
+    });
+  });
+
+  it('keeps duplicates saved before the check, for the report, and lets them be edited', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await db.exec('ALTER TABLE bookmarks DISABLE TRIGGER check_bookmark_canonical_url');
+      const first = await saveBookmark(userId);
+      const second = await saveBookmark(userId);
+      await db.exec('ALTER TABLE bookmarks ENABLE TRIGGER check_bookmark_canonical_url');
+
+      await db.query(
+        "UPDATE bookmarks SET title = 'Renamed', canonical_url = canonical_url WHERE id = $1",
+        [second],
+      );
+      const { rows } = await db.query<{ bookmark_ids: string[] }>(
+        'SELECT bookmark_ids FROM bookmark_duplicate_groups WHERE user_id = $1',
+        [userId],
+      );
+
+      // Both were created in this transaction, so they are ordered by ID
+      expect(rows).toEqual([{ bookmark_ids: [first, second].sort() }]);
+    });
+  });
+
+  it('allows the URL in the trash and for other users', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await saveBookmark(userId);
+      await saveBookmark(userId, '2026-10-01T00:00:00Z');
+      await saveBookmark(await createUser(db));
+    });
+  });
+
+  it('restores only one of several trashed copies of a URL, the first asked for', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const first = await saveBookmark(userId, '2026-10-01T00:00:00Z');
+      const second = await saveBookmark(userId, '2026-10-02T00:00:00Z');
+
+      expect(await restore(userId, [second, first])).toEqual({
+        [second]: true,
+        [first]: false,
+      });
+    });
+  });
+
+  it('leaves a bookmark in the trash when its URL has been saved again', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const trashed = await saveBookmark(userId, '2026-10-01T00:00:00Z');
+      const active = await saveBookmark(userId);
+
+      expect(await restore(userId, [trashed, active])).toEqual({ [trashed]: false });
+    });
+  });
+});
+
+describe('FR-002: Tag filter values', () => {
+  // Characters with a meaning in array literals or PostgREST filters
+  const tag = fc.string({
+    unit: fc.constantFrom('"', '\\', ',', '{', '}', '(', ')', '.', ' ', 'a', 'Z', 'é', '/'),
+    maxLength: 50,
+  });
+
+  it('reads back every tag exactly, whatever characters it contains', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(tag, { minLength: 1, maxLength: 20 }), async (tags) => {
+        const {
+          rows: [row],
+        } = await db.query<{ tags: string[] }>('SELECT $1::TEXT::TEXT[] AS tags', [
+          toPgArrayLiteral(tags),
+        ]);
+        expect(row?.tags).toEqual(tags);
+      }),
+    );
+  });
+
+  it('reads back the characters that have a meaning in array literals', async () => {
+    const tags = ['say "hi"', 'back\\slash', 'a,b', '{braces}', 'NULL', ''];
+    const {
+      rows: [row],
+    } = await db.query<{ tags: string[] }>('SELECT $1::TEXT::TEXT[] AS tags', [
+      toPgArrayLiteral(tags),
+    ]);
+    expect(row?.tags).toEqual(tags);
+  });
+});
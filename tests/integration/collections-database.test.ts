@@ -0,0 +1,229 @@
+/**
+ * @file Collection database integration tests
+ * @purpose Verify the collection triggers and policies in the migrations
+ *          against an embedded Postgres: a collection cannot be nested in
+ *          itself or its descendants, collections and bookmarks only refer
+ *          to collections of the same user, and users see only their own.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { actAs, createUser, migratedDatabase, rolledBack } from './database.js';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await migratedDatabase();
+}, 30_000);
+
+/**
+ * Runs a statement as the user and returns its rows. A failed statement
+ * aborts the test's transaction, so the role is only reset on success.
+ */
+async function asUser<T>(userId: string, sql: string, params: unknown[] = []): Promise<T[]> {
+  await actAs(db, userId);
+  const { rows } = await db.query<T>(sql, params);
+  await actAs(db, null);
+  return rows;
+}
+
+/** Creates a collection as the user and returns its ID */
+async function createCollection(userId: string, parentId: string | null = null): Promise<string> {
+  const [collection] = await asUser<{ id: string }>(
+    userId,
+    `INSERT INTO collections (user_id, name, parent_id) VALUES ($1, 'Reading', $2) RETURNING id`,
+    [userId, parentId],
+  );
+  return collection?.id ?? '';
+}
+
+/** Saves a bookmark in the given collections as the user and returns its ID */
+async function saveBookmark(userId: string, collectionIds: string[]): Promise<string> {
+  const [bookmark] = await asUser<{ id: string }>(
+    userId,
+    `INSERT INTO bookmarks (user_id, url, canonical_url, title, collection_ids)
+     VALUES ($1, 'https://example.com/', 'https://example.com/', 'Example', $2) RETURNING id`,
+    [userId, collectionIds],
+  );
+  return bookmark?.id ?? '';
+}
+
+function moveCollection(userId: string, id: string, parentId: string | null) {
+  return asUser(userId, 'UPDATE collections SET parent_id = $1 WHERE id = $2', [parentId, id]);
+}
+
+describe('FR-004: Nested collections', () => {
+  it('moves a collection under another of the same user', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const parent = await createCollection(userId);
+      const child = await createCollection(userId);
+
+      await moveCollection(userId, child, parent);
+
+      const rows = await asUser<{ parent_id: string }>(
+        userId,
+        'SELECT parent_id FROM collections WHERE id = $1',
+        [child],
+      );
+      expect(rows).toEqual([{ parent_id: parent }]);
+    });
+  });
+
+  it('refuses moving a collection under its own descendant', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const top = await createCollection(userId);
+      const middle = await createCollection(userId, top);
+      const bottom = await createCollection(userId, middle);
+
+      await expect(moveCollection(userId, top, bottom)).rejects.toMatchObject({
+        code: '23503',
+        message: 'collection cannot be nested inside itself',
+      });
+    });
+  });
+
+  it('refuses nesting a collection inside itself', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const collection = await createCollection(userId);
+
+      await expect(moveCollection(userId, collection, collection)).rejects.toMatchObject({
+        code: '23503',
+      });
+    });
+  });
+
+  it("refuses another user's collection as the parent", async () => {
+    await rolledBack(db, async () => {
+      const owner = await createUser(db);
+      const other = await createUser(db);
+      const theirs = await createCollection(owner);
+
+      await expect(createCollection(other, theirs)).rejects.toMatchObject({
+        code: '23503',
+        message: 'parent collection not found',
+      });
+    });
+  });
+
+  it("refuses another user's parent even where RLS does not apply", async () => {
+    await rolledBack(db, async () => {
+      const owner = await createUser(db);
+      const other = await createUser(db);
+      const theirs = await createCollection(owner);
+
+      // As the database owner, policies are bypassed and only the trigger checks
+      await expect(
+        db.query(`INSERT INTO collections (user_id, name, parent_id) VALUES ($1, 'Mine', $2)`, [
+          other,
+          theirs,
+        ]),
+      ).rejects.toMatchObject({ code: '23503' });
+    });
+  });
+
+  it('moves child collections to the top level when their parent is deleted', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const parent = await createCollection(userId);
+      const child = await createCollection(userId, parent);
+
+      await asUser(userId, 'DELETE FROM collections WHERE id = $1', [parent]);
+
+      const rows = await asUser<{ parent_id: string | null }>(
+        userId,
+        'SELECT parent_id FROM collections WHERE id = $1',
+        [child],
+      );
+      expect(rows).toEqual([{ parent_id: null }]);
+    });
+  });
+});
+
+describe('FR-004: Bookmarks in collections', () => {
+  it('stores each collection of a bookmark once', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const collection = await createCollection(userId);
+      const bookmark = await saveBookmark(userId, [collection, collection]);
+
+      const rows = await asUser<{ collection_ids: string[] }>(
+        userId,
+        'SELECT collection_ids FROM bookmarks WHERE id = $1',
+        [bookmark],
+      );
+      expect(rows).toEqual([{ collection_ids: [collection] }]);
+    });
+  });
+
+  it("refuses placing a bookmark in another user's collection", async () => {
+    await rolledBack(db, async () => {
+      const owner = await createUser(db);
+      const other = await createUser(db);
+      const theirs = await createCollection(owner);
+
+      await expect(saveBookmark(other, [theirs])).rejects.toMatchObject({
+        code: '23503',
+        message: 'collection not found',
+      });
+    });
+  });
+
+  it("refuses moving a bookmark into another user's collection", async () => {
+    await rolledBack(db, async () => {
+      const owner = await createUser(db);
+      const other = await createUser(db);
+      const theirs = await createCollection(owner);
+      const bookmark = await saveBookmark(other, []);
+
+      await expect(
+        asUser(other, 'UPDATE bookmarks SET collection_ids = $1 WHERE id = $2', [
+          [theirs],
+          bookmark,
+        ]),
+      ).rejects.toMatchObject({ code: '23503' });
+    });
+  });
+
+  it('removes a deleted collection from its bookmarks and keeps the bookmarks', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const kept = await createCollection(userId);
+      const removed = await createCollection(userId);
+      const bookmark = await saveBookmark(userId, [kept, removed]);
+
+      await asUser(userId, 'DELETE FROM collections WHERE id = $1', [removed]);
+
+      const rows = await asUser<{ collection_ids: string[] }>(
+        userId,
+        'SELECT collection_ids FROM bookmarks WHERE id = $1',
+        [bookmark],
+      );
+      expect(rows).toEqual([{ collection_ids: [kept] }]);
+    });
+  });
+});
+
+describe('FR-004: Collection isolation', () => {
+  it("shows, changes and deletes only the user's own collections", async () => {
+    await rolledBack(db, async () => {
+      const owner = await createUser(db);
+      const other = await createUser(db);
+      const theirs = await createCollection(owner);
+
+      expect(await asUser(other, 'SELECT id FROM collections')).toEqual([]);
+      expect(
+        await asUser(other, `UPDATE collections SET name = 'Taken' WHERE id = $1 RETURNING id`, [
+          theirs,
+        ]),
+      ).toEqual([]);
+      expect(
+        await asUser(other, 'DELETE FROM collections WHERE id = $1 RETURNING id', [theirs]),
+      ).toEqual([]);
+      expect(await asUser(owner, 'SELECT id FROM collections')).toEqual([{ id: theirs }]);
+    });
+  });
+});
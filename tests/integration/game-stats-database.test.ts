@@ -0,0 +1,120 @@
+/**
+ * @file Game statistics database integration tests
+ * @purpose Verify game_stats against an embedded Postgres: a streak runs over
+ *          consecutive local days whose last game was won, so a day that ends
+ *          in a loss breaks it, and the current streak survives until today
+ *          has been played.
+ * @spec SPEC-2026-27
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { actAs, createUser, migratedDatabase, rolledBack } from './database.js';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await migratedDatabase();
+}, 30_000);
+
+/** Records finished standard games, as the database owner, by quarter-hour bucket */
+async function record(
+  userId: string,
+  results: { at: string; status: 'won' | 'lost'; games?: number }[],
+): Promise<void> {
+  for (const { at, status, games = 1 } of results) {
+    await db.query(
+      `INSERT INTO game_stat_buckets (user_id, mode, bucket_start, status, guesses_taken, games)
+       VALUES ($1, 'standard', $2, $3, 6, $4)`,
+      [userId, at, status, games],
+    );
+  }
+}
+
+/** Reads the user's streaks over the standard games up to the given UTC day */
+async function streaks(
+  userId: string,
+  today: string,
+): Promise<{ current_streak: number; max_streak: number }> {
+  await actAs(db, userId);
+  const {
+    rows: [stats],
+  } = await db.query<{ current_streak: number; max_streak: number }>(
+    "SELECT current_streak, max_streak FROM game_stats('standard', 'UTC', NULL, $1)",
+    [today],
+  );
+  await actAs(db, null);
+  return stats ?? { current_streak: 0, max_streak: 0 };
+}
+
+describe('FR-005: Game statistics streaks', () => {
+  it('counts consecutive days won, however many games each day had', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await record(userId, [
+        { at: '2026-10-01T09:00:00Z', status: 'won', games: 3 },
+        { at: '2026-10-02T09:00:00Z', status: 'won' },
+        { at: '2026-10-03T09:00:00Z', status: 'won' },
+      ]);
+
+      expect(await streaks(userId, '2026-10-03')).toEqual({ current_streak: 3, max_streak: 3 });
+    });
+  });
+
+  it('ends a streak on a day whose last game was lost', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await record(userId, [
+        { at: '2026-10-01T09:00:00Z', status: 'won' },
+        { at: '2026-10-02T09:00:00Z', status: 'won' },
+        { at: '2026-10-02T18:00:00Z', status: 'lost' },
+        { at: '2026-10-03T09:00:00Z', status: 'won' },
+      ]);
+
+      expect(await streaks(userId, '2026-10-03')).toEqual({ current_streak: 1, max_streak: 1 });
+    });
+  });
+
+  it('keeps a streak through a day that ends in a win after a loss', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await record(userId, [
+        { at: '2026-10-01T09:00:00Z', status: 'won' },
+        { at: '2026-10-02T09:00:00Z', status: 'lost' },
+        { at: '2026-10-02T18:00:00Z', status: 'won' },
+        { at: '2026-10-03T09:00:00Z', status: 'won' },
+      ]);
+
+      expect(await streaks(userId, '2026-10-03')).toEqual({ current_streak: 3, max_streak: 3 });
+    });
+  });
+
+  it('counts a loss in the same quarter hour as the last game of the day', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await record(userId, [
+        { at: '2026-10-01T09:00:00Z', status: 'won' },
+        { at: '2026-10-02T09:00:00Z', status: 'won' },
+        { at: '2026-10-02T09:00:00Z', status: 'lost' },
+      ]);
+
+      expect(await streaks(userId, '2026-10-02')).toEqual({ current_streak: 0, max_streak: 1 });
+    });
+  });
+
+  it('keeps the current streak until today has been played', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await record(userId, [
+        { at: '2026-10-01T09:00:00Z', status: 'won' },
+        { at: '2026-10-02T09:00:00Z', status: 'won' },
+      ]);
+
+      expect(await streaks(userId, '2026-10-03')).toEqual({ current_streak: 2, max_streak: 2 });
+      expect(await streaks(userId, '2026-10-04')).toEqual({ current_streak: 0, max_streak: 2 });
+
+      await record(userId, [{ at: '2026-10-03T09:00:00Z', status: 'lost' }]);
+      expect(await streaks(userId, '2026-10-03')).toEqual({ current_streak: 0, max_streak: 2 });
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * @file Word game database integration tests
+ * @purpose Verify the game functions and policies in the migrations against
+ *          an embedded Postgres: how games start and who chooses the answer,
+ *          how guesses are scored, and the hard mode rules.
+ * @spec SPEC-2026-27
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import fc from 'fast-check';
+import type { PGlite } from '@electric-sql/pglite';
+import type { LetterFeedback } from '../../src/schemas/game.js';
+import { ANSWERS } from '../../src/lib/words/answers.js';
+import { ANSWER_WORDS } from '../../src/lib/word-list.js';
+import { actAs, createUser, migratedDatabase, rolledBack } from './database.js';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await migratedDatabase();
+}, 30_000);
+
+/** Starts a game for a player and returns its answer, which players cannot read */
+async function startGame(userId: string, mode = 'standard'): Promise<string> {
+  await actAs(db, userId);
+  const {
+    rows: [game],
+  } = await db.query<{ id: string }>('SELECT id FROM start_game($1)', [mode]);
+  await actAs(db, null);
+
+  const {
+    rows: [answer],
+  } = await db.query<{ target_word: string }>('SELECT target_word FROM games WHERE id = $1', [
+    game?.id,
+  ]);
+  return answer?.target_word ?? '';
+}
+
+/** Scores a guess with score_guess and returns each letter's status */
+async function score(answer: string, guess: string): Promise<LetterFeedback['status'][]> {
+  const {
+    rows: [row],
+  } = await db.query<{ feedback: LetterFeedback[] }>('SELECT score_guess($1, $2) AS feedback', [
+    answer,
+    guess,
+  ]);
+  return (row?.feedback ?? []).map((letter) => letter.status);
+}
+
+/**
+ * The scoring rules written plainly: exact matches first, then each other
+ * letter is present only while the answer has an unmatched copy of it left
+ */
+function referenceScore(answer: string, guess: string): LetterFeedback['status'][] {
+  const unmatched = [...answer].filter((letter, i) => guess[i] !== letter);
+  return [...guess].map((letter, i) => {
+    if (letter === answer[i]) {
+      return 'correct';
+    }
+    const at = unmatched.indexOf(letter);
+    if (at === -1) {
+      return 'absent';
+    }
+    unmatched.splice(at, 1);
+    return 'present';
+  });
+}
+
+describe('FR-002: Guess feedback', () => {
+  it('marks a repeated letter present only as often as the answer has it', async () => {
+    expect(await score('ABBEY', 'BABES')).toEqual([
+      'present',
+      'present',
+      'correct',
+      'correct',
+      'absent',
+    ]);
+    expect(await score('CRANE', 'EERIE')).toEqual([
+      'absent',
+      'absent',
+      'present',
+      'absent',
+      'correct',
+    ]);
+  });
+
+  it('lets exact matches claim their letters before present ones', async () => {
+    expect(await score('ABIDE', 'EERIE')).toEqual([
+      'absent',
+      'absent',
+      'absent',
+      'present',
+      'correct',
+    ]);
+  });
+
+  it('scores every guess as the rules describe', async () => {
+    // Few letters, so most words repeat some
+    const word = fc.stringMatching(/^[ABCDE]{5}$/);
+    await fc.assert(
+      fc.asyncProperty(word, word, async (answer, guess) => {
+        expect(await score(answer, guess)).toEqual(referenceScore(answer, guess));
+      }),
+    );
+  });
+});
+
+/**
+ * Starts a hard mode game on a known answer and plays guesses in it as its
+ * player. Returns the hard mode rules each guess broke, empty if it was played.
+ */
+async function playHard(answer: string, guesses: string[]): Promise<string[][]> {
+  const userId = await createUser(db);
+  const {
+    rows: [game],
+  } = await db.query<{ id: string }>(
+    "INSERT INTO games (user_id, target_word, mode) VALUES ($1, $2, 'hard') RETURNING id",
+    [userId, answer],
+  );
+
+  await actAs(db, userId);
+  const broken: string[][] = [];
+  for (const guess of guesses) {
+    await db.exec('SAVEPOINT guess');
+    try {
+      await db.query('SELECT * FROM submit_guess($1, $2)', [game?.id, guess]);
+      broken.push([]);
+    } catch (error) {
+      await db.exec('ROLLBACK TO SAVEPOINT guess');
+      // PGlite raises database errors with Postgres' fields, DETAIL among them
+      broken.push((error as { detail: string }).detail.split('\n'));
+    }
+  }
+  await actAs(db, null);
+  return broken;
+}
+
+describe('FR-004: Hard mode', () => {
+  it('keeps letters found in place where they were found', async () => {
+    await rolledBack(db, async () => {
+      expect(await playHard('CRANE', ['CROWN', 'NARCS'])).toEqual([
+        [],
+        ['1st letter must be C', '2nd letter must be R'],
+      ]);
+    });
+  });
+
+  it('requires every letter revealed so far', async () => {
+    await rolledBack(db, async () => {
+      expect(await playHard('CRANE', ['CROWN', 'CRUMB'])).toEqual([[], ['Guess must contain N']]);
+    });
+  });
+
+  it('requires a letter revealed twice to be used twice', async () => {
+    await rolledBack(db, async () => {
+      expect(await playHard('SPEED', ['EERIE', 'SPELT', 'STEEP'])).toEqual([
+        [],
+        ['Guess must contain E at least 2 times'],
+        [],
+      ]);
+    });
+  });
+
+  it('plays guesses that use every hint', async () => {
+    await rolledBack(db, async () => {
+      expect(await playHard('CRANE', ['CROWN', 'CRANK', 'CRANE'])).toEqual([[], [], []]);
+    });
+  });
+});
+
+describe('SR-004: Game state integrity', () => {
+  it('chooses answers from the same list as the Worker', async () => {
+    const {
+      rows: [words],
+    } = await db.query<{ packed: string }>(
+      "SELECT string_agg(word, '' ORDER BY word) AS packed FROM australian_words",
+    );
+    expect(words?.packed).toBe(ANSWERS);
+  });
+
+  it('starts games with an answer from the list', async () => {
+    await rolledBack(db, async () => {
+      const answer = await startGame(await createUser(db), 'hard');
+      expect(ANSWER_WORDS.has(answer)).toBe(true);
+    });
+  });
+
+  it('avoids answers the player has had recently', async () => {
+    await rolledBack(db, async () => {
+      await db.exec("DELETE FROM australian_words WHERE word NOT IN ('CRANE', 'SLATE')");
+      const userId = await createUser(db);
+
+      const answers = [await startGame(userId), await startGame(userId)];
+      expect(answers.sort()).toEqual(['CRANE', 'SLATE']);
+
+      // Both answers are recent, so either may come up again
+      expect(['CRANE', 'SLATE']).toContain(await startGame(userId));
+    });
+  });
+
+  it('only starts standard and hard games', async () => {
+    await rolledBack(db, async () => {
+      await actAs(db, await createUser(db));
+      await expect(db.query("SELECT * FROM start_game('daily')")).rejects.toThrow(/mode/);
+    });
+  });
+
+  it('does not let players insert games with an answer of their choosing', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      await actAs(db, userId);
+      await expect(
+        db.query("INSERT INTO games (user_id, target_word) VALUES ($1, 'CRANE')", [userId]),
+      ).rejects.toThrow(/permission denied/);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @file Link health check integration tests
+ * @purpose Verify how link checks classify responses from a local stub
+ *          HTTP server as working, redirected or broken.
+ * @spec SPEC-2026-12
+ */
+
+/// <reference types="node" />
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { LINK_CHECK_LIMITS, checkLink } from '../../src/lib/link-health.js';
+import { routeStubHost } from './stub-host.js';
+
+// Stub server routes as [status, Location header]
+const ROUTES: Record<string, [number, string?]> = {
+  '/ok': [200],
+  '/ok?utm_source=feed': [302, '/ok'],
+  '/moved': [301, '/new-home'],
+  '/new-home': [200],
+  '/gone': [410],
+  '/moved-to-gone': [308, '/gone'],
+  '/error': [500],
+};
+
+const TEST_LIMITS = { ...LINK_CHECK_LIMITS, timeoutMs: 500 };
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const [status, location] = ROUTES[req.url ?? ''] ?? [404];
+    res.writeHead(status, location ? { Location: location } : {});
+    res.end('body');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = routeStubHost((server.address() as AddressInfo).port);
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('FR-003: Report dead and moved links', () => {
+  it('marks a working link ok', async () => {
+    const health = await checkLink(`${baseUrl}/ok`, TEST_LIMITS);
+
+    expect(health).toMatchObject({
+      health_status: 'ok',
+      last_status_code: 200,
+      redirect_url: null,
+    });
+    expect(Date.parse(health.last_checked_at)).not.toBeNaN();
+  });
+
+  it('records where a moved link now leads', async () => {
+    const health = await checkLink(`${baseUrl}/moved`, TEST_LIMITS);
+
+    expect(health).toMatchObject({
+      health_status: 'redirected',
+      last_status_code: 200,
+      redirect_url: `${baseUrl}/new-home`,
+    });
+  });
+
+  it('ignores redirects that only strip tracking parameters', async () => {
+    const health = await checkLink(`${baseUrl}/ok?utm_source=feed`, TEST_LIMITS);
+    expect(health).toMatchObject({ health_status: 'ok', redirect_url: null });
+  });
+
+  it('marks error responses broken with their status code', async () => {
+    for (const [path, status] of [
+      ['/gone', 410],
+      ['/moved-to-gone', 410],
+      ['/error', 500],
+      ['/missing', 404],
+    ] as const) {
+      const health = await checkLink(`${baseUrl}${path}`, TEST_LIMITS);
+      expect(health, path).toMatchObject({ health_status: 'broken', last_status_code: status });
+    }
+  });
+
+  it('marks unreachable and refused links broken without a status code', async () => {
+    const refused = await checkLink('http://10.0.0.1/', TEST_LIMITS);
+    expect(refused).toMatchObject({ health_status: 'broken', last_status_code: null });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @file Page metadata enrichment integration tests
+ * @purpose Verify fetching and metadata extraction against a local stub
+ *          HTTP server: redirects, timeouts, size limits and content types.
+ * @spec SPEC-2026-12
+ */
+
+/// <reference types="node" />
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  ENRICHMENT_FETCH_OPTIONS,
+  extractPageMetadata,
+  fetchPageMetadata,
+} from '../../src/lib/page-metadata.js';
+import { safeFetch } from '../../src/lib/safe-fetch.js';
+import { routeStubHost } from './stub-host.js';
+
+const ARTICLE = `<!doctype html>
+<html><head>
+  <title>Fallback &amp; title</title>
+  <meta name="description" content="Plain description">
+  <meta property="og:title" content="Open Graph &quot;title&quot;">
+  <meta property='og:site_name' content='Example News'>
+  <link rel="shortcut icon" href="/static/icon.png">
+  <link rel=canonical href=/articles/1>
+</head><body>Body</body></html>`;
+
+// Stub server routes; anything else is a 404
+const ROUTES: Record<string, (res: ServerResponse) => void> = {
+  '/article': (res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(ARTICLE);
+  },
+  '/bare': (res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end('<title>Only a title</title>');
+  },
+  '/moved': (res) => {
+    res.writeHead(301, { Location: '/article' });
+    res.end();
+  },
+  '/loop': (res) => {
+    res.writeHead(302, { Location: '/loop' });
+    res.end();
+  },
+  '/escape': (res) => {
+    res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+    res.end();
+  },
+  '/slow': (res) => {
+    setTimeout(() => {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end('<title>Too late</title>');
+    }, 500);
+  },
+  '/huge': (res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(`<title>Huge</title>${'x'.repeat(2 * 1024 * 1024)}`);
+  },
+  '/data': (res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end('{"title":"Not HTML"}');
+  },
+};
+
+const TEST_OPTIONS = { ...ENRICHMENT_FETCH_OPTIONS, timeoutMs: 200 };
+
+let server: Server;
+let baseUrl: string;
+let loopbackUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const route = ROUTES[req.url ?? ''];
+    if (route) {
+      route(res);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = routeStubHost(port);
+  loopbackUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('FR-001: Fill in page metadata for untitled bookmarks', () => {
+  it('prefers Open Graph values and resolves links against the page', async () => {
+    const metadata = await fetchPageMetadata(`${baseUrl}/article`, 'test-user', TEST_OPTIONS);
+
+    expect(metadata).toEqual({
+      title: 'Open Graph "title"',
+      description: 'Plain description',
+      site_name: 'Example News',
+      favicon_url: `${baseUrl}/static/icon.png`,
+      page_canonical_url: `${baseUrl}/articles/1`,
+    });
+  });
+
+  it('falls back to <title> and the default favicon location', async () => {
+    const metadata = await fetchPageMetadata(`${baseUrl}/bare`, 'test-user', TEST_OPTIONS);
+
+    expect(metadata).toMatchObject({
+      title: 'Only a title',
+      description: null,
+      site_name: null,
+      favicon_url: `${baseUrl}/favicon.ico`,
+    });
+  });
+
+  it('follows redirects and reads links relative to the final URL', async () => {
+    const result = await safeFetch(`${baseUrl}/moved`, TEST_OPTIONS);
+    expect(result).toMatchObject({ ok: true, url: `${baseUrl}/article` });
+  });
+
+  it('returns null when the page cannot be used', async () => {
+    await expect(fetchPageMetadata(`${baseUrl}/missing`, 'u', TEST_OPTIONS)).resolves.toBeNull();
+    await expect(fetchPageMetadata(`${baseUrl}/data`, 'u', TEST_OPTIONS)).resolves.toBeNull();
+  });
+
+  describe('Fetch limits', () => {
+    it('gives up on slow pages', async () => {
+      const result = await safeFetch(`${baseUrl}/slow`, TEST_OPTIONS);
+      expect(result).toEqual({ ok: false, reason: 'timeout' });
+    });
+
+    it('stops following redirect loops', async () => {
+      const result = await safeFetch(`${baseUrl}/loop`, TEST_OPTIONS);
+      expect(result).toEqual({ ok: false, reason: 'too_many_redirects' });
+    });
+
+    it('reads no more than the size limit', async () => {
+      const result = await safeFetch(`${baseUrl}/huge`, { ...TEST_OPTIONS, timeoutMs: 2000 });
+
+      expect(result.ok).toBe(true);
+      expect(result.ok && result.body.length).toBe(ENRICHMENT_FETCH_OPTIONS.maxBytes);
+      expect(result.ok && extractPageMetadata(result.body, baseUrl).title).toBe('Huge');
+    });
+
+    it('refuses the stub server at its loopback address', async () => {
+      const result = await safeFetch(`${loopbackUrl}/article`, TEST_OPTIONS);
+      expect(result).toEqual({ ok: false, reason: 'blocked_url' });
+    });
+
+    it('re-checks redirect targets', async () => {
+      const result = await safeFetch(`${baseUrl}/escape`, TEST_OPTIONS);
+      expect(result).toEqual({ ok: false, reason: 'blocked_url' });
+    });
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * @file Public name for a local stub server
+ * @purpose Lets outbound fetch tests reach a stub HTTP server on 127.0.0.1
+ *          through a public-looking hostname, so the fetch guard checks
+ *          every request exactly as it does in production
+ * @inputs The port the stub server listens on
+ * @outputs The stub server's base URL under STUB_HOST
+ * @invariants Only requests to STUB_HOST are rerouted; every other URL,
+ *             including the stub server's own loopback address, goes to the
+ *             real fetch unchanged. Callers restore fetch with vi.unstubAllGlobals().
+ * @spec SPEC-2026-12
+ */
+
+import { vi } from 'vitest';
+
+/** Passes the fetch guard's hostname checks; the reserved .test TLD never resolves */
+export const STUB_HOST = 'stub-server.test';
+
+/** Sends fetches for STUB_HOST to 127.0.0.1 and returns the base URL to request */
+export function routeStubHost(port: number): string {
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.hostname === STUB_HOST) {
+      url.hostname = '127.0.0.1';
+    }
+    return realFetch(url, init);
+  });
+  return `http://${STUB_HOST}:${port}`;
+}
@@ -0,0 +1,199 @@
+/**
+ * @file Tag management database integration tests
+ * @purpose Verify against an embedded Postgres that rename_tags and
+ *          delete_tag rewrite tags on every bookmark of the caller in one
+ *          statement: merged tags keep a single copy, hierarchy levels are
+ *          separate tags, and other users' bookmarks are never touched.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { actAs, createUser, migratedDatabase, rolledBack } from './database.js';
+
+let db: PGlite;
+let saved = 0;
+
+beforeAll(async () => {
+  db = await migratedDatabase();
+}, 30_000);
+
+/** Saves a bookmark with the given tags, as the database owner, and returns its ID */
+async function saveBookmark(
+  userId: string,
+  tags: string[] | null,
+  deletedAt: string | null = null,
+): Promise<string> {
+  saved += 1;
+  const url = `https://example.com/${saved}`;
+  const {
+    rows: [bookmark],
+  } = await db.query<{ id: string }>(
+    `INSERT INTO bookmarks (user_id, url, canonical_url, title, tags, deleted_at)
+     VALUES ($1, $2, $2, 'Example', $3, $4) RETURNING id`,
+    [userId, url, tags, deletedAt],
+  );
+  return bookmark?.id ?? '';
+}
+
+/** Calls a tag function as the user and returns the number of bookmarks it changed */
+async function call(userId: string, sql: string, params: unknown[]): Promise<number> {
+  await actAs(db, userId);
+  const {
+    rows: [result],
+  } = await db.query<{ changed: number }>(`SELECT ${sql} AS changed`, params);
+  await actAs(db, null);
+  return result?.changed ?? 0;
+}
+
+function renameTags(userId: string, sources: string[], target: string) {
+  return call(userId, 'rename_tags($1, $2)', [sources, target]);
+}
+
+function deleteTag(userId: string, tag: string) {
+  return call(userId, 'delete_tag($1)', [tag]);
+}
+
+/** Reads the tags and tag paths of bookmarks, keyed by ID */
+async function tagsOf(
+  ids: string[],
+): Promise<Record<string, { tags: string[] | null; tag_paths: string[] }>> {
+  const { rows } = await db.query<{ id: string; tags: string[] | null; tag_paths: string[] }>(
+    'SELECT id, tags, tag_paths FROM bookmarks WHERE id = ANY ($1)',
+    [ids],
+  );
+  return Object.fromEntries(
+    rows.map(({ id, tags, tag_paths }) => [id, { tags, tag_paths: [...tag_paths].sort() }]),
+  );
+}
+
+describe('FR-005: Rename and merge tags', () => {
+  it('renames a tag on every bookmark, trashed ones included, in place', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const first = await saveBookmark(userId, ['js', 'web']);
+      const second = await saveBookmark(userId, ['web', 'js']);
+      const trashed = await saveBookmark(userId, ['js'], '2026-10-01T00:00:00Z');
+      const untagged = await saveBookmark(userId, null);
+
+      expect(await renameTags(userId, ['js'], 'javascript')).toBe(3);
+
+      const tags = await tagsOf([first, second, trashed, untagged]);
+      expect(tags[first]?.tags).toEqual(['javascript', 'web']);
+      expect(tags[second]?.tags).toEqual(['web', 'javascript']);
+      expect(tags[trashed]?.tags).toEqual(['javascript']);
+      expect(tags[untagged]?.tags).toBeNull();
+    });
+  });
+
+  it('merges into an existing tag, keeping one copy where it first appeared', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const both = await saveBookmark(userId, ['ts', 'web', 'typescript']);
+      const sources = await saveBookmark(userId, ['typescript-lang', 'ts']);
+      const target = await saveBookmark(userId, ['typescript']);
+
+      expect(await renameTags(userId, ['ts', 'typescript-lang'], 'typescript')).toBe(2);
+
+      const tags = await tagsOf([both, sources, target]);
+      expect(tags[both]?.tags).toEqual(['typescript', 'web']);
+      expect(tags[sources]?.tags).toEqual(['typescript']);
+      expect(tags[target]?.tags).toEqual(['typescript']);
+    });
+  });
+
+  it('keeps a bookmark at the 20-tag limit valid when merging into a tag it has', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const tags = Array.from({ length: 20 }, (_, i) => `tag${i}`);
+      const full = await saveBookmark(userId, tags);
+
+      expect(await renameTags(userId, ['tag0', 'tag1'], 'tag19')).toBe(1);
+
+      // The merged tag takes the place of the first source
+      expect((await tagsOf([full]))[full]?.tags).toEqual(['tag19', ...tags.slice(2, 19)]);
+    });
+  });
+
+  it('renames only the exact tag, not its hierarchy children', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const parent = await saveBookmark(userId, ['dev']);
+      const child = await saveBookmark(userId, ['dev/rust']);
+
+      expect(await renameTags(userId, ['dev'], 'code')).toBe(1);
+
+      expect(await tagsOf([parent, child])).toEqual({
+        [parent]: { tags: ['code'], tag_paths: ['code'] },
+        [child]: { tags: ['dev/rust'], tag_paths: ['dev', 'dev/rust'] },
+      });
+    });
+  });
+
+  it('files a tag under a parent by renaming it to a path', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const bookmark = await saveBookmark(userId, ['rust']);
+
+      await renameTags(userId, ['rust'], 'dev/rust');
+
+      expect(await tagsOf([bookmark])).toEqual({
+        [bookmark]: { tags: ['dev/rust'], tag_paths: ['dev', 'dev/rust'] },
+      });
+    });
+  });
+
+  it("leaves other users' bookmarks untouched", async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const other = await saveBookmark(await createUser(db), ['js']);
+      await saveBookmark(userId, ['js']);
+
+      expect(await renameTags(userId, ['js'], 'javascript')).toBe(1);
+
+      expect((await tagsOf([other]))[other]?.tags).toEqual(['js']);
+    });
+  });
+});
+
+describe('FR-005: Delete tags', () => {
+  it('removes a tag from every bookmark and clears emptied tag lists', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const kept = await saveBookmark(userId, ['old', 'web']);
+      const emptied = await saveBookmark(userId, ['old']);
+      const trashed = await saveBookmark(userId, ['old'], '2026-10-01T00:00:00Z');
+
+      expect(await deleteTag(userId, 'old')).toBe(3);
+
+      const tags = await tagsOf([kept, emptied, trashed]);
+      expect(tags[kept]?.tags).toEqual(['web']);
+      expect(tags[emptied]).toEqual({ tags: null, tag_paths: [] });
+      expect(tags[trashed]?.tags).toBeNull();
+    });
+  });
+
+  it('deletes only the exact tag, not its hierarchy children', async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const bookmark = await saveBookmark(userId, ['dev', 'dev/rust']);
+
+      expect(await deleteTag(userId, 'dev')).toBe(1);
+
+      expect(await tagsOf([bookmark])).toEqual({
+        [bookmark]: { tags: ['dev/rust'], tag_paths: ['dev', 'dev/rust'] },
+      });
+    });
+  });
+
+  it("leaves other users' bookmarks untouched", async () => {
+    await rolledBack(db, async () => {
+      const userId = await createUser(db);
+      const other = await saveBookmark(await createUser(db), ['old']);
+
+      expect(await deleteTag(userId, 'old')).toBe(0);
+
+      expect((await tagsOf([other]))[other]?.tags).toEqual(['old']);
+    });
+  });
+});
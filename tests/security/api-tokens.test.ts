@@ -0,0 +1,256 @@
+/**
+ * @file Personal API token tests
+ * @purpose Verify token generation and hashing, the JWT a token is exchanged
+ *          for, token request validation, and that API tokens authenticate
+ *          through the auth middleware but cannot manage tokens, and that a
+ *          created token is never stored for an idempotent replay.
+ * @spec SPEC-2026-12
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import { verify } from 'hono/jwt';
+import { authMiddleware, requireSession } from '../../src/middleware/auth.js';
+import type { AuthEnv, AuthVariables } from '../../src/middleware/auth.js';
+import {
+  API_TOKEN_PREFIX,
+  generateApiToken,
+  hashApiToken,
+  isApiToken,
+  mintAccessToken,
+} from '../../src/lib/api-token.js';
+import { CreateApiTokenSchema } from '../../src/schemas/token.js';
+import tokens from '../../src/api/tokens/index.js';
+import { idempotency } from '../../src/middleware/idempotency.js';
+import type { ValidationVariables } from '../../src/middleware/validation.js';
+import { MemoryStore, type Entry } from './memory-idempotency-store.js';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const TOKEN_ID = '00000000-0000-4000-8000-000000000002';
+
+const env: AuthEnv = {
+  SUPABASE_URL: 'https://test.supabase.co',
+  SUPABASE_ANON_KEY: 'test-key',
+  SUPABASE_JWT_SECRET: 'test-jwt-secret',
+};
+
+function createTestApp() {
+  const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
+
+  app.use('/api/*', authMiddleware);
+  app.get('/api/whoami', (c) =>
+    c.json({
+      userId: c.get('userId'),
+      accessToken: c.get('accessToken'),
+      tokenScopes: c.get('tokenScopes'),
+    }),
+  );
+  app.get('/api/tokens', requireSession, (c) => c.json({ data: [] }));
+
+  return app;
+}
+
+/** Answers the token lookup as the database would for the given hash */
+function stubTokenLookup(knownHash: string) {
+  vi.stubGlobal('fetch', async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const { p_token_hash } = JSON.parse(String(init?.body)) as { p_token_hash: string };
+    const rows =
+      p_token_hash === knownHash
+        ? [{ token_id: TOKEN_ID, user_id: USER_ID, scopes: ['bookmarks:read'] }]
+        : [];
+    return Response.json(rows);
+  });
+}
+
+describe('Personal API tokens', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('Token generation', () => {
+    it('generates distinct, URL-safe tokens with a recognisable prefix', async () => {
+      const first = await generateApiToken();
+      const second = await generateApiToken();
+
+      expect(first.token).toMatch(/^bmk_[A-Za-z0-9_-]{43}$/);
+      expect(first.token).not.toBe(second.token);
+      expect(isApiToken(first.token)).toBe(true);
+      expect(isApiToken('eyJhbGciOiJIUzI1NiJ9.e30.sig')).toBe(false);
+    });
+
+    it('stores only the hash and a short display prefix', async () => {
+      const { token, hash, prefix } = await generateApiToken();
+
+      expect(hash).toBe(await hashApiToken(token));
+      expect(hash).not.toContain(token.slice(API_TOKEN_PREFIX.length));
+      expect(prefix).toBe(token.slice(0, 12));
+    });
+
+    it('mints a short-lived JWT for the token owner', async () => {
+      const jwt = await mintAccessToken(USER_ID, env.SUPABASE_JWT_SECRET);
+      const payload = await verify(jwt, env.SUPABASE_JWT_SECRET, 'HS256');
+
+      expect(payload).toMatchObject({ sub: USER_ID, role: 'authenticated', aud: 'authenticated' });
+      expect(Number(payload.exp) - Number(payload.iat)).toBeLessThanOrEqual(60);
+    });
+  });
+
+  describe('Token requests', () => {
+    it('requires a name and at least one known scope', () => {
+      expect(CreateApiTokenSchema.safeParse({ name: 'CLI', scopes: [] }).success).toBe(false);
+      expect(
+        CreateApiTokenSchema.safeParse({ name: ' ', scopes: ['bookmarks:read'] }).success,
+      ).toBe(false);
+      expect(CreateApiTokenSchema.safeParse({ name: 'CLI', scopes: ['admin'] }).success).toBe(
+        false,
+      );
+    });
+
+    it('removes repeated scopes and bounds the lifetime', () => {
+      expect(
+        CreateApiTokenSchema.parse({
+          name: 'CLI',
+          scopes: ['bookmarks:read', 'bookmarks:read', 'bookmarks:write'],
+        }),
+      ).toEqual({ name: 'CLI', scopes: ['bookmarks:read', 'bookmarks:write'] });
+      expect(
+        CreateApiTokenSchema.safeParse({
+          name: 'CLI',
+          scopes: ['bookmarks:read'],
+          expires_in_days: 366,
+        }).success,
+      ).toBe(false);
+    });
+  });
+
+  describe('Authentication', () => {
+    it('authenticates a known token as its owner with its scopes', async () => {
+      const { token, hash } = await generateApiToken();
+      stubTokenLookup(hash);
+
+      const res = await createTestApp().request(
+        '/api/whoami',
+        { headers: { Authorization: `Bearer ${token}` } },
+        env,
+      );
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as AuthVariables;
+      expect(body.userId).toBe(USER_ID);
+      expect(body.tokenScopes).toEqual(['bookmarks:read']);
+      // Queries are made with a JWT of the owner, never with the token itself
+      expect(body.accessToken).not.toBe(token);
+      expect(await verify(body.accessToken, env.SUPABASE_JWT_SECRET, 'HS256')).toMatchObject({
+        sub: USER_ID,
+      });
+    });
+
+    it('rejects unknown, revoked or expired tokens with 401', async () => {
+      stubTokenLookup('no-such-hash');
+      const { token } = await generateApiToken();
+
+      const res = await createTestApp().request(
+        '/api/whoami',
+        { headers: { Authorization: `Bearer ${token}` } },
+        env,
+      );
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: 'Invalid or expired token' });
+    });
+
+    it('does not let an API token manage tokens', async () => {
+      const { token, hash } = await generateApiToken();
+      stubTokenLookup(hash);
+
+      const res = await createTestApp().request(
+        '/api/tokens',
+        { headers: { Authorization: `Bearer ${token}` } },
+        env,
+      );
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('Idempotency-Key on token routes', () => {
+    /** Mounts the token routes behind idempotency, as a session or an API token */
+    function createTokenApp(entries: Map<string, Entry>) {
+      const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables & ValidationVariables }>();
+      app.use('*', async (c, next) => {
+        c.set('userId', 'user-1');
+        c.set('accessToken', 'test-jwt');
+        c.set('tokenScopes', c.req.header('X-Test-Token') ? ['bookmarks:read'] : null);
+        await next();
+      });
+      app.use('*', idempotency({ store: (c) => new MemoryStore(entries, c.get('userId')) }));
+      app.route('/api/tokens', tokens);
+      return app;
+    }
+
+    /** Answers each token insert with the created row */
+    function stubTokenInsert() {
+      vi.stubGlobal('fetch', async () =>
+        Response.json(
+          {
+            id: '00000000-0000-4000-8000-000000000002',
+            name: 'CLI',
+            token_prefix: 'bmk_abcd',
+            scopes: ['bookmarks:read'],
+            created_at: '2026-10-01T00:00:00.000000+00:00',
+            last_used_at: null,
+            expires_at: null,
+          },
+          { status: 201 },
+        ),
+      );
+    }
+
+    /** Creates a token with the same Idempotency-Key every time */
+    function createToken(
+      app: ReturnType<typeof createTokenApp>,
+      headers: Record<string, string> = {},
+    ) {
+      return app.request(
+        '/api/tokens',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Idempotency-Key': 'token-1', ...headers },
+          body: JSON.stringify({ name: 'CLI', scopes: ['bookmarks:read'] }),
+        },
+        env,
+      );
+    }
+
+    it('never stores or replays a created token', async () => {
+      const entries = new Map<string, Entry>();
+      const app = createTokenApp(entries);
+      stubTokenInsert();
+      const first = await createToken(app);
+      const retry = await createToken(app);
+
+      expect(first.status).toBe(201);
+      expect(retry.status).toBe(201);
+      expect(retry.headers.get('Idempotent-Replayed')).toBeNull();
+      // Only the token value is compared; its shape is covered by the token tests
+      const secrets = await Promise.all(
+        [first, retry].map(
+          async (res) => ((await res.json()) as { data: { token: string } }).data.token,
+        ),
+      );
+      expect(secrets[0]).not.toBe(secrets[1]);
+      expect(entries.size).toBe(0);
+    });
+
+    it('still refuses an API token that retries a session-created key', async () => {
+      const app = createTokenApp(new Map());
+      stubTokenInsert();
+
+      await createToken(app);
+      const res = await createToken(app, { 'X-Test-Token': 'yes' });
+
+      expect(res.status).toBe(403);
+      expect(JSON.stringify(await res.json())).not.toContain('bmk_');
+    });
+  });
+});
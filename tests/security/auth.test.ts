@@ -1,14 +1,18 @@
 /**
  * @file Authentication middleware tests
  * @purpose Verify that authentication middleware correctly rejects
- *          unauthenticated requests and allows public auth routes through.
+ *          unauthenticated requests and allows public auth routes through,
+ *          and that API tokens only reach routes their scopes cover.
  * @spec N/A (bootstrap security verification)
  */
 
-import { describe, it, expect } from 'vitest';
+import { afterEach, describe, it, expect, vi } from 'vitest';
 import { Hono } from 'hono';
-import { authMiddleware } from '../../src/middleware/auth.js';
+import { authMiddleware, requireScope } from '../../src/middleware/auth.js';
 import type { AuthEnv, AuthVariables } from '../../src/middleware/auth.js';
+import { generateApiToken } from '../../src/lib/api-token.js';
+import type { ApiTokenScope } from '../../src/schemas/token.js';
+import worker from '../../src/index.js';
 
 function createTestApp() {
   const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables }>();
@@ -23,6 +27,9 @@ function createTestApp() {
     return c.json({ status: 'login page' });
   });
 
+  app.get('/api/public/shares/1', (c) => c.json({ status: 'shared' }));
+  app.get('/api/publications', (c) => c.json({ status: 'private' }));
+
   app.get('/health', (c) => c.json({ status: 'ok' }));
 
   return app;
@@ -84,6 +91,20 @@ describe('Authentication Middleware', () => {
       const body = (await res.json()) as { status: string };
       expect(body.status).toBe('login page');
     });
+
+    it('allows /api/public/* routes without authentication', async () => {
+      const app = createTestApp();
+      const res = await app.request('/api/public/shares/1');
+
+      expect(res.status).toBe(200);
+    });
+
+    it('does not treat paths that only start with a public prefix as public', async () => {
+      const app = createTestApp();
+      const res = await app.request('/api/publications');
+
+      expect(res.status).toBe(401);
+    });
   });
 
   describe('Non-API Routes', () => {
@@ -94,4 +115,119 @@ describe('Authentication Middleware', () => {
       expect(res.status).toBe(200);
     });
   });
+
+  describe('Scope Enforcement', () => {
+    const env = {
+      SUPABASE_URL: 'https://test.supabase.co',
+      SUPABASE_ANON_KEY: 'test-key',
+      SUPABASE_JWT_SECRET: 'test-jwt-secret',
+    } as AuthEnv;
+
+    function createScopedApp(tokenScopes: ApiTokenScope[] | null) {
+      const app = new Hono<{ Variables: AuthVariables }>();
+      app.use('*', async (c, next) => {
+        c.set('userId', 'user-1');
+        c.set('tokenScopes', tokenScopes);
+        await next();
+      });
+      app.delete('/api/bookmarks/1', requireScope('bookmarks:write'), (c) => c.body(null, 204));
+      return app;
+    }
+
+    /** Authenticates every API token as user-1 with the given scopes */
+    async function tokenWithScopes(scopes: ApiTokenScope[]): Promise<string> {
+      const { token } = await generateApiToken();
+      vi.stubGlobal('fetch', async () =>
+        Response.json([{ token_id: 'token-1', user_id: 'user-1', scopes }]),
+      );
+      return token;
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('returns 403 with the missing scope when the token lacks it', async () => {
+      const res = await createScopedApp(['bookmarks:read']).request('/api/bookmarks/1', {
+        method: 'DELETE',
+      });
+
+      expect(res.status).toBe(403);
+      expect(await res.json()).toEqual({
+        error: 'Insufficient scope',
+        details: { required: 'bookmarks:write' },
+      });
+      expect(res.headers.get('WWW-Authenticate')).toBe(
+        'Bearer error="insufficient_scope", scope="bookmarks:write"',
+      );
+    });
+
+    it('allows tokens that hold the scope', async () => {
+      const res = await createScopedApp(['bookmarks:read', 'bookmarks:write']).request(
+        '/api/bookmarks/1',
+        { method: 'DELETE' },
+      );
+      expect(res.status).toBe(204);
+    });
+
+    it('never limits sessions', async () => {
+      const res = await createScopedApp(null).request('/api/bookmarks/1', { method: 'DELETE' });
+      expect(res.status).toBe(204);
+    });
+
+    it('guards every bookmark and tag route of the application', async () => {
+      const id = '00000000-0000-4000-8000-000000000001';
+      const reads: [string, string][] = [
+        ['GET', '/api/bookmarks'],
+        ['GET', `/api/bookmarks/${id}`],
+        ['GET', '/api/bookmarks/tags'],
+        ['GET', '/api/bookmarks/tags/suggest?prefix=a'],
+        ['POST', '/api/bookmarks/tags/suggest'],
+        ['GET', '/api/bookmarks/trash'],
+        ['GET', '/api/bookmarks/export'],
+        ['GET', '/api/bookmarks/duplicates'],
+      ];
+      const writes: [string, string][] = [
+        ['POST', '/api/bookmarks'],
+        ['PUT', `/api/bookmarks/${id}`],
+        ['PATCH', `/api/bookmarks/${id}`],
+        ['DELETE', `/api/bookmarks/${id}`],
+        ['POST', `/api/bookmarks/${id}/restore`],
+        ['POST', `/api/bookmarks/${id}/check`],
+        ['POST', '/api/bookmarks/bulk'],
+        ['POST', '/api/bookmarks/import'],
+        ['POST', '/api/bookmarks/tags/merge'],
+        ['PATCH', '/api/bookmarks/tags/dev'],
+        ['DELETE', '/api/bookmarks/tags/dev'],
+      ];
+
+      const cases = [
+        ...reads.map(([method, path]) => ({ method, path, scope: 'bookmarks:read' })),
+        ...writes.map(([method, path]) => ({ method, path, scope: 'bookmarks:write' })),
+      ];
+
+      // A token holding every other scope is still refused each route
+      for (const { method, path, scope } of cases) {
+        const others: ApiTokenScope[] = [
+          'bookmarks:read',
+          'bookmarks:write',
+          'collections:read',
+          'collections:write',
+        ].filter((other): other is ApiTokenScope => other !== scope);
+        const token = await tokenWithScopes(others);
+
+        const res = await worker.fetch(
+          new Request(`http://localhost${path}`, {
+            method,
+            headers: { Authorization: `Bearer ${token}` },
+          }),
+          env,
+          {} as ExecutionContext,
+        );
+
+        expect({ method, path, status: res.status }).toEqual({ method, path, status: 403 });
+        expect(await res.json()).toMatchObject({ details: { required: scope } });
+      }
+    });
+  });
 });
@@ -0,0 +1,106 @@
+/**
+ * @file Conditional request tests
+ * @purpose Verify bookmark ETags, If-None-Match and If-Match evaluation, and
+ *          that 304 responses keep the no-store rules for authenticated requests.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { headersMiddleware } from '../../src/middleware/headers.js';
+import { bookmarkEtag, bookmarkListEtag, etagMatches, jsonWithEtag } from '../../src/lib/etag.js';
+
+const bookmark = {
+  id: '5b2a3f9e-8c1d-4e6f-9a7b-1c2d3e4f5a6b',
+  updated_at: '2026-10-19T10:00:00.123456+00:00',
+  last_checked_at: null,
+};
+
+function createTestApp() {
+  const app = new Hono();
+  app.use('*', headersMiddleware);
+  app.get('/bookmark', async (c) =>
+    jsonWithEtag(c, { data: bookmark }, await bookmarkEtag(bookmark)),
+  );
+  return app;
+}
+
+describe('ETags', () => {
+  it('derives a stable, strong, opaque ETag from the bookmark version', async () => {
+    const etag = await bookmarkEtag(bookmark);
+    expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(await bookmarkEtag({ ...bookmark })).toBe(etag);
+    expect(etag).not.toContain(bookmark.id);
+  });
+
+  it('changes when the bookmark is edited or its link is checked', async () => {
+    const etag = await bookmarkEtag(bookmark);
+    expect(
+      await bookmarkEtag({ ...bookmark, updated_at: '2026-10-19T10:00:00.123457+00:00' }),
+    ).not.toBe(etag);
+    expect(
+      await bookmarkEtag({ ...bookmark, last_checked_at: '2026-10-19T11:00:00+00:00' }),
+    ).not.toBe(etag);
+  });
+
+  it('gives pages a weak ETag that changes with their bookmarks and boundaries', async () => {
+    const meta = { nextCursor: null, hasMore: false };
+    const etag = await bookmarkListEtag([bookmark], meta);
+    expect(etag).toMatch(/^W\/"[0-9a-f]{32}"$/);
+    expect(await bookmarkListEtag([], meta)).not.toBe(etag);
+    expect(await bookmarkListEtag([bookmark], { nextCursor: 'abc', hasMore: true })).not.toBe(etag);
+  });
+});
+
+describe('Precondition evaluation', () => {
+  it('matches any listed ETag and the wildcard', () => {
+    expect(etagMatches('"a", "b"', '"b"', true)).toBe(true);
+    expect(etagMatches('*', '"b"', true)).toBe(true);
+    expect(etagMatches('"a"', '"b"', true)).toBe(false);
+  });
+
+  it('uses strong comparison for If-Match and weak comparison for If-None-Match', () => {
+    expect(etagMatches('W/"a"', '"a"', true)).toBe(false);
+    expect(etagMatches('"a"', 'W/"a"', true)).toBe(false);
+    expect(etagMatches('W/"a"', '"a"', false)).toBe(true);
+    expect(etagMatches('"a"', 'W/"a"', false)).toBe(true);
+  });
+});
+
+describe('Conditional reads', () => {
+  it('returns the body with its ETag when the client has no copy', async () => {
+    const res = await createTestApp().request('/bookmark');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('ETag')).toBe(await bookmarkEtag(bookmark));
+    expect(await res.json()).toEqual({ data: bookmark });
+  });
+
+  it('returns 304 without a body when If-None-Match names the current ETag', async () => {
+    const etag = await bookmarkEtag(bookmark);
+    const res = await createTestApp().request('/bookmark', {
+      headers: { 'If-None-Match': `"stale", ${etag}` },
+    });
+    expect(res.status).toBe(304);
+    expect(res.headers.get('ETag')).toBe(etag);
+    expect(await res.text()).toBe('');
+  });
+
+  it('returns the body when If-None-Match names an older ETag', async () => {
+    const res = await createTestApp().request('/bookmark', {
+      headers: { 'If-None-Match': '"stale"' },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it('keeps no-store cache control on authenticated 304 responses', async () => {
+    const res = await createTestApp().request('/bookmark', {
+      headers: {
+        Authorization: 'Bearer test-token',
+        'If-None-Match': await bookmarkEtag(bookmark),
+      },
+    });
+    expect(res.status).toBe(304);
+    expect(res.headers.get('Cache-Control')).toBe('no-store, no-cache, must-revalidate');
+    expect(res.headers.get('X-Content-Type-Options')).toBe('nosniff');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @file Idempotency key storage tests
+ * @purpose Verify how the database store claims keys: a claim is held while
+ *          its lease lasts, only one retry takes over a stale claim, and a
+ *          failed database call is reported rather than taken for a conflict.
+ * @spec SPEC-2026-12
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { createClient } from '@supabase/supabase-js';
+import { IdempotencyService } from '../../src/lib/idempotency-service.js';
+import { IDEMPOTENCY_LEASE_MS } from '../../src/middleware/idempotency.js';
+
+describe('Idempotency key leases', () => {
+  const service = () =>
+    new IdempotencyService(createClient('https://test.supabase.co', 'test-key'), 'user-1');
+
+  /** A claim found in progress, whose lease ends the given time from now */
+  function inProgress(leaseLeftMs: number) {
+    return Response.json({
+      request_hash: 'hash-1',
+      response_status: null,
+      response_content_type: null,
+      response_body: null,
+      locked_until: new Date(Date.now() + leaseLeftMs).toISOString(),
+    });
+  }
+
+  /** Answers the claim's database calls in order and records their methods */
+  function stubDatabase(...responses: Response[]) {
+    const methods: string[] = [];
+    vi.stubGlobal('fetch', async (_input: RequestInfo | URL, init?: RequestInit) => {
+      methods.push(init?.method ?? 'GET');
+      return responses.shift() ?? Response.json([]);
+    });
+    return methods;
+  }
+
+  const claimed = () =>
+    Response.json({ code: '23505', message: 'duplicate key value' }, { status: 409 });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps a claim in progress while its lease lasts', async () => {
+    const methods = stubDatabase(Response.json([]), claimed(), inProgress(30_000));
+
+    const claim = await service().claim('key-1', 'hash-1', 60_000, IDEMPOTENCY_LEASE_MS);
+
+    expect(claim).toEqual({ outcome: 'in_progress' });
+    expect(methods).toEqual(['DELETE', 'POST', 'GET']);
+  });
+
+  it('lets a retry take over a claim whose lease has run out', async () => {
+    const methods = stubDatabase(
+      Response.json([]),
+      claimed(),
+      inProgress(-1_000),
+      Response.json([{ key: 'key-1' }]),
+    );
+
+    const claim = await service().claim('key-1', 'hash-1', 60_000, IDEMPOTENCY_LEASE_MS);
+
+    expect(claim).toEqual({ outcome: 'claimed' });
+    expect(methods).toEqual(['DELETE', 'POST', 'GET', 'PATCH']);
+  });
+
+  it('lets only one retry take over a stale claim', async () => {
+    stubDatabase(Response.json([]), claimed(), inProgress(-1_000), Response.json([]));
+
+    const claim = await service().claim('key-1', 'hash-1', 60_000, IDEMPOTENCY_LEASE_MS);
+
+    expect(claim).toEqual({ outcome: 'in_progress' });
+  });
+
+  it('fails the claim when the expired key cannot be removed', async () => {
+    const methods = stubDatabase(
+      Response.json({ code: '57014', message: 'canceling statement' }, { status: 500 }),
+    );
+
+    await expect(service().claim('key-1', 'hash-1', 60_000, IDEMPOTENCY_LEASE_MS)).rejects.toThrow(
+      'Failed to store idempotency key',
+    );
+    expect(methods).toEqual(['DELETE']);
+  });
+});
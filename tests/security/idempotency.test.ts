@@ -0,0 +1,240 @@
+/**
+ * @file Idempotency middleware tests
+ * @purpose Verify that retried mutations with an Idempotency-Key are replayed
+ *          rather than repeated, and that reused or concurrent keys are rejected.
+ * @spec SPEC-2026-12
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { idempotency } from '../../src/middleware/idempotency.js';
+import { validateBody, type ValidationVariables } from '../../src/middleware/validation.js';
+import { requireScope, type AuthEnv, type AuthVariables } from '../../src/middleware/auth.js';
+import type { ApiTokenScope } from '../../src/schemas/token.js';
+import { MemoryStore, type Entry } from './memory-idempotency-store.js';
+
+/** A store whose responses cannot be saved, as when the database is down */
+class UnwritableStore extends MemoryStore {
+  async complete(): Promise<void> {
+    throw new Error('Failed to store idempotency key');
+  }
+}
+
+function createTestApp(Store: typeof MemoryStore = MemoryStore) {
+  const entries = new Map<string, Entry>();
+  const app = new Hono<{ Bindings: AuthEnv; Variables: AuthVariables & ValidationVariables }>();
+  let created = 0;
+  let failures = 0;
+  let release: (() => void) | undefined;
+
+  app.use('*', async (c, next) => {
+    c.set('userId', c.req.header('X-Test-User') ?? 'user-1');
+    // A comma-separated list stands in for the scopes of an API token
+    const scopes = c.req.header('X-Test-Scopes');
+    c.set('tokenScopes', scopes === undefined ? null : (scopes.split(',') as ApiTokenScope[]));
+    await next();
+  });
+  app.use('*', idempotency({ store: (c) => new Store(entries, c.get('userId')) }));
+
+  app.post('/things', validateBody(z.object({ name: z.string().min(1) })), (c) => {
+    created += 1;
+    return c.json({ id: created, ...(c.get('validatedBody') as object) }, 201);
+  });
+  app.post('/scoped', requireScope('bookmarks:write'), (c) => {
+    created += 1;
+    return c.json({ id: created }, 201);
+  });
+  app.delete('/things/1', (c) => c.body(null, 204));
+  app.get('/things', (c) => c.json({ created }));
+  app.post('/flaky', (c) => {
+    failures += 1;
+    return failures === 1 ? c.json({ error: 'Failed' }, 500) : c.json({ ok: true });
+  });
+  app.post('/slow', async (c) => {
+    await new Promise<void>((resolve) => (release = resolve));
+    return c.json({ ok: true });
+  });
+
+  return { app, count: () => created, finishSlow: () => release?.() };
+}
+
+function post(
+  path: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): [string, RequestInit] {
+  return [
+    path,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    },
+  ];
+}
+
+describe('Idempotency-Key', () => {
+  it('runs the first request and replays retries without repeating them', async () => {
+    const { app, count } = createTestApp();
+    const request = post('/things', { name: 'a' }, { 'Idempotency-Key': 'key-1' });
+
+    const first = await app.request(...request);
+    const retry = await app.request(...request);
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(await retry.json()).toEqual(await first.json());
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(retry.headers.get('Content-Type')).toContain('application/json');
+    expect(count()).toBe(1);
+  });
+
+  it('still passes the body to validation after reading it', async () => {
+    const { app } = createTestApp();
+    const res = await app.request(...post('/things', { name: '' }, { 'Idempotency-Key': 'k' }));
+    expect(res.status).toBe(400);
+  });
+
+  it('replays empty responses', async () => {
+    const { app } = createTestApp();
+    const init = { method: 'DELETE', headers: { 'Idempotency-Key': 'delete-1' } };
+    expect((await app.request('/things/1', init)).status).toBe(204);
+    const retry = await app.request('/things/1', init);
+    expect(retry.status).toBe(204);
+    expect(await retry.text()).toBe('');
+  });
+
+  it('rejects a key reused with a different payload with 422', async () => {
+    const { app, count } = createTestApp();
+    await app.request(...post('/things', { name: 'a' }, { 'Idempotency-Key': 'key-1' }));
+    const res = await app.request(
+      ...post('/things', { name: 'b' }, { 'Idempotency-Key': 'key-1' }),
+    );
+    expect(res.status).toBe(422);
+    expect(count()).toBe(1);
+  });
+
+  it('rejects a key reused on a different route with 422', async () => {
+    const { app } = createTestApp();
+    await app.request(...post('/things', { name: 'a' }, { 'Idempotency-Key': 'key-1' }));
+    const res = await app.request(...post('/flaky', { name: 'a' }, { 'Idempotency-Key': 'key-1' }));
+    expect(res.status).toBe(422);
+  });
+
+  it('keeps keys separate per user', async () => {
+    const { app, count } = createTestApp();
+    await app.request(...post('/things', { name: 'a' }, { 'Idempotency-Key': 'key-1' }));
+    const res = await app.request(
+      ...post('/things', { name: 'a' }, { 'Idempotency-Key': 'key-1', 'X-Test-User': 'user-2' }),
+    );
+    expect(res.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(count()).toBe(2);
+  });
+
+  it('rejects a retry while the first request is still running with 409', async () => {
+    const { app, finishSlow } = createTestApp();
+    const request = post('/slow', {}, { 'Idempotency-Key': 'slow-1' });
+
+    const first = app.request(...request);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const concurrent = await app.request(...request);
+    finishSlow();
+
+    expect(concurrent.status).toBe(409);
+    expect((await first).status).toBe(200);
+  });
+
+  it('does not store server errors, so the request can be retried', async () => {
+    const { app } = createTestApp();
+    const request = post('/flaky', {}, { 'Idempotency-Key': 'flaky-1' });
+    expect((await app.request(...request)).status).toBe(500);
+    const retry = await app.request(...request);
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('Idempotent-Replayed')).toBeNull();
+  });
+
+  it('does not replay a response to a caller with other scopes', async () => {
+    const { app, count } = createTestApp();
+    await app.request(...post('/scoped', {}, { 'Idempotency-Key': 'scoped-1' }));
+
+    const res = await app.request(
+      ...post('/scoped', {}, { 'Idempotency-Key': 'scoped-1', 'X-Test-Scopes': 'bookmarks:read' }),
+    );
+
+    expect(res.status).toBe(422);
+    expect(count()).toBe(1);
+  });
+
+  it('replays to a caller with the same scopes in any order', async () => {
+    const { app } = createTestApp();
+    await app.request(
+      ...post(
+        '/scoped',
+        {},
+        {
+          'Idempotency-Key': 'scoped-1',
+          'X-Test-Scopes': 'bookmarks:read,bookmarks:write',
+        },
+      ),
+    );
+
+    const res = await app.request(
+      ...post(
+        '/scoped',
+        {},
+        {
+          'Idempotency-Key': 'scoped-1',
+          'X-Test-Scopes': 'bookmarks:write,bookmarks:read',
+        },
+      ),
+    );
+
+    expect(res.headers.get('Idempotent-Replayed')).toBe('true');
+  });
+
+  it('does not store authorization failures, so the key can be used once allowed', async () => {
+    const { app, count } = createTestApp();
+    const denied = await app.request(
+      ...post('/scoped', {}, { 'Idempotency-Key': 'scoped-1', 'X-Test-Scopes': 'bookmarks:read' }),
+    );
+
+    const res = await app.request(...post('/scoped', {}, { 'Idempotency-Key': 'scoped-1' }));
+
+    expect(denied.status).toBe(403);
+    expect(res.status).toBe(201);
+    expect(res.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(count()).toBe(1);
+  });
+
+  it("returns the route's response when it cannot be stored", async () => {
+    const { app, count } = createTestApp(UnwritableStore);
+
+    const res = await app.request(...post('/things', { name: 'a' }, { 'Idempotency-Key': 'k' }));
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ id: 1, name: 'a' });
+    expect(count()).toBe(1);
+  });
+
+  it('runs every request that has no key', async () => {
+    const { app, count } = createTestApp();
+    await app.request(...post('/things', { name: 'a' }));
+    await app.request(...post('/things', { name: 'a' }));
+    expect(count()).toBe(2);
+  });
+
+  it('ignores the header on safe methods', async () => {
+    const { app } = createTestApp();
+    const res = await app.request('/things', { headers: { 'Idempotency-Key': 'key-1' } });
+    expect(res.status).toBe(200);
+  });
+
+  it('rejects malformed keys', async () => {
+    const { app } = createTestApp();
+    for (const key of ['has space', 'x'.repeat(256)]) {
+      const res = await app.request(...post('/things', { name: 'a' }, { 'Idempotency-Key': key }));
+      expect(res.status).toBe(400);
+    }
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @file In-memory idempotency store for tests
+ * @purpose Lets middleware tests run idempotency without a database, and
+ *          inspect what was stored
+ * @inputs A shared map of entries and the user a store acts for
+ * @outputs An IdempotencyStore backed by the map
+ * @invariants Keys are scoped per user like the database store. Leases are
+ *             not modelled: a claim without a response stays in progress.
+ * @spec SPEC-2026-12
+ */
+
+import type {
+  IdempotencyClaim,
+  IdempotencyStore,
+  StoredResponse,
+} from '../../src/lib/idempotency-service.js';
+
+/** A key's request fingerprint and, once the request finished, its response */
+export interface Entry {
+  requestHash: string;
+  response: StoredResponse | null;
+}
+
+/** Keeps keys in memory, scoped per user like the database store */
+export class MemoryStore implements IdempotencyStore {
+  constructor(
+    private entries: Map<string, Entry>,
+    private userId: string,
+  ) {}
+
+  async claim(key: string, requestHash: string): Promise<IdempotencyClaim> {
+    const existing = this.entries.get(`${this.userId}:${key}`);
+    if (!existing) {
+      this.entries.set(`${this.userId}:${key}`, { requestHash, response: null });
+      return { outcome: 'claimed' };
+    }
+    if (existing.requestHash !== requestHash) {
+      return { outcome: 'mismatch' };
+    }
+    return existing.response
+      ? { outcome: 'replay', response: existing.response }
+      : { outcome: 'in_progress' };
+  }
+
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    const entry = this.entries.get(`${this.userId}:${key}`);
+    if (entry) {
+      entry.response = response;
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.entries.delete(`${this.userId}:${key}`);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * @file Rate limiting middleware tests
+ * @purpose Verify that budgets are counted per user (or per client address
+ *          without a user), that spent budgets are answered with 429 and
+ *          Retry-After, and that RateLimit-* headers describe the tightest budget.
+ * @spec SPEC-2026-12
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import { rateLimit, type RateLimitBudget } from '../../src/middleware/rate-limit.js';
+import type { AuthVariables } from '../../src/middleware/auth.js';
+import { MemoryRateLimitStore, type RateLimitStore } from '../../src/lib/rate-limit-store.js';
+
+const perMinute = (name: string, limit: number, methods?: string[]): RateLimitBudget => ({
+  name,
+  limit,
+  windowMs: 60_000,
+  methods,
+});
+
+function createTestApp(store: RateLimitStore = new MemoryRateLimitStore()) {
+  const app = new Hono<{ Variables: AuthVariables }>();
+
+  app.use('*', async (c, next) => {
+    const userId = c.req.header('X-Test-User');
+    if (userId) {
+      c.set('userId', userId);
+    }
+    await next();
+  });
+  app.use('*', rateLimit(perMinute('api', 5), { store: () => store }));
+  app.use('/things', rateLimit(perMinute('create', 2, ['POST']), { store: () => store }));
+
+  app.get('/things', (c) => c.json({ ok: true }));
+  app.post('/things', (c) => c.json({ ok: true }, 201));
+
+  return app;
+}
+
+function as(userId: string, method = 'GET'): RequestInit {
+  return { method, headers: { 'X-Test-User': userId } };
+}
+
+describe('Rate limiting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:15Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports the budget in RateLimit-* headers', async () => {
+    const app = createTestApp();
+    const res = await app.request('/things', as('user-1'));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('RateLimit-Limit')).toBe('5');
+    expect(res.headers.get('RateLimit-Remaining')).toBe('4');
+    expect(res.headers.get('RateLimit-Reset')).toBe('45');
+    expect(res.headers.get('RateLimit-Policy')).toBe('5;w=60');
+  });
+
+  it('answers with 429 and Retry-After once the budget is spent', async () => {
+    const app = createTestApp();
+    for (let i = 0; i < 5; i++) {
+      expect((await app.request('/things', as('user-1'))).status).toBe(200);
+    }
+
+    const res = await app.request('/things', as('user-1'));
+    expect(res.status).toBe(429);
+    expect(await res.json()).toEqual({ error: 'Too many requests' });
+    expect(res.headers.get('Retry-After')).toBe('45');
+    expect(res.headers.get('RateLimit-Remaining')).toBe('0');
+  });
+
+  it('counts each user separately', async () => {
+    const app = createTestApp();
+    for (let i = 0; i < 5; i++) {
+      await app.request('/things', as('user-1'));
+    }
+    expect((await app.request('/things', as('user-2'))).status).toBe(200);
+  });
+
+  it('counts requests without a user by client address', async () => {
+    const app = createTestApp();
+    const from = (ip: string) => ({ headers: { 'CF-Connecting-IP': ip } });
+    for (let i = 0; i < 5; i++) {
+      await app.request('/things', from('203.0.113.1'));
+    }
+
+    expect((await app.request('/things', from('203.0.113.1'))).status).toBe(429);
+    expect((await app.request('/things', from('203.0.113.2'))).status).toBe(200);
+  });
+
+  it('applies route budgets on top of the overall budget', async () => {
+    const app = createTestApp();
+    const first = await app.request('/things', as('user-1', 'POST'));
+    expect(first.headers.get('RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1');
+
+    await app.request('/things', as('user-1', 'POST'));
+    expect((await app.request('/things', as('user-1', 'POST'))).status).toBe(429);
+    // Reads are only held to the overall budget, of which 2 requests remain
+    const read = await app.request('/things', as('user-1'));
+    expect(read.status).toBe(200);
+    expect(read.headers.get('RateLimit-Remaining')).toBe('1');
+  });
+
+  it('starts a fresh budget when the window ends', async () => {
+    const app = createTestApp();
+    for (let i = 0; i < 6; i++) {
+      await app.request('/things', as('user-1'));
+    }
+
+    vi.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    const res = await app.request('/things', as('user-1'));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('RateLimit-Remaining')).toBe('4');
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const app = createTestApp({
+      increment: () => Promise.reject(new Error('unavailable')),
+    });
+    const res = await app.request('/things', as('user-1'));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('RateLimit-Limit')).toBeNull();
+  });
+});
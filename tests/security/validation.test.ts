@@ -9,7 +9,11 @@
 import { describe, it, expect } from 'vitest';
 import { Hono } from 'hono';
 import { z } from 'zod';
-import { validateBody, validateQuery } from '../../src/middleware/validation.js';
+import {
+  validateBody,
+  validateBodyByType,
+  validateQuery,
+} from '../../src/middleware/validation.js';
 import type { ValidationVariables } from '../../src/middleware/validation.js';
 
 const TestBodySchema = z.object({
@@ -44,6 +48,21 @@ function createTestApp() {
     return c.json({ received: data });
   });
 
+  app.put(
+    '/api/test',
+    validateBody(z.object({ mode: z.string().default('standard') }), { optional: true }),
+    (c) => c.json({ received: c.get('validatedBody') }),
+  );
+
+  app.patch(
+    '/api/test',
+    validateBodyByType({
+      'application/json': TestBodySchema,
+      'application/json-patch+json': z.array(z.object({ op: z.string() })),
+    }),
+    (c) => c.json({ received: c.get('validatedBody') }),
+  );
+
   app.get('/api/search', validateQuery(TestQuerySchema), (c) => {
     const query = c.get('validatedQuery');
     return c.json({ query });
@@ -127,6 +146,22 @@ describe('Validation Middleware', () => {
       expect(body.error).toBe('Invalid JSON in request body');
     });
 
+    it('validates an empty body as an empty object when the body is optional', async () => {
+      const app = createTestApp();
+      const empty = await app.request('/api/test', { method: 'PUT' });
+      expect(empty.status).toBe(200);
+      expect(await empty.json()).toEqual({ received: { mode: 'standard' } });
+
+      const invalid = await app.request('/api/test', { method: 'PUT', body: 'not json' });
+      expect(invalid.status).toBe(400);
+    });
+
+    it('rejects an empty body when the body is required', async () => {
+      const app = createTestApp();
+      const res = await app.request('/api/test', { method: 'POST' });
+      expect(res.status).toBe(400);
+    });
+
     it('strips unknown fields from validated data', async () => {
       const app = createTestApp();
       const res = await app.request('/api/test', {
@@ -152,6 +187,51 @@ describe('Validation Middleware', () => {
     });
   });
 
+  describe('Body Validation by Content-Type (ASVS V5)', () => {
+    it('validates the body against the schema for its content type', async () => {
+      const app = createTestApp();
+      const res = await app.request('/api/test', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json-patch+json' },
+        body: JSON.stringify([{ op: 'remove' }]),
+      });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ received: [{ op: 'remove' }] });
+    });
+
+    it('ignores media type parameters', async () => {
+      const app = createTestApp();
+      const res = await app.request('/api/test', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json; charset=utf-8' },
+        body: JSON.stringify({ name: 'Test' }),
+      });
+      expect(res.status).toBe(200);
+    });
+
+    it('rejects a body that does not match the schema for its content type', async () => {
+      const app = createTestApp();
+      const res = await app.request('/api/test', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json-patch+json' },
+        body: JSON.stringify({ name: 'Test' }),
+      });
+      expect(res.status).toBe(400);
+    });
+
+    it('rejects unsupported content types with 415', async () => {
+      const app = createTestApp();
+      const res = await app.request('/api/test', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'text/plain' },
+        body: 'name=Test',
+      });
+      expect(res.status).toBe(415);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error).toBe('Unsupported content type');
+    });
+  });
+
   describe('Query Validation (ASVS V5)', () => {
     it('passes valid query parameters to handler', async () => {
       const app = createTestApp();